@@ -15,6 +15,7 @@ export default {
         ],
     },
     testMatch: ['**/__tests__/**/*.test.ts'],
+    setupFiles: ['<rootDir>/src/__tests__/setup.ts'],
     verbose: true,
     forceExit: true,
     clearMocks: true,
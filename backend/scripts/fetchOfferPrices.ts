@@ -1,13 +1,6 @@
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
-import { allOffers } from '../src/data/allOffersData.js';
+import offerService from '../src/services/OfferService.js';
 import { KassalProvider } from '../src/services/providers/KassalProvider.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const OUTPUT_FILE = path.join(__dirname, '../src/data/offerPrices.json');
-
 const kassalProvider = new KassalProvider();
 
 async function delay(ms: number) {
@@ -15,25 +8,22 @@ async function delay(ms: number) {
 }
 
 async function fetchAllPrices() {
-    console.log(`Starting price fetch for ${allOffers.length} offers...`);
-    const priceMap: Record<string, number> = {};
-
-    // Load existing so we don't refetch everything if it fails halfway
-    if (fs.existsSync(OUTPUT_FILE)) {
-        try {
-            const existing = JSON.parse(fs.readFileSync(OUTPUT_FILE, 'utf-8'));
-            Object.assign(priceMap, existing);
-            console.log(`Loaded ${Object.keys(priceMap).length} existing prices from cache.`);
-        } catch (e) {
-            console.error('Failed to load existing cache', e);
-        }
+    // Regular shelf prices are stored on the current week's offer batches (original_price)
+    for (const batch of offerService.getCurrentBatches()) {
+        await fetchBatchPrices(batch.chain, batch.week);
     }
+}
+
+async function fetchBatchPrices(chain: string, week: string) {
+    const allOffers = offerService.getBatch(chain, week)?.offers || [];
+    console.log(`Starting price fetch for ${allOffers.length} ${chain} offers (${week})...`);
+    const priceMap: Record<string, number> = {};
 
     for (let i = 0; i < allOffers.length; i++) {
         const offer = allOffers[i];
 
-        // Skip if we already have it
-        if (priceMap[offer.product_name]) {
+        // Skip if we already have it (saved on an earlier run)
+        if (offer.original_price) {
             continue;
         }
 
@@ -58,7 +48,7 @@ async function fetchAllPrices() {
 
             // Save after every few requests to prevent total loss on crash
             if (i % 5 === 0) {
-                fs.writeFileSync(OUTPUT_FILE, JSON.stringify(priceMap, null, 2));
+                offerService.setOriginalPrices(chain, week, priceMap);
             }
 
             // Respect rate limits - wait 1 second between requests
@@ -72,8 +62,8 @@ async function fetchAllPrices() {
     }
 
     // Final save
-    fs.writeFileSync(OUTPUT_FILE, JSON.stringify(priceMap, null, 2));
-    console.log(`\nFinished mapping prices. Saved ${Object.keys(priceMap).length} items to ${OUTPUT_FILE}`);
+    offerService.setOriginalPrices(chain, week, priceMap);
+    console.log(`\nFinished mapping prices. Saved ${Object.keys(priceMap).length} ${chain} prices to the ${week} batch.`);
 }
 
 fetchAllPrices().catch(console.error);
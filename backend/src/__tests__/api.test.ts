@@ -1,10 +1,11 @@
 import { jest } from '@jest/globals';
 import request from 'supertest';
+import type { DataAggregator } from '../services/providers/DataAggregator.js';
 
 // ─── Mock Instances ──────────────────────────────────────────────────
 const mockAi = {
     parseShoppingQuery: jest.fn(),
-    checkHealth: jest.fn(),
+    checkHealth: jest.fn<() => Promise<boolean>>(),
     getSuggestions: jest.fn(),
 };
 
@@ -12,8 +13,12 @@ const mockAggregator = {
     searchProductsWithChainVariety: jest.fn(),
     searchProducts: jest.fn(),
     getStoresNearby: jest.fn(),
-    checkHealth: jest.fn(),
+    checkHealth: jest.fn<DataAggregator['checkHealth']>(),
     getProductById: jest.fn(),
+    getProductsByEan: jest.fn(),
+    searchProductsAtStore: jest.fn(),
+    supportsStorePricing: jest.fn(() => false),
+    getCircuitStatus: jest.fn<DataAggregator['getCircuitStatus']>(() => ({})),
 };
 
 // ─── Mock External Services (ESM) ──────────────────────────────────
@@ -32,6 +37,7 @@ const { default: app } = await import('../server.js');
 const { aiService } = (await import('../services/aiService.js')) as any;
 const { dataAggregator } = (await import('../services/providers/DataAggregator.js')) as any;
 const { default: cache } = await import('../utils/cache.js');
+const { ApiError } = await import('../middleware/errorHandler.js');
 
 // ─── Shared Test Data ──────────────────────────────────────────────
 const trondheimLocation = { lat: 63.4305, lng: 10.3951 };
@@ -77,6 +83,22 @@ describe('SmartHandel API Integration Tests', () => {
             expect(res.body).toHaveProperty('uptime');
             expect(res.body).toHaveProperty('timestamp');
         });
+
+        it('should report circuit breaker state on the readiness check', async () => {
+            mockAggregator.checkHealth.mockResolvedValue({ 'Kassal API': true });
+            mockAi.checkHealth.mockResolvedValue(true);
+            mockAggregator.getCircuitStatus.mockReturnValue({
+                'Kassal API': {
+                    name: 'Kassal API', state: 'open', consecutiveFailures: 5, openedAt: null, nextAttemptAt: null,
+                    limiter: { tokens: 0, capacity: 10, queued: 0, pausedUntil: null }
+                }
+            });
+
+            const res = await request(app).get('/api/health/ready');
+
+            expect(res.status).toBe(200);
+            expect(res.body.services.circuitBreakers['Kassal API'].state).toBe('open');
+        });
     });
 
     // ════════════════════════════════════════════════════════════════
@@ -160,6 +182,125 @@ describe('SmartHandel API Integration Tests', () => {
         });
     });
 
+    // ════════════════════════════════════════════════════════════════
+    // GET /api/products/ean/:ean
+    // ════════════════════════════════════════════════════════════════
+
+    describe('GET /api/products/ean/:ean', () => {
+        const ean = '7038010000737';
+        const eanListings = [
+            { ...mockProducts[0], ean, image_url: 'https://img/melk.png' },
+            { ...mockProducts[1], ean, image_url: '' },
+            { ...mockProducts[2], ean, image_url: '', chain: 'BUNNPRIS', store: 'Bunnpris Bakklandet' },
+        ];
+
+        it('should return the product with one price per nearby chain', async () => {
+            dataAggregator.getProductsByEan.mockResolvedValue(eanListings);
+            dataAggregator.getStoresNearby.mockResolvedValue(mockStores);
+
+            const res = await request(app)
+                .get(`/api/products/ean/${ean}`)
+                .query({ lat: trondheimLocation.lat, lng: trondheimLocation.lng });
+
+            expect(res.status).toBe(200);
+            expect(res.body.product.ean).toBe(ean);
+            expect(res.body.product.image_url).toBe('https://img/melk.png');
+            // Bunnpris has no store nearby
+            expect(res.body.prices.map((p: { chain: string }) => p.chain)).toEqual(['REMA', 'KIWI']);
+            expect(res.body.cheapest.price).toBe(20.9);
+        });
+
+        it('should return 404 for an unknown barcode', async () => {
+            dataAggregator.getProductsByEan.mockResolvedValue([]);
+
+            const res = await request(app).get(`/api/products/ean/${ean}`);
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should return 400 for a malformed barcode', async () => {
+            const res = await request(app).get('/api/products/ean/12ab');
+
+            expect(res.status).toBe(400);
+            expect(dataAggregator.getProductsByEan).not.toHaveBeenCalled();
+        });
+    });
+
+    // ════════════════════════════════════════════════════════════════
+    // GET /api/products/:productId/history
+    // ════════════════════════════════════════════════════════════════
+
+    describe('GET /api/products/:productId/history', () => {
+        const ean = '7038010000737';
+
+        it('should return a series per store, cheapest first', async () => {
+            dataAggregator.getProductById.mockResolvedValue({ ...mockProducts[1], ean });
+            dataAggregator.getProductsByEan.mockResolvedValue([
+                { ...mockProducts[1], ean, priceHistory: [{ price: 24.9, date: '2026-01-05' }] },
+                { ...mockProducts[0], ean, priceHistory: [{ price: 20.9, date: '2026-01-05' }] },
+            ]);
+
+            const res = await request(app).get('/api/products/p2/history');
+
+            expect(res.status).toBe(200);
+            expect(res.body.product.id).toBe('p2');
+            expect(res.body.stores.map((s: { chain: string }) => s.chain)).toEqual(['REMA', 'KIWI']);
+            const kiwi = res.body.stores[1];
+            expect(kiwi.points[0]).toEqual({ date: '2026-01-05', price: 24.9 });
+            expect(kiwi.stats.current).toBe(22.5);
+            expect(kiwi.stats.currentPercentile).toBe(0);
+        });
+
+        it('should return 404 for an unknown product', async () => {
+            dataAggregator.getProductById.mockRejectedValue(new ApiError(404, 'Product x not found'));
+
+            const res = await request(app).get('/api/products/x/history');
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    // ════════════════════════════════════════════════════════════════
+    // GET /api/products/offers
+    // ════════════════════════════════════════════════════════════════
+
+    describe('GET /api/products/offers', () => {
+        // Served from the seeded flyers in fixtures/offers (week 2026-W43, Oct 19-25)
+        it('should only return offers valid on the requested date', async () => {
+            const res = await request(app).get('/api/products/offers').query({ date: '2026-10-24' });
+
+            expect(res.status).toBe(200);
+            expect(res.body.offers.length).toBeGreaterThan(0);
+            for (const offer of res.body.offers) {
+                expect(offer.valid_from <= '2026-10-24' && '2026-10-24' <= offer.valid_to).toBe(true);
+            }
+            // The Friday-only deal has already ended
+            expect(res.body.offers.some((o: { validity?: string }) => o.validity === 'Friday')).toBe(false);
+        });
+
+        it('should flag offers that end within two days', async () => {
+            const monday = await request(app).get('/api/products/offers').query({ date: '2026-10-19' });
+            const saturday = await request(app).get('/api/products/offers').query({ date: '2026-10-24' });
+
+            const weekLong = (res: request.Response) => res.body.offers.filter((o: { valid_to: string }) => o.valid_to === '2026-10-25');
+            expect(weekLong(monday).every((o: { ending_soon: boolean }) => !o.ending_soon)).toBe(true);
+            expect(weekLong(saturday).every((o: { ending_soon: boolean }) => o.ending_soon)).toBe(true);
+        });
+
+        it('should return no offers once the week is over', async () => {
+            const res = await request(app).get('/api/products/offers').query({ date: '2026-11-02' });
+
+            expect(res.status).toBe(200);
+            expect(res.body.offers).toEqual([]);
+        });
+
+        it('should return 400 for an invalid date', async () => {
+            const res = await request(app).get('/api/products/offers').query({ date: '2026-13-01' });
+
+            expect(res.status).toBe(400);
+        });
+    });
+
     // ════════════════════════════════════════════════════════════════
     // GET /api/stores/nearby
     // ════════════════════════════════════════════════════════════════
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Cache } from '../utils/cache.js';
+import { MemoryCacheStore } from '../utils/cacheStores/MemoryCacheStore.js';
+import { FileCacheStore } from '../utils/cacheStores/FileCacheStore.js';
+
+describe('Cache', () => {
+    it('should invalidate keys by prefix without touching other namespaces', () => {
+        const cache = new Cache(new MemoryCacheStore(60));
+        cache.set('kassal:search:melk:{}', [1]);
+        cache.set('kassal:search:brød:{}', [2]);
+        cache.set('kassal:product:42', { id: 42 });
+        cache.set('ai:parse:melk', { items: [] });
+
+        expect(cache.invalidatePrefix('kassal:search:')).toBe(2);
+        expect(cache.get('kassal:search:melk:{}')).toBeUndefined();
+        expect(cache.get('kassal:product:42')).toEqual({ id: 42 });
+        expect(cache.get('ai:parse:melk')).toEqual({ items: [] });
+    });
+
+    it('should track hits, misses and keys per namespace', () => {
+        const cache = new Cache(new MemoryCacheStore(60));
+        cache.set('route:optimize:abc', { ok: true });
+        cache.get('route:optimize:abc');
+        cache.get('route:optimize:missing');
+        cache.get('ai:parse:egg');
+
+        const stats = cache.getStats();
+        expect(stats.backend).toBe('memory');
+        expect(stats.namespaces.route).toEqual({ hits: 1, misses: 1, sets: 1, keys: 1 });
+        expect(stats.namespaces.ai).toMatchObject({ hits: 0, misses: 1, keys: 0 });
+        expect(stats.stats).toEqual({ hits: 1, misses: 2 });
+    });
+});
+
+describe('FileCacheStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'smarthandel-cache-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should restore unexpired entries after a restart', async () => {
+        const filePath = path.join(dir, 'cache.json');
+
+        const first = new FileCacheStore(filePath, 60);
+        await first.init();
+        first.set('ai:parse:melk', { items: ['melk'] }, 60);
+        first.set('kassal:product:1', { id: 1 }, 0);
+        await first.close();
+
+        // An entry that expired while the server was down must not come back
+        const snapshot = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        snapshot.entries.push({ key: 'route:optimize:old', value: {}, expiresAt: Date.now() - 1000 });
+        fs.writeFileSync(filePath, JSON.stringify(snapshot));
+
+        const second = new FileCacheStore(filePath, 60);
+        await second.init();
+
+        expect(second.get('ai:parse:melk')).toEqual({ items: ['melk'] });
+        expect(second.get('kassal:product:1')).toEqual({ id: 1 });
+        expect(second.get('route:optimize:old')).toBeUndefined();
+        await second.close();
+    });
+
+    it('should start empty when the snapshot file is missing', async () => {
+        const store = new FileCacheStore(path.join(dir, 'missing.json'), 60);
+        await store.init();
+
+        expect(store.keys()).toEqual([]);
+        await store.close();
+    });
+});
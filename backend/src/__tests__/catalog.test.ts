@@ -0,0 +1,84 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { CatalogService, CatalogError, catalogService } from '../services/catalogService.js';
+import { calculateRelevanceScore } from '../utils/matching.js';
+import app from '../server.js';
+
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-'));
+
+const item = (id: string, no: string, en: string, extra: object = {}) => ({
+    id, name: { no, en }, emoji: '🛒', category: 'groceries', synonyms: [], ...extra
+});
+
+const writeCatalog = (items: object[]): string => {
+    const file = path.join(tmpRoot, `catalog-${Math.random().toString(36).slice(2)}.json`);
+    fs.writeFileSync(file, JSON.stringify({ version: 3, items }));
+    return file;
+};
+
+afterAll(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe('CatalogService', () => {
+    it('should resolve IDs, names, synonyms and sync queries to one item', () => {
+        const catalog = new CatalogService(writeCatalog([
+            item('butter', 'Smør', 'Butter', { synonyms: ['bremykt'], syncQueries: ['Smør', 'Tine Smør'] }),
+            item('minced_meat', 'Kjøttdeig', 'Minced Meat'),
+        ]));
+
+        expect(['butter', 'SMØR', 'Bremykt', 'tine_smør'].map(q => catalog.resolve(q)?.id)).toEqual(['butter', 'butter', 'butter', 'butter']);
+        expect(catalog.resolve('minced  meat')?.id).toBe('minced_meat');
+        expect(catalog.resolve('margarin')).toBeUndefined();
+        expect(catalog.getIndexedItems().map(i => i.id)).toEqual(['butter']);
+        expect(catalog.getVersion()).toBe(3);
+    });
+
+    it('should reject invalid items and synonyms shared by two items', () => {
+        expect(() => new CatalogService(writeCatalog([item('Butter!', 'Smør', 'Butter')]))).toThrow(CatalogError);
+        expect(() => new CatalogService(writeCatalog([item('butter', 'Smør', 'Butter', { category: 'dairy products' })]))).toThrow(/category/);
+        expect(() => new CatalogService(writeCatalog([
+            item('milk', 'Melk', 'Milk', { synonyms: ['tine'] }),
+            item('cheese', 'Ost', 'Cheese', { synonyms: ['tine'] }),
+        ]))).toThrow(/"tine" is used by both milk and cheese/);
+        expect(() => new CatalogService(path.join(tmpRoot, 'missing.json'))).toThrow(CatalogError);
+    });
+
+    it('should match short negative keywords only at the start of a word', () => {
+        const catalog = new CatalogService(writeCatalog([
+            item('milk', 'Melk', 'Milk', { negativeKeywords: ['sjokolade', 'is', 'm/'] }),
+        ]));
+        const milk = catalog.resolve('milk')!;
+
+        expect(catalog.isExcluded('Tine Melkesjokolade', milk)).toBe(true);
+        expect(catalog.isExcluded('Is Melk & Vanilje', milk)).toBe(true);
+        expect(catalog.isExcluded('Lettmelk m/jordbær', milk)).toBe(true);
+        expect(catalog.isExcluded('Tine Økologisk Lettmelk', milk)).toBe(false);
+    });
+
+    it('should load the shipped catalog with every price index item', () => {
+        const indexed = catalogService.getIndexedItems().map(i => i.id);
+        expect(indexed).toEqual(expect.arrayContaining(['milk', 'bread', 'eggs', 'minced_meat', 'sausages', 'soda']));
+        expect(catalogService.resolve('melk')?.id).toBe('milk');
+    });
+
+    it('should demote products the catalog excludes in relevance scoring', () => {
+        expect(calculateRelevanceScore('Tine Lettmelk 1l', 'melk')).toBeGreaterThan(0);
+        expect(calculateRelevanceScore('Melk Kakao Drikk', 'melk')).toBeLessThan(-500);
+    });
+});
+
+describe('GET /api/catalog', () => {
+    it('should return the catalog items with their indexed flag', async () => {
+        const res = await request(app).get('/api/catalog');
+
+        expect(res.status).toBe(200);
+        expect(res.headers['cache-control']).toContain('max-age');
+        expect(res.body.count).toBe(res.body.items.length);
+        const milk = res.body.items.find((i: { id: string }) => i.id === 'milk');
+        expect(milk).toMatchObject({ name: { no: 'Melk', en: 'Milk' }, category: 'dairy', indexed: true });
+        expect(res.body.items.find((i: { id: string }) => i.id === 'chips').indexed).toBe(false);
+    });
+});
@@ -0,0 +1,110 @@
+import { jest } from '@jest/globals';
+import { CircuitBreaker, CircuitOpenError } from '../utils/circuitBreaker.js';
+import { TokenBucket } from '../utils/tokenBucket.js';
+
+describe('CircuitBreaker', () => {
+    const fail = () => Promise.reject(new Error('upstream down'));
+    const ok = () => Promise.resolve('ok');
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should open after the failure threshold and fail fast', async () => {
+        const breaker = new CircuitBreaker('Test', { failureThreshold: 2, resetTimeoutMs: 1000 });
+        const upstream = jest.fn(fail);
+
+        await expect(breaker.execute(upstream)).rejects.toThrow('upstream down');
+        await expect(breaker.execute(upstream)).rejects.toThrow('upstream down');
+        expect(breaker.getState()).toBe('open');
+
+        await expect(breaker.execute(upstream)).rejects.toBeInstanceOf(CircuitOpenError);
+        expect(upstream).toHaveBeenCalledTimes(2);
+        expect(breaker.getStatus().nextAttemptAt).not.toBeNull();
+    });
+
+    it('should close again after a successful half-open trial', async () => {
+        jest.useFakeTimers();
+        const breaker = new CircuitBreaker('Test', { failureThreshold: 1, resetTimeoutMs: 1000 });
+
+        await expect(breaker.execute(fail)).rejects.toThrow();
+        jest.advanceTimersByTime(1000);
+        expect(breaker.getState()).toBe('half_open');
+
+        await expect(breaker.execute(ok)).resolves.toBe('ok');
+        expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    });
+
+    it('should re-open when the half-open trial fails', async () => {
+        jest.useFakeTimers();
+        const breaker = new CircuitBreaker('Test', { failureThreshold: 3, resetTimeoutMs: 1000 });
+
+        for (let i = 0; i < 3; i++) {
+            await expect(breaker.execute(fail)).rejects.toThrow();
+        }
+        jest.advanceTimersByTime(1000);
+        await expect(breaker.execute(fail)).rejects.toThrow('upstream down');
+
+        expect(breaker.getState()).toBe('open');
+    });
+
+    it('should not count errors rejected by isFailure', async () => {
+        const breaker = new CircuitBreaker('Test', {
+            failureThreshold: 1,
+            resetTimeoutMs: 1000,
+            isFailure: error => (error as Error).message !== 'not found'
+        });
+
+        await expect(breaker.execute(() => Promise.reject(new Error('not found')))).rejects.toThrow();
+        expect(breaker.getState()).toBe('closed');
+    });
+});
+
+describe('TokenBucket', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should queue callers beyond the burst until tokens refill', async () => {
+        jest.useFakeTimers();
+        const bucket = new TokenBucket('Test', 2, 1);
+        const released: number[] = [];
+
+        [1, 2, 3].forEach(n => bucket.take().then(() => released.push(n)));
+        await Promise.resolve();
+        expect(released).toEqual([1, 2]);
+        expect(bucket.getStatus().queued).toBe(1);
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(released).toEqual([1, 2, 3]);
+    });
+
+    it('should pause on Retry-After and cap tokens on X-RateLimit-Remaining', async () => {
+        jest.useFakeTimers();
+        const bucket = new TokenBucket('Test', 10, 10);
+
+        bucket.updateFromHeaders({ 'x-ratelimit-remaining': '3' });
+        expect(bucket.getStatus().tokens).toBe(3);
+
+        bucket.updateFromHeaders({ 'retry-after': '5' });
+        expect(bucket.getStatus().pausedUntil).not.toBeNull();
+
+        let released = false;
+        bucket.take().then(() => { released = true; });
+        await jest.advanceTimersByTimeAsync(4900);
+        expect(released).toBe(false);
+
+        await jest.advanceTimersByTimeAsync(200);
+        expect(released).toBe(true);
+    });
+
+    it('should reject with 503 when the queue is full', async () => {
+        jest.useFakeTimers();
+        const bucket = new TokenBucket('Test', 1, 0.001, 1);
+
+        await bucket.take();
+        void bucket.take();
+
+        await expect(bucket.take()).rejects.toMatchObject({ statusCode: 503 });
+    });
+});
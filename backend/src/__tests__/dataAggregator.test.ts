@@ -0,0 +1,120 @@
+import { jest } from '@jest/globals';
+import { Product, Store, Location } from '../types/index.js';
+
+// Only the offline dataset is configured; extra providers are registered per test
+process.env.DATA_PROVIDER = 'fixture';
+process.env.PROVIDER_TIMEOUT_MS = '200';
+
+const { DataAggregator } = await import('../services/providers/DataAggregator.js');
+const { ApiError } = await import('../middleware/errorHandler.js');
+const { default: cache } = await import('../utils/cache.js');
+type BaseProvider = import('../services/providers/BaseProvider.js').BaseProvider;
+
+const makeProduct = (overrides: Partial<Product>): Product => ({
+    id: 1,
+    name: 'Tine Lettmelk 1,75l',
+    price: 30,
+    store: 'Kiwi',
+    chain: 'Kiwi',
+    image_url: '',
+    unit: 'stk',
+    relevanceScore: 0,
+    ...overrides
+});
+
+const makeProvider = (name: string, products: Product[], delayMs = 0): BaseProvider => ({
+    name,
+    searchProducts: async () => {
+        if (delayMs) await new Promise(resolve => setTimeout(resolve, delayMs));
+        return products;
+    },
+    getStoresNearby: async (_location: Location): Promise<Store[]> => [],
+    getProductById: async (id: string) => {
+        const product = products.find(p => String(p.id) === id);
+        if (!product) throw new ApiError(404, `Product ${id} not found`);
+        return product;
+    },
+    getProductsByEan: async (ean: string) => products.filter(p => p.ean === ean),
+    isAvailable: async () => true
+});
+
+describe('DataAggregator', () => {
+    it('should merge results from every provider and tag their source', async () => {
+        const aggregator = new DataAggregator();
+        aggregator.registerProvider(makeProvider('Test Feed', [
+            makeProduct({ id: 77, name: 'Testmelk Unik 1l', chain: 'Rema 1000', store: 'Rema 1000', relevanceScore: -999999 })
+        ]));
+
+        const products = await aggregator.searchProducts('lettmelk', { bypassIndex: true });
+
+        expect(products.some(p => p.source === 'Fixture Dataset')).toBe(true);
+        const extra = products.find(p => p.name === 'Testmelk Unik 1l');
+        expect(extra).toBeDefined();
+        expect(extra?.source).toBe('Test Feed');
+        // Secondary provider ids are namespaced, and the providers' own rankings are interleaved
+        expect(extra?.id).toBe('test-feed:77');
+        expect(products[0].source).toBe('Fixture Dataset');
+        expect(products[1]).toBe(extra);
+    });
+
+    it('should keep one entry per EAN and chain, preferring the first provider', async () => {
+        const aggregator = new DataAggregator();
+        const fixtureHit = (await aggregator.searchProducts('lettmelk', { bypassIndex: true }))
+            .find(p => p.ean);
+        expect(fixtureHit).toBeDefined();
+
+        aggregator.registerProvider(makeProvider('Test Feed', [
+            makeProduct({ ...fixtureHit, id: 5, price: 1, chain: fixtureHit!.chain.toUpperCase() })
+        ]));
+
+        const products = await aggregator.searchProducts('lettmelk', { bypassIndex: true });
+        const sameEan = products.filter(p => p.ean === fixtureHit!.ean && p.chain.toLowerCase() === fixtureHit!.chain.toLowerCase());
+
+        expect(sameEan).toHaveLength(1);
+        expect(sameEan[0].source).toBe('Fixture Dataset');
+        expect(sameEan[0].price).toBe(fixtureHit!.price);
+    });
+
+    it('should skip providers that time out instead of failing the search', async () => {
+        const aggregator = new DataAggregator();
+        aggregator.registerProvider(makeProvider('Slow Feed', [makeProduct({ name: 'Treg Melk' })], 1000));
+
+        const products = await aggregator.searchProducts('lettmelk', { bypassIndex: true });
+
+        expect(products.length).toBeGreaterThan(0);
+        expect(products.some(p => p.source === 'Slow Feed')).toBe(false);
+    });
+
+    it('should route namespaced product ids to their provider', async () => {
+        const aggregator = new DataAggregator();
+        aggregator.registerProvider(makeProvider('Test Feed', [makeProduct({ id: 77, name: 'Testmelk Unik 1l' })]));
+
+        const product = await aggregator.getProductById('test-feed:77');
+        expect(product.name).toBe('Testmelk Unik 1l');
+        expect(product.id).toBe('test-feed:77');
+
+        await expect(aggregator.getProductById('does-not-exist')).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should coalesce concurrent identical searches into one upstream call', async () => {
+        const aggregator = new DataAggregator();
+        const provider = makeProvider('Counting Feed', [makeProduct({ name: 'Delt Melk 1l' })], 20);
+        const searchSpy = jest.spyOn(provider, 'searchProducts');
+        aggregator.registerProvider(provider);
+        const before = cache.getStats().singleFlight.coalesced;
+
+        const results = await Promise.all([
+            aggregator.searchProducts('melk', { bypassIndex: true, radius: 5 }),
+            aggregator.searchProducts('  Melk ', { radius: 5, bypassIndex: true }),
+            aggregator.searchProducts('melk', { bypassIndex: true, radius: 5 })
+        ]);
+
+        expect(searchSpy).toHaveBeenCalledTimes(1);
+        expect(results[1]).toBe(results[0]);
+        expect(cache.getStats().singleFlight.coalesced - before).toBe(2);
+
+        // Once settled, the next search goes upstream again
+        await aggregator.searchProducts('melk', { bypassIndex: true, radius: 5 });
+        expect(searchSpy).toHaveBeenCalledTimes(2);
+    });
+});
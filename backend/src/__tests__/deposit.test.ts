@@ -0,0 +1,25 @@
+import { getDeposit, parseContainer } from '../utils/deposit.js';
+
+describe('deposit', () => {
+    it('should read container size and pack count from product names', () => {
+        expect(parseContainer('Coca-Cola 1,5l')).toEqual({ liters: 1.5, count: 1 });
+        expect(parseContainer('Pepsi Max 0.33L 10-pk')).toEqual({ liters: 0.33, count: 10 });
+        expect(parseContainer('Red Bull Regular 250 ml 4-pk')).toEqual({ liters: 0.25, count: 4 });
+        expect(parseContainer('Solo 6x0,33l')).toEqual({ liters: 0.33, count: 6 });
+        expect(parseContainer('Grandiosa Original')).toBeNull();
+    });
+
+    it('should charge 2 kr up to 0.5 l and 3 kr above, per container', () => {
+        expect(getDeposit('Monster Energy 0.5L')).toBe(2);
+        expect(getDeposit('Coca-Cola 1,5l')).toBe(3);
+        expect(getDeposit('Urge, Coca-Cola og Fanta 0.33L 6-pk')).toBe(12);
+        expect(getDeposit('Farris Naturell 1,5l', undefined)).toBe(3);
+    });
+
+    it('should not charge deposit on drinks without deposit containers', () => {
+        expect(getDeposit('Tine Lettmelk 1l')).toBe(0);
+        expect(getDeposit('Coca-Cola sirup 0,5l')).toBe(0);
+        expect(getDeposit('Pepsi Max')).toBe(0);
+        expect(getDeposit('Pepsi Max', { liters: 0.33, count: 1 })).toBe(2);
+    });
+});
@@ -0,0 +1,53 @@
+import path from 'path';
+
+// The fixture provider must work without any API keys
+process.env.DATA_PROVIDER = 'fixture';
+
+const { FixtureProvider } = await import('../services/providers/FixtureProvider.js');
+
+const FIXTURE_DIR = path.join(process.cwd(), 'fixtures/trondheim');
+const trondheimCenter = { lat: 63.4305, lng: 10.3951 };
+
+describe('FixtureProvider', () => {
+    const provider = new FixtureProvider(FIXTURE_DIR);
+
+    it('should report itself as available when the dataset loads', async () => {
+        expect(await provider.isAvailable()).toBe(true);
+    });
+
+    it('should return nearby stores sorted by distance within the radius', async () => {
+        const stores = await provider.getStoresNearby(trondheimCenter, 3);
+
+        expect(stores.length).toBeGreaterThan(0);
+        stores.forEach(s => expect(s.distance).toBeLessThanOrEqual(3000));
+        for (let i = 1; i < stores.length; i++) {
+            expect(stores[i].distance).toBeGreaterThanOrEqual(stores[i - 1].distance);
+        }
+        // Heimdal is well outside 3 km of the centre
+        expect(stores.some(s => s.name.includes('Heimdal'))).toBe(false);
+    });
+
+    it('should translate English queries and rank real matches first', async () => {
+        const products = await provider.searchProducts('milk');
+
+        expect(products.length).toBeGreaterThan(0);
+        expect(products[0].name.toLowerCase()).toContain('melk');
+        // Liver paste and chocolate milk must not outrank plain milk
+        expect(products.some(p => p.name.includes('Leverpostei'))).toBe(false);
+    });
+
+    it('should restrict chain-prefixed variety queries to that chain', async () => {
+        const products = await provider.searchProducts('KIWI melk');
+
+        expect(products.length).toBeGreaterThan(0);
+        products.forEach(p => expect(p.chain).toBe('Kiwi'));
+    });
+
+    it('should look up products by id and reject unknown ids', async () => {
+        const [first] = await provider.searchProducts('egg');
+        const product = await provider.getProductById(String(first.id));
+
+        expect(product.name).toBe(first.name);
+        await expect(provider.getProductById('does-not-exist')).rejects.toMatchObject({ statusCode: 404 });
+    });
+});
@@ -0,0 +1,170 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { Product, Store } from '../types/index.js';
+
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'match-corrections-'));
+
+process.env.ADMIN_TOKEN = 'test-admin-token';
+process.env.MATCH_CORRECTIONS_FILE = path.join(tmpRoot, 'corrections.json');
+process.env.REPORTS_FILE = path.join(tmpRoot, 'reports.json');
+process.env.CORRECTION_DEMOTE_THRESHOLD = '2';
+
+const { MatchCorrectionService, matchCorrectionService, DEMOTION_SCORE } = await import('../services/matchCorrectionService.js');
+const { relevanceRuleService } = await import('../services/relevanceRuleService.js');
+const { calculateRelevanceScore, selectBestProductForStoreWithQuery } = await import('../utils/matching.js');
+const { default: app } = await import('../server.js');
+
+const REMA: Store = { id: 'rema-1', name: 'Rema 1000 Grünerløkka', chain: 'Rema 1000', address: '', location: { lat: 0, lng: 0 }, distance: 0 };
+
+const product = (id: string, name: string, price: number): Product => ({
+    id, name, price, store: 'Rema 1000', chain: 'Rema 1000', image_url: '', unit: 'stk'
+});
+
+const report = (reporter: string) => matchCorrectionService.recordReport({
+    requestedName: 'milk',
+    productName: 'Tine Lettmelk 1l',
+    productId: 'tine-1',
+    chain: 'Rema 1000',
+    reporter
+});
+
+afterAll(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe('Match corrections', () => {
+    const candidates = [product('tine-1', 'Tine Lettmelk 1l', 29.9), product('q-1', 'Q Lettmelk 1l', 31.9)];
+    const pick = () => selectBestProductForStoreWithQuery(candidates, REMA, ['tine-1', 'q-1'], 'milk')?.product.name;
+
+    it('should demote a product once enough reporters report it, but never block it', async () => {
+        const before = calculateRelevanceScore('Tine Lettmelk 1l', 'milk', { chain: 'Rema 1000' });
+        expect(pick()).toBe('Tine Lettmelk 1l');
+
+        // The same reporter reporting twice counts once
+        await report('10.0.0.1');
+        const pending = await report('10.0.0.1');
+        expect(pending).toMatchObject({ query: 'melk', productName: 'tine lettmelk 1l', chain: 'rema 1000', status: 'pending' });
+
+        const demoted = await report('10.0.0.2');
+        expect(demoted?.status).toBe('demoted');
+        expect(calculateRelevanceScore('Tine Lettmelk 1l', 'milk', { chain: 'Rema 1000' })).toBe(before + DEMOTION_SCORE);
+        expect(relevanceRuleService.evaluate('Tine Lettmelk 1l', 'melk', { chain: 'Rema 1000' }).fired)
+            .toContainEqual({ id: `correction:${demoted!.id}`, score: DEMOTION_SCORE, exclude: false, matched: 'tine lettmelk 1l' });
+        expect(pick()).toBe('Q Lettmelk 1l');
+
+        // Reports from Rema don't touch the product at other chains
+        expect(calculateRelevanceScore('Tine Lettmelk 1l', 'milk', { chain: 'Kiwi' })).toBe(before);
+
+        // However many report it, only an admin blocks
+        await report('10.0.0.3');
+        const stillDemoted = await report('10.0.0.4');
+        expect(stillDemoted?.status).toBe('demoted');
+        expect(matchCorrectionService.isBlocked('melk', 'Tine Lettmelk 1l', 'Rema 1000')).toBe(false);
+        expect(matchCorrectionService.getAudit(demoted!.id).map(entry => [entry.action, entry.actor])).toEqual([['demoted', 'reports']]);
+
+        const saved = JSON.parse(fs.readFileSync(process.env.MATCH_CORRECTIONS_FILE!, 'utf-8'));
+        expect(saved.corrections[0]).toMatchObject({ id: demoted!.id, status: 'demoted' });
+        expect(saved.corrections[0].reporters).toHaveLength(4);
+        expect(JSON.stringify(saved)).not.toContain('10.0.0.1');
+    });
+
+    it('should ignore reports of a product under its own name or without a chain', async () => {
+        const ownName = await matchCorrectionService.recordReport({ requestedName: 'Tine Lettmelk 1l', productName: 'Tine Lettmelk 1l', chain: 'Rema 1000', reporter: '10.0.0.1' });
+        expect(ownName).toBeNull();
+
+        const noChain = await matchCorrectionService.recordReport({ requestedName: 'milk', productName: 'Tine Lettmelk 1l', chain: ' ', reporter: '10.0.0.1' });
+        expect(noChain).toBeNull();
+    });
+
+    it('should count reports by client address, not by the session the client claims', async () => {
+        const submit = (sessionId: string, overrides: object = {}) => request(app).post('/api/reports/mismatch').send({
+            store_id: 'kiwi-1',
+            store_name: 'Kiwi Solsiden',
+            store_chain: 'Kiwi',
+            requested_item_name: 'egg',
+            matched_item_name: 'Prior Kyllingfilet',
+            report_reason: 'Wrong product matched',
+            session_id: sessionId,
+            ...overrides
+        });
+
+        for (const sessionId of ['session-a', 'session-b', 'session-c']) {
+            expect((await submit(sessionId)).status).toBe(201);
+        }
+        const correction = matchCorrectionService.getCorrections().find(c => c.productName === 'prior kyllingfilet');
+        expect(correction).toMatchObject({ chain: 'kiwi', status: 'pending' });
+        expect(correction?.reporters).toHaveLength(1);
+
+        const noChain = await submit('session-d', { store_chain: '' });
+        expect(noChain.status).toBe(400);
+    });
+
+    it('should drop client-chosen sessions and report-made blocks from older files', () => {
+        const file = path.join(tmpRoot, 'legacy-corrections.json');
+        fs.writeFileSync(file, JSON.stringify({
+            corrections: [{
+                id: 'legacy-1', query: 'melk', productName: 'tine lettmelk 1l', chain: 'rema 1000',
+                sessions: ['a', 'b', 'c', 'd', 'e', 'f'], status: 'blocked', reportedStatus: 'blocked',
+                created_at: '2026-10-01T00:00:00.000Z', updated_at: '2026-10-01T00:00:00.000Z'
+            }],
+            audit: []
+        }));
+
+        const [legacy] = new MatchCorrectionService(file).getCorrections();
+        expect(legacy).toMatchObject({ status: 'demoted', reportedStatus: 'demoted', reporters: [] });
+        expect(legacy).not.toHaveProperty('sessions');
+    });
+
+    describe('Admin API', () => {
+        const auth = { Authorization: 'Bearer test-admin-token' };
+
+        it('should require the admin token', async () => {
+            const res = await request(app).get('/api/admin/corrections');
+            expect(res.status).toBe(401);
+        });
+
+        it('should block, revert and restore corrections with an audit trail', async () => {
+            const list = await request(app).get('/api/admin/corrections?status=demoted').set(auth);
+            expect(list.status).toBe(200);
+            expect(list.body.count).toBe(1);
+            const { id } = list.body.corrections[0];
+
+            const blocked = await request(app).post(`/api/admin/corrections/${id}/block`).set(auth).send({ note: 'Not milk at all' });
+            expect(blocked.status).toBe(200);
+            expect(blocked.body.correction.status).toBe('blocked');
+            expect(matchCorrectionService.isBlocked('melk', 'Tine Lettmelk 1l', 'Rema 1000')).toBe(true);
+            expect(relevanceRuleService.evaluate('Tine Lettmelk 1l', 'milk', { chain: 'Rema 1000' }).excluded).toBe(true);
+            expect(selectBestProductForStoreWithQuery(candidates, REMA, ['tine-1'], 'milk')).toBeNull();
+
+            const reverted = await request(app).post(`/api/admin/corrections/${id}/revert`).set(auth).send({ note: 'Lettmelk is fine' });
+            expect(reverted.status).toBe(200);
+            expect(reverted.body.correction.status).toBe('reverted');
+            expect(pick()).toBe('Tine Lettmelk 1l');
+
+            // A reverted correction stays off however many reports follow
+            await report('10.0.0.5');
+            expect(matchCorrectionService.find('milk', 'Tine Lettmelk 1l', 'Rema 1000')).toBeUndefined();
+
+            // Restoring goes back to what the reports call for, which is never a block
+            const restored = await request(app).post(`/api/admin/corrections/${id}/restore`).set(auth).send({});
+            expect(restored.body.correction.status).toBe('demoted');
+            expect(pick()).toBe('Q Lettmelk 1l');
+
+            const audit = await request(app).get(`/api/admin/corrections/audit?correctionId=${id}`).set(auth);
+            expect(audit.body.audit.map((entry: { action: string; actor: string }) => [entry.action, entry.actor])).toEqual([
+                ['demoted', 'reports'], ['blocked', 'admin'], ['reverted', 'admin'], ['restored', 'admin']
+            ]);
+            expect(audit.body.audit[2]).toMatchObject({ note: 'Lettmelk is fine' });
+        });
+
+        it('should reject unknown corrections and statuses', async () => {
+            const missing = await request(app).post('/api/admin/corrections/nope/revert').set(auth);
+            expect(missing.status).toBe(404);
+
+            const invalid = await request(app).get('/api/admin/corrections?status=gone').set(auth);
+            expect(invalid.status).toBe(400);
+        });
+    });
+});
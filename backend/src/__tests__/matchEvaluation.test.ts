@@ -0,0 +1,88 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadGoldenSet, evaluateGoldenSet, compareToBaseline, GoldenSetError } from '../services/matchEvaluation.js';
+
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'golden-'));
+
+const writeSet = (cases: object[]): string => {
+    const file = path.join(tmpRoot, `set-${Math.random().toString(36).slice(2)}.json`);
+    fs.writeFileSync(file, JSON.stringify({ version: 1, cases }));
+    return file;
+};
+
+afterAll(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe('Matching evaluation', () => {
+    it('should report precision@1, MRR and false positive categories', async () => {
+        const set = loadGoldenSet(writeSet([
+            {
+                id: 'milk', query: 'melk', candidates: [
+                    { name: 'Tine Sjokolademelk 1l', price: 32.9, label: 'flavored' },
+                    { name: 'Tine Lettmelk 1,75l', price: 33.6, label: 'ok' },
+                ]
+            },
+            {
+                id: 'apples', query: 'apples', candidates: [
+                    { name: 'Eplejuice 1l', price: 29.9, category: 'Drikke', label: 'juice' },
+                    { name: 'Epler Pink Lady 1kg', price: 39.9, label: 'ok' },
+                ]
+            },
+            {
+                // Only a wrong product survives the ranking
+                id: 'sugar', query: 'sukker', candidates: [
+                    { name: 'Dansukker Sukkerbiter 500g', price: 29.9, label: 'byproduct' },
+                    { name: 'Sukkerfri Tyggis', price: 19.9, label: 'ok' },
+                ]
+            },
+        ]));
+
+        const report = await evaluateGoldenSet(set);
+
+        expect(report.cases).toBe(3);
+        expect(report.results.find(r => r.id === 'milk')).toMatchObject({ ranked: ['Tine Lettmelk 1,75l'], firstRelevantRank: 1, pickLabel: 'ok' });
+        expect(report.results.find(r => r.id === 'apples')?.ranked).toEqual(['Epler Pink Lady 1kg']);
+        expect(report.results.find(r => r.id === 'sugar')).toMatchObject({ firstRelevantRank: null, topLabel: 'byproduct' });
+        expect(report.ranking.precisionAt1).toBeCloseTo(2 / 3);
+        expect(report.ranking.mrr).toBeCloseTo(2 / 3);
+        expect(report.ranking.falsePositives).toEqual({ byproduct: 1 });
+        expect(report.selection.falsePositives).toEqual({ byproduct: 1 });
+    });
+
+    it('should reject malformed golden sets', () => {
+        expect(() => loadGoldenSet(writeSet([{ id: 'a', query: 'melk', candidates: [{ name: 'Melk', price: 20, label: 'juice' }] }])))
+            .toThrow(/at least one "ok" candidate/);
+        expect(() => loadGoldenSet(writeSet([{ id: 'a', query: 'melk', candidates: [{ name: 'Melk', price: 20, label: 'bad' }] }])))
+            .toThrow(/label must be/);
+        expect(() => loadGoldenSet(path.join(tmpRoot, 'missing.json'))).toThrow(GoldenSetError);
+    });
+
+    it('should flag cases that got worse than the baseline', async () => {
+        const set = loadGoldenSet(writeSet([{
+            id: 'milk', query: 'melk', candidates: [
+                { name: 'Tine Sjokolademelk 1l', price: 32.9, label: 'flavored' },
+                { name: 'Tine Lettmelk 1,75l', price: 33.6, label: 'ok' },
+            ]
+        }]));
+        const good = await evaluateGoldenSet(set);
+        const bad = structuredClone(good);
+        bad.ranking.precisionAt1 = 0;
+        bad.results[0] = { ...bad.results[0], ranked: ['Tine Sjokolademelk 1l'], topLabel: 'flavored' };
+
+        const diff = compareToBaseline(bad, good);
+        expect(diff.regressions).toEqual([
+            'ranking precision@1: 1.000 -> 0.000',
+            'milk: first result "Tine Lettmelk 1,75l" (ok) -> "Tine Sjokolademelk 1l" (flavored)',
+        ]);
+        expect(compareToBaseline(good, bad).improvements).toHaveLength(2);
+    });
+
+    it('should not regress against the saved golden set baseline', async () => {
+        const report = await evaluateGoldenSet(loadGoldenSet(path.join(process.cwd(), 'fixtures/golden/golden-set.json')));
+        const baseline = JSON.parse(fs.readFileSync(path.join(process.cwd(), 'fixtures/golden/baseline.json'), 'utf-8'));
+
+        expect(compareToBaseline(report, baseline).regressions).toEqual([]);
+    });
+});
@@ -0,0 +1,168 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OfferService, OfferImportError, validateOffer, isOfferEndingSoon } from '../services/OfferService.js';
+import { parseCsv } from '../utils/csv.js';
+
+const CSV = [
+    'product_name;category;discount_type;discount_percent;final_price;discount_value;brand',
+    'Tine Lettmelk 1L;Dairy;fixed_price;;19,90;;Tine',
+    '"Kaffe; Evergood";Drinks;percentage;30;;;Evergood',
+    'Grandiosa;Frozen;multi_buy;;;"3 for 2";Stabburet'
+].join('\n');
+
+describe('OfferService', () => {
+    let dir: string;
+    let seedDir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'offers-'));
+        seedDir = fs.mkdtempSync(path.join(os.tmpdir(), 'offers-seed-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+        fs.rmSync(seedDir, { recursive: true, force: true });
+    });
+
+    it('should parse semicolon CSV with quoted fields', () => {
+        const rows = parseCsv('\uFEFF' + CSV);
+        expect(rows).toHaveLength(3);
+        expect(rows[1].product_name).toBe('Kaffe; Evergood');
+        expect(rows[2].discount_value).toBe('3 for 2');
+    });
+
+    it('should reject rows that do not match PromotionalOffer', () => {
+        expect(validateOffer({ product_name: 'Melk', category: 'Dairy', discount_type: 'percentage' }, 'Joker').errors)
+            .toContain('percentage offers need discount_percent between 0 and 100');
+        expect(validateOffer({ product_name: '', category: 'Dairy', discount_type: 'bogus' }, 'Joker').errors)
+            .toHaveLength(2);
+
+        const { offer } = validateOffer({ product_name: 'Melk', category: 'Dairy', discount_type: 'fixed_price', final_price: '19,90' }, 'Joker');
+        expect(offer).toMatchObject({ product_name_en: 'Melk', chain: 'Joker', final_price: 19.9 });
+    });
+
+    it('should read surcharges from additional_cost in any letter case', () => {
+        const base = { product_name: 'Pizza', category: 'Frozen', discount_type: 'fixed_price', final_price: 50 };
+
+        expect(validateOffer({ ...base, additional_cost: '+ 5 NOK' }, 'Joker').offer?.extra_cost).toBe(5);
+        expect(validateOffer({ ...base, additional_cost: '10 Kr for frakt' }, 'Joker').offer?.extra_cost).toBe(10);
+        expect(validateOffer({ ...base, additional_cost: '+ 2,50 kr' }, 'Joker').offer?.extra_cost).toBe(2.5);
+        expect(validateOffer({ ...base, additional_cost: 'gratis' }, 'Joker').offer?.extra_cost).toBeUndefined();
+    });
+
+    it('should import a CSV into a week-versioned batch and bump the revision on re-import', () => {
+        const service = new OfferService(dir, seedDir);
+        const request = { chain: 'COOP Marked', week: '2026-W43', content: CSV, format: 'csv' as const, source: 'flyer.csv' };
+
+        expect(service.importOffers(request).revision).toBe(1);
+        const batch = service.importOffers(request);
+
+        expect(batch.revision).toBe(2);
+        expect(batch.offers.map(o => o.chain)).toEqual(['COOP Marked', 'COOP Marked', 'COOP Marked']);
+        expect(fs.existsSync(path.join(dir, '2026-W43', 'coop-marked.json'))).toBe(true);
+    });
+
+    it('should write nothing when any row is invalid', () => {
+        const service = new OfferService(dir, seedDir);
+        const content = JSON.stringify([{ product_name: 'Melk', category: 'Dairy', discount_type: 'fixed_price' }]);
+
+        expect(() => service.importOffers({ chain: 'Joker', week: '2026-W43', content, format: 'json', source: 'x.json' }))
+            .toThrow(OfferImportError);
+        expect(fs.existsSync(path.join(dir, '2026-W43'))).toBe(false);
+    });
+
+    it('should serve offers within their validity window and let imports override the seed', () => {
+        const write = (root: string, week: string, chain: string, product: string, extra: object = {}) => {
+            fs.mkdirSync(path.join(root, week), { recursive: true });
+            fs.writeFileSync(path.join(root, week, `${chain.toLowerCase()}.json`), JSON.stringify({
+                chain, week, revision: 1, importedAt: '', source: 'test',
+                offers: [{ product_name: product, product_name_en: product, chain, category: 'Dairy', discount_type: 'fixed_price', final_price: 10, ...extra }]
+            }));
+        };
+        write(seedDir, '2026-W42', 'Joker', 'Last week deal');
+        write(seedDir, '2026-W43', 'Joker', 'Seeded Joker deal');
+        write(dir, '2026-W43', 'Joker', 'Imported Joker deal');
+        write(dir, '2026-W44', 'Joker', 'Next week deal');
+        write(seedDir, '2026-W42', 'Bunpris', 'Long Bunpris deal', { valid_from: '2026-10-12', valid_to: '2026-10-31' });
+
+        const service = new OfferService(dir, seedDir);
+        const offers = service.getCurrentOffers(new Date(2026, 9, 21)); // Wednesday of 2026-W43
+
+        expect(offers.map(o => [o.product_name, o.week, o.valid_to])).toEqual([
+            ['Long Bunpris deal', '2026-W42', '2026-10-31'],
+            ['Imported Joker deal', '2026-W43', '2026-10-25']
+        ]);
+        expect(service.getCurrentOffers(new Date(2026, 9, 26)).map(o => o.product_name))
+            .toEqual(['Long Bunpris deal', 'Next week deal']);
+    });
+
+    it('should carry regular prices from the old offerPrices.json over to offers without one', () => {
+        const pricesFile = path.join(seedDir, 'offerPrices.json');
+        fs.writeFileSync(pricesFile, JSON.stringify({ 'Tine Lettmelk 1L': 24.9, 'Grandiosa': 59.9 }));
+        fs.mkdirSync(path.join(seedDir, '2026-W43'));
+        fs.writeFileSync(path.join(seedDir, '2026-W43', 'joker.json'), JSON.stringify({
+            chain: 'Joker', week: '2026-W43', revision: 1, importedAt: '', source: 'seed',
+            offers: [
+                { product_name: 'Tine Lettmelk 1L', product_name_en: 'Tine Lettmelk 1L', chain: 'Joker', category: 'Dairy', discount_type: 'fixed_price', final_price: 19.9 },
+                { product_name: 'Grandiosa', product_name_en: 'Grandiosa', chain: 'Joker', category: 'Frozen', discount_type: 'multi_buy', discount_value: '3 for 2', original_price: 64.9 }
+            ]
+        }));
+
+        const offers = new OfferService(dir, seedDir, pricesFile).getCurrentOffers(new Date(2026, 9, 21));
+
+        expect(offers.map(o => [o.product_name, o.original_price])).toEqual([['Tine Lettmelk 1L', 24.9], ['Grandiosa', 64.9]]);
+    });
+
+    it('should replay the seed as the requested week once its own week is past', () => {
+        fs.mkdirSync(path.join(seedDir, '2026-W43'));
+        fs.writeFileSync(path.join(seedDir, '2026-W43', 'joker.json'), JSON.stringify({
+            chain: 'Joker', week: '2026-W43', revision: 1, importedAt: '', source: 'seed',
+            offers: [
+                { product_name: 'Weekly deal', product_name_en: 'Weekly deal', chain: 'Joker', category: 'Dairy', discount_type: 'fixed_price', final_price: 10 },
+                { product_name: 'Friday deal', product_name_en: 'Friday deal', chain: 'Joker', category: 'Dairy', discount_type: 'fixed_price', final_price: 10, valid_from: '2026-10-23', valid_to: '2026-10-23' }
+            ]
+        }));
+        const friday = new Date(2026, 10, 13); // Friday of 2026-W46
+
+        const replayed = new OfferService(dir, seedDir, undefined, true);
+        expect(replayed.getCurrentOffers(friday).map(o => [o.product_name, o.week, o.valid_from, o.valid_to])).toEqual([
+            ['Weekly deal', '2026-W46', '2026-11-09', '2026-11-15'],
+            ['Friday deal', '2026-W46', '2026-11-13', '2026-11-13']
+        ]);
+        // Each replayed week is shifted once until the files change
+        expect(replayed.getCurrentBatches(friday)[0]).toBe(replayed.getCurrentBatches(new Date(2026, 10, 9))[0]);
+        // The seed's own week is served as is
+        expect(replayed.getCurrentOffers(new Date(2026, 9, 21)).map(o => o.week)).toEqual(['2026-W43']);
+
+        replayed.importOffers({ chain: 'Joker', week: '2026-W46', content: CSV, format: 'csv', source: 'flyer.csv' });
+        expect(replayed.getCurrentOffers(friday).map(o => o.product_name)).not.toContain('Weekly deal');
+
+        expect(new OfferService(dir, seedDir, undefined, false).getCurrentOffers(new Date(2026, 10, 20))).toEqual([]);
+    });
+
+    it('should validate validity dates and flag offers that end soon', () => {
+        const base = { product_name: 'Melk', category: 'Dairy', discount_type: 'fixed_price', final_price: 20 };
+
+        expect(validateOffer({ ...base, valid_from: '23.10.2026', valid_to: '2026-10-23' }, 'Joker').offer)
+            .toMatchObject({ valid_from: '2026-10-23', valid_to: '2026-10-23' });
+        expect(validateOffer({ ...base, valid_to: '2026-02-30' }, 'Joker').errors)
+            .toEqual(['valid_to must be a date (YYYY-MM-DD or DD.MM.YYYY)']);
+        expect(validateOffer({ ...base, valid_from: '2026-10-25', valid_to: '2026-10-19' }, 'Joker').errors)
+            .toEqual(['valid_to is before valid_from']);
+
+        const offer = { ...base, product_name_en: 'Melk', chain: 'Joker', discount_type: 'fixed_price' as const, valid_to: '2026-10-25' };
+        expect(isOfferEndingSoon(offer, new Date(2026, 9, 22))).toBe(false);
+        expect(isOfferEndingSoon(offer, new Date(2026, 9, 23))).toBe(true);
+    });
+
+    it('should match offers by name prefix and brand', () => {
+        const service = new OfferService(dir, seedDir);
+        service.importOffers({ chain: 'Joker', week: '2026-W43', content: CSV, format: 'csv', source: 'flyer.csv' });
+        const date = new Date(2026, 9, 21);
+
+        expect(service.findMatchingOffers('coffee', date).map(o => o.product_name)).toEqual(['Kaffe; Evergood']);
+        expect(service.findMatchingOffers('tine', date).map(o => o.product_name)).toEqual(['Tine Lettmelk 1L']);
+        expect(service.findMatchingOffers('salt', date)).toEqual([]);
+    });
+});
@@ -0,0 +1,37 @@
+import { getPackageCount, toRequestedAmount } from '../utils/packageCount.js';
+import { parseProductAttributes } from '../utils/productAttributes.js';
+
+describe('packageCount', () => {
+    it('should normalize requested units to kg, l or stk', () => {
+        expect(toRequestedAmount(2, 'liter')).toEqual({ amount: 2, unit: 'l' });
+        expect(toRequestedAmount(500, 'g')).toEqual({ amount: 0.5, unit: 'kg' });
+        expect(toRequestedAmount(12, 'stk.')).toEqual({ amount: 12, unit: 'stk' });
+        expect(toRequestedAmount(2, 'pk')).toBeNull();
+        expect(toRequestedAmount(2)).toBeNull();
+    });
+
+    it('should round up to whole packages of the parsed size', () => {
+        expect(getPackageCount({ quantity: 2, unit: 'liter' }, parseProductAttributes('Tine Lettmelk 1l'))).toBe(2);
+        expect(getPackageCount({ quantity: 2, unit: 'liter' }, parseProductAttributes('Tine Lettmelk 1,75l'))).toBe(2);
+        expect(getPackageCount({ quantity: 3, unit: 'kg' }, parseProductAttributes('Mandelpotet 2kg'))).toBe(2);
+        expect(getPackageCount({ quantity: 1.5, unit: 'l' }, parseProductAttributes('Coca-Cola 150cl'))).toBe(1);
+    });
+
+    it('should count pieces against pack contents', () => {
+        expect(getPackageCount({ quantity: 12, unit: 'stk' }, parseProductAttributes('Egg 12pk frittgående'))).toBe(1);
+        expect(getPackageCount({ quantity: 18, unit: 'stk' }, parseProductAttributes('Egg 12pk frittgående'))).toBe(2);
+        expect(getPackageCount({ quantity: 6, unit: 'stk' }, parseProductAttributes('Coca-Cola 6x0,33l'))).toBe(1);
+    });
+
+    it('should treat the quantity as packages when no unit is given', () => {
+        expect(getPackageCount({ quantity: 3 }, parseProductAttributes('Mandelpotet 2kg'))).toBe(3);
+        expect(getPackageCount({ quantity: 2, unit: 'pk' }, parseProductAttributes('Brokkoli'))).toBe(2);
+    });
+
+    it('should buy one package when the size cannot be compared with the requested unit', () => {
+        expect(getPackageCount({ quantity: 500, unit: 'g' }, parseProductAttributes('Smør Tine'))).toBe(1);
+        expect(getPackageCount({ quantity: 3, unit: 'kg' }, parseProductAttributes('Brokkoli'))).toBe(1);
+        expect(getPackageCount({ quantity: 500, unit: 'g' }, parseProductAttributes('Brokkoli 1 stk'))).toBe(1);
+        expect(getPackageCount({ quantity: 2, unit: 'liter' }, parseProductAttributes('Kjøttdeig 400g'))).toBe(1);
+    });
+});
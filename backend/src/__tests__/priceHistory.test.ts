@@ -0,0 +1,51 @@
+import { computePriceHistoryStats, normalizePriceHistory } from '../services/priceHistoryService.js';
+
+describe('priceHistory', () => {
+    const today = new Date('2026-03-10T12:00:00Z');
+    // Newest first with a repeated price and a timestamp, as providers return it
+    const raw = [
+        { price: 35.6, date: '2026-03-02' },
+        { price: 33.6, date: '2026-02-16' },
+        { price: 33.6, date: '2026-02-10' },
+        { price: 39.9, date: '2025-12-01T08:00:00Z' },
+    ];
+
+    it('should normalize raw history to ascending change points', () => {
+        expect(normalizePriceHistory(raw, 35.6, today)).toEqual([
+            { date: '2025-12-01', price: 39.9 },
+            { date: '2026-02-10', price: 33.6 },
+            { date: '2026-03-02', price: 35.6 },
+        ]);
+    });
+
+    it('should add the current price as today\'s point when it differs', () => {
+        const points = normalizePriceHistory(raw, 29.9, today);
+        expect(points[points.length - 1]).toEqual({ date: '2026-03-10', price: 29.9 });
+        expect(normalizePriceHistory(undefined, 20, today)).toEqual([{ date: '2026-03-10', price: 20 }]);
+    });
+
+    it('should compute 30 and 90 day stats from daily prices', () => {
+        const stats = computePriceHistoryStats(normalizePriceHistory(raw, 35.6, today), 35.6, today);
+
+        expect(stats.last30).toEqual({ days: 30, min: 33.6, max: 39.9, median: 33.6 });
+        // 61 of the last 90 days were at 39.9
+        expect(stats.last90).toEqual({ days: 90, min: 33.6, max: 39.9, median: 39.9 });
+        expect(stats.currentPercentile).toBe(22);
+        expect(stats.lastChange).toBe('2026-03-02');
+    });
+
+    it('should rate a new low at the 0th percentile', () => {
+        const stats = computePriceHistoryStats(normalizePriceHistory(raw, 29.9, today), 29.9, today);
+
+        expect(stats.currentPercentile).toBe(0);
+        expect(stats.last30.min).toBe(29.9);
+        expect(stats.lastChange).toBe('2026-03-10');
+    });
+
+    it('should fall back to the current price without history', () => {
+        const stats = computePriceHistoryStats([], 20, today);
+
+        expect(stats.last90).toEqual({ days: 90, min: 20, max: 20, median: 20 });
+        expect(stats.lastChange).toBeNull();
+    });
+});
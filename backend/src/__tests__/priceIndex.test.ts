@@ -0,0 +1,99 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PriceIndexService } from '../services/PriceIndexService.js';
+
+const entry = (store_id: string, chain: string, price: number, last_updated: string) => ({
+    store_id,
+    canonical_product_id: 'milk',
+    product_name: 'Tine Lettmelk 1l',
+    price,
+    last_updated,
+    availability: true,
+    chain
+});
+
+describe('PriceIndexService', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'price-index-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const open = () => new PriceIndexService(path.join(dir, 'index.db'), path.join(dir, 'legacy.json'));
+
+    it('should not create the database until it is first used', () => {
+        const dbPath = path.join(dir, 'index.db');
+        const index = new PriceIndexService(dbPath, path.join(dir, 'legacy.json'));
+        expect(fs.existsSync(dbPath)).toBe(false);
+
+        expect(index.getAllEntries()).toEqual([]);
+        expect(fs.existsSync(dbPath)).toBe(true);
+        index.close();
+    });
+
+    it('should look up current prices by canonical ID, synonym, store and chain', () => {
+        const index = open();
+        index.updateEntries([
+            entry('Rema 1000 Torvet', 'REMA 1000', 20.9, '2026-10-01T03:00:00.000Z'),
+            entry('Kiwi Solsiden', 'KIWI', 21.5, '2026-10-01T03:00:00.000Z'),
+        ]);
+
+        expect(index.getPricesForCanonicalItem('melk')).toHaveLength(2);
+        expect(index.getPricesForCanonicalItem('milk', { chain: 'rema' }).map(e => e.price)).toEqual([20.9]);
+        expect(index.getPricesForCanonicalItem('milk', { id: 'Kiwi Solsiden' })[0]).toMatchObject({ chain: 'KIWI', availability: true });
+        expect(index.getPricesForCanonicalItem('bread')).toEqual([]);
+        index.close();
+    });
+
+    it('should keep every sync as history and answer the price on a date', () => {
+        const index = open();
+        index.updateEntries([entry('Rema 1000 Torvet', 'REMA 1000', 20.9, '2026-10-01T03:00:00.000Z')]);
+        index.updateEntries([entry('Rema 1000 Torvet', 'REMA 1000', 18.9, '2026-10-08T03:00:00.000Z')]);
+
+        expect(index.getPricesForCanonicalItem('milk').map(e => e.price)).toEqual([18.9]);
+        expect(index.getHistory('milk').map(e => e.price)).toEqual([20.9, 18.9]);
+
+        const store = { id: 'Rema 1000 Torvet' };
+        expect(index.getPricesOnDate('milk', '2026-10-05', store)[0]).toMatchObject({ price: 20.9, last_updated: '2026-10-01T03:00:00.000Z' });
+        expect(index.getPricesOnDate('milk', '2026-10-08', store)[0].price).toBe(18.9);
+        expect(index.getPricesOnDate('milk', '2026-09-30', store)).toEqual([]);
+        index.close();
+    });
+
+    it('should upsert incrementally without dropping other stores', () => {
+        const index = open();
+        index.updateEntries([
+            entry('Rema 1000 Torvet', 'REMA 1000', 20.9, '2026-10-01T03:00:00.000Z'),
+            entry('Kiwi Solsiden', 'KIWI', 21.5, '2026-10-01T03:00:00.000Z'),
+        ]);
+        index.upsertEntries([entry('Kiwi Solsiden', 'KIWI', 19.9, '2026-10-02T12:00:00.000Z')]);
+        // An older observation arriving late goes to history but doesn't overwrite the current price
+        index.upsertEntries([entry('Kiwi Solsiden', 'KIWI', 25, '2026-09-15T12:00:00.000Z')]);
+
+        const prices = Object.fromEntries(index.getPricesForCanonicalItem('milk').map(e => [e.store_id, e.price]));
+        expect(prices).toEqual({ 'Rema 1000 Torvet': 20.9, 'Kiwi Solsiden': 19.9 });
+        expect(index.getHistory('milk', { chain: 'kiwi' })).toHaveLength(3);
+        index.close();
+    });
+
+    it('should persist across restarts and import the legacy JSON index once', () => {
+        fs.writeFileSync(path.join(dir, 'legacy.json'), JSON.stringify({
+            metadata: { lastGlobalUpdate: '2026-09-01T03:00:00.000Z', version: '1.0.0' },
+            entries: [entry('Meny Solsiden', 'MENY', 24.9, '2026-09-01T03:00:00.000Z')]
+        }));
+
+        const first = open();
+        expect(first.getAllEntries()).toHaveLength(1);
+        first.close();
+
+        const reopened = open();
+        expect(reopened.getAllEntries().map(e => e.price)).toEqual([24.9]);
+        expect(reopened.getHistory('milk')).toHaveLength(1);
+        reopened.close();
+    });
+});
@@ -0,0 +1,41 @@
+import { parseProductAttributes } from '../utils/productAttributes.js';
+
+describe('parseProductAttributes', () => {
+    it('should read net quantity, unit and fat % from product names', () => {
+        expect(parseProductAttributes('Tine Lettmelk 1% 1,75l')).toEqual({
+            netQuantity: 1.75, netUnit: 'l', fatPercent: 1, organic: false, variants: ['lett']
+        });
+        expect(parseProductAttributes('Kjøttdeig 400g 14%')).toMatchObject({ netQuantity: 0.4, netUnit: 'kg', fatPercent: 14 });
+        expect(parseProductAttributes('Jarlsberg revet 27% 150 gr')).toMatchObject({ netQuantity: 0.15, fatPercent: 27, variants: ['revet'] });
+    });
+
+    it('should count packs and multiply multipack sizes', () => {
+        expect(parseProductAttributes('Egg 12pk frittgående')).toMatchObject({
+            netQuantity: 12, netUnit: 'stk', packCount: 12, variants: ['frittgående']
+        });
+        expect(parseProductAttributes('Yoghurt 4x125g')).toMatchObject({ netQuantity: 0.5, netUnit: 'kg', packCount: 4, itemQuantity: 0.125 });
+        expect(parseProductAttributes('Pepsi Max 0.33L 10-pk')).toMatchObject({ netQuantity: 3.3, netUnit: 'l', packCount: 10, itemQuantity: 0.33 });
+        // A weight next to "stk" is the total weight
+        expect(parseProductAttributes('Kyllingfilet 2 stk 400g')).toMatchObject({ netQuantity: 0.4, netUnit: 'kg', packCount: 2 });
+    });
+
+    it('should not mistake alcohol or cocoa percentages for fat', () => {
+        expect(parseProductAttributes('Ringnes Pils 4,7% alk 0,5l').fatPercent).toBeUndefined();
+        expect(parseProductAttributes('Freia 70% kakao 100g').fatPercent).toBeUndefined();
+    });
+
+    it('should detect organic, origin and variants', () => {
+        expect(parseProductAttributes('Norsk økologisk kylling hel 1,2kg')).toMatchObject({ organic: true, origin: 'Norge', variants: ['hel'] });
+        expect(parseProductAttributes('Spanske appelsiner 1kg').origin).toBe('Spania');
+        expect(parseProductAttributes('Bananer fra Colombia').origin).toBe('Colombia');
+        expect(parseProductAttributes('Lettsaltet smør 250g').variants).toEqual(['lettsaltet']);
+        expect(parseProductAttributes('Pepsi Max Zero 1,5l').variants).toEqual(['sukkerfri']);
+    });
+
+    it('should fall back to structured size data when the name has none', () => {
+        expect(parseProductAttributes('Grandiosa Original', { weight: 575, unit: 'g' })).toMatchObject({
+            netQuantity: 0.575, netUnit: 'kg', variants: ['original']
+        });
+        expect(parseProductAttributes('Brokkoli')).toEqual({ organic: false, variants: [] });
+    });
+});
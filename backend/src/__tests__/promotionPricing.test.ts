@@ -0,0 +1,60 @@
+import type { PromotionalOffer } from '../types/index.js';
+import { applyBestPromotion, parseMultiBuy, priceWithRule, toPromotionRule } from '../services/promotionPricing.js';
+
+const offer = (fields: Partial<PromotionalOffer>): PromotionalOffer => ({
+    product_name: 'Grandiosa',
+    product_name_en: 'Grandiosa',
+    chain: 'Joker',
+    category: 'Frozen',
+    discount_type: 'percentage',
+    ...fields
+});
+
+describe('promotionPricing', () => {
+    it('should parse multi-buy terms from flyer text', () => {
+        expect(parseMultiBuy('3 for 2')).toEqual({ type: 'multi_buy', buy: 3, pay: 2 });
+        expect(parseMultiBuy('Ta 3 betal 2')).toEqual({ type: 'multi_buy', buy: 3, pay: 2 });
+        expect(parseMultiBuy('2 for 35 NOK + pant')).toEqual({ type: 'multi_buy', buy: 2, groupPrice: 35 });
+        expect(parseMultiBuy('3 for 30')).toEqual({ type: 'multi_buy', buy: 3, groupPrice: 30 });
+        expect(parseMultiBuy('Ukens 10')).toBeNull();
+    });
+
+    it('should only discount full multi-buy groups', () => {
+        const rule = { type: 'multi_buy' as const, buy: 2, groupPrice: 35 };
+        expect(priceWithRule(20, 1, rule)).toBe(20);
+        expect(priceWithRule(20, 2, rule)).toBe(35);
+        expect(priceWithRule(20, 5, rule)).toBe(90);
+        // A group price above the shelf price is no deal
+        expect(priceWithRule(15, 2, rule)).toBe(30);
+    });
+
+    it('should apply percentage and fixed price offers per unit', () => {
+        expect(priceWithRule(49.9, 2, { type: 'percentage', percent: 30 })).toBe(69.86);
+        expect(priceWithRule(40, 3, { type: 'fixed_price', unitPrice: 25 })).toBe(75);
+        expect(priceWithRule(20, 3, { type: 'fixed_price', unitPrice: 25 })).toBe(60);
+    });
+
+    it('should skip offers priced by weight', () => {
+        expect(toPromotionRule(offer({ discount_type: 'fixed_price', final_price: 12, unit: 'per hg' }))).toBeNull();
+    });
+
+    it('should pick the cheapest offer and report the discount', () => {
+        const quote = applyBestPromotion(30, 3, [
+            offer({ discount_type: 'percentage', discount_percent: 20 }),
+            offer({ discount_type: 'multi_buy', discount_value: '3 for 2' })
+        ]);
+
+        expect(quote).toMatchObject({ totalPrice: 60, regularTotalPrice: 90, discount: 30 });
+        expect(quote.promotion?.label).toBe('3 for 2');
+    });
+
+    it('should add the undiscounted deposit to flyer prices quoted "+ pant"', () => {
+        // Shelf price 32.90 includes 3 kr deposit; the flyer's 20 kr does not
+        const fixed = applyBestPromotion(32.9, 2, [offer({ discount_type: 'fixed_price', final_price: 20, additional_cost: 'pant', deposit: 3 })], 3);
+        expect(fixed).toMatchObject({ totalPrice: 46, discount: 19.8, depositTotal: 6 });
+
+        // Percentage deals discount the drink, not the deposit
+        const percentage = applyBestPromotion(32.9, 1, [offer({ discount_type: 'percentage', discount_percent: 50 })], 3);
+        expect(percentage.totalPrice).toBe(17.95);
+    });
+});
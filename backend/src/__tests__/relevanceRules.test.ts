@@ -0,0 +1,126 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+
+process.env.ADMIN_TOKEN = 'test-admin-token';
+
+const { RelevanceRuleService, RelevanceRuleError, relevanceRuleService } = await import('../services/relevanceRuleService.js');
+const { calculateRelevanceScore } = await import('../utils/matching.js');
+const { default: app } = await import('../server.js');
+
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'relevance-rules-'));
+
+const writeRules = (rules: object[], lists: object = {}): string => {
+    const file = path.join(tmpRoot, `rules-${Math.random().toString(36).slice(2)}.json`);
+    fs.writeFileSync(file, JSON.stringify({ version: 2, lists, rules }));
+    return file;
+};
+
+afterAll(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe('RelevanceRuleService', () => {
+    it('should evaluate rules for a query in either language and trace which ones fired', () => {
+        const rules = new RelevanceRuleService(writeRules([
+            { id: 'milk-not-flavored', queries: ['melk'], contains: ['@flavors'], exclude: true },
+            { id: 'milk-plain', queries: ['milk'], contains: ['lettmelk', 'helmelk'], score: 50 },
+            { id: 'cheese-only', queries: ['ost'], contains: ['melk'], score: -100 },
+        ], { flavors: ['sjokolade', 'jordbær'] }));
+
+        const chocolate = rules.evaluate('Tine Sjokolademelk 1l', 'milk');
+        expect(chocolate.excluded).toBe(true);
+        expect(chocolate.fired).toEqual([{ id: 'milk-not-flavored', score: 0, exclude: true, matched: 'sjokolade' }]);
+
+        const plain = rules.evaluate('Tine Lettmelk 1l', 'Melk');
+        expect(plain).toEqual({ score: 50, excluded: false, fired: [{ id: 'milk-plain', score: 50, exclude: false, matched: 'lettmelk' }] });
+        expect(rules.getVersion()).toBe(2);
+    });
+
+    it('should ignore keywords that are part of the query and match short keywords at word starts', () => {
+        const rules = new RelevanceRuleService(writeRules([
+            { id: 'no-sweets', contains: ['sjokolade', 'is'], exclude: true },
+        ]));
+
+        expect(rules.evaluate('Tine Sjokolademelk', 'melk').excluded).toBe(true);
+        expect(rules.evaluate('Tine Sjokolademelk', 'sjokolademelk').excluded).toBe(false);
+        expect(rules.evaluate('Is Vanilje', 'vanilje').excluded).toBe(true);
+        expect(rules.evaluate('Jasmin Ris 1kg', 'ris').excluded).toBe(false);
+    });
+
+    it('should apply category rules, {query} patterns, product categories and exceptions', () => {
+        const rules = new RelevanceRuleService(writeRules([
+            { id: 'produce-first', categories: ['fruit', 'vegetable'], pattern: '^{query}', score: 200 },
+            { id: 'not-drinks', queries: ['melk'], productCategories: ['drikke'], unless: ['melk'], score: -500 },
+            { id: 'no-soap', exceptCategories: ['personal_care'], contains: ['såpe'], exclude: true },
+        ]));
+
+        expect(rules.evaluate('Epler Pink Lady', 'apples').fired.map(f => f.id)).toEqual(['produce-first']);
+        expect(rules.evaluate('Eplejuice', 'melk').fired).toEqual([]);
+        expect(rules.evaluate('Iskaffe Mocca', 'melk', { productCategory: 'Drikke' }).score).toBe(-500);
+        expect(rules.evaluate('Q Lettmelk', 'melk', { productCategory: 'Drikke' }).score).toBe(0);
+        expect(rules.evaluate('Grønnsåpe', 'gulrot').excluded).toBe(true);
+    });
+
+    it('should reject invalid files and keep the current rules when a reload fails', () => {
+        expect(() => new RelevanceRuleService(writeRules([{ id: 'a', contains: ['@missing'], score: 1 }]))).toThrow(/unknown list @missing/);
+        expect(() => new RelevanceRuleService(writeRules([{ id: 'a', pattern: '(', score: 1 }]))).toThrow(/regular expression/);
+        expect(() => new RelevanceRuleService(writeRules([{ id: 'a', contains: ['x'] }]))).toThrow(/numeric score or exclude/);
+        expect(() => new RelevanceRuleService(writeRules([{ id: 'a', score: 1 }]))).toThrow(/contains, pattern or productCategories/);
+        expect(() => new RelevanceRuleService(path.join(tmpRoot, 'missing.json'))).toThrow(RelevanceRuleError);
+
+        const file = writeRules([{ id: 'milk-plain', queries: ['melk'], contains: ['lettmelk'], score: 50 }]);
+        const rules = new RelevanceRuleService(file);
+        fs.writeFileSync(file, '{ "rules": [');
+        expect(() => rules.load()).toThrow(RelevanceRuleError);
+        expect(rules.evaluate('Lettmelk', 'melk').score).toBe(50);
+    });
+
+    it('should rank products with the shipped rules', () => {
+        expect(relevanceRuleService.evaluate('Tine Sjokolademelk', 'milk').excluded).toBe(true);
+        expect(relevanceRuleService.evaluate('Kokosmelk 400ml', 'melk').fired.map(f => f.id)).toContain('milk-not-oil');
+        expect(relevanceRuleService.evaluate('Poteter Vasket 2kg', 'potatoes').excluded).toBe(false);
+        expect(calculateRelevanceScore('Tine Lettmelk 1l', 'milk')).toBeGreaterThan(calculateRelevanceScore('Tine Sjokolademelk 1l', 'milk'));
+        expect(calculateRelevanceScore('Bananer Klase', 'banana')).toBeGreaterThan(calculateRelevanceScore('Bananchips', 'banana'));
+    });
+});
+
+describe('Admin relevance API', () => {
+    const auth = { Authorization: 'Bearer test-admin-token' };
+
+    it('should reject requests without the admin token', async () => {
+        const res = await request(app).post('/api/admin/relevance/reload');
+        expect(res.status).toBe(401);
+
+        const wrong = await request(app).get('/api/admin/relevance/rules').set('X-Admin-Token', 'nope');
+        expect(wrong.status).toBe(401);
+    });
+
+    it('should reload the rules file and list the active rules', async () => {
+        const reload = await request(app).post('/api/admin/relevance/reload').set(auth);
+        expect(reload.status).toBe(200);
+        expect(reload.body.count).toBe(relevanceRuleService.getRules().length);
+
+        const list = await request(app).get('/api/admin/relevance/rules').set('X-Admin-Token', 'test-admin-token');
+        expect(list.status).toBe(200);
+        expect(list.body.rules.map((r: { id: string }) => r.id)).toContain('milk-not-oil');
+    });
+
+    it('should explain which rules fired for each product name', async () => {
+        const res = await request(app)
+            .post('/api/admin/relevance/explain')
+            .set(auth)
+            .send({ query: 'milk', names: ['Tine Lettmelk 1l', 'Tine Sjokolademelk 1l'] });
+
+        expect(res.status).toBe(200);
+        const [plain, chocolate] = res.body.results;
+        expect(plain).toMatchObject({ name: 'Tine Lettmelk 1l', excluded: false });
+        expect(plain.fired.map((f: { id: string }) => f.id)).toEqual(['milk-plain']);
+        expect(chocolate.excluded).toBe(true);
+        expect(chocolate.relevanceScore).toBeLessThan(plain.relevanceScore);
+
+        const invalid = await request(app).post('/api/admin/relevance/explain').set(auth).send({ query: 'milk' });
+        expect(invalid.status).toBe(400);
+    });
+});
@@ -0,0 +1,111 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import request from 'supertest';
+
+// Replay recorded Kassal and Gemini traffic from fixtures/cassettes: real normalization, scoring
+// and JSON parsing run, but nothing leaves the process and no API keys are needed
+process.env.HTTP_CASSETTE_MODE = 'replay';
+process.env.DATA_PROVIDER = 'kassal';
+delete process.env.GEMINI_API_KEY;
+
+const { KassalProvider } = await import('../services/providers/KassalProvider.js');
+const { aiService } = await import('../services/aiService.js');
+const { app } = await import('../server.js');
+const { default: cache } = await import('../utils/cache.js');
+const { Cassette } = await import('../utils/cassette.js');
+
+describe('Cassette', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'smarthandel-cassette-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should record axios traffic and replay it, including error responses', async () => {
+        // Stand-in for the network: 200 for /products, 404 for everything else
+        const network = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+            const found = config.url === '/products';
+            const response = {
+                data: JSON.stringify(found ? { data: [{ id: 1 }] } : { message: 'Not found' }),
+                status: found ? 200 : 404,
+                statusText: '',
+                headers: { 'content-type': 'application/json', 'set-cookie': ['secret'] },
+                config,
+                request: {}
+            };
+            if (found) return response;
+            throw new axios.AxiosError('Request failed with status code 404', 'ERR_BAD_REQUEST', config, {}, response);
+        };
+
+        const recorder = axios.create({ baseURL: 'https://example.test/api', adapter: network });
+        new Cassette('example', 'record', dir).attachToAxios(recorder);
+        await recorder.get('/products', { params: { search: 'melk', size: 10 } });
+        await expect(recorder.get('/missing')).rejects.toMatchObject({ response: { status: 404 } });
+
+        const saved = fs.readFileSync(path.join(dir, 'example.json'), 'utf-8');
+        expect(saved).not.toContain('secret');
+
+        const player = axios.create({ baseURL: 'https://example.test/api', adapter: () => Promise.reject(new Error('network used')) });
+        new Cassette('example', 'replay', dir).attachToAxios(player);
+
+        // Param order does not matter for lookups
+        const replayed = await player.get('/products', { params: { size: 10, search: 'melk' } });
+        expect(replayed.data).toEqual({ data: [{ id: 1 }] });
+        await expect(player.get('/missing')).rejects.toMatchObject({ response: { status: 404, data: { message: 'Not found' } } });
+        await expect(player.get('/products', { params: { search: 'brød' } })).rejects.toThrow('No recording');
+    });
+});
+
+describe('Record/replay (cassettes)', () => {
+    const provider = new KassalProvider();
+
+    beforeEach(() => {
+        cache.flush();
+    });
+
+    it('should normalize and rank replayed Kassal search results', async () => {
+        const products = await provider.searchProducts('lettmelk');
+
+        // Both price formats are understood; chain codes are normalized
+        expect(products.find(p => p.id === 19021)).toMatchObject({ price: 34.9, chain: 'Rema 1000', ean: '7038010055720' });
+        expect(products.find(p => p.id === 19022)).toMatchObject({ price: 33.6, chain: 'Kiwi' });
+
+        // Size and fat % come from the name, not the nutrition unit
+        expect(products.find(p => p.id === 19021)?.attributes).toMatchObject({ netQuantity: 1.75, netUnit: 'l', fatPercent: 1 });
+
+        // Unpriced products are dropped, and "m/lettmelk" marks porridge as a flavoured product, not milk
+        expect(products.map(p => p.id).sort()).toEqual([19021, 19022]);
+    });
+
+    it('should replay recorded error responses', async () => {
+        await expect(provider.getProductsByEan('7000000000000')).resolves.toEqual([]);
+    });
+
+    it('should fail loudly on requests that were never recorded', async () => {
+        await expect(provider.searchProducts('ukjent vare 123')).rejects.toThrow();
+    });
+
+    it('should parse a replayed Gemini answer end-to-end through the API', async () => {
+        const res = await request(app)
+            .post('/api/ai/parse')
+            .send({ query: '2 liter melk og brød, maks 150 kr' });
+
+        expect(res.status).toBe(200);
+        expect(res.body.budget).toBe(150);
+        expect(res.body.items).toEqual([
+            expect.objectContaining({ name: 'Melk', quantity: 2, unit: 'liter' }),
+            expect.objectContaining({ name: 'Brød', quantity: 1 })
+        ]);
+    });
+
+    it('should serve replayed answers without an API key', async () => {
+        expect(await aiService.checkHealth()).toBe(false); // "ping" was never recorded
+        await expect(aiService.parseShoppingQuery('2 liter melk og brød, maks 150 kr')).resolves.toMatchObject({ budget: 150 });
+    });
+});
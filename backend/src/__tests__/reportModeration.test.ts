@@ -0,0 +1,120 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'report-moderation-'));
+
+process.env.ADMIN_TOKEN = 'test-admin-token';
+process.env.REPORTS_FILE = path.join(tmpRoot, 'reports.json');
+process.env.MATCH_CORRECTIONS_FILE = path.join(tmpRoot, 'corrections.json');
+
+const { ReportService } = await import('../services/reportService.js');
+const { default: app } = await import('../server.js');
+
+const auth = { Authorization: 'Bearer test-admin-token' };
+
+const submit = (overrides: object) => request(app).post('/api/reports/mismatch').send({
+    store_id: 'rema-1',
+    store_name: 'Rema 1000 Grünerløkka',
+    store_chain: 'Rema 1000',
+    requested_item_name: 'milk',
+    matched_item_name: 'Tine Sjokolademelk 1l',
+    report_reason: 'Wrong product matched',
+    session_id: `session-${Math.random().toString(36).slice(2)}`,
+    ...overrides
+});
+
+afterAll(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe('Report moderation', () => {
+    beforeAll(async () => {
+        await submit({});
+        await submit({ report_reason: 'Wrong price', optional_note: '=HYPERLINK("x")' });
+        await submit({ store_id: 'kiwi-1', store_name: 'Kiwi Møllenberg', store_chain: 'Kiwi', matched_item_name: 'Eplejuice 1l', requested_item_name: 'apples' });
+        // Moderation fields can't be set by the reporter
+        await submit({ store_id: 'kiwi-1', store_name: 'Kiwi Møllenberg', report_reason: 'Other', status: 'resolved' });
+    });
+
+    it('should require the admin token', async () => {
+        const res = await request(app).get('/api/admin/reports');
+        expect(res.status).toBe(401);
+    });
+
+    it('should list reports with filters', async () => {
+        const all = await request(app).get('/api/admin/reports').set(auth);
+        expect(all.status).toBe(200);
+        expect(all.body.total).toBe(4);
+        expect(all.body.reports.every((r: { status: string }) => r.status === 'open')).toBe(true);
+
+        const kiwi = await request(app).get('/api/admin/reports?store=kiwi').set(auth);
+        expect(kiwi.body.total).toBe(2);
+
+        const price = await request(app).get('/api/admin/reports').query({ reason: 'Wrong price', store: 'rema-1' }).set(auth);
+        expect(price.body.reports.map((r: { report_reason: string }) => r.report_reason)).toEqual(['Wrong price']);
+
+        const page = await request(app).get('/api/admin/reports?limit=1&offset=1').set(auth);
+        expect(page.body).toMatchObject({ total: 4, count: 1, offset: 1 });
+
+        const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        const future = await request(app).get(`/api/admin/reports?from=${tomorrow}`).set(auth);
+        expect(future.body.total).toBe(0);
+
+        const invalid = await request(app).get('/api/admin/reports?status=done').set(auth);
+        expect(invalid.status).toBe(400);
+    });
+
+    it('should resolve, reject and reopen reports with a note', async () => {
+        const { body } = await request(app).get('/api/admin/reports?reason=Other').set(auth);
+        const id = body.reports[0].id;
+
+        const resolved = await request(app).post(`/api/admin/reports/${id}/resolve`).set(auth).send({ note: 'Fixed the mapping' });
+        expect(resolved.status).toBe(200);
+        expect(resolved.body.report).toMatchObject({ status: 'resolved', resolution_note: 'Fixed the mapping' });
+        expect(resolved.body.report.resolved_at).toBeDefined();
+
+        const open = await request(app).get('/api/admin/reports?status=open').set(auth);
+        expect(open.body.total).toBe(3);
+
+        await request(app).post(`/api/admin/reports/${id}/reject`).set(auth).send({});
+        const rejected = await ReportService.listReports({ status: 'rejected' });
+        expect(rejected.map(r => [r.id, r.resolution_note])).toEqual([[id, 'Fixed the mapping']]);
+
+        const reopened = await request(app).post(`/api/admin/reports/${id}/reopen`).set(auth).send({});
+        expect(reopened.body.report.status).toBe('open');
+        expect(reopened.body.report.resolved_at).toBeUndefined();
+
+        const missing = await request(app).post('/api/admin/reports/nope/resolve').set(auth).send({});
+        expect(missing.status).toBe(404);
+    });
+
+    it('should summarize reports by status, reason and store', async () => {
+        const res = await request(app).get('/api/admin/reports/stats').set(auth);
+        expect(res.status).toBe(200);
+        expect(res.body.total).toBe(4);
+        expect(res.body.byStatus).toEqual({ open: 4, resolved: 0, rejected: 0 });
+        expect(res.body.byReason[0]).toEqual({ reason: 'Wrong product matched', count: 2 });
+        expect(res.body.byStore).toHaveLength(2);
+        expect(res.body.byStore).toEqual(expect.arrayContaining([
+            { store_id: 'rema-1', store_name: 'Rema 1000 Grünerløkka', count: 2, open: 2 },
+            { store_id: 'kiwi-1', store_name: 'Kiwi Møllenberg', count: 2, open: 2 },
+        ]));
+    });
+
+    it('should export the filtered reports as CSV or JSON', async () => {
+        const csv = await request(app).get('/api/admin/reports/export?store=rema-1').set(auth);
+        expect(csv.status).toBe(200);
+        expect(csv.headers['content-type']).toMatch(/text\/csv/);
+        expect(csv.headers['content-disposition']).toMatch(/attachment; filename="mismatch-reports-\d{4}-\d{2}-\d{2}\.csv"/);
+        const lines = csv.text.trim().split('\n');
+        expect(lines[0]).toMatch(/^id,created_at,status,store_id,/);
+        expect(lines).toHaveLength(3);
+        // Spreadsheet formulas in user input are neutralized
+        expect(csv.text).toContain(`"'=HYPERLINK(""x"")"`);
+
+        const json = await request(app).get('/api/admin/reports/export?format=json&reason=Other').set(auth);
+        expect(JSON.parse(json.text)).toHaveLength(1);
+    });
+});
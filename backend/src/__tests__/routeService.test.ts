@@ -0,0 +1,228 @@
+import { jest } from '@jest/globals';
+import type { DataAggregator } from '../services/providers/DataAggregator.js';
+
+// Branch pricing is opt-in; the budget is small enough to run out in the tests below
+process.env.BRANCH_PRICING = 'true';
+process.env.BRANCH_PRICING_MAX_LOOKUPS = '3';
+
+// --- Mock Aggregator ---
+const mockAggregator = {
+    searchProductsWithChainVariety: jest.fn<DataAggregator['searchProductsWithChainVariety']>(),
+    searchProductsAtStore: jest.fn<DataAggregator['searchProductsAtStore']>(),
+    supportsStorePricing: jest.fn<DataAggregator['supportsStorePricing']>(),
+    getProductById: jest.fn<DataAggregator['getProductById']>(),
+};
+
+jest.unstable_mockModule('../services/providers/DataAggregator.js', () => ({
+    dataAggregator: mockAggregator,
+    default: mockAggregator
+}));
+
+import type { Product, Store, ShoppingItem } from '../types/index.js';
+
+// --- Dynamic Imports ---
+const { routeService } = await import('../services/routeService.js');
+const { offerService } = await import('../services/OfferService.js');
+
+describe('RouteService Branch Price Resolution', () => {
+    const userLocation = { lat: 63.43, lng: 10.39 };
+    const items: ShoppingItem[] = [{ name: 'melk', quantity: 2 }];
+    const stores: Store[] = [
+        { id: 1, name: 'Rema 1000 Solsiden', chain: 'Rema 1000', address: 'Beddingen 10', location: { lat: 63.434, lng: 10.41 }, distance: 0 },
+        { id: 2, name: 'Rema 1000 Moholt', chain: 'Rema 1000', address: 'Moholt Allé 2', location: { lat: 63.41, lng: 10.43 }, distance: 0 }
+    ];
+    const chainProduct: Product = { id: 'p1', name: 'Tine Lettmelk 1l', price: 24, store: 'Rema 1000', chain: 'Rema 1000', image_url: '', unit: 'l' };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockAggregator.searchProductsWithChainVariety.mockResolvedValue({
+            products: [chainProduct],
+            queryMapping: new Map([['melk', ['p1']]])
+        });
+    });
+
+    it('should rank stores on branch prices and mark the level each price was resolved at', async () => {
+        mockAggregator.supportsStorePricing.mockReturnValue(true);
+        mockAggregator.searchProductsAtStore.mockImplementation(async (_query: string, store: Store) =>
+            store.id === 2 ? [{ ...chainProduct, price: 21, store: store.name, address: store.address }] : []
+        );
+
+        const result = await routeService.calculateOptimalRoute(items, userLocation, stores);
+
+        expect(mockAggregator.searchProductsAtStore).toHaveBeenCalledTimes(2);
+        expect(result.singleStore?.store.id).toBe(2);
+        expect(result.singleStore?.totalCost).toBe(42);
+        expect(result.singleStore?.items[0].priceLevel).toBe('branch');
+    });
+
+    it('should stop branch lookups when the per-request budget is spent', async () => {
+        mockAggregator.supportsStorePricing.mockReturnValue(true);
+        mockAggregator.searchProductsAtStore.mockResolvedValue([]);
+
+        await routeService.calculateOptimalRoute([...items, { name: 'brød', quantity: 1 }], userLocation, stores);
+
+        // 2 stores x 2 items, but only 3 lookups allowed: the top store gets both, the next one
+        expect(mockAggregator.searchProductsAtStore).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep chain-level prices when no provider can price individual stores', async () => {
+        mockAggregator.supportsStorePricing.mockReturnValue(false);
+
+        const result = await routeService.calculateOptimalRoute(items, userLocation, stores);
+
+        expect(mockAggregator.searchProductsAtStore).not.toHaveBeenCalled();
+        expect(result.singleStore?.totalCost).toBe(48);
+        expect(result.singleStore?.items[0].priceLevel).toBe('chain');
+    });
+});
+
+describe('RouteService Promotion Pricing', () => {
+    const userLocation = { lat: 63.43, lng: 10.39 };
+    const stores: Store[] = [
+        { id: 1, name: 'Rema 1000 Solsiden', chain: 'Rema 1000', address: 'Beddingen 10', location: { lat: 63.434, lng: 10.41 }, distance: 0 },
+        { id: 2, name: 'Joker Bakklandet', chain: 'Joker', address: 'Øvre Bakklandet 1', location: { lat: 63.43, lng: 10.40 }, distance: 0 }
+    ];
+    const products: Product[] = [
+        { id: 'p1', name: 'Grandiosa Original', price: 50, store: 'Rema 1000', chain: 'Rema 1000', image_url: '', unit: 'stk' },
+        { id: 'p2', name: 'Grandiosa Original', price: 60, store: 'Joker', chain: 'Joker', image_url: '', unit: 'stk' }
+    ];
+
+    beforeEach(() => {
+        jest.restoreAllMocks();
+        mockAggregator.supportsStorePricing.mockReturnValue(false);
+        mockAggregator.searchProductsWithChainVariety.mockResolvedValue({
+            products,
+            queryMapping: new Map([['grandiosa', ['p1', 'p2']]])
+        });
+        jest.spyOn(offerService, 'findMatchingOffers').mockReturnValue([
+            { product_name: 'Grandiosa', product_name_en: 'Grandiosa', chain: 'Joker', category: 'Frozen', discount_type: 'multi_buy', discount_value: '3 for 2' }
+        ]);
+    });
+
+    it('should let a multi-buy offer lower the line total and change the winning store', async () => {
+        const result = await routeService.calculateOptimalRoute([{ name: 'grandiosa', quantity: 3 }], userLocation, stores);
+
+        expect(result.singleStore?.store.id).toBe(2);
+        expect(result.singleStore?.totalCost).toBe(120);
+        expect(result.singleStore?.totalDiscount).toBe(60);
+        expect(result.singleStore?.items[0]).toMatchObject({
+            totalPrice: 120,
+            regularTotalPrice: 180,
+            discount: 60,
+            appliedPromotion: { label: '3 for 2', rule: { type: 'multi_buy', buy: 3, pay: 2 } }
+        });
+    });
+
+    it('should charge full price when the quantity does not fill a multi-buy group', async () => {
+        const result = await routeService.calculateOptimalRoute([{ name: 'grandiosa', quantity: 2 }], userLocation, stores);
+
+        expect(result.singleStore?.store.id).toBe(1);
+        expect(result.singleStore?.totalCost).toBe(100);
+        expect(result.singleStore?.totalDiscount).toBe(0);
+    });
+});
+
+describe('RouteService Unit Price Ranking', () => {
+    const userLocation = { lat: 63.43, lng: 10.39 };
+    const stores: Store[] = [
+        { id: 1, name: 'Rema 1000 Solsiden', chain: 'Rema 1000', address: 'Beddingen 10', location: { lat: 63.434, lng: 10.41 }, distance: 0 },
+        { id: 2, name: 'Joker Bakklandet', chain: 'Joker', address: 'Øvre Bakklandet 1', location: { lat: 63.43, lng: 10.40 }, distance: 0 }
+    ];
+    const products: Product[] = [
+        { id: 'r1', name: 'Jasminris 400g', price: 15, store: 'Rema 1000', chain: 'Rema 1000', image_url: '', unit: 'stk', unitPrice: 37.5, unitPriceUnit: 'kr/kg', attributes: { netQuantity: 0.4, netUnit: 'kg', organic: false, variants: [] } },
+        { id: 'r2', name: 'Jasminris 4kg', price: 80, store: 'Rema 1000', chain: 'Rema 1000', image_url: '', unit: 'stk', unitPrice: 20, unitPriceUnit: 'kr/kg', attributes: { netQuantity: 4, netUnit: 'kg', organic: false, variants: [] } },
+        { id: 'j1', name: 'Jasminris 1kg', price: 18, store: 'Joker', chain: 'Joker', image_url: '', unit: 'stk', unitPrice: 18, unitPriceUnit: 'kr/kg', attributes: { netQuantity: 1, netUnit: 'kg', organic: false, variants: [] } }
+    ];
+
+    beforeEach(() => {
+        jest.restoreAllMocks();
+        mockAggregator.supportsStorePricing.mockReturnValue(false);
+        mockAggregator.searchProductsWithChainVariety.mockResolvedValue({
+            products,
+            queryMapping: new Map([['ris', ['r1', 'r2', 'j1']]])
+        });
+        jest.spyOn(offerService, 'findMatchingOffers').mockReturnValue([]);
+    });
+
+    it('should pick the cheapest package by default', async () => {
+        const result = await routeService.calculateOptimalRoute([{ name: 'ris', quantity: 1 }], userLocation, stores);
+
+        expect(result.singleStore?.store.id).toBe(1);
+        expect(result.singleStore?.items[0]).toMatchObject({ id: 'r1', totalPrice: 15, unitPrice: 37.5, unitPriceUnit: 'kr/kg' });
+    });
+
+    it('should pick products and rank stores by kr/kg when sorting by unit price', async () => {
+        const result = await routeService.calculateOptimalRoute([{ name: 'ris', quantity: 1 }], userLocation, stores, {
+            maxStores: 3, maxDistance: 10000, sortBy: 'unitPrice'
+        });
+
+        expect(result.singleStore?.store.id).toBe(2);
+        expect(result.singleStore?.items[0]).toMatchObject({ id: 'j1', unitPrice: 18 });
+    });
+
+    it('should prefer the bigger package within a store when sorting by unit price', async () => {
+        mockAggregator.searchProductsWithChainVariety.mockResolvedValue({
+            products: products.slice(0, 2),
+            queryMapping: new Map([['ris', ['r1', 'r2']]])
+        });
+        const result = await routeService.calculateOptimalRoute([{ name: 'ris', quantity: 1 }], userLocation, stores, {
+            maxStores: 3, maxDistance: 10000, sortBy: 'unitPrice'
+        });
+
+        expect(result.singleStore?.items[0]).toMatchObject({ id: 'r2', totalPrice: 80, unitPrice: 20 });
+    });
+
+    it('should rank stores by total cost when a line has no unit price to compare', async () => {
+        mockAggregator.searchProductsWithChainVariety.mockResolvedValue({
+            products: [
+                products[0],
+                products[2],
+                { id: 'rb', name: 'Grovbrød', price: 30, store: 'Rema 1000', chain: 'Rema 1000', image_url: '', unit: 'stk' },
+                { id: 'jb', name: 'Grovbrød', price: 45, store: 'Joker', chain: 'Joker', image_url: '', unit: 'stk' }
+            ],
+            queryMapping: new Map([['ris', ['r1', 'j1']], ['brød', ['rb', 'jb']]])
+        });
+        const result = await routeService.calculateOptimalRoute([{ name: 'ris', quantity: 1 }, { name: 'brød', quantity: 1 }], userLocation, stores, {
+            maxStores: 3, maxDistance: 10000, sortBy: 'unitPrice'
+        });
+
+        // Joker's rice is cheaper per kg, but 37.5 kr/kg + 30 kr can't be weighed against 18 kr/kg + 45 kr
+        expect(result.singleStore?.store.id).toBe(1);
+        expect(result.singleStore?.totalCost).toBe(45);
+    });
+});
+
+describe('RouteService Package Counts', () => {
+    const userLocation = { lat: 63.43, lng: 10.39 };
+    const stores: Store[] = [
+        { id: 1, name: 'Rema 1000 Solsiden', chain: 'Rema 1000', address: 'Beddingen 10', location: { lat: 63.434, lng: 10.41 }, distance: 0 }
+    ];
+    const products: Product[] = [
+        { id: 'm1', name: 'Tine Lettmelk 1l', price: 20, store: 'Rema 1000', chain: 'Rema 1000', image_url: '', unit: 'stk', attributes: { netQuantity: 1, netUnit: 'l', organic: false, variants: ['lett'] } },
+        { id: 'm2', name: 'Tine Lettmelk 1,75l', price: 30, store: 'Rema 1000', chain: 'Rema 1000', image_url: '', unit: 'stk', attributes: { netQuantity: 1.75, netUnit: 'l', organic: false, variants: ['lett'] } }
+    ];
+
+    beforeEach(() => {
+        jest.restoreAllMocks();
+        mockAggregator.supportsStorePricing.mockReturnValue(false);
+        mockAggregator.searchProductsWithChainVariety.mockResolvedValue({
+            products,
+            queryMapping: new Map([['melk', ['m1', 'm2']]])
+        });
+        jest.spyOn(offerService, 'findMatchingOffers').mockReturnValue([]);
+    });
+
+    it('should buy enough packages to cover the requested amount and pick the cheapest way to do it', async () => {
+        const result = await routeService.calculateOptimalRoute([{ name: 'melk', quantity: 2, unit: 'liter' }], userLocation, stores);
+
+        // 2 x 1 l (40 kr) beats 2 x 1.75 l (60 kr), though the 1.75 l carton is cheaper per liter
+        expect(result.singleStore?.items[0]).toMatchObject({ id: 'm1', quantity: 2, totalPrice: 40, requested: { amount: 2, unit: 'l' } });
+    });
+
+    it('should keep counting packages when no unit is given', async () => {
+        const result = await routeService.calculateOptimalRoute([{ name: 'melk', quantity: 2 }], userLocation, stores);
+
+        expect(result.singleStore?.items[0]).toMatchObject({ id: 'm1', quantity: 2, totalPrice: 40 });
+        expect(result.singleStore?.items[0].requested).toBeUndefined();
+    });
+});
@@ -0,0 +1,10 @@
+import os from 'os';
+import path from 'path';
+
+// Runs before every suite. Config is loaded on import; the offline provider needs no API key,
+// so suites that want another provider set DATA_PROVIDER themselves before importing the app.
+process.env.DATA_PROVIDER = 'fixture';
+
+// Corrections learned from reports on this machine would change the ranking the tests check;
+// suites that record reports point this at their own temp file.
+process.env.MATCH_CORRECTIONS_FILE = path.join(os.tmpdir(), `smarthandel-tests-${process.pid}`, 'match_corrections.json');
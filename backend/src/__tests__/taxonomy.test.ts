@@ -0,0 +1,57 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TaxonomyService, TaxonomyError, taxonomyService } from '../services/taxonomyService.js';
+import { isStrictWordMatch, calculateRelevanceScore } from '../utils/matching.js';
+
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'taxonomy-'));
+
+const writeTaxonomy = (terms: object[]): string => {
+    const file = path.join(tmpRoot, `taxonomy-${Math.random().toString(36).slice(2)}.json`);
+    fs.writeFileSync(file, JSON.stringify({ version: 1, terms }));
+    return file;
+};
+
+afterAll(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe('TaxonomyService', () => {
+    it('should translate English and Norwegian forms to one Norwegian term and back', () => {
+        expect(['apple', 'Apples', 'eple', 'epler'].map(q => taxonomyService.translate(q))).toEqual(['epler', 'epler', 'epler', 'epler']);
+        expect(taxonomyService.translate('minced_meat')).toBe('kjøttdeig');
+        expect(taxonomyService.translate('Kebab')).toBe('kebab');
+        expect(taxonomyService.toEnglish('gulrot')).toBe('carrot');
+        expect(taxonomyService.toEnglish('kebab')).toBeUndefined();
+        expect(taxonomyService.getForms('apples')).toEqual(['epler', 'eple']);
+    });
+
+    it('should resolve compounds by their head, except for opted-out terms', () => {
+        expect(taxonomyService.resolveCompound('grovbrød')?.no).toBe('brød');
+        expect(taxonomyService.getCategory('rødløk')).toBe('vegetable');
+        expect(taxonomyService.getCategory('hvitløk')).toBe('vegetable');
+        expect(taxonomyService.resolveCompound('frost')).toBeUndefined();
+        expect(taxonomyService.resolveCompound('mellomlegg')).toBeUndefined();
+    });
+
+    it('should reject a form that belongs to two terms', () => {
+        expect(() => new TaxonomyService(writeTaxonomy([
+            { no: 'appelsiner', en: ['orange'], category: 'fruit' },
+            { no: 'oransje', en: ['orange'], category: 'groceries' },
+        ]))).toThrow(/"orange" is used by both appelsiner and oransje/);
+        expect(() => new TaxonomyService(writeTaxonomy([{ no: 'melk', en: ['milk'], category: 'drinks' }]))).toThrow(TaxonomyError);
+    });
+});
+
+describe('Matching with the taxonomy', () => {
+    it('should accept any Norwegian form of the query as a strict word match', () => {
+        expect(isStrictWordMatch('Eple Pink Lady', 'apples')).toBe(true);
+        expect(isStrictWordMatch('Epler Røde 1kg', 'eple')).toBe(true);
+        expect(isStrictWordMatch('Mellomleggspapir', 'egg')).toBe(false);
+    });
+
+    it('should apply fruit protection to every fruit in the taxonomy', () => {
+        expect(calculateRelevanceScore('Avokado 2pk', 'avocado')).toBeGreaterThan(0);
+        expect(calculateRelevanceScore('Avokado Smoothie', 'avocado')).toBeLessThan(-1000);
+    });
+});
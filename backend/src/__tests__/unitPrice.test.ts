@@ -0,0 +1,22 @@
+import { comparablePrices, getUnitPrice } from '../utils/unitPrice.js';
+import { parseProductAttributes } from '../utils/productAttributes.js';
+
+describe('getUnitPrice', () => {
+    it('should price per kg, liter or piece from the parsed size', () => {
+        expect(getUnitPrice(39.9, parseProductAttributes('Kjøttdeig 400g 14%'))).toEqual({ unitPrice: 99.75, unitPriceUnit: 'kr/kg' });
+        expect(getUnitPrice(54.9, parseProductAttributes('Egg 12pk frittgående'))).toEqual({ unitPrice: 4.58, unitPriceUnit: 'kr/stk' });
+        expect(getUnitPrice(25, parseProductAttributes('Brokkoli'))).toBeNull();
+    });
+
+    it('should leave the deposit out and spread line totals over the packages bought', () => {
+        // 6 x 0.33 l with 12 kr deposit: (71.9 - 12) / 1.98 l
+        expect(getUnitPrice(71.9, parseProductAttributes('Coca-Cola 6x0,33l'), 12)).toEqual({ unitPrice: 30.25, unitPriceUnit: 'kr/l' });
+        expect(getUnitPrice(40, parseProductAttributes('Tine Lettmelk 1% 1,75l'), 0, 2)).toEqual({ unitPrice: 11.43, unitPriceUnit: 'kr/l' });
+    });
+
+    it('should compare unit prices only when both are in the same unit', () => {
+        expect(comparablePrices({ price: 80, unitPrice: 20, unitPriceUnit: 'kr/kg' }, { price: 15, unitPrice: 37.5, unitPriceUnit: 'kr/kg' })).toEqual([20, 37.5]);
+        expect(comparablePrices({ price: 80, unitPrice: 20, unitPriceUnit: 'kr/kg' }, { price: 15, unitPrice: 3, unitPriceUnit: 'kr/stk' })).toEqual([80, 15]);
+        expect(comparablePrices({ price: 80 }, { price: 15, unitPrice: 37.5, unitPriceUnit: 'kr/kg' })).toEqual([80, 15]);
+    });
+});
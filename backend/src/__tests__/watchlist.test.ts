@@ -0,0 +1,159 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+
+// Config is loaded on import: keep the route's default watchlist file out of the repo
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'watchlist-'));
+process.env.WATCHLIST_FILE = path.join(tmpRoot, 'default.json');
+
+const mockAggregator = {
+    getProductById: jest.fn(),
+    getProductsByEan: jest.fn(),
+    searchProducts: jest.fn(),
+    getCircuitStatus: jest.fn(() => ({})),
+};
+
+const mockPriceIndex = {
+    getPricesForCanonicalItem: jest.fn(),
+    scheduleSync: jest.fn(),
+};
+
+jest.unstable_mockModule('../services/providers/DataAggregator.js', () => ({
+    dataAggregator: mockAggregator,
+    default: mockAggregator,
+}));
+
+jest.unstable_mockModule('../services/PriceIndexService.js', () => ({
+    priceIndexService: mockPriceIndex,
+    default: mockPriceIndex,
+}));
+
+const { WatchlistService } = await import('../services/watchlistService.js');
+const { default: app } = await import('../server.js');
+
+const deviceId = '3f0e8a5c-7b1d-4c2e-9a6f-1d2b3c4d5e6f';
+const otherDevice = '9b8a7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d';
+
+const milk = { id: 100001, name: 'Tine Lettmelk 1l', ean: '7038010009457', price: 24.9, store: 'Kiwi', chain: 'KIWI' };
+
+afterAll(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe('WatchlistService', () => {
+    let file: string;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        file = path.join(tmpRoot, `watchlist-${Date.now()}-${Math.random()}.json`);
+        mockAggregator.getProductById.mockResolvedValue(milk as never);
+    });
+
+    it('should keep subscriptions across restarts', async () => {
+        const service = new WatchlistService(file);
+        const subscription = await service.addSubscription(deviceId, { productId: '100001', targetPrice: 20, name: milk.name });
+
+        const restarted = new WatchlistService(file);
+        expect(await restarted.getSubscriptions(deviceId)).toEqual([subscription]);
+        expect(await restarted.getSubscriptions(otherDevice)).toEqual([]);
+    });
+
+    it('should alert once when the cheapest listing drops to the target, and again after the price recovers', async () => {
+        const service = new WatchlistService(file);
+        await service.addSubscription(deviceId, { productId: '100001', targetPrice: 20, name: milk.name });
+
+        mockAggregator.getProductsByEan.mockResolvedValue([milk, { ...milk, id: 100002, price: 19.9, store: 'Meny', chain: 'MENY' }] as never);
+        const first = await service.runChecks(new Date('2026-10-19T08:00:00Z'));
+        expect(first).toHaveLength(1);
+        expect(first[0]).toMatchObject({ price: 19.9, store: 'Meny', productId: '100002', read: false });
+
+        // Same price: no repeat
+        expect(await service.runChecks()).toHaveLength(0);
+
+        mockAggregator.getProductsByEan.mockResolvedValue([{ ...milk, price: 22.9 }] as never);
+        expect(await service.runChecks()).toHaveLength(0);
+
+        mockAggregator.getProductsByEan.mockResolvedValue([{ ...milk, price: 18.9 }] as never);
+        expect(await service.runChecks()).toHaveLength(1);
+        expect((await service.getAlerts(deviceId)).map(a => a.price)).toEqual([18.9, 19.9]);
+    });
+
+    it('should only count the chosen chain', async () => {
+        const service = new WatchlistService(file);
+        await service.addSubscription(deviceId, { productId: '100001', targetPrice: 20, chain: 'kiwi' });
+        mockAggregator.getProductsByEan.mockResolvedValue([milk, { ...milk, id: 100002, price: 19.9, chain: 'MENY' }] as never);
+
+        expect(await service.runChecks()).toHaveLength(0);
+        expect((await service.getSubscriptions(deviceId))[0].lastPrice).toBe(24.9);
+    });
+
+    it('should price canonical items from the index and fall back to live search', async () => {
+        const service = new WatchlistService(file);
+        await service.addSubscription(deviceId, { canonicalItem: 'Milk', targetPrice: 21 });
+
+        mockPriceIndex.getPricesForCanonicalItem.mockReturnValue([
+            { chain: 'REMA', product_name: 'Melk 1l', price: 20.5, availability: true },
+            { chain: 'KIWI', product_name: 'Melk 1l', price: 19.5, availability: false },
+        ] as never);
+        const alerts = await service.runChecks();
+        expect(alerts).toEqual([expect.objectContaining({ name: 'milk', price: 20.5, chain: 'REMA' })]);
+        expect(mockAggregator.searchProducts).not.toHaveBeenCalled();
+
+        const fresh = new WatchlistService(path.join(tmpRoot, 'search.json'));
+        await fresh.addSubscription(deviceId, { canonicalItem: 'melk', targetPrice: 30 });
+        mockPriceIndex.getPricesForCanonicalItem.mockReturnValue([]);
+        mockAggregator.searchProducts.mockResolvedValue([
+            { ...milk, name: 'Melkesjokolade 200g', price: 15 },
+            milk,
+        ] as never);
+        expect((await fresh.runChecks()).map(a => a.price)).toEqual([24.9]);
+    });
+
+    it('should mark alerts as read per device', async () => {
+        const service = new WatchlistService(file);
+        await service.addSubscription(deviceId, { productId: '100001', targetPrice: 30 });
+        mockAggregator.getProductsByEan.mockResolvedValue([milk] as never);
+        await service.runChecks();
+
+        expect(await service.markAlertsRead(otherDevice)).toBe(0);
+        expect(await service.markAlertsRead(deviceId)).toBe(1);
+        expect((await service.getAlerts(deviceId))[0].read).toBe(true);
+    });
+});
+
+describe('Watchlist API', () => {
+    it('should require a device ID', async () => {
+        const res = await request(app).get('/api/watchlist');
+        expect(res.status).toBe(400);
+    });
+
+    it('should add, list and remove watched items', async () => {
+        const created = await request(app)
+            .post('/api/watchlist')
+            .set('X-Device-Id', deviceId)
+            .send({ productId: '100001', targetPrice: 19.9, name: milk.name });
+        expect(created.status).toBe(201);
+
+        const list = await request(app).get('/api/watchlist').set('X-Device-Id', deviceId);
+        expect(list.body.subscriptions.map((s: { id: string }) => s.id)).toEqual([created.body.subscription.id]);
+
+        const removed = await request(app).delete(`/api/watchlist/${created.body.subscription.id}`).set('X-Device-Id', otherDevice);
+        expect(removed.status).toBe(404);
+        await request(app).delete(`/api/watchlist/${created.body.subscription.id}`).set('X-Device-Id', deviceId).expect(200);
+    });
+
+    it('should reject a subscription without exactly one target', async () => {
+        const res = await request(app)
+            .post('/api/watchlist')
+            .set('X-Device-Id', deviceId)
+            .send({ productId: '100001', canonicalItem: 'milk', targetPrice: 10 });
+        expect(res.status).toBe(400);
+    });
+
+    it('should report Web Push as disabled without VAPID keys', async () => {
+        const res = await request(app).get('/api/watchlist/push/key');
+        expect(res.body).toMatchObject({ enabled: false, publicKey: null });
+    });
+});
@@ -1,8 +1,37 @@
 import dotenv from 'dotenv';
+import path from 'path';
 
 // Load environment variables from .env file
 dotenv.config();
 
+/**
+ * Supported data providers.
+ * - kassal: live Kassal.app API (requires KASSAL_API_KEY)
+ * - fixture: local offline snapshot, no network or API keys needed
+ */
+export type DataProviderName = 'kassal' | 'fixture';
+
+/**
+ * Supported cache backends (see utils/cacheStores).
+ * - memory: process-local node-cache, lost on restart
+ * - file: in-memory cache snapshotted to a JSON file
+ * - redis: in-memory cache written through to Redis (or any Redis-protocol server)
+ */
+export type CacheBackendName = 'memory' | 'file' | 'redis';
+
+/**
+ * Record/replay mode for outbound Kassal and Gemini traffic (see utils/cassette).
+ */
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+/**
+ * Where mismatch reports and anti-abuse counters are stored (see services/reportRepositories).
+ * - file: JSON files, the original format
+ * - sqlite: embedded database file
+ * - postgres: any Postgres-compatible server at DATABASE_URL
+ */
+export type ReportBackendName = 'file' | 'sqlite' | 'postgres';
+
 /**
  * Interface for the application configuration
  */
@@ -17,8 +46,80 @@ interface Config {
     nodeEnv: string;
     /** Cache time-to-live in seconds */
     cacheTTL: number;
+    /** Where cached entries live: process memory, a JSON snapshot file, or Redis */
+    cacheBackend: CacheBackendName;
+    /** Snapshot file for the 'file' cache backend */
+    cacheFilePath: string;
+    /** Connection URL for the 'redis' cache backend */
+    redisUrl: string;
     /** List of allowed CORS origins */
     allowedOrigins: string[];
+    /** Data sources queried by the DataAggregator, in priority order */
+    dataProviders: DataProviderName[];
+    /** Per-provider timeout in milliseconds before the aggregator gives up on it */
+    providerTimeoutMs: number;
+    /** Directory holding the offline fixture dataset (stores.json, products.ndjson) */
+    fixtureDataDir: string;
+    /** Re-price shortlisted stores with branch-specific (store_id) queries during route optimization */
+    branchPricing: boolean;
+    /** How many of the top-ranked stores get branch-level price lookups */
+    branchPricingMaxStores: number;
+    /** Most branch-level lookups one route request may make; they share the Kassal rate limit with everything else */
+    branchPricingMaxLookups: number;
+    /** Cache time-to-live in seconds for branch-level price lookups */
+    branchPricingTTL: number;
+    /** Outbound request budget for the Kassal API (requests per minute, shared by all callers) */
+    kassalRateLimitPerMinute: number;
+    /** Largest burst of Kassal requests allowed before the per-minute rate applies */
+    kassalBurst: number;
+    /** Consecutive upstream failures that open the Kassal circuit breaker */
+    circuitBreakerThreshold: number;
+    /** Milliseconds the circuit stays open before a trial request is allowed */
+    circuitBreakerResetMs: number;
+    /** How long (seconds) last-known-good upstream responses are kept to serve while the circuit is open */
+    staleCacheTTL: number;
+    /** 'record' writes Kassal/Gemini request/response pairs to cassettes, 'replay' serves them without network */
+    cassetteMode: CassetteMode;
+    /** Directory holding the cassette files (kassal.json, gemini.json) */
+    cassetteDir: string;
+    /** Directory where imported weekly offer batches are stored (<week>/<chain>.json) */
+    offersDir: string;
+    /** Offer batches shipped with the repo, used until an import replaces them */
+    offersSeedDir: string;
+    /** Serve the seed batches as the current week once their own week is past (demo data; opt-in, `npm run dev` turns it on) */
+    replaySeedOffers: boolean;
+    /** Regular prices by offer product_name, as written by fetchOfferPrices before offers were imported in batches */
+    legacyOfferPricesFile: string;
+    /** JSON file defining the canonical items (names, synonyms, sync queries, negative keywords) */
+    catalogFile: string;
+    /** JSON file with the English/Norwegian grocery terms used to translate and match queries */
+    taxonomyFile: string;
+    /** JSON file with the relevance rules (boosts, penalties, exclusions) applied when ranking search results */
+    relevanceRulesFile: string;
+    /** Storage for mismatch reports and their anti-abuse counters */
+    reportsBackend: ReportBackendName;
+    /** JSON file holding the mismatch reports for the 'file' backend; imported once by the database backends */
+    reportsFile: string;
+    /** SQLite database for the 'sqlite' reports backend */
+    reportsDbPath: string;
+    /** Connection URL for the 'postgres' reports backend */
+    databaseUrl: string;
+    /** JSON file holding the per-query corrections learned from mismatch reports, with their audit trail */
+    matchCorrectionsFile: string;
+    /** Distinct reporters of the same wrong match at a chain before that product is demoted for the query there */
+    correctionDemoteThreshold: number;
+    /** Bearer token for the /api/admin endpoints; the admin API is disabled while it is empty */
+    adminToken: string;
+    /** SQLite database holding the canonical item price index and its history */
+    priceIndexDbPath: string;
+    /** JSON file holding watchlist subscriptions, alerts and push subscriptions */
+    watchlistFile: string;
+    /** Minutes between scheduled watchlist price checks */
+    watchlistCheckIntervalMinutes: number;
+    /** VAPID key pair and contact for Web Push; push is off unless both keys are set */
+    vapidPublicKey: string;
+    vapidPrivateKey: string;
+    vapidSubject: string;
 }
 
 /**
@@ -35,23 +136,86 @@ const getRequiredEnv = (key: string): string => {
     return value;
 };
 
+/**
+ * Resolves the configured data providers from a comma-separated list (e.g. "kassal,fixture").
+ * Unknown values are skipped; an empty result falls back to Kassal.
+ */
+const getDataProviders = (): DataProviderName[] => {
+    const values = (process.env.DATA_PROVIDER || 'kassal')
+        .split(',')
+        .map(v => v.trim().toLowerCase())
+        .filter(Boolean);
+
+    const providers: DataProviderName[] = [];
+    for (const value of values) {
+        if (value !== 'fixture' && value !== 'kassal') {
+            console.warn(`⚠️  WARNING: Unknown DATA_PROVIDER "${value}". Ignoring it.`);
+            continue;
+        }
+        if (!providers.includes(value)) providers.push(value);
+    }
+
+    return providers.length > 0 ? providers : ['kassal'];
+};
+
+const dataProviders = getDataProviders();
+
+/**
+ * Resolves HTTP_CASSETTE_MODE; anything unknown disables record/replay.
+ */
+const getCassetteMode = (): CassetteMode => {
+    const value = (process.env.HTTP_CASSETTE_MODE || 'off').trim().toLowerCase();
+    if (value === 'off' || value === 'record' || value === 'replay') return value;
+    console.warn(`⚠️  WARNING: Unknown HTTP_CASSETTE_MODE "${value}". Record/replay is off.`);
+    return 'off';
+};
+
+const cassetteMode = getCassetteMode();
+
+/**
+ * Resolves CACHE_BACKEND, falling back to the in-memory cache for unknown values.
+ */
+const getCacheBackend = (): CacheBackendName => {
+    const value = (process.env.CACHE_BACKEND || 'memory').trim().toLowerCase();
+    if (value === 'memory' || value === 'file' || value === 'redis') return value;
+    console.warn(`⚠️  WARNING: Unknown CACHE_BACKEND "${value}". Using in-memory cache.`);
+    return 'memory';
+};
+
+/**
+ * Resolves REPORTS_BACKEND, falling back to JSON files for unknown values.
+ */
+const getReportsBackend = (): ReportBackendName => {
+    const value = (process.env.REPORTS_BACKEND || 'file').trim().toLowerCase();
+    if (value === 'file' || value === 'sqlite' || value === 'postgres') return value;
+    console.warn(`⚠️  WARNING: Unknown REPORTS_BACKEND "${value}". Storing reports in JSON files.`);
+    return 'file';
+};
+
 /**
  * Central configuration object for the application
  */
 export const config: Config = {
     port: parseInt(process.env.PORT || '3001', 10),
 
-    // Required API keys with validation
-    kassalApiKey: getRequiredEnv('KASSAL_API_KEY').trim(),
-    geminiApiKey: process.env.GEMINI_API_KEY || (() => {
+    // Kassal key is only required when the live provider is selected (replayed cassettes need no key)
+    kassalApiKey: dataProviders.includes('kassal') && cassetteMode !== 'replay'
+        ? getRequiredEnv('KASSAL_API_KEY').trim()
+        : (process.env.KASSAL_API_KEY || '').trim(),
+    geminiApiKey: process.env.GEMINI_API_KEY || (cassetteMode === 'replay' ? '' : (() => {
         console.warn('⚠️  WARNING: GEMINI_API_KEY is not set. AI features will be unavailable.');
         return '';
-    })(),
+    })()),
 
     nodeEnv: process.env.NODE_ENV || 'development',
 
     // Default to 3600 seconds (1 hour) if not specified
     cacheTTL: parseInt(process.env.CACHE_TTL || '3600', 10),
+    cacheBackend: getCacheBackend(),
+    cacheFilePath: process.env.CACHE_FILE_PATH
+        ? path.resolve(process.env.CACHE_FILE_PATH)
+        : path.join(process.cwd(), 'data/cache.json'),
+    redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
 
     // Convert comma-separated string to array
     allowedOrigins: process.env.ALLOWED_ORIGINS
@@ -61,7 +225,73 @@ export const config: Config = {
             'https://smarthandel-mvp-frontend.vercel.app',
             'https://smarthandel.no',
             'https://www.smarthandel.no'
-        ]
+        ],
+
+    dataProviders,
+    providerTimeoutMs: parseInt(process.env.PROVIDER_TIMEOUT_MS || '15000', 10),
+    fixtureDataDir: process.env.FIXTURE_DATA_DIR
+        ? path.resolve(process.env.FIXTURE_DATA_DIR)
+        : path.join(process.cwd(), 'fixtures/trondheim'),
+
+    branchPricing: process.env.BRANCH_PRICING === 'true',
+    branchPricingMaxStores: parseInt(process.env.BRANCH_PRICING_MAX_STORES || '5', 10),
+    branchPricingMaxLookups: parseInt(process.env.BRANCH_PRICING_MAX_LOOKUPS || '10', 10),
+    branchPricingTTL: parseInt(process.env.BRANCH_PRICING_TTL || '1800', 10),
+
+    kassalRateLimitPerMinute: parseInt(process.env.KASSAL_RATE_LIMIT_PER_MINUTE || '60', 10),
+    kassalBurst: parseInt(process.env.KASSAL_BURST || '10', 10),
+    circuitBreakerThreshold: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '5', 10),
+    circuitBreakerResetMs: parseInt(process.env.CIRCUIT_BREAKER_RESET_MS || '30000', 10),
+    staleCacheTTL: parseInt(process.env.STALE_CACHE_TTL || '86400', 10),
+
+    cassetteMode,
+    cassetteDir: process.env.CASSETTE_DIR
+        ? path.resolve(process.env.CASSETTE_DIR)
+        : path.join(process.cwd(), 'fixtures/cassettes'),
+
+    offersDir: process.env.OFFERS_DIR
+        ? path.resolve(process.env.OFFERS_DIR)
+        : path.join(process.cwd(), 'data/offers'),
+    offersSeedDir: path.join(process.cwd(), 'fixtures/offers'),
+    replaySeedOffers: process.env.OFFERS_REPLAY_SEED === 'true',
+    legacyOfferPricesFile: process.env.OFFER_PRICES_FILE
+        ? path.resolve(process.env.OFFER_PRICES_FILE)
+        : path.join(process.cwd(), 'src/data/offerPrices.json'),
+
+    catalogFile: process.env.CATALOG_FILE
+        ? path.resolve(process.env.CATALOG_FILE)
+        : path.join(process.cwd(), 'catalog/catalog.json'),
+    taxonomyFile: process.env.TAXONOMY_FILE
+        ? path.resolve(process.env.TAXONOMY_FILE)
+        : path.join(process.cwd(), 'catalog/taxonomy.json'),
+    relevanceRulesFile: process.env.RELEVANCE_RULES_FILE
+        ? path.resolve(process.env.RELEVANCE_RULES_FILE)
+        : path.join(process.cwd(), 'catalog/relevance-rules.json'),
+    reportsBackend: getReportsBackend(),
+    reportsFile: process.env.REPORTS_FILE
+        ? path.resolve(process.env.REPORTS_FILE)
+        : path.join(process.cwd(), 'data/item_mismatch_reports.json'),
+    reportsDbPath: process.env.REPORTS_DB
+        ? path.resolve(process.env.REPORTS_DB)
+        : path.join(process.cwd(), 'data/reports.db'),
+    databaseUrl: process.env.DATABASE_URL || '',
+    matchCorrectionsFile: process.env.MATCH_CORRECTIONS_FILE
+        ? path.resolve(process.env.MATCH_CORRECTIONS_FILE)
+        : path.join(process.cwd(), 'data/match_corrections.json'),
+    correctionDemoteThreshold: parseInt(process.env.CORRECTION_DEMOTE_THRESHOLD || '3', 10),
+    adminToken: (process.env.ADMIN_TOKEN || '').trim(),
+
+    priceIndexDbPath: process.env.PRICE_INDEX_DB
+        ? path.resolve(process.env.PRICE_INDEX_DB)
+        : path.join(process.cwd(), 'data/price_index.db'),
+
+    watchlistFile: process.env.WATCHLIST_FILE
+        ? path.resolve(process.env.WATCHLIST_FILE)
+        : path.join(process.cwd(), 'data/watchlist.json'),
+    watchlistCheckIntervalMinutes: parseInt(process.env.WATCHLIST_CHECK_INTERVAL_MINUTES || '60', 10),
+    vapidPublicKey: (process.env.VAPID_PUBLIC_KEY || '').trim(),
+    vapidPrivateKey: (process.env.VAPID_PRIVATE_KEY || '').trim(),
+    vapidSubject: process.env.VAPID_SUBJECT || 'mailto:kontakt@smarthandel.no'
 };
 
 export default config;
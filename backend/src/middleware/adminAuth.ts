@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import config from '../config/index.js';
+import { ApiError } from './errorHandler.js';
+
+const tokensMatch = (given: string, expected: string): boolean => {
+    const a = Buffer.from(given);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Guards the admin endpoints with ADMIN_TOKEN, sent as "Authorization: Bearer <token>" or "X-Admin-Token".
+ * Without a configured token the admin API is switched off (503).
+ */
+export const requireAdmin = (req: Request, _res: Response, next: NextFunction) => {
+    if (!config.adminToken) {
+        return next(new ApiError(503, 'Admin API is disabled (ADMIN_TOKEN is not set)'));
+    }
+
+    const authorization = req.header('authorization') || '';
+    const token = authorization.startsWith('Bearer ')
+        ? authorization.slice('Bearer '.length).trim()
+        : req.header('x-admin-token') || '';
+
+    if (!token || !tokensMatch(token, config.adminToken)) {
+        return next(new ApiError(401, 'Invalid or missing admin token'));
+    }
+    next();
+};
+
+export default requireAdmin;
@@ -0,0 +1,279 @@
+import { Router, Request, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { ApiError, asyncHandler } from '../middleware/errorHandler.js';
+import { generalLimiter } from '../middleware/rateLimiter.js';
+import { requireAdmin } from '../middleware/adminAuth.js';
+import relevanceRuleService, { RelevanceRuleError } from '../services/relevanceRuleService.js';
+import matchCorrectionService, { CorrectionStatus } from '../services/matchCorrectionService.js';
+import { ReportService, ReportFilters, ReportStatus, REPORT_REASONS, REPORT_STATUSES } from '../services/reportService.js';
+import { calculateRelevanceScore } from '../utils/matching.js';
+
+const router = Router();
+
+router.use(generalLimiter, requireAdmin);
+
+/**
+ * @route   GET /api/admin/relevance/rules
+ * @desc    The active relevance rules and their version
+ * @access  Admin
+ */
+router.get('/relevance/rules', (req: Request, res: Response) => {
+    const rules = relevanceRuleService.getRules();
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({
+        success: true,
+        version: relevanceRuleService.getVersion(),
+        count: rules.length,
+        rules
+    });
+});
+
+/**
+ * @route   POST /api/admin/relevance/reload
+ * @desc    Re-reads the relevance rules file; an invalid file is rejected and the current rules stay active
+ * @access  Admin
+ */
+router.post('/relevance/reload', (req: Request, res: Response) => {
+    try {
+        const { version, count } = relevanceRuleService.load();
+        res.json({ success: true, version, count });
+    } catch (error) {
+        if (error instanceof RelevanceRuleError) throw new ApiError(400, error.message);
+        throw error;
+    }
+});
+
+/**
+ * @route   POST /api/admin/relevance/explain
+ * @desc    Scores product names against a query and lists the rules that fired for each
+ * @access  Admin
+ */
+router.post(
+    '/relevance/explain',
+    [
+        body('query').isString().trim().notEmpty().isLength({ max: 100 }),
+        body('names').isArray({ min: 1, max: 50 }),
+        body('names.*').isString().trim().notEmpty().isLength({ max: 200 }),
+        body('category').optional().isString().isLength({ max: 100 })
+    ],
+    (req: Request, res: Response) => {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            throw new ApiError(400, 'Validation failed', true);
+        }
+
+        const { query, names, category } = req.body as { query: string; names: string[]; category?: string };
+        const results = names.map(name => ({
+            name,
+            relevanceScore: calculateRelevanceScore(name, query),
+            ...relevanceRuleService.evaluate(name, query, { productCategory: category })
+        }));
+
+        res.setHeader('Cache-Control', 'no-store');
+        res.json({
+            success: true,
+            version: relevanceRuleService.getVersion(),
+            query,
+            results
+        });
+    }
+);
+
+/**
+ * @route   GET /api/admin/corrections
+ * @desc    Per-query corrections learned from mismatch reports, optionally filtered by status
+ * @access  Admin
+ */
+router.get(
+    '/corrections',
+    [query('status').optional().isIn(['pending', 'demoted', 'blocked', 'reverted'])],
+    (req: Request, res: Response) => {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            throw new ApiError(400, 'Validation failed', true);
+        }
+
+        const corrections = matchCorrectionService.getCorrections(req.query.status as CorrectionStatus | undefined);
+        res.setHeader('Cache-Control', 'no-store');
+        res.json({ success: true, count: corrections.length, corrections });
+    }
+);
+
+/**
+ * @route   GET /api/admin/corrections/audit
+ * @desc    Every status change made by reports or admins, oldest first
+ * @access  Admin
+ */
+router.get('/corrections/audit', (req: Request, res: Response) => {
+    const correctionId = typeof req.query.correctionId === 'string' ? req.query.correctionId : undefined;
+    const audit = matchCorrectionService.getAudit(correctionId);
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ success: true, count: audit.length, audit });
+});
+
+/**
+ * @route   POST /api/admin/corrections/:id/block
+ * @desc    Drops the product from the query's results at the correction's chain; reports alone only demote
+ * @access  Admin
+ */
+router.post(
+    '/corrections/:id/block',
+    [body('note').optional().isString().trim().isLength({ max: 500 })],
+    asyncHandler(async (req: Request, res: Response) => {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            throw new ApiError(400, 'Validation failed', true);
+        }
+
+        const correction = await matchCorrectionService.block(req.params.id as string, req.body.note);
+        res.json({ success: true, correction });
+    })
+);
+
+/**
+ * @route   POST /api/admin/corrections/:id/revert
+ * @desc    Undoes a demotion or block; later reports for the same match won't re-apply it
+ * @access  Admin
+ */
+router.post(
+    '/corrections/:id/revert',
+    [body('note').optional().isString().trim().isLength({ max: 500 })],
+    asyncHandler(async (req: Request, res: Response) => {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            throw new ApiError(400, 'Validation failed', true);
+        }
+
+        const correction = await matchCorrectionService.revert(req.params.id as string, req.body.note);
+        res.json({ success: true, correction });
+    })
+);
+
+/**
+ * @route   POST /api/admin/corrections/:id/restore
+ * @desc    Re-applies a reverted correction at the status its reports call for
+ * @access  Admin
+ */
+router.post(
+    '/corrections/:id/restore',
+    [body('note').optional().isString().trim().isLength({ max: 500 })],
+    asyncHandler(async (req: Request, res: Response) => {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            throw new ApiError(400, 'Validation failed', true);
+        }
+
+        const correction = await matchCorrectionService.restore(req.params.id as string, req.body.note);
+        res.json({ success: true, correction });
+    })
+);
+
+const reportFilterRules = [
+    query('store').optional().isString().trim().isLength({ max: 100 }),
+    query('reason').optional().isIn([...REPORT_REASONS]),
+    query('status').optional().isIn([...REPORT_STATUSES]),
+    query('from').optional().isISO8601(),
+    query('to').optional().isISO8601()
+];
+
+const getReportFilters = (req: Request): ReportFilters => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        throw new ApiError(400, 'Validation failed', true);
+    }
+    const { store, reason, status, from, to } = req.query as Record<string, string | undefined>;
+    return { store, reason, status: status as ReportStatus | undefined, from, to };
+};
+
+/**
+ * @route   GET /api/admin/reports
+ * @desc    Mismatch reports, newest first, filtered by store, reason, status and date
+ * @access  Admin
+ */
+router.get(
+    '/reports',
+    [
+        ...reportFilterRules,
+        query('limit').optional().isInt({ min: 1, max: 500 }),
+        query('offset').optional().isInt({ min: 0 })
+    ],
+    asyncHandler(async (req: Request, res: Response) => {
+        const reports = await ReportService.listReports(getReportFilters(req));
+        const limit = parseInt(req.query.limit as string, 10) || 100;
+        const offset = parseInt(req.query.offset as string, 10) || 0;
+        const page = reports.slice(offset, offset + limit);
+
+        res.setHeader('Cache-Control', 'no-store');
+        res.json({ success: true, total: reports.length, count: page.length, offset, reports: page });
+    })
+);
+
+/**
+ * @route   GET /api/admin/reports/stats
+ * @desc    Report counts by status, reason and store for the same filters as the list
+ * @access  Admin
+ */
+router.get('/reports/stats', reportFilterRules, asyncHandler(async (req: Request, res: Response) => {
+    const stats = await ReportService.getStats(getReportFilters(req));
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ success: true, ...stats });
+}));
+
+/**
+ * @route   GET /api/admin/reports/export
+ * @desc    Downloads the filtered reports as CSV (default) or JSON
+ * @access  Admin
+ */
+router.get(
+    '/reports/export',
+    [...reportFilterRules, query('format').optional().isIn(['csv', 'json'])],
+    asyncHandler(async (req: Request, res: Response) => {
+        const reports = await ReportService.listReports(getReportFilters(req));
+        const format = req.query.format === 'json' ? 'json' : 'csv';
+        const filename = `mismatch-reports-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+        res.setHeader('Cache-Control', 'no-store');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        if (format === 'json') {
+            res.type('application/json').send(JSON.stringify(reports, null, 2));
+        } else {
+            res.type('text/csv').send(ReportService.toCsv(reports));
+        }
+    })
+);
+
+const setReportStatus = (status: ReportStatus) => [
+    body('note').optional().isString().trim().isLength({ max: 1000 }),
+    asyncHandler(async (req: Request, res: Response) => {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            throw new ApiError(400, 'Validation failed', true);
+        }
+
+        const report = await ReportService.setStatus(req.params.id as string, status, req.body.note);
+        res.json({ success: true, report });
+    })
+];
+
+/**
+ * @route   POST /api/admin/reports/:id/resolve
+ * @desc    Marks a report as handled, with an optional `note`
+ * @access  Admin
+ */
+router.post('/reports/:id/resolve', setReportStatus('resolved'));
+
+/**
+ * @route   POST /api/admin/reports/:id/reject
+ * @desc    Marks a report as not a real mismatch, with an optional `note`
+ * @access  Admin
+ */
+router.post('/reports/:id/reject', setReportStatus('rejected'));
+
+/**
+ * @route   POST /api/admin/reports/:id/reopen
+ * @desc    Puts a resolved or rejected report back in the open queue
+ * @access  Admin
+ */
+router.post('/reports/:id/reopen', setReportStatus('open'));
+
+export default router;
@@ -0,0 +1,31 @@
+import { Router, Request, Response } from 'express';
+import { generalLimiter } from '../middleware/rateLimiter.js';
+import catalogService from '../services/catalogService.js';
+
+const router = Router();
+
+/**
+ * @route   GET /api/catalog
+ * @desc    The canonical items with their names, synonyms and category; `indexed` items have daily index prices
+ * @access  Public
+ */
+router.get(
+    '/',
+    generalLimiter,
+    (req: Request, res: Response) => {
+        const items = catalogService.getItems().map(item => ({
+            ...item,
+            indexed: (item.syncQueries?.length ?? 0) > 0
+        }));
+
+        res.setHeader('Cache-Control', 'public, max-age=3600'); // Cache for 1 hour
+        res.json({
+            success: true,
+            version: catalogService.getVersion(),
+            count: items.length,
+            items
+        });
+    }
+);
+
+export default router;
@@ -31,6 +31,7 @@ router.get(
             timestamp: new Date().toISOString(),
             uptime: process.uptime(),
             memory: process.memoryUsage(),
+            cache: cache.getStats(),
             version: packageVersion
         });
     })
@@ -45,8 +46,11 @@ router.get(
     '/ready',
     asyncHandler(async (req: Request, res: Response) => {
         const health = await dataAggregator.checkHealth();
-        const kassalOk = health['Kassal API'];
-        const offlineOk = health['Weekly Offers (Trondheim)'];
+        // Search keeps working as long as at least one provider answers
+        const providersOk = Object.values(health).some(Boolean);
+        const providerStatus = Object.fromEntries(
+            Object.entries(health).map(([name, ok]) => [name, ok ? 'ok' : 'error'])
+        );
         const aiOk = await aiService.checkHealth();
 
         // Test cache
@@ -58,13 +62,14 @@ router.get(
             console.error('[HealthRouter] Cache check failed:', e);
         }
 
-        const ready = kassalOk && aiOk && cacheOk;
+        const ready = providersOk && aiOk && cacheOk;
 
         res.status(ready ? 200 : 503).json({
             ready,
             services: {
-                kassal: kassalOk ? 'ok' : 'error',
-                offline: offlineOk ? 'ok' : 'error',
+                providers: providersOk ? 'ok' : 'error',
+                providerStatus,
+                circuitBreakers: dataAggregator.getCircuitStatus(),
                 gemini: aiOk ? 'ok' : 'error',
                 cache: cacheOk ? 'ok' : 'error'
             }
@@ -7,24 +7,11 @@ import dataAggregator from '../services/providers/DataAggregator.js';
 import comparisonService from '../services/comparisonService.js';
 import { ApiError } from '../middleware/errorHandler.js';
 import { ensureInRegion } from '../utils/locationUtils.js';
+import { matchProductToStore } from '../utils/matching.js';
 import { Store } from '../types/index.js';
-import { allOffers, getDiscountLabel, findMatchingOffers } from '../data/allOffersData.js';
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const offerPricesPath = path.join(__dirname, '../data/offerPrices.json');
-let offerPrices: Record<string, number> = {};
-
-try {
-    if (fs.existsSync(offerPricesPath)) {
-        offerPrices = JSON.parse(fs.readFileSync(offerPricesPath, 'utf-8'));
-    }
-} catch (e) {
-    console.error("Failed to load offerPrices.json", e);
-}
+import offerService, { getDiscountLabel, isOfferEndingSoon } from '../services/OfferService.js';
+import priceHistoryService from '../services/priceHistoryService.js';
+import { parseDateKey } from '../utils/isoWeek.js';
 
 const router = Router();
 
@@ -83,15 +70,25 @@ router.post(
 
 /**
  * @route   GET /api/products/offers
- * @desc    Get all current promotional offers
+ * @desc    Get promotional offers valid today, or on `?date=YYYY-MM-DD` to preview another week
  * @access  Public
  */
 router.get(
     '/offers',
     generalLimiter,
-    asyncHandler(async (_req: Request, res: Response) => {
-        const mappedOffers = allOffers.map(offer => {
-            let original_price = offerPrices[offer.product_name] || null;
+    [
+        query('date').optional().custom(value => parseDateKey(String(value)) !== null).withMessage('date must be YYYY-MM-DD')
+    ],
+    asyncHandler(async (req: Request, res: Response) => {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            throw new ApiError(400, 'Validation failed', true);
+        }
+
+        const date = (req.query.date && parseDateKey(String(req.query.date))) || new Date();
+
+        const mappedOffers = offerService.getCurrentOffers(date).map(offer => {
+            let original_price = offer.original_price || null;
 
             // Heuristic fallback if price missing but we know discount% and final price
             if (!original_price && offer.final_price && offer.discount_percent) {
@@ -101,7 +98,8 @@ router.get(
             return {
                 ...offer,
                 label: getDiscountLabel(offer),
-                original_price
+                original_price,
+                ending_soon: isOfferEndingSoon(offer, date)
             };
         });
 
@@ -112,6 +110,78 @@ router.get(
     })
 );
 
+/**
+ * @route   GET /api/products/ean/:ean
+ * @desc    Look up a product by barcode and list its price at each nearby chain
+ * @access  Public
+ */
+router.get(
+    '/ean/:ean',
+    generalLimiter,
+    [
+        param('ean').matches(/^\d{8,14}$/).withMessage('EAN must be 8-14 digits'),
+        query('lat').optional().isFloat({ min: -90, max: 90 }),
+        query('lng').optional().isFloat({ min: -180, max: 180 }),
+        query('radius').optional().isFloat({ min: 0 })
+    ],
+    asyncHandler(async (req: Request, res: Response) => {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            throw new ApiError(400, 'Validation failed', true);
+        }
+
+        const ean = req.params.ean as string;
+        const lat = req.query.lat !== undefined ? parseFloat(req.query.lat as string) : null;
+        const lng = req.query.lng !== undefined ? parseFloat(req.query.lng as string) : null;
+        const radius = req.query.radius !== undefined ? parseFloat(req.query.radius as string) : 10;
+
+        // 1. Every listing of the barcode across providers (cheapest first)
+        const listings = await dataAggregator.getProductsByEan(ean);
+        if (listings.length === 0) {
+            throw new ApiError(404, `No product found for EAN ${ean}`);
+        }
+
+        // 2. Restrict to chains with a store nearby when a location is given
+        let stores: Store[] = [];
+        if (lat !== null && lng !== null) {
+            const { location: searchLocation, radius: searchRadius } = ensureInRegion({ lat, lng }, radius);
+            stores = await dataAggregator.getStoresNearby(searchLocation, searchRadius);
+        }
+        const nearbyListings = stores.length === 0
+            ? listings
+            : listings.filter(p => stores.some(s => matchProductToStore(p, s)));
+
+        // 3. One price per chain; listings are already sorted so the first hit is the cheapest
+        const byChain = new Map<string, { productId: string | number; chain: string; store: string; price: number; source?: string }>();
+        nearbyListings.forEach(p => {
+            const chainKey = p.chain.toLowerCase();
+            if (!byChain.has(chainKey)) {
+                byChain.set(chainKey, { productId: p.id, chain: p.chain, store: p.store, price: p.price, source: p.source });
+            }
+        });
+        const prices = Array.from(byChain.values());
+
+        // Prefer a listing with an image as the representative product
+        const representative = listings.find(p => p.image_url) || listings[0];
+
+        res.setHeader('Cache-Control', 'public, max-age=3600'); // Cache for 1 hour
+        res.json({
+            success: true,
+            product: {
+                id: representative.id,
+                ean,
+                name: representative.name,
+                image_url: representative.image_url,
+                unit: representative.unit,
+                ingredients: representative.ingredients,
+                allergens: representative.allergens
+            },
+            prices,
+            cheapest: prices[0] || null
+        });
+    })
+);
+
 /**
  * @route   GET /api/products/:productId
  * @desc    Get detailed information for a specific product
@@ -133,6 +203,31 @@ router.get(
     })
 );
 
+/**
+ * @route   GET /api/products/:productId/history
+ * @desc    Price history per store with 30/90-day stats, to tell a real low from a dressed-up usual price
+ * @access  Public
+ */
+router.get(
+    '/:productId/history',
+    generalLimiter,
+    [param('productId').notEmpty()],
+    asyncHandler(async (req: Request, res: Response) => {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            throw new ApiError(400, 'Validation failed', true);
+        }
+
+        const history = await priceHistoryService.getHistory(req.params.productId as string);
+
+        res.setHeader('Cache-Control', 'public, max-age=3600'); // Cache for 1 hour
+        res.json({
+            success: true,
+            ...history
+        });
+    })
+);
+
 /**
  * @route   POST /api/products/compare
  * @desc    Compare specific items across stores
@@ -237,6 +332,8 @@ router.get(
                     allergens: p.allergens,
                     minPrice: p.price,
                     maxPrice: p.price,
+                    unitPrice: p.unitPrice,
+                    unitPriceUnit: p.unitPriceUnit,
                     storeCount: 0,
                     chains: new Set(),
                     relevanceScore: calculateRelevanceScore(name, canonicalId) // Calculate score once
@@ -244,7 +341,10 @@ router.get(
             }
 
             const regionalProduct = productMap.get(name);
-            regionalProduct.minPrice = Math.min(regionalProduct.minPrice, p.price);
+            if (p.price < regionalProduct.minPrice) {
+                regionalProduct.minPrice = p.price;
+                regionalProduct.unitPrice = p.unitPrice; // Unit price at the cheapest store
+            }
             regionalProduct.maxPrice = Math.max(regionalProduct.maxPrice, p.price);
             regionalProduct.storeCount++;
             if (p.chain) regionalProduct.chains.add(p.chain);
@@ -270,7 +370,7 @@ router.get(
                     c.toLowerCase().includes('joker')
                 );
 
-                let matchedOffers = findMatchingOffers(b.name);
+                let matchedOffers = offerService.findMatchingOffers(b.name);
 
                 // Filter by nearby chains if location provided (radius is 10-15km from query)
                 if (lat !== null && lng !== null && nearbyChains.size > 0) {
@@ -1,19 +1,24 @@
 import express from 'express';
 import { body, validationResult } from 'express-validator';
-import { ReportService } from '../services/reportService.js';
+import { ReportService, REPORT_REASONS } from '../services/reportService.js';
 import { ApiError } from '../middleware/errorHandler.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
+import { strictLimiter } from '../middleware/rateLimiter.js';
 
 const router = express.Router();
 
 // Session ID is required for anti-abuse but can be a simple frontend-generated UUID
-router.post('/mismatch', [
+router.post('/mismatch', strictLimiter, [
     body('store_id').notEmpty(),
     body('store_name').notEmpty(),
+    // Corrections learned from reports apply to the reported chain only
+    body('store_chain').isString().trim().notEmpty(),
     body('requested_item_name').notEmpty(),
     body('matched_item_name').notEmpty(),
-    body('report_reason').notEmpty().isIn(['Wrong product matched', 'Wrong size or variant', 'Wrong price', 'Marked available but unavailable', 'Other']),
+    body('report_reason').notEmpty().isIn([...REPORT_REASONS]),
     body('session_id').notEmpty(),
+    body(['basket_size', 'available_items_count']).optional().isInt({ min: 0 }),
+    body(['coverage_percentage', 'total_store_price']).optional().isFloat({ min: 0 }),
 ], asyncHandler(async (req: express.Request, res: express.Response) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -22,18 +27,16 @@ router.post('/mismatch', [
 
     const { store_id, matched_item_id, matched_item_name, session_id } = req.body;
 
-    // ⚠️ WARNING: Mismatch reports are written to a local file (data/item_mismatch_reports.json).
-    // In ephemeral deployment environments (Railway, Heroku, Docker without persistent volumes),
-    // this file will be wiped out on every deploy or server restart.
-    // TODO: Migrate this to a real database (e.g., PostgreSQL/MongoDB) before production launch.
+    // Reports and the anti-abuse counters go to REPORTS_BACKEND. The default JSON files need a
+    // persistent volume; use sqlite on a volume or postgres on ephemeral hosts (Railway, Heroku).
 
     // Anti-abuse check before processing
     const identifier = matched_item_id || matched_item_name;
-    if (!ReportService.canReport(session_id, store_id, identifier)) {
+    if (!(await ReportService.canReport(session_id, store_id, identifier))) {
         throw new ApiError(429, 'Reporting limit reached or duplicate item report.');
     }
 
-    const report = await ReportService.saveReport(req.body);
+    const report = await ReportService.saveReport(req.body, req.ip || req.socket.remoteAddress || '');
     res.status(201).json({
         success: true,
         data: report
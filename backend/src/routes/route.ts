@@ -29,6 +29,7 @@ router.post(
     body('userLocation.lng').isFloat({ min: -180, max: 180 }).withMessage('Valid longitude required'),
     body('preferences.maxStores').optional().isInt({ min: 1, max: 5 }),
     body('preferences.maxDistance').optional().isInt({ min: 500, max: 50000 }),
+    body('preferences.sortBy').optional().isIn(['cheapest', 'closest', 'stops', 'unitPrice']),
     ],
     asyncHandler(async (req: Request, res: Response) => {
         const errors = validationResult(req);
@@ -93,7 +94,8 @@ router.post(
             {
                 maxStores: preferences?.maxStores || 3,
                 maxDistance: preferences?.maxDistance || 10000,
-                excludedChains: preferences?.excludedChains
+                excludedChains: preferences?.excludedChains,
+                sortBy: preferences?.sortBy
             }
         );
 
@@ -0,0 +1,190 @@
+import { Router, Request, Response } from 'express';
+import { body, header, param, validationResult } from 'express-validator';
+import { asyncHandler, ApiError } from '../middleware/errorHandler.js';
+import { generalLimiter } from '../middleware/rateLimiter.js';
+import watchlistService from '../services/watchlistService.js';
+import pushService from '../services/pushService.js';
+
+const router = Router();
+
+// There are no accounts: the app generates a random device ID once and sends it with every watchlist call
+const deviceIdHeader = header('x-device-id').isUUID().withMessage('X-Device-Id header must be a UUID');
+
+const getDeviceId = (req: Request): string => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        throw new ApiError(400, 'Validation failed', true);
+    }
+    return req.header('x-device-id')!.toLowerCase();
+};
+
+/**
+ * @route   GET /api/watchlist
+ * @desc    The device's watched products and items with their last checked price
+ * @access  Public (device ID)
+ */
+router.get(
+    '/',
+    generalLimiter,
+    [deviceIdHeader],
+    asyncHandler(async (req: Request, res: Response) => {
+        const deviceId = getDeviceId(req);
+        const subscriptions = await watchlistService.getSubscriptions(deviceId);
+        res.setHeader('Cache-Control', 'no-store');
+        res.json({
+            success: true,
+            count: subscriptions.length,
+            subscriptions
+        });
+    })
+);
+
+/**
+ * @route   POST /api/watchlist
+ * @desc    Watch a product ID or canonical item for a drop to a target price, optionally at one chain
+ * @access  Public (device ID)
+ */
+router.post(
+    '/',
+    generalLimiter,
+    [
+        deviceIdHeader,
+        body('productId').optional().isString().trim().notEmpty().isLength({ max: 100 }),
+        body('canonicalItem').optional().isString().trim().notEmpty().isLength({ max: 100 }),
+        body().custom(value => Boolean(value?.productId) !== Boolean(value?.canonicalItem))
+            .withMessage('Exactly one of productId or canonicalItem is required'),
+        body('targetPrice').isFloat({ gt: 0, max: 100000 }).withMessage('targetPrice must be a positive number'),
+        body('chain').optional().isString().trim().isLength({ max: 50 }),
+        body('name').optional().isString().trim().isLength({ max: 200 }),
+    ],
+    asyncHandler(async (req: Request, res: Response) => {
+        const deviceId = getDeviceId(req);
+        const { productId, canonicalItem, targetPrice, chain, name } = req.body;
+
+        const subscription = await watchlistService.addSubscription(deviceId, {
+            productId: productId ? String(productId) : undefined,
+            canonicalItem,
+            targetPrice: Number(targetPrice),
+            chain: chain || undefined,
+            name: name || undefined
+        });
+
+        res.status(201).json({
+            success: true,
+            subscription
+        });
+    })
+);
+
+/**
+ * @route   DELETE /api/watchlist/:id
+ * @desc    Stop watching an item
+ * @access  Public (device ID)
+ */
+router.delete(
+    '/:id',
+    generalLimiter,
+    [deviceIdHeader, param('id').isUUID()],
+    asyncHandler(async (req: Request, res: Response) => {
+        const deviceId = getDeviceId(req);
+        await watchlistService.removeSubscription(deviceId, req.params.id as string);
+        res.json({ success: true });
+    })
+);
+
+/**
+ * @route   GET /api/watchlist/notifications
+ * @desc    Price drop alerts for the device, newest first
+ * @access  Public (device ID)
+ */
+router.get(
+    '/notifications',
+    generalLimiter,
+    [deviceIdHeader],
+    asyncHandler(async (req: Request, res: Response) => {
+        const deviceId = getDeviceId(req);
+        const notifications = await watchlistService.getAlerts(deviceId);
+        res.setHeader('Cache-Control', 'no-store');
+        res.json({
+            success: true,
+            unread: notifications.filter(n => !n.read).length,
+            notifications
+        });
+    })
+);
+
+/**
+ * @route   POST /api/watchlist/notifications/read
+ * @desc    Mark alerts as read (all of them when no ids are given)
+ * @access  Public (device ID)
+ */
+router.post(
+    '/notifications/read',
+    generalLimiter,
+    [deviceIdHeader, body('ids').optional().isArray({ max: 100 }), body('ids.*').isUUID()],
+    asyncHandler(async (req: Request, res: Response) => {
+        const deviceId = getDeviceId(req);
+        const marked = await watchlistService.markAlertsRead(deviceId, req.body.ids);
+        res.json({ success: true, marked });
+    })
+);
+
+/**
+ * @route   GET /api/watchlist/push/key
+ * @desc    Public VAPID key for PushManager.subscribe(); `enabled` is false when Web Push isn't configured
+ * @access  Public
+ */
+router.get(
+    '/push/key',
+    generalLimiter,
+    (req: Request, res: Response) => {
+        res.json({
+            success: true,
+            enabled: pushService.isEnabled(),
+            publicKey: pushService.getPublicKey()
+        });
+    }
+);
+
+/**
+ * @route   POST /api/watchlist/push/subscribe
+ * @desc    Register a browser push subscription for the device's alerts
+ * @access  Public (device ID)
+ */
+router.post(
+    '/push/subscribe',
+    generalLimiter,
+    [
+        deviceIdHeader,
+        body('subscription.endpoint').isURL({ protocols: ['https'], require_tld: false }),
+        body('subscription.keys.p256dh').isString().notEmpty(),
+        body('subscription.keys.auth').isString().notEmpty(),
+    ],
+    asyncHandler(async (req: Request, res: Response) => {
+        const deviceId = getDeviceId(req);
+        if (!pushService.isEnabled()) {
+            throw new ApiError(503, 'Web Push is not configured on this server');
+        }
+        const { endpoint, keys } = req.body.subscription;
+        await watchlistService.addPushSubscription(deviceId, { endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } });
+        res.status(201).json({ success: true });
+    })
+);
+
+/**
+ * @route   DELETE /api/watchlist/push/subscribe
+ * @desc    Remove a browser push subscription
+ * @access  Public (device ID)
+ */
+router.delete(
+    '/push/subscribe',
+    generalLimiter,
+    [deviceIdHeader, body('endpoint').isString().notEmpty()],
+    asyncHandler(async (req: Request, res: Response) => {
+        const deviceId = getDeviceId(req);
+        await watchlistService.removePushSubscription(deviceId, req.body.endpoint);
+        res.json({ success: true });
+    })
+);
+
+export default router;
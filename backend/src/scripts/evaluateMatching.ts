@@ -0,0 +1,105 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Scores the product matching pipeline against the labelled golden set and compares it with the saved baseline.
+ *
+ *   npm run eval-matching [-- --ai] [--update-baseline] [--set <file>] [--baseline <file>]
+ *
+ * Runs offline: candidates come from the golden set, not from Kassal. `--ai` adds the Gemini re-rank
+ * (needs GEMINI_API_KEY or HTTP_CASSETTE_MODE=replay). Exits with 1 when the result is worse than the baseline.
+ */
+
+// The harness never calls Kassal, so it shouldn't need a Kassal key to load the config
+process.env.DATA_PROVIDER = 'fixture';
+// Score the pipeline itself: corrections learned from this machine's reports would move the result off the baseline
+process.env.MATCH_CORRECTIONS_FILE = path.join(os.tmpdir(), `smarthandel-eval-${process.pid}`, 'match_corrections.json');
+
+const { loadGoldenSet, evaluateGoldenSet, compareToBaseline, GoldenSetError } = await import('../services/matchEvaluation.js');
+
+const DEFAULT_SET = path.join(process.cwd(), 'fixtures/golden/golden-set.json');
+const DEFAULT_BASELINE = path.join(process.cwd(), 'fixtures/golden/baseline.json');
+
+const parseArgs = (argv: string[]) => {
+    const args = { ai: false, updateBaseline: false, set: DEFAULT_SET, baseline: DEFAULT_BASELINE };
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i] === '--ai') args.ai = true;
+        else if (argv[i] === '--update-baseline') args.updateBaseline = true;
+        else if (argv[i] === '--set') args.set = path.resolve(argv[++i]);
+        else if (argv[i] === '--baseline') args.baseline = path.resolve(argv[++i]);
+    }
+    return args;
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatFalsePositives = (counts: Record<string, number | undefined>) => {
+    const entries = Object.entries(counts).sort(([, a], [, b]) => (b || 0) - (a || 0));
+    return entries.length > 0 ? entries.map(([label, count]) => `${label} ${count}`).join(', ') : 'none';
+};
+
+async function evaluate() {
+    const args = parseArgs(process.argv.slice(2));
+
+    let set;
+    try {
+        set = loadGoldenSet(args.set);
+    } catch (error) {
+        if (error instanceof GoldenSetError) {
+            console.error(`[EvalMatching] ${error.message.split(':')[0]}:`);
+            error.errors.forEach(e => console.error(`  - ${e}`));
+            process.exit(1);
+        }
+        throw error;
+    }
+
+    const report = await evaluateGoldenSet(set, { ai: args.ai });
+
+    console.log(`\n[EvalMatching] ${report.cases} cases (golden set v${report.datasetVersion}, rules v${report.rulesVersion}, AI re-rank ${report.aiRerank ? 'on' : 'off'})`);
+    console.log(`  Ranking    precision@1 ${percent(report.ranking.precisionAt1)}  MRR ${report.ranking.mrr.toFixed(3)}  no result ${report.ranking.noResult}`);
+    console.log(`             wrong first result: ${formatFalsePositives(report.ranking.falsePositives)}`);
+    console.log(`  Selection  precision@1 ${percent(report.selection.precisionAt1)}  no result ${report.selection.noResult}`);
+    console.log(`             wrong store pick: ${formatFalsePositives(report.selection.falsePositives)}`);
+
+    const misses = report.results.filter(r => r.topLabel !== 'ok' || r.pickLabel !== 'ok');
+    if (misses.length > 0) {
+        console.log('\n  Misses:');
+        for (const r of misses) {
+            console.log(`  - ${r.id} ("${r.query}"): first ${r.ranked[0] ? `"${r.ranked[0]}" (${r.topLabel})` : 'nothing'}, pick ${r.pick ? `"${r.pick}" (${r.pickLabel})` : 'nothing'}`);
+        }
+    }
+
+    if (args.updateBaseline) {
+        fs.mkdirSync(path.dirname(args.baseline), { recursive: true });
+        fs.writeFileSync(args.baseline, JSON.stringify(report, null, 2) + '\n');
+        console.log(`\n[EvalMatching] Baseline written to ${path.relative(process.cwd(), args.baseline)}.`);
+        return;
+    }
+
+    if (!fs.existsSync(args.baseline)) {
+        console.log('\n[EvalMatching] No baseline yet. Run with --update-baseline to save one.');
+        return;
+    }
+
+    const baseline = JSON.parse(fs.readFileSync(args.baseline, 'utf-8'));
+    if (baseline.aiRerank !== report.aiRerank) {
+        console.log(`\n[EvalMatching] The baseline was recorded with the AI re-rank ${baseline.aiRerank ? 'on' : 'off'}; skipping the comparison.`);
+        return;
+    }
+
+    const diff = compareToBaseline(report, baseline);
+    diff.improvements.forEach(line => console.log(`  + ${line}`));
+    diff.regressions.forEach(line => console.log(`  - ${line}`));
+
+    if (diff.regressions.length > 0) {
+        console.error(`\n[EvalMatching] ${diff.regressions.length} regression(s) against the baseline.`);
+        process.exit(1);
+    }
+    console.log(`\n[EvalMatching] No regressions against the baseline${diff.improvements.length > 0 ? '. Save the improvements with --update-baseline.' : '.'}`);
+}
+
+evaluate().catch(error => {
+    console.error('[EvalMatching] Evaluation failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+import offerService, { OfferImportError } from '../services/OfferService.js';
+import { getIsoWeek } from '../utils/isoWeek.js';
+
+/**
+ * Imports one chain's weekly flyer offers from a CSV or JSON file.
+ *
+ *   npm run import-offers -- --chain "COOP Marked" [--week 2026-W44] offers.csv
+ *
+ * The week defaults to the current ISO week. Re-importing a chain/week replaces it;
+ * the running server picks the new batch up without a restart.
+ */
+const parseArgs = (argv: string[]) => {
+    const args: { chain?: string; week?: string; file?: string } = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i] === '--chain') args.chain = argv[++i];
+        else if (argv[i] === '--week') args.week = argv[++i];
+        else args.file = argv[i];
+    }
+    return args;
+};
+
+function importOffers() {
+    const { chain, week = getIsoWeek(), file } = parseArgs(process.argv.slice(2));
+
+    if (!chain || !file) {
+        console.error('Usage: npm run import-offers -- --chain <chain> [--week YYYY-Www] <file.csv|file.json>');
+        process.exit(1);
+    }
+
+    const extension = path.extname(file).toLowerCase();
+    if (extension !== '.csv' && extension !== '.json') {
+        console.error(`[ImportOffers] Unsupported file type "${extension}". Use .csv or .json.`);
+        process.exit(1);
+    }
+
+    try {
+        const batch = offerService.importOffers({
+            chain,
+            week,
+            content: fs.readFileSync(file, 'utf-8'),
+            format: extension === '.csv' ? 'csv' : 'json',
+            source: path.basename(file)
+        });
+        console.log(`[ImportOffers] ${batch.chain} ${batch.week}: ${batch.offers.length} offers saved (revision ${batch.revision}).`);
+    } catch (error) {
+        if (error instanceof OfferImportError) {
+            console.error(`[ImportOffers] ${error.message}:`);
+            error.errors.forEach(e => console.error(`  - ${e}`));
+        } else {
+            console.error('[ImportOffers] Import failed:', (error as Error).message);
+        }
+        process.exit(1);
+    }
+}
+
+importOffers();
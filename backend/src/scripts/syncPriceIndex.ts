@@ -1,51 +1,12 @@
 import dataAggregator from '../services/providers/DataAggregator.js';
 import priceIndexService, { PriceIndexEntry } from '../services/PriceIndexService.js';
+import catalogService from '../services/catalogService.js';
 import { KassalProvider } from '../services/providers/KassalProvider.js';
 import { Product, Store } from '../types/index.js';
 import { isStrictWordMatch } from '../utils/matching.js';
 
-const CANONICAL_MAPPING = [
-    { id: 'milk', queries: ['Melk', 'Tine Melk', 'Q-meieriene Melk'], category: 'Dairy' },
-    { id: 'bread', queries: ['Brød', 'Kneipp', 'Grovbrød'], category: 'Bakery' },
-    { id: 'eggs', queries: ['Egg', 'Prior Egg'], category: 'Dairy' },
-    { id: 'cheese', queries: ['Gulost', 'Norvegia', 'Jarlsberg'], category: 'Dairy' },
-    { id: 'chicken', queries: ['Kyllingfilet', 'Kylling'], category: 'Meat' },
-    { id: 'minced_meat', queries: ['Kjøttdeig', 'Karbonadedeig'], category: 'Meat' },
-    { id: 'salmon', queries: ['Laks', 'Laksefilet'], category: 'Fish' },
-    { id: 'apple', queries: ['Epler', 'Pink Lady', 'Granny Smith'], category: 'Fruit' },
-    { id: 'banana', queries: ['Bananer'], category: 'Fruit' },
-    { id: 'carrot', queries: ['Gulrøtter'], category: 'Vegetables' },
-    { id: 'potato', queries: ['Poteter'], category: 'Vegetables' },
-    { id: 'tomato', queries: ['Tomater'], category: 'Vegetables' },
-    { id: 'cucumber', queries: ['Agurk'], category: 'Vegetables' },
-    { id: 'broccoli', queries: ['Brokkoli'], category: 'Vegetables' },
-    { id: 'pasta', queries: ['Pasta', 'Spaghetti', 'Fusilli'], category: 'Dry Goods' },
-    { id: 'rice', queries: ['Ris', 'Jasminris'], category: 'Dry Goods' },
-    { id: 'coffee', queries: ['Kaffe', 'Evergood', 'Friele'], category: 'Dry Goods' },
-    { id: 'orange_juice', queries: ['Appelsinjuice'], category: 'Drinks' },
-    { id: 'sausages', queries: ['Pølser', 'Grillpølser', 'Wienerpølser'], category: 'Meat' },
-    { id: 'pizza', queries: ['Grandiosa', 'Pizza'], category: 'Frozen' },
-    { id: 'taco', queries: ['Taco', 'Tacokrydder', 'Tortilla'], category: 'Dry Goods' },
-    { id: 'soda', queries: ['Brus', 'Coca-Cola', 'Pepsi Max'], category: 'Drinks' }
-];
-
 const CHAINS = ['REMA 1000', 'KIWI', 'MENY', 'COOP EXTRA', 'SPAR', 'JOKER'];
 
-// Negative keywords to filter out irrelevant matches for specific products
-const NEGATIVE_KEYWORDS: Record<string, string[]> = {
-    'milk': ['pulver', 'erstatning', 'sjokolade', 'sjoko', 'choco', 'kakao', 'maskin', 'steking', 'mousse', 'smoothie', 'smudi', 'm/', 'med ', 'kokos', 'havre', 'mandel', 'ris', 'soya', 'is', 'muffins', 'shake', 'ringe', 'syret', 'kaffefløte'],
-    'breads': ['smør', 'pålagg', 'skjærer', 'pose', 'skive', 'mix', 'mel', 'pølsebrød', 'hamburgerbrød', 'wienerbrød', 'rundstykke'],
-    'eggs': ['eggehvite', 'eggeplomme', 'beger', 'salat', 'nudler', 'smoothie', 'smudi', 'juice', 'nektar', 'mango', 'frukt', 'pålegg', 'stryhns', 'salat', 'truseinnlegg', 'pastasaus', 'saus', 'reker', 'majones', 'papir', 'mellomlegg', 'parmesan', 'revet'],
-    'chicken': ['suppe', 'nuggets', 'pølse', 'postei', 'gryte', 'lår', 'vinger', 'vinge', 'vingeklubb', 'marinert', 'krydret', 'soltørket', 'hane', 'lever', 'buljong', 'satay', 'fyll', 'couscous', 'salat', 'skiver'],
-    'minced_meat': ['kake', 'bolle', 'deig-krydder', 'toro', 'saus', 'gryte', 'fyll', 'boller', 'pasta'],
-    'salmon': ['salat', 'postei', 'suppe', 'mousse', 'beger', 'smøreost', 'naturnes', 'nestle', '8md', '12md'],
-    'banana': ['måneder', 'ella\'s', 'ella', 'smoothie', 'juice', 'chips', 'mink', 'smudi', 'pære', 'kiwi', 'eple'],
-    'apple': ['måneder', 'ella\'s', 'ella', 'smoothie', 'juice', 'chips', 'sidra', 'vineddik', 'smudi', 'nektar'],
-    'rice': ['farris', 'friskis', 'frus', 'rislunsj', 'grøt', 'smoothie', 'smudi', 'is', 'kake', 'dessert', 'paprika', 'taco', 'saus', 'boil', 'risotto'],
-    'soda': ['sirup', 'maskin', 'kullsyre', 'boks', 'flaske', 'juice', 'nektar'],
-    'pizza': ['fyll', 'bunn', 'saus', 'topping', 'ost', 'skive', 'krydder', 'steinovnsbakt', 'deig']
-};
-
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 async function sync() {
@@ -84,10 +45,10 @@ async function sync() {
         storesByChain.get(chainKey)?.push(store);
     }
 
-    for (const item of CANONICAL_MAPPING) {
+    for (const item of catalogService.getIndexedItems()) {
         console.log(`[SyncJob] Processing canonical ID: ${item.id}...`);
 
-        for (const query of item.queries) {
+        for (const query of item.syncQueries!) {
             await sleep(1500); // Increased sleep from 500ms to 1500ms for better rate limiting
             try {
                 // Fetch products for this query across all chains
@@ -103,23 +64,12 @@ async function sync() {
                 const products = response.products;
 
                 for (const p of products) {
-                    const nameLower = p.name.toLowerCase();
-
-                    // 1. Check Negative Keywords
-                    const negatives = NEGATIVE_KEYWORDS[item.id] || [];
-                    if (negatives.some(neg => nameLower.includes(neg))) {
+                    // 1. Negative keywords from the catalog (e.g. "sjokolade" for milk)
+                    if (catalogService.isExcluded(p.name, item)) {
                         continue;
                     }
 
-                    // 2. Extra Guards for deceptive items
-                    if (item.id === 'milk' && (nameLower.includes('ringe') || nameLower.includes('beger') || nameLower.includes('choco'))) continue;
-                    if (item.id === 'rice' && (nameLower.includes('farris') || nameLower.includes('frus') || nameLower.includes('is'))) continue;
-                    if (item.id === 'pizza' && (nameLower.includes('fyll') || nameLower.includes('saus') || nameLower.includes('bunn') || nameLower.includes('topping'))) continue;
-                    if (item.id === 'bread' && (nameLower.includes('wiener') || nameLower.includes('rund') || nameLower.includes('papir'))) continue;
-                    if (item.id === 'eggs' && (nameLower.includes('papir') || nameLower.includes('mellomlegg'))) continue;
-                    if (item.id === 'chicken' && (nameLower.includes('lår') || nameLower.includes('ving') || nameLower.includes('postei'))) continue;
-
-                    // 2b. SEARCH INTEGRITY GUARD: Centralized Strict Matching
+                    // 2. SEARCH INTEGRITY GUARD: Centralized Strict Matching (any Norwegian form of the query from the taxonomy)
                     // If the word isn't a standalone word, skip it for the price index
                     if (!isStrictWordMatch(p.name, query)) {
                         continue;
@@ -13,19 +13,19 @@ import routeRouter from './routes/route.js';
 import aiRouter from './routes/ai.js';
 import reportRouter from './routes/report.js';
 import healthRouter from './routes/health.js';
+import watchlistRouter from './routes/watchlist.js';
+import catalogRouter from './routes/catalog.js';
+import adminRouter from './routes/admin.js';
 import { errorHandler, ApiError } from './middleware/errorHandler.js';
 import priceIndexService from './services/PriceIndexService.js';
+import watchlistService from './services/watchlistService.js';
+import { ReportService } from './services/reportService.js';
+import cache from './utils/cache.js';
 
-// Ensure critical data directories and seed files exist before starting
+// Ensure critical data directories exist before starting
 async function initDataDirectory() {
     try {
-        const dataDir = path.join(process.cwd(), 'data');
-        await fs.mkdir(dataDir, { recursive: true });
-        const reportsFile = path.join(dataDir, 'item_mismatch_reports.json');
-        // Create the reports file if it doesn't exist (wx = exclusive create, no overwrite)
-        await fs.writeFile(reportsFile, '[]', { flag: 'wx' }).catch(() => {
-            // File already exists, nothing to do
-        });
+        await fs.mkdir(path.dirname(config.reportsFile), { recursive: true });
         console.log('[Server] Data directory initialized.');
     } catch (err) {
         console.warn('⚠️ [Server] WARNING: Could not initialize data directory. If deployed to a read-only filesystem, local file storage (like reports) will not work.', err);
@@ -56,7 +56,7 @@ if (config.nodeEnv === 'development') {
 app.use(cors({
     origin: config.allowedOrigins,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Device-Id', 'X-Admin-Token'],
     credentials: true,
 }));
 
@@ -67,6 +67,9 @@ app.use('/api/route', routeRouter);
 app.use('/api/ai', aiRouter);
 app.use('/api/reports', reportRouter);
 app.use('/api/health', healthRouter);
+app.use('/api/watchlist', watchlistRouter);
+app.use('/api/catalog', catalogRouter);
+app.use('/api/admin', adminRouter);
 
 // Legacy/Health Alias
 app.get('/health', (req, res) => {
@@ -85,23 +88,31 @@ app.use(errorHandler);
 let server: ReturnType<typeof app.listen> | undefined;
 if (process.env.NODE_ENV !== 'test') {
     // C2: Initialize data directories before starting
-    initDataDirectory().then(() => {
+    initDataDirectory().then(() => cache.init()).then(() => ReportService.init()).then(() => {
         server = app.listen(PORT, '0.0.0.0', () => {
             console.log('==========================================');
             console.log(`🚀 SmartHandel Backend is running!`);
             console.log(`📡 Port: ${PORT}`);
             console.log(`🌍 Environment: ${config.nodeEnv}`);
+            console.log(`📦 Data providers: ${config.dataProviders.join(', ')}`);
+            console.log(`🗄️  Cache backend: ${config.cacheBackend}`);
+            console.log(`📝 Reports backend: ${config.reportsBackend}`);
             console.log(`🔗 Local lookup: http://localhost:${PORT}/api/health`);
             console.log(`🔗 Network access: http://0.0.0.0:${PORT}/api/health`);
             console.log('==========================================');
 
-            // Setup automated price indexing
-            priceIndexService.scheduleSync().catch(err => {
-                console.error('[Server] Price indexing setup failed:', err);
-            });
+            // Setup automated price indexing (needs the live Kassal API)
+            if (config.dataProviders.includes('kassal')) {
+                priceIndexService.scheduleSync().catch(err => {
+                    console.error('[Server] Price indexing setup failed:', err);
+                });
+            }
+
+            // Check watched prices and raise drop alerts
+            watchlistService.scheduleChecks();
         });
     }).catch(err => {
-        console.error('[Server] Failed to initialize data directory. Aborting.', err);
+        console.error('[Server] Failed to initialize storage. Aborting.', err);
         process.exit(1);
     });
 }
@@ -114,8 +125,11 @@ const shutdown = () => {
         process.exit(0);
         return;
     }
-    server.close(() => {
+    server.close(async () => {
         console.log('[Server] HTTP server closed.');
+        // Flush the persistent cache (file snapshot / Redis connection) before exiting
+        await cache.close();
+        await ReportService.close();
         process.exit(0);
     });
 
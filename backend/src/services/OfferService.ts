@@ -0,0 +1,532 @@
+import fs from 'fs';
+import path from 'path';
+import config from '../config/index.js';
+import { PromotionalOffer } from '../types/index.js';
+import { parseCsv } from '../utils/csv.js';
+import { getDeposit } from '../utils/deposit.js';
+import { addDays, getIsoWeek, getIsoWeekStart, isIsoWeek, parseDateKey, toDateKey } from '../utils/isoWeek.js';
+import taxonomyService from './taxonomyService.js';
+
+/**
+ * One chain's offers for one ISO week. Stored as `<offersDir>/<week>/<chain-slug>.json`.
+ */
+export interface OfferBatch {
+    chain: string;
+    week: string;
+    /** Incremented every time the same chain/week is re-imported */
+    revision: number;
+    importedAt: string;
+    /** File name the batch was imported from */
+    source: string;
+    offers: PromotionalOffer[];
+}
+
+export type OfferFileFormat = 'csv' | 'json';
+
+export interface OfferImportRequest {
+    chain: string;
+    week: string;
+    content: string;
+    format: OfferFileFormat;
+    source: string;
+}
+
+/**
+ * Thrown when an import contains invalid rows. Nothing is written in that case.
+ */
+export class OfferImportError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`Offer import failed with ${errors.length} invalid row(s)`);
+        this.name = 'OfferImportError';
+    }
+}
+
+const DISCOUNT_TYPES: PromotionalOffer['discount_type'][] = ['percentage', 'fixed_price', 'multi_buy'];
+const STRING_FIELDS = ['product_name_en', 'discount_value', 'currency', 'unit_info', 'unit', 'notes', 'brand', 'additional_cost', 'validity'] as const;
+const RELOAD_CHECK_MS = 30_000;
+/** Offers whose last day is at most this many days away are flagged as ending soon */
+const ENDING_SOON_DAYS = 2;
+
+/**
+ * Turns a chain name into a file name ("COOP Marked" -> "coop-marked").
+ */
+export const toChainSlug = (chain: string): string =>
+    chain.toLowerCase().replace(/[^a-z0-9æøå]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Reads a number from JSON or a CSV cell ("30", "30,5", "" -> undefined).
+ */
+const toNumber = (value: unknown): number | undefined => {
+    if (value === undefined || value === null || value === '') return undefined;
+    const num = typeof value === 'number' ? value : Number(String(value).replace(',', '.').replace(/\s/g, ''));
+    return Number.isFinite(num) ? num : NaN;
+};
+
+/**
+ * Reads a date as YYYY-MM-DD, also accepting the Norwegian DD.MM.YYYY used in flyers.
+ */
+const toDateValue = (value: unknown): string | undefined | null => {
+    const text = String(value ?? '').trim();
+    if (!text) return undefined;
+    const norwegian = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/.exec(text);
+    const key = norwegian ? `${norwegian[3]}-${norwegian[2].padStart(2, '0')}-${norwegian[1].padStart(2, '0')}` : text;
+    return parseDateKey(key) ? key : null;
+};
+
+/**
+ * Works out the per-package charges a flyer adds on top of the offer price.
+ * "pant" (in additional_cost or "2 for 35 NOK + pant") means the bottle deposit for the product's container size;
+ * an amount like "+ 5 kr" is an extra cost. Explicit deposit/extra_cost columns win.
+ */
+const resolveAdditionalCosts = (
+    offer: PromotionalOffer,
+    deposit: number | undefined,
+    extraCost: number | undefined
+): Pick<PromotionalOffer, 'deposit' | 'extra_cost'> => {
+    const text = `${offer.additional_cost || ''} ${offer.discount_value || ''}`.toLowerCase();
+    const result: Pick<PromotionalOffer, 'deposit' | 'extra_cost'> = {};
+
+    const resolvedDeposit = deposit ?? (/\bpant\b/.test(text) ? getDeposit(offer.product_name) : 0);
+    if (resolvedDeposit > 0) result.deposit = resolvedDeposit;
+
+    const amount = /\+?\s*(\d+(?:[.,]\d+)?)\s*(?:kr|nok|,-)/i.exec(offer.additional_cost || '');
+    const resolvedExtra = extraCost ?? (amount ? Number(amount[1].replace(',', '.')) : 0);
+    if (resolvedExtra > 0) result.extra_cost = resolvedExtra;
+
+    return result;
+};
+
+/**
+ * Validates one raw row against PromotionalOffer and normalizes its types.
+ * The chain comes from the import, so a file can't accidentally publish offers for another chain.
+ */
+export const validateOffer = (raw: Record<string, unknown>, chain: string): { offer?: PromotionalOffer; errors: string[] } => {
+    const errors: string[] = [];
+    const productName = String(raw.product_name ?? '').trim();
+    const category = String(raw.category ?? '').trim();
+    const discountType = String(raw.discount_type ?? '').trim() as PromotionalOffer['discount_type'];
+
+    if (!productName) errors.push('product_name is required');
+    if (!category) errors.push('category is required');
+    if (!DISCOUNT_TYPES.includes(discountType)) {
+        errors.push(`discount_type must be one of ${DISCOUNT_TYPES.join(', ')} (got "${raw.discount_type ?? ''}")`);
+    }
+
+    const discountPercent = toNumber(raw.discount_percent);
+    const finalPrice = toNumber(raw.final_price);
+    const originalPrice = toNumber(raw.original_price);
+    const deposit = toNumber(raw.deposit);
+    const extraCost = toNumber(raw.extra_cost);
+
+    if (Number.isNaN(discountPercent)) errors.push('discount_percent must be a number');
+    if (Number.isNaN(finalPrice)) errors.push('final_price must be a number');
+    if (Number.isNaN(originalPrice)) errors.push('original_price must be a number');
+    if (Number.isNaN(deposit) || (deposit !== undefined && deposit < 0)) errors.push('deposit must be a non-negative number');
+    if (Number.isNaN(extraCost) || (extraCost !== undefined && extraCost < 0)) errors.push('extra_cost must be a non-negative number');
+
+    const validFrom = toDateValue(raw.valid_from);
+    const validTo = toDateValue(raw.valid_to);
+    if (validFrom === null) errors.push('valid_from must be a date (YYYY-MM-DD or DD.MM.YYYY)');
+    if (validTo === null) errors.push('valid_to must be a date (YYYY-MM-DD or DD.MM.YYYY)');
+    if (validFrom && validTo && validTo < validFrom) errors.push('valid_to is before valid_from');
+
+    if (discountType === 'percentage' && (discountPercent === undefined || discountPercent <= 0 || discountPercent >= 100)) {
+        errors.push('percentage offers need discount_percent between 0 and 100');
+    }
+    if (discountType === 'fixed_price' && (finalPrice === undefined || finalPrice <= 0)) {
+        errors.push('fixed_price offers need a positive final_price');
+    }
+    if (discountType === 'multi_buy' && !String(raw.discount_value ?? '').trim()) {
+        errors.push('multi_buy offers need discount_value (e.g. "3 for 2")');
+    }
+
+    if (errors.length > 0) return { errors };
+
+    const offer: PromotionalOffer = {
+        product_name: productName,
+        product_name_en: productName,
+        chain,
+        category,
+        discount_type: discountType
+    };
+    for (const field of STRING_FIELDS) {
+        const value = String(raw[field] ?? '').trim();
+        if (value) offer[field] = value;
+    }
+    if (discountPercent !== undefined) offer.discount_percent = discountPercent;
+    if (finalPrice !== undefined) offer.final_price = finalPrice;
+    if (originalPrice !== undefined) offer.original_price = originalPrice;
+    Object.assign(offer, resolveAdditionalCosts(offer, deposit, extraCost));
+    if (validFrom) offer.valid_from = validFrom;
+    if (validTo) offer.valid_to = validTo;
+
+    return { offer, errors };
+};
+
+/**
+ * Parses an offers file. JSON may be an array of offers or `{ "offers": [...] }`.
+ */
+export const parseOfferFile = (content: string, format: OfferFileFormat): Record<string, unknown>[] => {
+    if (format === 'csv') return parseCsv(content);
+
+    const parsed = JSON.parse(content);
+    const rows = Array.isArray(parsed) ? parsed : parsed?.offers;
+    if (!Array.isArray(rows)) {
+        throw new OfferImportError(['JSON must be an array of offers or an object with an "offers" array']);
+    }
+    return rows;
+};
+
+/**
+ * Fills in a missing validity window with the offer's ISO week (Monday to Sunday).
+ */
+export const withValidity = (offer: PromotionalOffer, week: string): PromotionalOffer => {
+    if (offer.valid_from && offer.valid_to) return offer;
+    const monday = getIsoWeekStart(week);
+    return {
+        ...offer,
+        valid_from: offer.valid_from || toDateKey(monday),
+        valid_to: offer.valid_to || toDateKey(addDays(monday, 6))
+    };
+};
+
+/**
+ * Whether an offer applies on the given day. Expects the window filled in (see withValidity).
+ */
+export const isOfferActive = (offer: PromotionalOffer, date: Date = new Date()): boolean => {
+    const day = toDateKey(date);
+    return (!offer.valid_from || offer.valid_from <= day) && (!offer.valid_to || day <= offer.valid_to);
+};
+
+/**
+ * Whether an active offer ends within ENDING_SOON_DAYS of the given day.
+ */
+export const isOfferEndingSoon = (offer: PromotionalOffer, date: Date = new Date()): boolean =>
+    !!offer.valid_to && offer.valid_to <= toDateKey(addDays(date, ENDING_SOON_DAYS));
+
+/**
+ * Get the display label for a discount.
+ * e.g., "40% OFF", "30 kr", "3 for 2"
+ */
+export function getDiscountLabel(offer: PromotionalOffer): string {
+    switch (offer.discount_type) {
+        case 'percentage':
+            return `${offer.discount_percent}% OFF`;
+        case 'fixed_price':
+            return `${offer.final_price} kr`;
+        case 'multi_buy':
+            return offer.discount_value || 'Multi-buy';
+        default:
+            return 'Deal';
+    }
+}
+
+const batchKey = (batch: OfferBatch): string => `${batch.week}/${toChainSlug(batch.chain)}`;
+
+const shiftDateKey = (key: string | undefined, days: number): string | undefined => {
+    const date = key ? parseDateKey(key) : null;
+    return date ? toDateKey(addDays(date, days)) : key;
+};
+
+/**
+ * Moves a batch and its offers' validity windows forward by whole weeks.
+ */
+export const shiftBatch = (batch: OfferBatch, days: number): OfferBatch => ({
+    ...batch,
+    week: getIsoWeek(addDays(getIsoWeekStart(batch.week), days)),
+    offers: batch.offers.map(offer => {
+        const dated = withValidity(offer, batch.week);
+        return { ...dated, valid_from: shiftDateKey(dated.valid_from, days), valid_to: shiftDateKey(dated.valid_to, days) };
+    })
+});
+
+/**
+ * Weekly flyer offers per chain.
+ * Offers are imported from CSV/JSON files (see scripts/importOffers.ts) into `<offersDir>/<week>/<chain>.json`.
+ * Batches shipped in the seed directory are used until an import for the same chain and week replaces them.
+ * Every offer has a validity window (its own valid_from/valid_to, or else its week), and only offers
+ * whose window contains the requested day are served.
+ * The seed is demo data for one week; with `replaySeed` it is replayed as the requested week once that week is past.
+ */
+export class OfferService {
+    private batches = new Map<string, OfferBatch>();
+    /** Keys of the batches in `batches` that come from the seed directory (no import replaced them) */
+    private seedKeys = new Set<string>();
+    /** Monday of the latest week in the seed directory, replaced or not (ms) */
+    private latestSeedWeekStart = 0;
+    /** Sorted batches by seed shift in days, so each replayed week is shifted once per reload */
+    private sortedBatches = new Map<number, OfferBatch[]>();
+    private signature = '';
+    private lastCheck = 0;
+
+    constructor(
+        private readonly offersDir: string = config.offersDir,
+        private readonly seedDir: string = config.offersSeedDir,
+        private readonly legacyPricesFile: string = config.legacyOfferPricesFile,
+        private readonly replaySeed: boolean = config.replaySeedOffers
+    ) { }
+
+    /**
+     * Validates and stores one chain's offers for a week. Re-importing a week replaces it and bumps its revision.
+     * @throws OfferImportError when any row is invalid (nothing is written).
+     */
+    public importOffers(request: OfferImportRequest): OfferBatch {
+        const chain = request.chain.trim();
+        if (!chain) throw new OfferImportError(['chain is required']);
+        if (!isIsoWeek(request.week)) throw new OfferImportError([`week must look like 2026-W43 (got "${request.week}")`]);
+
+        const rows = parseOfferFile(request.content, request.format);
+        const offers: PromotionalOffer[] = [];
+        const errors: string[] = [];
+
+        rows.forEach((row, i) => {
+            const result = validateOffer(row, chain);
+            // Row numbers match the file: CSV data starts on line 2, JSON arrays are 1-based
+            const rowNumber = request.format === 'csv' ? i + 2 : i + 1;
+            result.errors.forEach(error => errors.push(`Row ${rowNumber}: ${error}`));
+            if (result.offer) offers.push(result.offer);
+        });
+
+        if (rows.length === 0) errors.push('File contains no offers');
+        if (errors.length > 0) throw new OfferImportError(errors);
+
+        const previous = this.getBatch(chain, request.week);
+        const batch: OfferBatch = {
+            chain,
+            week: request.week,
+            revision: (previous?.revision || 0) + 1,
+            importedAt: new Date().toISOString(),
+            source: request.source,
+            offers: offers.map(offer => withValidity(offer, request.week))
+        };
+
+        this.writeBatch(batch);
+        console.log(`[OfferService] Imported ${offers.length} ${chain} offers for ${batch.week} (revision ${batch.revision})`);
+        return batch;
+    }
+
+    /**
+     * Sets regular shelf prices on stored offers (keyed by product_name), e.g. from a Kassal lookup.
+     */
+    public setOriginalPrices(chain: string, week: string, prices: Record<string, number>): void {
+        const batch = this.getBatch(chain, week);
+        if (!batch) return;
+
+        this.writeBatch({
+            ...batch,
+            offers: batch.offers.map(offer => prices[offer.product_name] !== undefined
+                ? { ...offer, original_price: prices[offer.product_name] }
+                : offer)
+        });
+    }
+
+    public getBatch(chain: string, week: string): OfferBatch | undefined {
+        this.refreshIfChanged(true);
+        return this.batches.get(`${week}/${toChainSlug(chain)}`);
+    }
+
+    /**
+     * Batches with at least one offer that applies on the given day.
+     */
+    public getCurrentBatches(date: Date = new Date()): OfferBatch[] {
+        return this.getSortedBatches(date).filter(batch =>
+            batch.offers.some(offer => isOfferActive(withValidity(offer, batch.week), date)));
+    }
+
+    /**
+     * Offers that apply on the given day, tagged with the week they were imported for.
+     */
+    public getCurrentOffers(date: Date = new Date()): PromotionalOffer[] {
+        return this.getSortedBatches(date).flatMap(batch => batch.offers
+            .map(offer => ({ ...withValidity(offer, batch.week), week: batch.week }))
+            .filter(offer => isOfferActive(offer, date)));
+    }
+
+    /**
+     * Find the best matching promotional offers for a given product name.
+     */
+    public findMatchingOffers(itemName: string, date: Date = new Date()): PromotionalOffer[] {
+        const query = itemName.toLowerCase().trim();
+        if (query.length < 2) return [];
+
+        // The query in the other language ('coffee' -> 'kaffe', 'kaffe' -> 'coffee'), matched against both offer names
+        const translated = taxonomyService.translate(query);
+        const alternative = translated !== query ? translated : taxonomyService.toEnglish(query);
+        const mappedQuery = alternative && alternative !== query ? alternative : null;
+
+        const matches: { offer: PromotionalOffer; score: number }[] = [];
+
+        for (const offer of this.getCurrentOffers(date)) {
+            const offerNameNo = offer.product_name.toLowerCase();
+            const offerNameEn = (offer.product_name_en || '').toLowerCase();
+            const brand = (offer.brand || '').toLowerCase();
+
+            let score = 0;
+
+            // --- STRICT PREFIX MATCH ---
+            // The query (or its first N chars) must appear at the START of the offer product name.
+            // This prevents "salt" from matching "BE-KIND bars (sea salt, caramel almond)"
+            // but allows "salt" to match "Salt original" or "Salted butter".
+
+            const prefixLen = Math.min(query.length, 12); // Use up to 12 chars for prefix check
+            const queryPrefix = query.substring(0, prefixLen);
+            const mappedPrefix = mappedQuery ? mappedQuery.substring(0, Math.min(mappedQuery.length, 12)) : null;
+
+            const nameStartsWithQuery = offerNameNo.startsWith(queryPrefix) || offerNameEn.startsWith(queryPrefix);
+            const nameStartsWithMapped = mappedPrefix && (offerNameNo.startsWith(mappedPrefix) || offerNameEn.startsWith(mappedPrefix));
+
+            // Also check if the first word of the offer matches the query exactly
+            const offerFirstWordNo = offerNameNo.split(/[\s,.(]/)[0];
+            const offerFirstWordEn = offerNameEn.split(/[\s,.(]/)[0];
+            const firstWordMatch =
+                offerFirstWordNo === query ||
+                offerFirstWordEn === query ||
+                (mappedQuery && (offerFirstWordNo === mappedQuery || offerFirstWordEn === mappedQuery));
+
+            if (nameStartsWithQuery || nameStartsWithMapped) {
+                score += 30; // Strong prefix match
+            } else if (firstWordMatch) {
+                score += 25; // First word exact match
+            }
+
+            // Brand match bonus
+            if (brand && (brand === query || brand.startsWith(queryPrefix) || (mappedQuery && brand === mappedQuery))) {
+                score += 15;
+            }
+
+            // Only keep matches with a meaningful score
+            if (score >= 25) {
+                matches.push({ offer, score });
+            }
+        }
+
+        if (matches.length === 0) return [];
+
+        matches.sort((a, b) => b.score - a.score);
+
+        return matches.map(m => m.offer);
+    }
+
+    /**
+     * All loaded batches, by chain and then week, with the seed replayed for the given day if enabled.
+     */
+    private getSortedBatches(date: Date = new Date()): OfferBatch[] {
+        this.refreshIfChanged();
+        const shift = this.getSeedShiftDays(date);
+        const cached = this.sortedBatches.get(shift);
+        if (cached) return cached;
+
+        const batches = new Map(this.batches);
+        if (shift > 0) {
+            for (const key of this.seedKeys) {
+                const shifted = shiftBatch(this.batches.get(key)!, shift);
+                batches.delete(key);
+                // An import for the replayed week and chain still wins
+                if (!batches.has(batchKey(shifted))) batches.set(batchKey(shifted), shifted);
+            }
+        }
+
+        const sorted = Array.from(batches.values()).sort((a, b) =>
+            toChainSlug(a.chain).localeCompare(toChainSlug(b.chain)) || a.week.localeCompare(b.week));
+        this.sortedBatches.set(shift, sorted);
+        return sorted;
+    }
+
+    /**
+     * Days from the latest seeded week to the given day's week, or 0 when that week hasn't passed (or replay is off).
+     */
+    private getSeedShiftDays(date: Date): number {
+        if (!this.replaySeed || this.seedKeys.size === 0) return 0;
+        const target = getIsoWeekStart(getIsoWeek(date)).getTime();
+        // Rounded, since a daylight saving change makes some weeks an hour shorter or longer
+        return target > this.latestSeedWeekStart ? Math.round((target - this.latestSeedWeekStart) / 86400000) : 0;
+    }
+
+    private writeBatch(batch: OfferBatch): void {
+        const file = path.join(this.offersDir, batch.week, `${toChainSlug(batch.chain)}.json`);
+        const tmpFile = `${file}.tmp`;
+
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(tmpFile, JSON.stringify(batch, null, 2) + '\n');
+        fs.renameSync(tmpFile, file);
+
+        this.refreshIfChanged(true);
+    }
+
+    /**
+     * Reloads batches when files were added or replaced. Imports can run in another process
+     * (the CLI), so the directories are re-checked at most every RELOAD_CHECK_MS.
+     */
+    private refreshIfChanged(force = false): void {
+        const now = Date.now();
+        if (!force && this.lastCheck && now - this.lastCheck < RELOAD_CHECK_MS) return;
+        this.lastCheck = now;
+
+        const seedFiles = this.listBatchFiles(this.seedDir);
+        const files = [...seedFiles, ...this.listBatchFiles(this.offersDir)];
+        const signature = files.map(f => `${f.file}:${f.mtimeMs}`).join('|');
+        if (signature === this.signature) return;
+        this.signature = signature;
+
+        // Later files (imports) override seed batches for the same week and chain
+        const batches = new Map<string, OfferBatch>();
+        const seedKeys = new Set<string>();
+        let latestSeedWeekStart = 0;
+        const legacyPrices = this.readLegacyPrices();
+        for (const { file } of files) {
+            try {
+                const batch: OfferBatch = JSON.parse(fs.readFileSync(file, 'utf-8'));
+                // Regular prices fetched before batches existed still apply to offers that have none
+                batch.offers = batch.offers.map(offer => !offer.original_price && legacyPrices[offer.product_name]
+                    ? { ...offer, original_price: legacyPrices[offer.product_name] }
+                    : offer);
+                batches.set(batchKey(batch), batch);
+                if (seedFiles.some(seed => seed.file === file)) {
+                    seedKeys.add(batchKey(batch));
+                    latestSeedWeekStart = Math.max(latestSeedWeekStart, getIsoWeekStart(batch.week).getTime());
+                } else {
+                    seedKeys.delete(batchKey(batch));
+                }
+            } catch (error) {
+                console.error(`[OfferService] Skipping unreadable offer file ${file}:`, (error as Error).message);
+            }
+        }
+        this.batches = batches;
+        this.seedKeys = seedKeys;
+        this.latestSeedWeekStart = latestSeedWeekStart;
+        this.sortedBatches.clear();
+        console.log(`[OfferService] Loaded ${batches.size} offer batches.`);
+    }
+
+    /**
+     * The regular prices fetchOfferPrices used to write to one file, keyed by product_name.
+     */
+    private readLegacyPrices(): Record<string, number> {
+        if (!fs.existsSync(this.legacyPricesFile)) return {};
+        try {
+            const prices = JSON.parse(fs.readFileSync(this.legacyPricesFile, 'utf-8'));
+            return prices && typeof prices === 'object' && !Array.isArray(prices) ? prices : {};
+        } catch (error) {
+            console.error(`[OfferService] Could not read ${this.legacyPricesFile}:`, (error as Error).message);
+            return {};
+        }
+    }
+
+    private listBatchFiles(root: string): { file: string; mtimeMs: number }[] {
+        if (!fs.existsSync(root)) return [];
+
+        const files: { file: string; mtimeMs: number }[] = [];
+        for (const week of fs.readdirSync(root).filter(isIsoWeek).sort()) {
+            const weekDir = path.join(root, week);
+            if (!fs.statSync(weekDir).isDirectory()) continue;
+            for (const name of fs.readdirSync(weekDir).filter(n => n.endsWith('.json')).sort()) {
+                const file = path.join(weekDir, name);
+                files.push({ file, mtimeMs: fs.statSync(file).mtimeMs });
+            }
+        }
+        return files;
+    }
+}
+
+export const offerService = new OfferService();
+export default offerService;
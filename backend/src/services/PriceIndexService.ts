@@ -1,8 +1,11 @@
 import fs from 'fs';
-import fsPromises from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { Product, Store } from '../types/index.js';
+import Database from 'better-sqlite3';
+import config from '../config/index.js';
+import cache from '../utils/cache.js';
+import catalogService from './catalogService.js';
+import { addDays, parseDateKey, toDateKey } from '../utils/isoWeek.js';
 
 // Lazily import sync to avoid circular dependencies
 let syncFn: (() => Promise<void>) | null = null;
@@ -10,6 +13,9 @@ let syncFn: (() => Promise<void>) | null = null;
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// JSON index used before the database; imported once into an empty database
+const LEGACY_INDEX_PATH = path.join(__dirname, '../data/store_price_index.json');
+
 export interface PriceIndexEntry {
     store_id: string | number;
     branch_id?: string | number;
@@ -29,136 +35,269 @@ export interface PriceIndex {
     entries: PriceIndexEntry[];
 }
 
-const CANONICAL_SYNONYMS: Record<string, string> = {
-    'melk': 'milk', 'tine_melk': 'milk', 'q-meieriene_melk': 'milk',
-    'brød': 'bread', 'kneipp': 'bread', 'grovbrød': 'bread',
-    'egg': 'eggs', 'prior_egg': 'eggs',
-    'gulost': 'cheese', 'norvegia': 'cheese', 'jarlsberg': 'cheese',
-    'kyllingfilet': 'chicken', 'kylling': 'chicken',
-    'kjøttdeig': 'minced_meat', 'karbonadedeig': 'minced_meat', 'kjøtt': 'minced_meat',
-    'laks': 'salmon', 'laksefilet': 'salmon',
-    'epler': 'apple', 'pink_lady': 'apple', 'granny_smith': 'apple',
-    'bananer': 'banana', 'banan': 'banana',
-    'gulrøtter': 'carrot', 'gulrot': 'carrot',
-    'poteter': 'potato', 'potet': 'potato',
-    'tomater': 'tomato', 'tomat': 'tomato',
-    'agurk': 'cucumber',
-    'brokkoli': 'broccoli',
-    'pasta': 'pasta', 'spaghetti': 'pasta', 'fusilli': 'pasta',
-    'ris': 'rice', 'jasminris': 'rice',
-    'kaffe': 'coffee', 'evergood': 'coffee', 'friele': 'coffee',
-    'appelsinjuice': 'orange_juice', 'juice': 'orange_juice',
-    'pølser': 'sausages', 'grillpølser': 'sausages', 'wienerpølser': 'sausages',
-    'grandiosa': 'pizza', 'pizza': 'pizza',
-    'taco': 'taco', 'tacokrydder': 'taco', 'tortilla': 'taco',
-    'brus': 'soda', 'coca-cola': 'soda', 'pepsi_max': 'soda'
-};
+export interface StoreFilter {
+    id?: string | number;
+    chain?: string;
+}
+
+interface EntryRow {
+    canonical_product_id: string;
+    store_id: string;
+    branch_id: string | null;
+    chain: string;
+    product_name: string;
+    price: number;
+    availability: number;
+    last_updated: string;
+}
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS price_entries (
+        canonical_product_id TEXT NOT NULL,
+        store_id TEXT NOT NULL,
+        branch_id TEXT,
+        chain TEXT NOT NULL,
+        product_name TEXT NOT NULL,
+        price REAL NOT NULL,
+        availability INTEGER NOT NULL,
+        last_updated TEXT NOT NULL,
+        PRIMARY KEY (canonical_product_id, store_id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_price_entries_chain ON price_entries (canonical_product_id, chain);
+
+    CREATE TABLE IF NOT EXISTS price_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        canonical_product_id TEXT NOT NULL,
+        store_id TEXT NOT NULL,
+        branch_id TEXT,
+        chain TEXT NOT NULL,
+        product_name TEXT NOT NULL,
+        price REAL NOT NULL,
+        availability INTEGER NOT NULL,
+        observed_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_price_history_store ON price_history (canonical_product_id, store_id, observed_at);
+    CREATE INDEX IF NOT EXISTS idx_price_history_chain ON price_history (canonical_product_id, chain, observed_at);
+
+    CREATE TABLE IF NOT EXISTS metadata (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+    );
+`;
+
+const SCHEMA_VERSION = '2.0.0';
 
-const ENGLISH_DISPLAY_NAMES: Record<string, string> = {
-    'milk': 'Milk', 'bread': 'Bread', 'eggs': 'Eggs', 'cheese': 'Cheese',
-    'chicken': 'Chicken', 'minced_meat': 'Minced Meat', 'salmon': 'Salmon',
-    'apple': 'Apple', 'banana': 'Banana', 'carrot': 'Carrot', 'potato': 'Potato',
-    'tomato': 'Tomato', 'cucumber': 'Cucumber', 'broccoli': 'Broccoli',
-    'pasta': 'Pasta', 'rice': 'Rice', 'coffee': 'Coffee', 'orange_juice': 'Orange Juice',
-    'sausages': 'Sausages', 'pizza': 'Pizza', 'taco': 'Taco', 'soda': 'Soda'
+const toEntry = (row: EntryRow): PriceIndexEntry => ({
+    store_id: row.store_id,
+    ...(row.branch_id !== null && { branch_id: row.branch_id }),
+    canonical_product_id: row.canonical_product_id,
+    product_name: row.product_name,
+    price: row.price,
+    last_updated: row.last_updated,
+    availability: row.availability === 1,
+    chain: row.chain
+});
+
+const toRow = (entry: PriceIndexEntry, observedAt: string) => ({
+    canonical_product_id: entry.canonical_product_id,
+    store_id: String(entry.store_id),
+    branch_id: entry.branch_id !== undefined ? String(entry.branch_id) : null,
+    chain: entry.chain,
+    product_name: entry.product_name,
+    price: entry.price,
+    availability: entry.availability ? 1 : 0,
+    observed_at: observedAt
+});
+
+// Store filter as SQL: a chain matches case-insensitively on a substring ("rema" matches "REMA 1000"), like before
+const storeFilterSql = (filter?: StoreFilter): { sql: string; params: string[] } => {
+    if (filter?.chain) return { sql: ' AND instr(lower(chain), lower(?)) > 0', params: [filter.chain] };
+    if (filter?.id !== undefined && filter.id !== '') return { sql: ' AND store_id = ?', params: [String(filter.id)] };
+    return { sql: '', params: [] };
 };
 
 /**
- * Service to manage the local price index JSON file.
- * Provides rapid lookups for canonical grocery items across stores.
+ * Service to manage the local price index, an embedded SQLite database.
+ * `price_entries` holds the latest price per canonical item and store for rapid lookups;
+ * `price_history` keeps every sync's observations so past prices can be queried.
  */
-class PriceIndexService {
-    private readonly INDEX_PATH = path.join(__dirname, '../data/store_price_index.json');
-    private index: PriceIndex | null = null;
+export class PriceIndexService {
+    private handle: Database.Database | null = null;
+    private opened = false;
 
-    constructor() {
-        this.loadIndex();
+    constructor(
+        private readonly dbPath: string = config.priceIndexDbPath,
+        private readonly legacyIndexPath: string = LEGACY_INDEX_PATH
+    ) {}
+
+    // Opened on first use, so importing the service doesn't create the database file
+    private get db(): Database.Database | null {
+        if (!this.opened) {
+            this.opened = true;
+            this.openDatabase();
+        }
+        return this.handle;
     }
 
-    private loadIndex() {
+    private openDatabase() {
         try {
-            const dataDir = path.dirname(this.INDEX_PATH);
-            if (!fs.existsSync(dataDir)) {
-                fs.mkdirSync(dataDir, { recursive: true });
+            if (this.dbPath !== ':memory:') {
+                fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
             }
+            this.handle = new Database(this.dbPath);
+            this.handle.pragma('journal_mode = WAL');
+            this.handle.exec(SCHEMA);
+            this.setMetadata('version', SCHEMA_VERSION);
+            this.importLegacyIndex();
 
-            if (fs.existsSync(this.INDEX_PATH)) {
-                const raw = fs.readFileSync(this.INDEX_PATH, 'utf-8');
-                this.index = JSON.parse(raw);
-                console.log(`[PriceIndexService] Loaded ${this.index?.entries.length} price entries.`);
-            } else {
-                this.index = {
-                    metadata: { lastGlobalUpdate: new Date().toISOString(), version: '1.0.0' },
-                    entries: []
-                };
-                this.saveIndex();
-            }
+            const { count } = this.handle.prepare('SELECT COUNT(*) AS count FROM price_entries').get() as { count: number };
+            console.log(`[PriceIndexService] Loaded ${count} price entries.`);
         } catch (error) {
-            console.error('[PriceIndexService] Failed to load price index:', error);
+            console.error('[PriceIndexService] Failed to open price index database:', error);
+            this.handle = null;
         }
     }
 
-    private async saveIndex() {
-        if (!this.index) return;
+    /**
+     * One-time migration: copy the old JSON index into an empty database, including as history.
+     */
+    private importLegacyIndex() {
+        if (!this.db || this.getMetadata('lastGlobalUpdate') || !fs.existsSync(this.legacyIndexPath)) return;
         try {
-            // M3: Use async write to avoid blocking the event loop during large syncs
-            await fsPromises.writeFile(this.INDEX_PATH, JSON.stringify(this.index, null, 2));
+            const legacy: PriceIndex = JSON.parse(fs.readFileSync(this.legacyIndexPath, 'utf-8'));
+            if (!legacy.entries?.length) return;
+            this.upsertEntries(legacy.entries);
+            this.setMetadata('lastGlobalUpdate', legacy.metadata?.lastGlobalUpdate || new Date().toISOString());
+            console.log(`[PriceIndexService] Imported ${legacy.entries.length} entries from ${this.legacyIndexPath}.`);
         } catch (error) {
-            console.error('[PriceIndexService] Failed to save price index:', error);
+            console.error('[PriceIndexService] Failed to import legacy price index:', error);
         }
     }
 
+    private getMetadata(key: string): string | null {
+        const row = this.db?.prepare('SELECT value FROM metadata WHERE key = ?').get(key) as { value: string } | undefined;
+        return row?.value ?? null;
+    }
+
+    private setMetadata(key: string, value: string) {
+        this.db?.prepare('INSERT INTO metadata (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value').run(key, value);
+    }
+
+    private resolveCanonicalId(queryOrId: string): string {
+        return catalogService.resolve(queryOrId)?.id ?? queryOrId.toLowerCase().trim().replace(/\s+/g, '_');
+    }
+
     public getPricesForCanonicalItem(queryOrId: string, storeFilter?: { id?: string | number, chain?: string }): PriceIndexEntry[] {
-        if (!this.index) return [];
+        if (!this.db) return [];
 
-        const normalized = queryOrId.toLowerCase().trim().replace(/\s+/g, '_');
-        const canonicalId = CANONICAL_SYNONYMS[normalized] || normalized;
+        const filter = storeFilterSql(storeFilter);
+        const rows = this.db
+            .prepare(`SELECT * FROM price_entries WHERE canonical_product_id = ?${filter.sql}`)
+            .all(this.resolveCanonicalId(queryOrId), ...filter.params) as EntryRow[];
+        return rows.map(toEntry);
+    }
 
-        return this.index.entries.filter(entry => {
-            const idMatch = entry.canonical_product_id.toLowerCase() === canonicalId.toLowerCase();
-            if (!idMatch) return false;
+    /**
+     * Price of an item at each matching store as it was on a day (YYYY-MM-DD): the last observation up to the end of that day.
+     * Stores first observed after the day are left out.
+     */
+    public getPricesOnDate(queryOrId: string, date: string, storeFilter?: StoreFilter): PriceIndexEntry[] {
+        const day = parseDateKey(date);
+        if (!this.db || !day) return [];
 
-            if (storeFilter?.chain) {
-                return entry.chain.toLowerCase().includes(storeFilter.chain.toLowerCase());
-            }
-            if (storeFilter?.id) {
-                return String(entry.store_id) === String(storeFilter.id);
-            }
-            return true;
-        });
+        const filter = storeFilterSql(storeFilter);
+        const before = `${toDateKey(addDays(day, 1))}T00:00:00.000Z`;
+        // SQLite fills the bare columns of a MAX() aggregate from the row holding the maximum
+        const rows = this.db.prepare(`
+            SELECT canonical_product_id, store_id, branch_id, chain, product_name, price, availability, MAX(observed_at) AS last_updated
+            FROM price_history
+            WHERE canonical_product_id = ? AND observed_at < ?${filter.sql}
+            GROUP BY store_id
+        `).all(this.resolveCanonicalId(queryOrId), before, ...filter.params) as EntryRow[];
+        return rows.map(toEntry);
+    }
+
+    /**
+     * Every observation of an item, oldest first.
+     */
+    public getHistory(queryOrId: string, storeFilter?: StoreFilter): PriceIndexEntry[] {
+        if (!this.db) return [];
+
+        const filter = storeFilterSql(storeFilter);
+        const rows = this.db.prepare(`
+            SELECT canonical_product_id, store_id, branch_id, chain, product_name, price, availability, observed_at AS last_updated
+            FROM price_history
+            WHERE canonical_product_id = ?${filter.sql}
+            ORDER BY observed_at, id
+        `).all(this.resolveCanonicalId(queryOrId), ...filter.params) as EntryRow[];
+        return rows.map(toEntry);
     }
 
     public getAllEntries(): PriceIndexEntry[] {
-        return this.index?.entries || [];
+        if (!this.db) return [];
+        return (this.db.prepare('SELECT * FROM price_entries ORDER BY canonical_product_id, store_id').all() as EntryRow[]).map(toEntry);
     }
 
-    public updateEntries(newEntries: PriceIndexEntry[]) {
-        if (!this.index) return;
+    /**
+     * Incremental update: inserts or replaces the current price of each entry's item and store,
+     * and records every entry as a history row observed at its `last_updated`.
+     */
+    public upsertEntries(entries: PriceIndexEntry[]) {
+        if (!this.db || entries.length === 0) return;
 
-        // Merge or replace logic (Simple replace for now for atomic updates)
-        this.index.entries = newEntries;
-        this.index.metadata.lastGlobalUpdate = new Date().toISOString();
-        this.saveIndex();
+        const upsert = this.db.prepare(`
+            INSERT INTO price_entries (canonical_product_id, store_id, branch_id, chain, product_name, price, availability, last_updated)
+            VALUES (@canonical_product_id, @store_id, @branch_id, @chain, @product_name, @price, @availability, @observed_at)
+            ON CONFLICT(canonical_product_id, store_id) DO UPDATE SET
+                branch_id = excluded.branch_id, chain = excluded.chain, product_name = excluded.product_name,
+                price = excluded.price, availability = excluded.availability, last_updated = excluded.last_updated
+            WHERE excluded.last_updated >= price_entries.last_updated
+        `);
+        const record = this.db.prepare(`
+            INSERT INTO price_history (canonical_product_id, store_id, branch_id, chain, product_name, price, availability, observed_at)
+            VALUES (@canonical_product_id, @store_id, @branch_id, @chain, @product_name, @price, @availability, @observed_at)
+        `);
+
+        this.db.transaction(() => {
+            for (const entry of entries) {
+                const row = toRow(entry, entry.last_updated || new Date().toISOString());
+                upsert.run(row);
+                record.run(row);
+            }
+        })();
     }
 
-    public isCanonical(itemName: string): boolean {
-        const normalized = itemName.toLowerCase().trim().replace(/\s+/g, '_');
+    /**
+     * Full sync: the entries become the current index (items and stores missing from the sync are dropped from it),
+     * while history keeps every observation.
+     */
+    public updateEntries(newEntries: PriceIndexEntry[]) {
+        if (!this.db) return;
 
-        const canonicalIds = [
-            'milk', 'bread', 'eggs', 'cheese', 'chicken', 'minced_meat', 'salmon',
-            'apple', 'banana', 'carrot', 'potato', 'tomato', 'cucumber', 'broccoli',
-            'pasta', 'rice', 'coffee', 'orange_juice', 'sausages', 'pizza', 'taco', 'soda'
-        ];
+        this.db.transaction(() => {
+            this.db!.prepare('DELETE FROM price_entries').run();
+            this.upsertEntries(newEntries);
+            this.setMetadata('lastGlobalUpdate', new Date().toISOString());
+        })();
+    }
 
-        return canonicalIds.includes(normalized) || !!CANONICAL_SYNONYMS[normalized];
+    public close() {
+        this.handle?.close();
+        this.handle = null;
+        this.opened = true;
     }
 
-    public getEnglishName(query: string): string {
-        const normalized = query.toLowerCase().trim().replace(/\s+/g, '_');
-        const canonicalId = CANONICAL_SYNONYMS[normalized] || (this.isCanonical(normalized) ? normalized : null);
+    /**
+     * True when the name resolves to a catalog item the sync job prices into the index.
+     */
+    public isCanonical(itemName: string): boolean {
+        return (catalogService.resolve(itemName)?.syncQueries?.length ?? 0) > 0;
+    }
 
-        if (canonicalId && ENGLISH_DISPLAY_NAMES[canonicalId]) {
-            return ENGLISH_DISPLAY_NAMES[canonicalId];
+    public getEnglishName(query: string): string {
+        const item = catalogService.resolve(query);
+        if (item) {
+            return item.name.en;
         }
 
         // Return capitalized original if not canonical
@@ -178,6 +317,8 @@ class PriceIndexService {
             console.log('[PriceIndexService] Triggering scheduled price sync...');
             try {
                 await syncFn!();
+                // Cached searches were priced before the sync; drop them so the next lookups see fresh prices
+                cache.invalidatePrefix('kassal:search:');
                 console.log('[PriceIndexService] Scheduled sync completed successfully.');
             } catch (err) {
                 console.error('[PriceIndexService] Scheduled sync failed:', err);
@@ -186,10 +327,12 @@ class PriceIndexService {
 
         // 1. Initial Sync if empty or older than 24h
         const now = new Date();
-        const lastUpdate = this.index ? new Date(this.index.metadata.lastGlobalUpdate) : new Date(0);
+        const lastGlobalUpdate = this.getMetadata('lastGlobalUpdate');
+        const lastUpdate = lastGlobalUpdate ? new Date(lastGlobalUpdate) : new Date(0);
         const hoursSinceUpdate = (now.getTime() - lastUpdate.getTime()) / (1000 * 60 * 60);
+        const isEmpty = !this.db || (this.db.prepare('SELECT 1 FROM price_entries LIMIT 1').get() === undefined);
 
-        if (!this.index || this.index.entries.length === 0 || hoursSinceUpdate > 24) {
+        if (isEmpty || hoursSinceUpdate > 24) {
             console.log(`[PriceIndexService] Index is empty or stale (${hoursSinceUpdate.toFixed(1)}h). Starting background sync...`);
             runSync(); // Run in background
         }
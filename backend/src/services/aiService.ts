@@ -3,6 +3,12 @@ import config from '../config/index.js';
 import cache from '../utils/cache.js';
 import { ShoppingItem } from '../types/index.js';
 import { ApiError } from '../middleware/errorHandler.js';
+import { Cassette } from '../utils/cassette.js';
+
+/**
+ * Record/replay store for Gemini calls (HTTP_CASSETTE_MODE).
+ */
+export const geminiCassette = new Cassette('gemini');
 
 interface ParsedQuery {
     items: ShoppingItem[];
@@ -20,6 +26,32 @@ class AIService {
         this.client = new GoogleGenerativeAI(config.geminiApiKey || 'dummy-key');
     }
 
+    /**
+     * Gemini is usable with an API key, or without one when answers are replayed from a cassette.
+     */
+    private isConfigured(): boolean {
+        return !!config.geminiApiKey || geminiCassette.isReplaying;
+    }
+
+    /**
+     * Sends one prompt to Gemini and returns the raw response text.
+     * Routed through the cassette so recorded answers can be replayed offline.
+     */
+    private async generateText(prompt: string, systemInstruction?: string, json = true): Promise<string> {
+        return geminiCassette.intercept(
+            { method: 'POST', url: `gemini/${this.MODEL}:generateContent`, body: { systemInstruction, prompt } },
+            async () => {
+                const model = this.client.getGenerativeModel({
+                    model: this.MODEL,
+                    systemInstruction,
+                    generationConfig: json ? { responseMimeType: 'application/json' } : undefined
+                });
+                const result = await model.generateContent(prompt);
+                return result.response.text();
+            }
+        );
+    }
+
     /**
      * Helper to clean JSON response from Markdown code blocks
      */
@@ -35,7 +67,7 @@ class AIService {
      * @returns Structured object with items and budget
      */
     public async parseShoppingQuery(userQuery: string): Promise<ParsedQuery> {
-        if (!config.geminiApiKey) {
+        if (!this.isConfigured()) {
             console.error('[AIService] Missing API Key');
             throw new ApiError(503, 'AI service configuration error');
         }
@@ -79,15 +111,7 @@ Rules:
         try {
             console.log(`[AIService] Parsing query: "${userQuery}"`);
 
-            const model = this.client.getGenerativeModel({
-                model: this.MODEL,
-                systemInstruction: systemPrompt,
-                generationConfig: { responseMimeType: 'application/json' }
-            });
-
-            const result = await model.generateContent(userQuery);
-            const response = await result.response;
-            const text = this.cleanJsonResponse(response.text());
+            const text = this.cleanJsonResponse(await this.generateText(userQuery, systemPrompt));
 
             const parsed: ParsedQuery = JSON.parse(text);
 
@@ -141,15 +165,7 @@ Context: ${context || 'General shopping'}
 Suggestions:`;
 
         try {
-            const model = this.client.getGenerativeModel({
-                model: this.MODEL,
-                systemInstruction: systemPrompt,
-                generationConfig: { responseMimeType: 'application/json' }
-            });
-
-            const result = await model.generateContent(userPrompt);
-            const response = await result.response;
-            const text = this.cleanJsonResponse(response.text());
+            const text = this.cleanJsonResponse(await this.generateText(userPrompt, systemPrompt));
 
             const parsed: string[] = JSON.parse(text);
 
@@ -179,7 +195,7 @@ Suggestions:`;
         products: any[],
         preferences?: { lockedStore?: string; lockedProduct?: string }
     ): Promise<any[]> {
-        if (!config.geminiApiKey || products.length === 0) return products;
+        if (!this.isConfigured() || products.length === 0) return products;
 
         const cacheKey = `ai:rank:${query}:${JSON.stringify(products.map(p => p.name))}:${JSON.stringify(preferences)}`;
         const cached = cache.get<any[]>(cacheKey);
@@ -205,15 +221,7 @@ ${products.map((p, i) => `${i + 1}. [${p.store}] ${p.name} - ${p.price} NOK`).jo
 Re-rank and provide bonuses:`;
 
         try {
-            const model = this.client.getGenerativeModel({
-                model: this.MODEL,
-                systemInstruction: systemPrompt,
-                generationConfig: { responseMimeType: 'application/json' }
-            });
-
-            const result = await model.generateContent(userPrompt);
-            const response = await result.response;
-            const text = this.cleanJsonResponse(response.text());
+            const text = this.cleanJsonResponse(await this.generateText(userPrompt, systemPrompt));
 
             const rankedBonuses: Array<{ index: number; relevanceBonus: number }> = JSON.parse(text);
 
@@ -243,10 +251,9 @@ Re-rank and provide bonuses:`;
      */
     public async checkHealth(): Promise<boolean> {
         try {
-            if (!config.geminiApiKey) return false;
+            if (!this.isConfigured()) return false;
             // Minimal call to check connectivity
-            const model = this.client.getGenerativeModel({ model: this.MODEL });
-            await model.generateContent('ping');
+            await this.generateText('ping', undefined, false);
             return true;
         } catch (error) {
             console.error('[AIService] Health check failed:', error);
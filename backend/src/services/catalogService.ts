@@ -0,0 +1,156 @@
+import fs from 'fs';
+import config from '../config/index.js';
+import { containsKeyword } from '../utils/keywords.js';
+
+export const CATALOG_CATEGORIES = [
+    'groceries', 'fruit', 'vegetable', 'meat', 'dairy', 'bakery', 'pantry', 'snack', 'beverage'
+] as const;
+
+export type CatalogCategory = typeof CATALOG_CATEGORIES[number];
+
+/**
+ * A canonical item ("milk") as defined in the catalog file.
+ */
+export interface CatalogItem {
+    /** Canonical ID, also used as the price index key */
+    id: string;
+    name: { no: string; en: string };
+    emoji: string;
+    category: CatalogCategory;
+    /** Shown under "Trending" in the search autocomplete */
+    trending?: boolean;
+    /** Other words that mean this item ("lettmelk", "kjøtt"); each may belong to one item only */
+    synonyms: string[];
+    /** Searches the sync job runs to price this item; items without them are not in the price index */
+    syncQueries?: string[];
+    /** Product names containing any of these are never this item ("sjokolade" for milk) */
+    negativeKeywords?: string[];
+}
+
+interface CatalogFile {
+    version: number;
+    items: CatalogItem[];
+}
+
+/**
+ * Thrown when the catalog file is missing or invalid. The server doesn't start without a catalog.
+ */
+export class CatalogError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`Invalid product catalog: ${errors.join('; ')}`);
+        this.name = 'CatalogError';
+    }
+}
+
+/**
+ * Lookup key for IDs, names and synonyms: "Minced_Meat", "minced meat" and " MINCED  MEAT" are the same key.
+ */
+export const normalizeCatalogKey = (value: string): string =>
+    value.toLowerCase().replace(/[\s_]+/g, ' ').trim();
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(v => typeof v === 'string' && v.trim() !== '');
+
+const validate = (data: unknown): CatalogFile => {
+    const errors: string[] = [];
+    const items = (data as CatalogFile | null)?.items;
+    if (!Array.isArray(items)) throw new CatalogError(['expected an object with an "items" array']);
+
+    const ids = new Set<string>();
+    items.forEach((item, i) => {
+        const at = `item ${i + 1}${typeof item?.id === 'string' ? ` (${item.id})` : ''}`;
+        if (typeof item?.id !== 'string' || !/^[a-z0-9_]+$/.test(item.id)) errors.push(`${at}: id must be lowercase letters, digits and underscores`);
+        else if (ids.has(item.id)) errors.push(`${at}: duplicate id`);
+        else ids.add(item.id);
+        if (typeof item?.name?.no !== 'string' || !item.name.no || typeof item.name.en !== 'string' || !item.name.en) {
+            errors.push(`${at}: name.no and name.en are required`);
+        }
+        if (!CATALOG_CATEGORIES.includes(item?.category)) errors.push(`${at}: category must be one of ${CATALOG_CATEGORIES.join(', ')}`);
+        if (!isStringArray(item?.synonyms)) errors.push(`${at}: synonyms must be an array of strings`);
+        if (item?.syncQueries !== undefined && !isStringArray(item.syncQueries)) errors.push(`${at}: syncQueries must be an array of strings`);
+        if (item?.negativeKeywords !== undefined && !isStringArray(item.negativeKeywords)) errors.push(`${at}: negativeKeywords must be an array of strings`);
+    });
+
+    if (errors.length > 0) throw new CatalogError(errors);
+    return { version: Number((data as CatalogFile).version) || 1, items };
+};
+
+/**
+ * Single source of the canonical items: the sync job, the price index, the matcher,
+ * `GET /api/catalog` and the frontend autocomplete all read this catalog.
+ */
+export class CatalogService {
+    private items: CatalogItem[] = [];
+    private version = 1;
+    private byKey = new Map<string, CatalogItem>();
+
+    constructor(private readonly filePath: string = config.catalogFile) {
+        this.load();
+    }
+
+    /**
+     * Reads and validates the catalog file.
+     * @throws CatalogError when the file is missing, invalid, or two items share a name or synonym.
+     */
+    public load() {
+        let data: unknown;
+        try {
+            data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        } catch (error) {
+            throw new CatalogError([`could not read ${this.filePath}: ${(error as Error).message}`]);
+        }
+        const catalog = validate(data);
+
+        // Every ID, name, synonym and sync query resolves to exactly one item
+        const byKey = new Map<string, CatalogItem>();
+        const conflicts: string[] = [];
+        for (const item of catalog.items) {
+            const keys = [item.id, item.name.no, item.name.en, ...item.synonyms, ...(item.syncQueries || [])];
+            for (const key of new Set(keys.map(normalizeCatalogKey))) {
+                const owner = byKey.get(key);
+                if (owner && owner !== item) conflicts.push(`"${key}" is used by both ${owner.id} and ${item.id}`);
+                else byKey.set(key, item);
+            }
+        }
+        if (conflicts.length > 0) throw new CatalogError(conflicts);
+
+        this.items = catalog.items;
+        this.version = catalog.version;
+        this.byKey = byKey;
+        console.log(`[CatalogService] Loaded ${this.items.length} catalog items (${this.getIndexedItems().length} indexed).`);
+    }
+
+    public getVersion(): number {
+        return this.version;
+    }
+
+    public getItems(): CatalogItem[] {
+        return this.items;
+    }
+
+    /**
+     * Items the sync job prices into the price index.
+     */
+    public getIndexedItems(): CatalogItem[] {
+        return this.items.filter(item => (item.syncQueries?.length ?? 0) > 0);
+    }
+
+    /**
+     * Finds the item for an ID, Norwegian or English name, synonym or sync query ("melk", "Minced Meat", "tine_melk").
+     */
+    public resolve(query: string): CatalogItem | undefined {
+        return this.byKey.get(normalizeCatalogKey(query));
+    }
+
+    /**
+     * True when a product name contains one of the item's negative keywords.
+     * Keywords shorter than three characters ("is", "m/") only count at the start of a word,
+     * so "is" excludes "Is Sjokolade" but not "Økologisk Lettmelk".
+     */
+    public isExcluded(productName: string, item: CatalogItem): boolean {
+        return (item.negativeKeywords || []).some(keyword => containsKeyword(productName, keyword));
+    }
+}
+
+export const catalogService = new CatalogService();
+export default catalogService;
@@ -1,17 +1,26 @@
 import dataAggregator from './providers/DataAggregator.js';
 import cache from '../utils/cache.js';
-import { Product, Store, ShoppingItem, Location } from '../types/index.js';
+import { Product, Store, ShoppingItem, Location, UnitPriceUnit } from '../types/index.js';
 import { ApiError } from '../middleware/errorHandler.js';
 import { selectBestProductForStore } from '../utils/matching.js';
+import { comparablePrices } from '../utils/unitPrice.js';
+import { getPackageCount } from '../utils/packageCount.js';
 
 
 interface StoreComparison {
     total: number;
+    /** Bottle deposit (pant) included in total */
+    deposit: number;
     items: Array<{
         name: string;
         found: boolean;
         price?: number;
+        /** Deposit per package, included in price */
+        deposit?: number;
+        unitPrice?: number;
+        unitPriceUnit?: UnitPriceUnit;
         productId?: string | number;
+        /** Packages to buy; worked out from the item's unit ("2 liter") when the package size is known */
         quantity: number;
         englishName?: string;
         image_url?: string;
@@ -20,16 +29,18 @@ interface StoreComparison {
     }>;
 }
 
+interface ItemPrice {
+    storeName: string;
+    price: number;
+    unitPrice?: number;
+    unitPriceUnit?: UnitPriceUnit;
+}
+
 interface ItemComparison {
     itemName: string;
-    cheapest: {
-        storeName: string;
-        price: number;
-    } | null;
-    prices: Array<{
-        storeName: string;
-        price: number;
-    }>;
+    /** Lowest unit price when package sizes are known, otherwise lowest package price */
+    cheapest: ItemPrice | null;
+    prices: ItemPrice[];
 }
 
 export interface ComparisonResult {
@@ -73,7 +84,7 @@ class ComparisonService {
 
         // Initialize byStore
         stores.forEach(store => {
-            byStore[store.name] = { total: 0, items: [] };
+            byStore[store.name] = { total: 0, deposit: 0, items: [] };
         });
 
         // Populate comparisons
@@ -111,29 +122,44 @@ class ComparisonService {
 
             for (const store of stores) {
                 // Use centralized matching logic to find the best candidate for this specific store
-                const matchingProduct = selectBestProductForStore(products, store, productIdsForThisQuery);
+                const matchingProduct = selectBestProductForStore(products, store, productIdsForThisQuery, { request: shoppingItem });
 
                 if (matchingProduct) {
                     const best = matchingProduct.product;
-                    const price = best.price * shoppingItem.quantity;
+                    const packages = getPackageCount(shoppingItem, best.attributes);
+                    const price = best.price * packages;
 
                     byStore[store.name].total += price;
+                    byStore[store.name].deposit += (best.deposit || 0) * packages;
                     byStore[store.name].items.push({
                         name: shoppingItem.name,
                         found: true,
                         price: best.price,
+                        ...(best.deposit && { deposit: best.deposit }),
+                        unitPrice: best.unitPrice,
+                        unitPriceUnit: best.unitPriceUnit,
                         productId: best.id,
-                        quantity: shoppingItem.quantity,
+                        quantity: packages,
                         englishName: shoppingItem.englishName,
                         image_url: best.image_url,
                         ingredients: best.ingredients,
                         allergens: best.allergens
                     });
 
-                    itemComp.prices.push({ storeName: store.name, price: best.price });
-
-                    if (!itemComp.cheapest || best.price < itemComp.cheapest.price) {
-                        itemComp.cheapest = { storeName: store.name, price: best.price };
+                    const itemPrice: ItemPrice = {
+                        storeName: store.name,
+                        price: best.price,
+                        unitPrice: best.unitPrice,
+                        unitPriceUnit: best.unitPriceUnit
+                    };
+                    itemComp.prices.push(itemPrice);
+
+                    // A 4 kg bag beats a 400 g bag on kr/kg even when its shelf price is higher
+                    if (!itemComp.cheapest) {
+                        itemComp.cheapest = itemPrice;
+                    } else {
+                        const [price, cheapestPrice] = comparablePrices(itemPrice, itemComp.cheapest);
+                        if (price < cheapestPrice) itemComp.cheapest = itemPrice;
                     }
                 } else {
                     byStore[store.name].items.push({
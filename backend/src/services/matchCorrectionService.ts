@@ -0,0 +1,309 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config/index.js';
+import cache from '../utils/cache.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { normalizeCatalogKey } from './catalogService.js';
+import taxonomyService from './taxonomyService.js';
+
+/**
+ * `pending` collects reports below the demote threshold; only an admin can block a product or
+ * revert a correction, and a reverted one stays off however many reports follow.
+ */
+export type CorrectionStatus = 'pending' | 'demoted' | 'blocked' | 'reverted';
+
+/** What reports alone can do to a match */
+export type ReportedStatus = 'pending' | 'demoted';
+
+/**
+ * "This product is the wrong match for this query at this chain", learned from mismatch reports.
+ */
+export interface MatchCorrection {
+    id: string;
+    /** Norwegian query the correction applies to ("melk") */
+    query: string;
+    /** Normalized product name ("tine sjokolademelk 1l") */
+    productName: string;
+    productId?: string;
+    /** Normalized chain the reports came from */
+    chain: string;
+    /** Distinct reporters (hashed client addresses); the count drives the status */
+    reporters: string[];
+    status: CorrectionStatus;
+    /** Status the reports alone would give, kept so a restore knows where to return */
+    reportedStatus: ReportedStatus;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface CorrectionAuditEntry {
+    id: string;
+    correctionId: string;
+    action: 'demoted' | 'blocked' | 'reverted' | 'restored';
+    /** `reports` for automatic demotions, `admin` for blocks, reverts and restores */
+    actor: 'reports' | 'admin';
+    note?: string;
+    at: string;
+}
+
+export interface CorrectionReport {
+    requestedName: string;
+    productName: string;
+    productId?: string;
+    chain: string;
+    /** Client address the report came from; session IDs are chosen by the client, so they aren't counted */
+    reporter: string;
+}
+
+interface CorrectionState {
+    corrections: MatchCorrection[];
+    audit: CorrectionAuditEntry[];
+}
+
+/**
+ * Relevance score a demoted product loses for its query, on the rules' scale. Same weight as the
+ * strongest non-excluding rules: it sinks below plain matches but stays under the Kassal cut-off.
+ */
+export const DEMOTION_SCORE = -1000;
+
+const MAX_AUDIT_ENTRIES = 5000;
+
+// Corrections only need to tell reporters apart, so the addresses aren't stored
+const hashReporter = (reporter: string): string => crypto.createHash('sha256').update(reporter).digest('hex').slice(0, 16);
+
+/**
+ * Files written before reporters were counted by address only hold client-chosen session IDs,
+ * which don't count towards anything, and could carry blocks set by reports alone.
+ */
+type StoredCorrection = Omit<MatchCorrection, 'reporters' | 'reportedStatus'> & {
+    reporters?: string[];
+    sessions?: string[];
+    reportedStatus: string;
+};
+
+const upgradeCorrection = ({ reporters, reportedStatus, ...correction }: StoredCorrection): MatchCorrection => {
+    delete correction.sessions;
+    return {
+        ...correction,
+        status: reportedStatus === 'blocked' && correction.status === 'blocked' ? 'demoted' : correction.status,
+        reporters: reporters || [],
+        reportedStatus: reportedStatus === 'pending' ? 'pending' : 'demoted'
+    };
+};
+
+const matchesChain = (chain: string | undefined, correctionChain: string): boolean => {
+    if (!correctionChain) return true;
+    const normalized = normalizeCatalogKey(chain || '');
+    return normalized !== '' && (normalized.includes(correctionChain) || correctionChain.includes(normalized));
+};
+
+/**
+ * Turns "Wrong product matched" reports into per-query corrections. Reports are grouped by
+ * (requested item, matched product, chain); enough distinct reporters demote the product for that
+ * query at that chain, and an admin can block it. The relevance rules apply active corrections to both the Kassal ranking
+ * and the per-store pick. Every status change is kept in an audit trail and admins can revert it.
+ */
+export class MatchCorrectionService {
+    private state: CorrectionState | null = null;
+    private active = new Map<string, MatchCorrection[]>();
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly filePath: string = config.matchCorrectionsFile,
+        private readonly demoteThreshold: number = config.correctionDemoteThreshold
+    ) { }
+
+    // Scoring runs synchronously on every product, so the file is read once on first use
+    private load(): CorrectionState {
+        if (this.state) return this.state;
+        try {
+            const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+            this.state = { corrections: (parsed.corrections || []).map(upgradeCorrection), audit: parsed.audit || [] };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.warn(`[MatchCorrectionService] Could not read ${this.filePath}, starting empty:`, (error as Error).message);
+            }
+            this.state = { corrections: [], audit: [] };
+        }
+        this.reindex();
+        return this.state;
+    }
+
+    /**
+     * Writes are chained so concurrent requests never interleave, and go through a tmp file + rename.
+     */
+    private save(): Promise<void> {
+        this.writing = this.writing.then(async () => {
+            if (!this.state) return;
+            try {
+                await fsp.mkdir(path.dirname(this.filePath), { recursive: true });
+                const tmp = `${this.filePath}.tmp`;
+                await fsp.writeFile(tmp, JSON.stringify(this.state, null, 2));
+                await fsp.rename(tmp, this.filePath);
+            } catch (error) {
+                console.error('[MatchCorrectionService] Failed to save corrections:', error);
+            }
+        });
+        return this.writing;
+    }
+
+    private key(query: string, productName: string): string {
+        return `${taxonomyService.translate(query)}\u0000${normalizeCatalogKey(productName)}`;
+    }
+
+    private reindex() {
+        this.active.clear();
+        for (const correction of this.state?.corrections || []) {
+            if (correction.status !== 'demoted' && correction.status !== 'blocked') continue;
+            const key = this.key(correction.query, correction.productName);
+            this.active.set(key, [...(this.active.get(key) || []), correction]);
+        }
+    }
+
+    private statusFor(reporters: number): ReportedStatus {
+        return reporters >= this.demoteThreshold ? 'demoted' : 'pending';
+    }
+
+    /**
+     * Search results and comparisons for the query were ranked with the old corrections.
+     */
+    private invalidateCaches(query: string) {
+        cache.invalidatePrefix(`kassal:search:${query}:`);
+        cache.invalidatePrefix('compare:');
+        cache.invalidatePrefix('route:optimize:');
+    }
+
+    private setStatus(correction: MatchCorrection, status: CorrectionStatus, audit: Omit<CorrectionAuditEntry, 'id' | 'correctionId' | 'at'>) {
+        const now = new Date().toISOString();
+        correction.status = status;
+        correction.updated_at = now;
+
+        const state = this.load();
+        state.audit.push({ id: uuidv4(), correctionId: correction.id, ...audit, at: now });
+        if (state.audit.length > MAX_AUDIT_ENTRIES) state.audit.splice(0, state.audit.length - MAX_AUDIT_ENTRIES);
+
+        this.reindex();
+        this.invalidateCaches(correction.query);
+        console.log(`[MatchCorrectionService] "${correction.productName}" for "${correction.query}" is now ${status} (${audit.actor}).`);
+    }
+
+    /**
+     * Counts a "Wrong product matched" report. Returns the correction it was grouped into, or null
+     * when the report can't teach anything (the product was reported for its own name, or without a chain).
+     */
+    public async recordReport(report: CorrectionReport): Promise<MatchCorrection | null> {
+        const query = taxonomyService.translate(report.requestedName);
+        const productName = normalizeCatalogKey(report.productName);
+        const chain = normalizeCatalogKey(report.chain || '');
+        if (!query || !productName || !chain || query === productName) return null;
+
+        const state = this.load();
+        let correction = state.corrections.find(c => c.query === query && c.productName === productName && c.chain === chain);
+        if (!correction) {
+            const now = new Date().toISOString();
+            correction = {
+                id: uuidv4(),
+                query,
+                productName,
+                ...(report.productId && { productId: report.productId }),
+                chain,
+                reporters: [],
+                status: 'pending',
+                reportedStatus: 'pending',
+                created_at: now,
+                updated_at: now
+            };
+            state.corrections.push(correction);
+        }
+
+        const reporter = hashReporter(report.reporter);
+        if (!correction.reporters.includes(reporter)) {
+            correction.reporters.push(reporter);
+            correction.updated_at = new Date().toISOString();
+        }
+
+        const reportedStatus = this.statusFor(correction.reporters.length);
+        if (reportedStatus !== correction.reportedStatus) {
+            correction.reportedStatus = reportedStatus;
+            // Reports never undo an admin's block or revert
+            if (correction.status === 'pending') {
+                this.setStatus(correction, reportedStatus, { action: 'demoted', actor: 'reports', note: `${correction.reporters.length} reports` });
+            }
+        }
+
+        await this.save();
+        return correction;
+    }
+
+    /**
+     * The demotion or block in force for a product under a query, if any. Chain-specific
+     * corrections only apply to that chain's products.
+     */
+    public find(query: string, productName: string, chain?: string): MatchCorrection | undefined {
+        this.load();
+        const candidates = this.active.get(this.key(query, productName));
+        if (!candidates) return undefined;
+        return candidates.find(c => c.status === 'blocked' && matchesChain(chain, c.chain))
+            || candidates.find(c => matchesChain(chain, c.chain));
+    }
+
+    public isBlocked(query: string, productName: string, chain?: string): boolean {
+        return this.find(query, productName, chain)?.status === 'blocked';
+    }
+
+    public getCorrections(status?: CorrectionStatus): MatchCorrection[] {
+        const { corrections } = this.load();
+        return status ? corrections.filter(c => c.status === status) : corrections;
+    }
+
+    public getAudit(correctionId?: string): CorrectionAuditEntry[] {
+        const { audit } = this.load();
+        return correctionId ? audit.filter(entry => entry.correctionId === correctionId) : audit;
+    }
+
+    /**
+     * Drops the product from the query's results at the correction's chain. Reports only demote,
+     * so a block always comes from an admin.
+     */
+    public async block(id: string, note?: string): Promise<MatchCorrection> {
+        const correction = this.getCorrection(id);
+        if (correction.status === 'blocked') return correction;
+        this.setStatus(correction, 'blocked', { action: 'blocked', actor: 'admin', ...(note && { note }) });
+        await this.save();
+        return correction;
+    }
+
+    /**
+     * Undoes a correction; later reports for the same match keep counting but don't re-apply it.
+     */
+    public async revert(id: string, note?: string): Promise<MatchCorrection> {
+        const correction = this.getCorrection(id);
+        if (correction.status === 'reverted') return correction;
+        this.setStatus(correction, 'reverted', { action: 'reverted', actor: 'admin', ...(note && { note }) });
+        await this.save();
+        return correction;
+    }
+
+    /**
+     * Puts a reverted correction back to what its reports call for.
+     */
+    public async restore(id: string, note?: string): Promise<MatchCorrection> {
+        const correction = this.getCorrection(id);
+        if (correction.status !== 'reverted') return correction;
+        this.setStatus(correction, correction.reportedStatus, { action: 'restored', actor: 'admin', ...(note && { note }) });
+        await this.save();
+        return correction;
+    }
+
+    private getCorrection(id: string): MatchCorrection {
+        const correction = this.load().corrections.find(c => c.id === id);
+        if (!correction) throw new ApiError(404, 'Correction not found');
+        return correction;
+    }
+}
+
+export const matchCorrectionService = new MatchCorrectionService();
+export default matchCorrectionService;
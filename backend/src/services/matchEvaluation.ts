@@ -0,0 +1,249 @@
+import fs from 'fs';
+import { Product, Store } from '../types/index.js';
+import { KassalProvider } from './providers/KassalProvider.js';
+import { aiService } from './aiService.js';
+import relevanceRuleService from './relevanceRuleService.js';
+import { selectBestProductForStoreWithQuery } from '../utils/matching.js';
+
+/**
+ * Why a labelled candidate is the wrong product for its query.
+ */
+export const FALSE_POSITIVE_CATEGORIES = [
+    'juice', 'flavored', 'processed', 'byproduct', 'baby_food', 'non_food', 'wrong_item'
+] as const;
+
+export type FalsePositiveCategory = typeof FALSE_POSITIVE_CATEGORIES[number];
+
+/** "ok" marks an acceptable product for the query */
+export type CandidateLabel = 'ok' | FalsePositiveCategory;
+
+export interface GoldenCandidate {
+    name: string;
+    price: number;
+    /** Kassal category name ("Meieri", "Drikke") */
+    category?: string;
+    label: CandidateLabel;
+}
+
+/**
+ * One labelled search: the query, what a search could return for it, and which of those are acceptable.
+ */
+export interface GoldenCase {
+    id: string;
+    query: string;
+    /** Category hint the AI parser would attach ("meieri") */
+    suggestedCategory?: string;
+    candidates: GoldenCandidate[];
+}
+
+export interface GoldenSet {
+    version: number;
+    cases: GoldenCase[];
+}
+
+/**
+ * Thrown when the golden set file is missing or invalid.
+ */
+export class GoldenSetError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`Invalid golden set: ${errors.join('; ')}`);
+        this.name = 'GoldenSetError';
+    }
+}
+
+export interface CaseResult {
+    id: string;
+    query: string;
+    /** Candidate names in search order, after filtering (and the AI re-rank when enabled) */
+    ranked: string[];
+    /** 1-based position of the first acceptable product in `ranked`, or null when none survived */
+    firstRelevantRank: number | null;
+    /** Product the store comparison picks from the ranked results */
+    pick: string | null;
+    topLabel: CandidateLabel | null;
+    pickLabel: CandidateLabel | null;
+}
+
+export interface StageMetrics {
+    /** Share of cases whose first result is acceptable */
+    precisionAt1: number;
+    /** Cases whose first result is wrong, by why it's wrong */
+    falsePositives: Partial<Record<FalsePositiveCategory, number>>;
+    /** Cases left without any result */
+    noResult: number;
+}
+
+export interface EvaluationReport {
+    datasetVersion: number;
+    rulesVersion: number;
+    aiRerank: boolean;
+    cases: number;
+    /** The search ranking (Kassal heuristics, relevance rules, optional AI re-rank) */
+    ranking: StageMetrics & { mrr: number };
+    /** The per-store pick made by the route/comparison engine */
+    selection: StageMetrics;
+    results: CaseResult[];
+}
+
+export interface BaselineDiff {
+    regressions: string[];
+    improvements: string[];
+}
+
+// Every candidate is stocked by one made-up store, so the selection stage compares relevance and price only
+const EVAL_STORE: Store = {
+    id: 'eval-store',
+    name: 'Eval Store',
+    chain: 'Eval',
+    address: '',
+    location: { lat: 0, lng: 0 },
+    distance: 0
+};
+
+// The Kassal provider re-ranks this many top results with Gemini
+const AI_RERANK_TOP = 15;
+
+/**
+ * Reads and validates a golden set file.
+ * @throws GoldenSetError when the file is missing or a case is malformed.
+ */
+export function loadGoldenSet(filePath: string): GoldenSet {
+    let data: GoldenSet;
+    try {
+        data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        throw new GoldenSetError([`could not read ${filePath}: ${(error as Error).message}`]);
+    }
+    if (!Array.isArray(data?.cases)) throw new GoldenSetError(['expected an object with a "cases" array']);
+
+    const errors: string[] = [];
+    const ids = new Set<string>();
+    data.cases.forEach((c, i) => {
+        const at = `case ${i + 1}${typeof c?.id === 'string' ? ` (${c.id})` : ''}`;
+        if (typeof c?.id !== 'string' || !c.id) errors.push(`${at}: id is required`);
+        else if (ids.has(c.id)) errors.push(`${at}: duplicate id`);
+        else ids.add(c.id);
+        if (typeof c?.query !== 'string' || !c.query.trim()) errors.push(`${at}: query is required`);
+        if (!Array.isArray(c?.candidates) || c.candidates.length === 0) {
+            errors.push(`${at}: candidates must be a non-empty array`);
+            return;
+        }
+        if (!c.candidates.some(candidate => candidate?.label === 'ok')) errors.push(`${at}: needs at least one "ok" candidate`);
+        c.candidates.forEach((candidate, j) => {
+            if (typeof candidate?.name !== 'string' || !candidate.name) errors.push(`${at}, candidate ${j + 1}: name is required`);
+            if (typeof candidate?.price !== 'number' || candidate.price <= 0) errors.push(`${at}, candidate ${j + 1}: price must be a positive number`);
+            if (candidate?.label !== 'ok' && !FALSE_POSITIVE_CATEGORIES.includes(candidate?.label)) {
+                errors.push(`${at}, candidate ${j + 1}: label must be "ok" or one of ${FALSE_POSITIVE_CATEGORIES.join(', ')}`);
+            }
+        });
+    });
+
+    if (errors.length > 0) throw new GoldenSetError(errors);
+    return { version: Number(data.version) || 1, cases: data.cases };
+}
+
+const toProduct = (candidate: GoldenCandidate, id: string): Product => ({
+    id,
+    name: candidate.name,
+    price: candidate.price,
+    store: EVAL_STORE.name,
+    chain: EVAL_STORE.chain,
+    image_url: '',
+    unit: 'stk'
+});
+
+const summarize = (labels: (CandidateLabel | null)[]): StageMetrics => {
+    const falsePositives: StageMetrics['falsePositives'] = {};
+    for (const label of labels) {
+        if (label && label !== 'ok') falsePositives[label] = (falsePositives[label] || 0) + 1;
+    }
+    return {
+        precisionAt1: labels.length > 0 ? labels.filter(label => label === 'ok').length / labels.length : 0,
+        falsePositives,
+        noResult: labels.filter(label => label === null).length
+    };
+};
+
+/**
+ * Runs every case through the search ranking and the per-store selection, offline.
+ * With `ai` the top results also go through the Gemini re-rank, which needs GEMINI_API_KEY
+ * or replayed Gemini cassettes.
+ */
+export async function evaluateGoldenSet(set: GoldenSet, options: { ai?: boolean } = {}): Promise<EvaluationReport> {
+    const provider = new KassalProvider();
+    const results: CaseResult[] = [];
+
+    for (const c of set.cases) {
+        const products = c.candidates.map((candidate, i) => toProduct(candidate, `${c.id}-${i + 1}`));
+        const labelOf = new Map(products.map((p, i) => [String(p.id), c.candidates[i].label]));
+
+        let ranked = provider.rankProducts(products, c.query, { suggestedCategory: c.suggestedCategory }, c.candidates.map(candidate => candidate.category || ''));
+        if (options.ai && ranked.length > 0) {
+            ranked = [...await aiService.rankProductRelevance(c.query, ranked.slice(0, AI_RERANK_TOP)), ...ranked.slice(AI_RERANK_TOP)];
+        }
+
+        const firstRelevant = ranked.findIndex(p => labelOf.get(String(p.id)) === 'ok');
+        const pick = selectBestProductForStoreWithQuery(ranked, EVAL_STORE, ranked.map(p => String(p.id)), c.query)?.product;
+
+        results.push({
+            id: c.id,
+            query: c.query,
+            ranked: ranked.map(p => p.name),
+            firstRelevantRank: firstRelevant === -1 ? null : firstRelevant + 1,
+            pick: pick?.name ?? null,
+            topLabel: ranked.length > 0 ? labelOf.get(String(ranked[0].id))! : null,
+            pickLabel: pick ? labelOf.get(String(pick.id))! : null
+        });
+    }
+
+    const mrr = results.length > 0
+        ? results.reduce((sum, r) => sum + (r.firstRelevantRank ? 1 / r.firstRelevantRank : 0), 0) / results.length
+        : 0;
+
+    return {
+        datasetVersion: set.version,
+        rulesVersion: relevanceRuleService.getVersion(),
+        aiRerank: options.ai === true,
+        cases: results.length,
+        ranking: { ...summarize(results.map(r => r.topLabel)), mrr },
+        selection: summarize(results.map(r => r.pickLabel)),
+        results
+    };
+}
+
+const describeResult = (name: string | null, label: CandidateLabel | null): string =>
+    name === null ? 'nothing' : `"${name}" (${label})`;
+
+/**
+ * Compares a report with a saved baseline. Lower aggregate metrics or a case whose first result
+ * or pick stopped being acceptable are regressions; the reverse are improvements.
+ */
+export function compareToBaseline(current: EvaluationReport, baseline: EvaluationReport): BaselineDiff {
+    const diff: BaselineDiff = { regressions: [], improvements: [] };
+    const metric = (label: string, now: number, before: number) => {
+        const line = `${label}: ${before.toFixed(3)} -> ${now.toFixed(3)}`;
+        if (now < before - 1e-9) diff.regressions.push(line);
+        else if (now > before + 1e-9) diff.improvements.push(line);
+    };
+
+    metric('ranking precision@1', current.ranking.precisionAt1, baseline.ranking.precisionAt1);
+    metric('ranking MRR', current.ranking.mrr, baseline.ranking.mrr);
+    metric('selection precision@1', current.selection.precisionAt1, baseline.selection.precisionAt1);
+
+    const before = new Map(baseline.results.map(r => [r.id, r]));
+    for (const result of current.results) {
+        const old = before.get(result.id);
+        if (!old) continue;
+
+        if ((old.topLabel === 'ok') !== (result.topLabel === 'ok')) {
+            const line = `${result.id}: first result ${describeResult(old.ranked[0] ?? null, old.topLabel)} -> ${describeResult(result.ranked[0] ?? null, result.topLabel)}`;
+            (result.topLabel === 'ok' ? diff.improvements : diff.regressions).push(line);
+        }
+        if ((old.pickLabel === 'ok') !== (result.pickLabel === 'ok')) {
+            const line = `${result.id}: store pick ${describeResult(old.pick, old.pickLabel)} -> ${describeResult(result.pick, result.pickLabel)}`;
+            (result.pickLabel === 'ok' ? diff.improvements : diff.regressions).push(line);
+        }
+    }
+
+    return diff;
+}
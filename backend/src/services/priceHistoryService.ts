@@ -0,0 +1,168 @@
+import dataAggregator from './providers/DataAggregator.js';
+import cache from '../utils/cache.js';
+import { Product } from '../types/index.js';
+import { addDays, parseDateKey, toDateKey } from '../utils/isoWeek.js';
+
+/**
+ * A price change: `price` applies from `date` (YYYY-MM-DD) until the next point.
+ */
+export interface PricePoint {
+    date: string;
+    price: number;
+}
+
+export interface PriceWindowStats {
+    days: number;
+    min: number;
+    max: number;
+    /** Median of the daily prices, so a price that held for weeks weighs more than a one-day blip */
+    median: number;
+}
+
+export interface PriceHistoryStats {
+    current: number;
+    last30: PriceWindowStats;
+    last90: PriceWindowStats;
+    /** Share of the last 90 days with a lower price than today, 0-100. 0 means today's price is the period's low */
+    currentPercentile: number;
+    /** Date of the most recent price change, or null when the price never changed */
+    lastChange: string | null;
+}
+
+export interface StorePriceHistory {
+    productId: string | number;
+    store: string;
+    chain: string;
+    source?: string;
+    points: PricePoint[];
+    stats: PriceHistoryStats;
+}
+
+export interface ProductPriceHistory {
+    product: Pick<Product, 'id' | 'name' | 'ean' | 'image_url'>;
+    /** One series per store, cheapest current price first */
+    stores: StorePriceHistory[];
+}
+
+const HISTORY_CACHE_TTL = 3600;
+
+const toPointDate = (value: string): string | null => {
+    if (parseDateKey(value)) return value;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : toDateKey(date);
+};
+
+/**
+ * Turns raw provider history (newest first, timestamps, repeats) into ascending change points,
+ * one per day, with the current price as today's point when it differs from the last recorded one.
+ */
+export const normalizePriceHistory = (
+    raw: Array<{ price: number; date: string }> | undefined,
+    currentPrice: number,
+    today: Date = new Date()
+): PricePoint[] => {
+    const byDay = new Map<string, number>();
+    const valid = (raw || [])
+        .map(p => ({ date: toPointDate(String(p.date)), price: Number(p.price) }))
+        .filter((p): p is PricePoint => p.date !== null && p.price > 0)
+        .sort((a, b) => a.date.localeCompare(b.date));
+    for (const point of valid) byDay.set(point.date, point.price);
+
+    const points: PricePoint[] = [];
+    for (const [date, price] of byDay) {
+        if (points.length === 0 || points[points.length - 1].price !== price) {
+            points.push({ date, price });
+        }
+    }
+
+    const todayKey = toDateKey(today);
+    const last = points[points.length - 1];
+    if (currentPrice > 0 && (!last || (last.price !== currentPrice && last.date < todayKey))) {
+        points.push({ date: todayKey, price: currentPrice });
+    }
+    return points;
+};
+
+/**
+ * Price in effect on each of the last `days` days, oldest first. Days before the first point are skipped.
+ */
+const dailyPrices = (points: PricePoint[], days: number, today: Date): number[] => {
+    const prices: number[] = [];
+    let index = -1;
+    for (let offset = days - 1; offset >= 0; offset--) {
+        const day = toDateKey(addDays(today, -offset));
+        while (index + 1 < points.length && points[index + 1].date <= day) index++;
+        if (index >= 0) prices.push(points[index].price);
+    }
+    return prices;
+};
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2 * 100) / 100;
+};
+
+const windowStats = (points: PricePoint[], days: number, current: number, today: Date): PriceWindowStats => {
+    const prices = dailyPrices(points, days, today);
+    const values = prices.length > 0 ? prices : [current];
+    return { days, min: Math.min(...values), max: Math.max(...values), median: median(values) };
+};
+
+/**
+ * 30/90-day min, max and median, where today's price sits in the last 90 days, and when it last changed.
+ */
+export const computePriceHistoryStats = (points: PricePoint[], current: number, today: Date = new Date()): PriceHistoryStats => {
+    const last90Prices = dailyPrices(points, 90, today);
+    const lower = last90Prices.filter(p => p < current).length;
+
+    return {
+        current,
+        last30: windowStats(points, 30, current, today),
+        last90: windowStats(points, 90, current, today),
+        currentPercentile: last90Prices.length > 0 ? Math.round(lower / last90Prices.length * 100) : 0,
+        lastChange: points.length > 1 ? points[points.length - 1].date : null
+    };
+};
+
+/**
+ * Service to assemble per-store price history for a product and judge whether today's price is a real low.
+ */
+class PriceHistoryService {
+    /**
+     * History for a product at every store that sells it (matched by EAN), or just its own store without one.
+     */
+    public async getHistory(productId: string, today: Date = new Date()): Promise<ProductPriceHistory> {
+        const cacheKey = `history:${productId}:${toDateKey(today)}`;
+        const cached = cache.get<ProductPriceHistory>(cacheKey);
+        if (cached) return cached;
+
+        const product = await dataAggregator.getProductById(productId);
+        const listings = product.ean ? await dataAggregator.getProductsByEan(product.ean) : [];
+        const all = listings.some(p => String(p.id) === String(product.id)) ? listings : [product, ...listings];
+
+        const stores = all
+            .map(p => {
+                const points = normalizePriceHistory(p.priceHistory, p.price, today);
+                return {
+                    productId: p.id,
+                    store: p.store,
+                    chain: p.chain,
+                    ...(p.source && { source: p.source }),
+                    points,
+                    stats: computePriceHistoryStats(points, p.price, today)
+                };
+            })
+            .sort((a, b) => a.stats.current - b.stats.current);
+
+        const result: ProductPriceHistory = {
+            product: { id: product.id, name: product.name, ean: product.ean, image_url: product.image_url },
+            stores
+        };
+        cache.set(cacheKey, result, HISTORY_CACHE_TTL);
+        return result;
+    }
+}
+
+export const priceHistoryService = new PriceHistoryService();
+export default priceHistoryService;
@@ -0,0 +1,178 @@
+import { PromotionalOffer } from '../types/index.js';
+import { getDiscountLabel } from './OfferService.js';
+
+/**
+ * A flyer offer reduced to what's needed to price a line.
+ * - percentage: every unit costs `percent`% less
+ * - fixed_price: every unit costs `unitPrice`
+ * - multi_buy: each full group of `buy` units costs `pay` units ("3 for 2") or `groupPrice` kr ("2 for 35 NOK")
+ */
+export type PromotionRule =
+    | { type: 'percentage'; percent: number }
+    | { type: 'fixed_price'; unitPrice: number }
+    | { type: 'multi_buy'; buy: number; pay?: number; groupPrice?: number };
+
+/**
+ * The offer that priced a line, as returned to clients.
+ */
+export interface AppliedPromotion {
+    chain: string;
+    product_name: string;
+    label: string;
+    discount_type: PromotionalOffer['discount_type'];
+    rule: PromotionRule;
+    /** Per-package charge on top of the offer price besides the deposit (from the flyer's additional_cost) */
+    extraCost: number;
+    /** Kroner saved on the line compared to the regular price */
+    discount: number;
+}
+
+export interface PromotionQuote {
+    totalPrice: number;
+    regularTotalPrice: number;
+    discount: number;
+    /** Deposit per package used for the line (the product's, or the offer's when the product has none) */
+    deposit: number;
+    /** Deposit included in totalPrice (never discounted) */
+    depositTotal: number;
+    /** Extra charges from the applied offer included in totalPrice */
+    extraCostTotal: number;
+    promotion?: AppliedPromotion;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Reads multi-buy terms from flyer text: "3 for 2", "ta 3 betal 2", "2 for 35 NOK + pant".
+ * A second number with a currency, or one at least as large as the first, is a group price.
+ */
+export const parseMultiBuy = (text: string, fallbackGroupPrice?: number): Extract<PromotionRule, { type: 'multi_buy' }> | null => {
+    const value = text.toLowerCase();
+
+    const takePay = /(?:ta|kjøp|buy)\s*(\d+)\s*(?:,\s*)?(?:betal|pay)\s*(?:for\s*)?(\d+)/.exec(value);
+    if (takePay) {
+        const buy = Number(takePay[1]);
+        const pay = Number(takePay[2]);
+        return buy > pay && pay > 0 ? { type: 'multi_buy', buy, pay } : null;
+    }
+
+    const nFor = /(\d+)\s*(?:stk\s*|pk\s*)?for\s*(\d+(?:[.,]\d+)?)\s*(nok|kr|,-)?/.exec(value);
+    if (!nFor) return null;
+
+    const buy = Number(nFor[1]);
+    const amount = Number(nFor[2].replace(',', '.'));
+    if (buy < 2 || amount <= 0) return null;
+
+    const isPrice = !!nFor[3] || !Number.isInteger(amount) || amount >= buy;
+    if (isPrice) return { type: 'multi_buy', buy, groupPrice: fallbackGroupPrice ?? amount };
+    return { type: 'multi_buy', buy, pay: amount };
+};
+
+/**
+ * Turns an offer into a pricing rule, or null when it can't be applied to a per-package price
+ * (weight-priced deals like "per kg", or offers without usable numbers).
+ */
+export const toPromotionRule = (offer: PromotionalOffer): PromotionRule | null => {
+    switch (offer.discount_type) {
+        case 'percentage':
+            return offer.discount_percent && offer.discount_percent > 0 && offer.discount_percent < 100
+                ? { type: 'percentage', percent: offer.discount_percent }
+                : null;
+        case 'fixed_price':
+            if (!offer.final_price || /\b(hg|kg|g|l|liter)\b/i.test(offer.unit || '')) return null;
+            return { type: 'fixed_price', unitPrice: offer.final_price };
+        case 'multi_buy':
+            return parseMultiBuy(offer.discount_value || '', offer.final_price);
+        default:
+            return null;
+    }
+};
+
+/**
+ * Line total for `quantity` units at `unitPrice` under a rule. Never more than the regular price:
+ * a "deal" that is dearer than the shelf price is ignored, and units outside a full multi-buy group pay full price.
+ */
+export const priceWithRule = (unitPrice: number, quantity: number, rule: PromotionRule): number => {
+    const regular = unitPrice * quantity;
+    let total = regular;
+
+    switch (rule.type) {
+        case 'percentage':
+            total = regular * (1 - rule.percent / 100);
+            break;
+        case 'fixed_price':
+            total = Math.min(unitPrice, rule.unitPrice) * quantity;
+            break;
+        case 'multi_buy': {
+            const groups = Math.floor(quantity / rule.buy);
+            const rest = quantity - groups * rule.buy;
+            const groupRegular = unitPrice * rule.buy;
+            const groupPrice = rule.pay !== undefined ? unitPrice * rule.pay : (rule.groupPrice ?? groupRegular);
+            total = groups * Math.min(groupPrice, groupRegular) + rest * unitPrice;
+            break;
+        }
+    }
+
+    return round(Math.min(total, regular));
+};
+
+/**
+ * Line total for an offer. Flyer prices are quoted without deposit, so the rule prices the goods
+ * (shelf price minus deposit) and the deposit and any extra charge are added back per package.
+ */
+export const priceWithOffer = (unitPrice: number, quantity: number, rule: PromotionRule, deposit: number, extraCost = 0): number =>
+    round(priceWithRule(Math.max(0, unitPrice - deposit), quantity, rule) + (deposit + extraCost) * quantity);
+
+/**
+ * Prices a line with the cheapest applicable offer.
+ * @param offers Offers already matched to this product and store chain.
+ * @param productDeposit Deposit per package included in `unitPrice` (see Product.deposit).
+ */
+export const applyBestPromotion = (
+    unitPrice: number,
+    quantity: number,
+    offers: PromotionalOffer[],
+    productDeposit = 0
+): PromotionQuote => {
+    const regularTotalPrice = round(unitPrice * quantity);
+    let best: PromotionQuote = {
+        totalPrice: regularTotalPrice,
+        regularTotalPrice,
+        discount: 0,
+        deposit: productDeposit,
+        depositTotal: round(productDeposit * quantity),
+        extraCostTotal: 0
+    };
+
+    for (const offer of offers) {
+        const rule = toPromotionRule(offer);
+        if (!rule) continue;
+
+        // The product's own container size is more reliable than the flyer's, which may cover several sizes
+        const deposit = productDeposit || offer.deposit || 0;
+        const extraCost = offer.extra_cost || 0;
+        const totalPrice = priceWithOffer(unitPrice, quantity, rule, deposit, extraCost);
+        if (totalPrice >= best.totalPrice) continue;
+
+        const discount = round(regularTotalPrice - totalPrice);
+        best = {
+            totalPrice,
+            regularTotalPrice,
+            discount,
+            deposit,
+            depositTotal: round(deposit * quantity),
+            extraCostTotal: round(extraCost * quantity),
+            promotion: {
+                chain: offer.chain,
+                product_name: offer.product_name,
+                label: getDiscountLabel(offer),
+                discount_type: offer.discount_type,
+                rule,
+                extraCost,
+                discount
+            }
+        };
+    }
+
+    return best;
+};
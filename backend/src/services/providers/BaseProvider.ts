@@ -1,18 +1,34 @@
 import { Product, Store, Location } from '../../types/index.js';
+import { CircuitBreakerStatus } from '../../utils/circuitBreaker.js';
+import { TokenBucketStatus } from '../../utils/tokenBucket.js';
 
 export interface ProviderSearchOptions {
     suggestedCategory?: string;
     location?: Location;
     radius?: number;
+    /** Physical store id for branch-specific prices (only honoured when supportsStorePricing is set) */
+    storeId?: string | number;
+    /** Skip the Gemini relevance re-rank (used for bulk branch lookups) */
+    skipAiRerank?: boolean;
     [key: string]: any;
 }
 
+export interface ProviderCircuitStatus extends CircuitBreakerStatus {
+    limiter: TokenBucketStatus;
+}
+
 /**
  * Base Interface for all Data Providers (Kassal API, Offline Dataset, etc.)
  */
 export interface BaseProvider {
     name: string;
 
+    /**
+     * True when searchProducts honours `options.storeId` with prices for that physical store.
+     * Providers without it only know chain-wide prices.
+     */
+    supportsStorePricing?: boolean;
+
     /**
      * Search for products matching a query
      */
@@ -28,8 +44,19 @@ export interface BaseProvider {
      */
     getProductById(id: string): Promise<Product>;
 
+    /**
+     * Get every listing of a barcode (one entry per chain/store that carries it).
+     * Returns an empty array when the EAN is unknown.
+     */
+    getProductsByEan(ean: string): Promise<Product[]>;
+
     /**
      * Check if the provider is healthy/available
      */
     isAvailable(): Promise<boolean>;
+
+    /**
+     * Circuit breaker and outbound limiter state, for providers backed by a remote API
+     */
+    getCircuitStatus?(): ProviderCircuitStatus;
 }
@@ -1,32 +1,214 @@
-import { BaseProvider, ProviderSearchOptions } from './BaseProvider.js';
+import { BaseProvider, ProviderSearchOptions, ProviderCircuitStatus } from './BaseProvider.js';
 import { KassalProvider } from './KassalProvider.js';
+import { FixtureProvider } from './FixtureProvider.js';
 import { Product, Store, Location } from '../../types/index.js';
 import priceIndexService from '../PriceIndexService.js';
+import taxonomyService from '../taxonomyService.js';
+import config from '../../config/index.js';
+import { ApiError } from '../../middleware/errorHandler.js';
+import cache, { buildRequestKey } from '../../utils/cache.js';
+
+/**
+ * Normalizes names for cross-provider dedupe keys ("REMA_1000" and "Rema 1000" collapse together).
+ */
+const normalizeKey = (value: string | undefined): string =>
+    (value || '').toLowerCase().replace(/_/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Turns a provider display name into an id namespace (e.g. "Fixture Dataset" -> "fixture-dataset").
+ */
+const toProviderSlug = (name: string): string =>
+    name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
 
 /**
  * Aggregates multiple data providers and handles fallback logic.
+ * Every registered provider is queried in parallel; results are merged and
+ * deduplicated, with earlier-registered providers winning on conflicts.
  */
-class DataAggregator {
+export class DataAggregator {
     private providers: BaseProvider[] = [];
-    private primaryProvider: BaseProvider;
 
     constructor() {
-        this.primaryProvider = new KassalProvider();
-        this.providers = [this.primaryProvider];
+        for (const name of config.dataProviders) {
+            this.registerProvider(name === 'fixture' ? new FixtureProvider() : new KassalProvider());
+        }
+        console.log(`[DataAggregator] Registered providers: ${this.providers.map(p => p.name).join(', ')}`);
     }
 
     /**
-     * Search for products across providers
+     * Adds a provider to the fan-out. Providers registered first take priority when results overlap.
      */
-    public async searchProducts(query: string, options?: ProviderSearchOptions): Promise<Product[]> {
+    public registerProvider(provider: BaseProvider): void {
+        if (this.providers.some(p => p.name === provider.name)) {
+            console.warn(`[DataAggregator] Provider "${provider.name}" is already registered. Skipping.`);
+            return;
+        }
+        this.providers.push(provider);
+    }
+
+    /**
+     * Runs a provider call with a timeout so one slow source cannot stall the whole request.
+     */
+    private async withTimeout<T>(provider: BaseProvider, task: Promise<T>, context: string): Promise<T> {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(
+                () => reject(new Error(`Provider "${provider.name}" timed out after ${config.providerTimeoutMs}ms (${context})`)),
+                config.providerTimeoutMs
+            );
+        });
+
         try {
-            return await this.primaryProvider.searchProducts(query, options);
-        } catch (error) {
-            console.error(`[DataAggregator] Primary provider ("${this.primaryProvider.name}") failed for "${query}":`, error);
-            return [];
+            return await Promise.race([task, timeout]);
+        } finally {
+            clearTimeout(timer);
         }
     }
 
+    /**
+     * Queries every provider in parallel and returns the successful results in provider order.
+     * Failing or timed-out providers are logged and skipped.
+     */
+    private async fanOut<T>(
+        context: string,
+        call: (provider: BaseProvider) => Promise<T>,
+        providers: BaseProvider[] = this.providers
+    ): Promise<Array<{ provider: BaseProvider; index: number; result: T }>> {
+        const settled = await Promise.allSettled(
+            providers.map(provider => this.withTimeout(provider, call(provider), context))
+        );
+
+        const results: Array<{ provider: BaseProvider; index: number; result: T }> = [];
+        settled.forEach((outcome, i) => {
+            const provider = providers[i];
+            const index = this.providers.indexOf(provider);
+            if (outcome.status === 'fulfilled') {
+                results.push({ provider, index, result: outcome.value });
+            } else {
+                console.error(`[DataAggregator] Provider "${provider.name}" failed (${context}):`, outcome.reason);
+            }
+        });
+        return results;
+    }
+
+    /**
+     * Secondary providers get their product ids namespaced so they cannot collide with the primary's ids.
+     */
+    private tagProduct(product: Product, provider: BaseProvider, index: number): Product {
+        return {
+            ...product,
+            id: index === 0 ? product.id : `${toProviderSlug(provider.name)}:${product.id}`,
+            source: provider.name
+        };
+    }
+
+    /**
+     * The same product at the same chain/store counts once. EAN is preferred; otherwise the normalized name.
+     */
+    private getDedupeKey(product: Product): string {
+        const identity = product.ean ? `ean:${product.ean}` : `name:${normalizeKey(product.name)}`;
+        return `${identity}|${normalizeKey(product.chain)}|${normalizeKey(product.store)}`;
+    }
+
+    /**
+     * Search for products across providers.
+     * Concurrent identical searches (same normalized query and options) share one fan-out.
+     */
+    public async searchProducts(query: string, options?: ProviderSearchOptions): Promise<Product[]> {
+        return cache.singleFlight(
+            buildRequestKey('aggregator:search', query, options),
+            () => this.fetchAndMerge(query, options)
+        );
+    }
+
+    private async fetchAndMerge(query: string, options?: ProviderSearchOptions): Promise<Product[]> {
+        const results = await this.fanOut(`search "${query}"`, p => p.searchProducts(query, options));
+
+        // Dedupe in provider order, so the provider listed first keeps a shared product
+        const seen = new Set<string>();
+        const lists = results.map(({ provider, index, result }) => result
+            .filter(product => {
+                const key = this.getDedupeKey(product);
+                if (seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            })
+            .map(product => this.tagProduct(product, provider, index)));
+
+        // Each provider sorts by its own relevance scale, so the scores can't be compared across providers.
+        // Interleave by rank instead: every provider's best result first, then every second best, ...
+        const products: Product[] = [];
+        const longest = Math.max(0, ...lists.map(list => list.length));
+        for (let rank = 0; rank < longest; rank++) {
+            for (const list of lists) {
+                if (rank < list.length) products.push(list[rank]);
+            }
+        }
+        return products;
+    }
+
+    /**
+     * Whether any registered provider can price individual physical stores.
+     */
+    public supportsStorePricing(): boolean {
+        return this.providers.some(p => p.supportsStorePricing);
+    }
+
+    /**
+     * Search for a product at one physical store (branch-level prices).
+     * Only providers that support store pricing are asked; results are stamped with the store's
+     * name and address so getProductMatchLevel resolves them at BRANCH level.
+     * Cached per store and query.
+     */
+    public async searchProductsAtStore(query: string, store: Store, options?: ProviderSearchOptions): Promise<Product[]> {
+        const storeProviders = this.providers.filter(p => p.supportsStorePricing);
+        if (storeProviders.length === 0) return [];
+
+        const cacheKey = `branch:${store.id}:${query.toLowerCase().trim()}`;
+        const cached = cache.get<Product[]>(cacheKey);
+        if (cached) return cached;
+
+        return cache.singleFlight(
+            buildRequestKey(`aggregator:branch:${store.id}`, query, options),
+            () => this.fetchBranchProducts(query, store, cacheKey, storeProviders, options)
+        );
+    }
+
+    private async fetchBranchProducts(
+        query: string,
+        store: Store,
+        cacheKey: string,
+        storeProviders: BaseProvider[],
+        options?: ProviderSearchOptions
+    ): Promise<Product[]> {
+        const results = await this.fanOut(
+            `branch search "${query}" @ ${store.name}`,
+            p => p.searchProducts(query, { ...options, storeId: store.id, skipAiRerank: true }),
+            storeProviders
+        );
+
+        const merged = new Map<string, Product>();
+        for (const { provider, index, result } of results) {
+            for (const product of result) {
+                const key = this.getDedupeKey(product);
+                if (!merged.has(key)) {
+                    merged.set(key, {
+                        ...this.tagProduct(product, provider, index),
+                        store: store.name,
+                        address: store.address
+                    });
+                }
+            }
+        }
+
+        const products = Array.from(merged.values());
+        // Don't cache a failed lookup; the next request should retry the branch
+        if (results.length > 0) {
+            cache.set(cacheKey, products, config.branchPricingTTL);
+        }
+        return products;
+    }
+
     /**
      * Search for MULTIPLE products in parallel.
      * This is crucial for the robust optimization engine to fetch all potential matches at once.
@@ -49,22 +231,20 @@ class DataAggregator {
         chains: string[],
         options?: ProviderSearchOptions & { bypassIndex?: boolean }
     ): Promise<{ products: Product[], queryMapping: Map<string, string[]> }> {
-        // 0. Build Translation Map locally for this request
-        // We import the shared mappings to ensure consistency with relevance scoring
-        const { QUERY_MAPPINGS } = await import('../../utils/matching.js');
-
+        // Queries are translated through taxonomyService, the same terms relevance scoring uses
         // 1. Check local Deterministic Price Index for canonical items
         const resultsByQuery: { query: string, products: Product[] }[] = [];
         const queriesToFetch: { original: string, translated: string }[] = [];
 
         for (const q of queries) {
-            const normalizedQ = q.toLowerCase().trim().replace(/\s+/g, '_');
             // TRANSLATE QUERY: "flour" -> "hvetemel"
             // Use the mapped query for ALL fallback/API searches to get better relevance
-            const translatedQ = QUERY_MAPPINGS[normalizedQ.replace(/_/g, ' ')] || normalizedQ;
+            const translatedQ = taxonomyService.translate(q);
             const lookupKey = translatedQ.replace(/\s+/g, '_'); // Canonical keys are usually underscored Norwegian
 
-            if (!options?.bypassIndex && priceIndexService.isCanonical(lookupKey)) {
+            // The price index is built from live Kassal data, so it is skipped when Kassal is not a provider
+            const useIndex = !options?.bypassIndex && config.dataProviders.includes('kassal');
+            if (useIndex && priceIndexService.isCanonical(lookupKey)) {
                 const indexedPrices = priceIndexService.getPricesForCanonicalItem(lookupKey);
                 if (indexedPrices.length > 0) {
                     console.log(`[DataAggregator] Index HIT for canonical item: "${q}" -> "${lookupKey}" (${indexedPrices.length} entries)`);
@@ -170,34 +350,96 @@ class DataAggregator {
     }
 
     /**
-     * Get product details by ID (Primary only)
+     * Get product details by ID.
+     * Namespaced ids ("fixture-dataset:123") go straight to their provider;
+     * plain ids are tried against each provider in priority order.
      */
     public async getProductById(id: string): Promise<Product> {
-        return this.primaryProvider.getProductById(id);
+        const separator = id.indexOf(':');
+        if (separator > 0) {
+            const slug = id.slice(0, separator);
+            const index = this.providers.findIndex(p => toProviderSlug(p.name) === slug);
+            if (index > 0) {
+                const provider = this.providers[index];
+                const product = await this.withTimeout(provider, provider.getProductById(id.slice(separator + 1)), `product ${id}`);
+                return this.tagProduct(product, provider, index);
+            }
+        }
+
+        let lastError: unknown = new ApiError(404, `Product ${id} not found`);
+        for (const [index, provider] of this.providers.entries()) {
+            try {
+                const product = await this.withTimeout(provider, provider.getProductById(id), `product ${id}`);
+                return this.tagProduct(product, provider, index);
+            } catch (error) {
+                console.warn(`[DataAggregator] Provider "${provider.name}" could not resolve product ${id}. Trying next provider.`);
+                lastError = error;
+            }
+        }
+        throw lastError;
+    }
+
+    /**
+     * Look up a barcode across providers.
+     * Listings are merged the same way as search results, cheapest first.
+     */
+    public async getProductsByEan(ean: string): Promise<Product[]> {
+        const results = await this.fanOut(`EAN ${ean}`, p => p.getProductsByEan(ean));
+
+        const merged = new Map<string, Product>();
+        for (const { provider, index, result } of results) {
+            for (const product of result) {
+                const key = this.getDedupeKey(product);
+                if (!merged.has(key)) {
+                    merged.set(key, this.tagProduct(product, provider, index));
+                }
+            }
+        }
+
+        return Array.from(merged.values()).sort((a, b) => a.price - b.price);
     }
 
     /**
-     * Get nearby stores (Currently only Kassal API supports real-time location)
+     * Get nearby stores from all providers, deduplicated by chain and store name
      */
     public async getStoresNearby(location: Location, radiusKm?: number): Promise<Store[]> {
-        try {
-            return await this.primaryProvider.getStoresNearby(location, radiusKm);
-        } catch (error) {
-            console.error('[DataAggregator] Failed to fetch nearby stores from primary:', error);
-            return [];
+        const results = await this.fanOut('nearby stores', p => p.getStoresNearby(location, radiusKm));
+
+        const merged = new Map<string, Store>();
+        for (const { result } of results) {
+            for (const store of result) {
+                const key = `${normalizeKey(store.chain)}|${normalizeKey(store.name)}`;
+                if (!merged.has(key)) merged.set(key, store);
+            }
         }
+
+        return Array.from(merged.values()).sort((a, b) => a.distance - b.distance);
     }
 
     /**
-     * Check health of providers
+     * Circuit breaker state for every provider that has one
      */
-    public async checkHealth(): Promise<Record<string, boolean>> {
-        const status: Record<string, boolean> = {};
+    public getCircuitStatus(): Record<string, ProviderCircuitStatus> {
+        const status: Record<string, ProviderCircuitStatus> = {};
         for (const p of this.providers) {
-            status[p.name] = await p.isAvailable();
+            if (p.getCircuitStatus) status[p.name] = p.getCircuitStatus();
         }
         return status;
     }
+
+    /**
+     * Check health of all registered providers in parallel
+     */
+    public async checkHealth(): Promise<Record<string, boolean>> {
+        const checks = await Promise.all(this.providers.map(async p => {
+            try {
+                return [p.name, await this.withTimeout(p, p.isAvailable(), 'health check')] as const;
+            } catch {
+                return [p.name, false] as const;
+            }
+        }));
+        return Object.fromEntries(checks);
+    }
 }
 
 export const dataAggregator = new DataAggregator();
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import path from 'path';
+import config from '../../config/index.js';
+import { sortStoresByDistance } from '../../utils/distance.js';
+import { Product, Store, Location } from '../../types/index.js';
+import { ApiError } from '../../middleware/errorHandler.js';
+import { calculateRelevanceScore } from '../../utils/matching.js';
+import { BaseProvider, ProviderSearchOptions } from './BaseProvider.js';
+import taxonomyService from '../taxonomyService.js';
+import { getDeposit } from '../../utils/deposit.js';
+import { parseProductAttributes } from '../../utils/productAttributes.js';
+import { getUnitPrice } from '../../utils/unitPrice.js';
+
+/**
+ * Raw product record as stored in the fixture dataset (one per line in products.ndjson).
+ * Prices are chain-level, mirroring what Kassal returns without a store_id.
+ */
+export interface FixtureProductRecord {
+    id: number | string;
+    name: string;
+    ean?: string;
+    brand?: string;
+    price: number;
+    chain: string;
+    store: string;
+    category?: string;
+    image_url?: string;
+    unit?: string;
+    address?: string;
+    ingredients?: string;
+    price_history?: Array<{ price: number; date: string }>;
+}
+
+/**
+ * Products scoring below this are not a real match for the query (see calculateRelevanceScore).
+ */
+const MIN_RELEVANCE = -5000;
+
+/**
+ * Offline provider backed by a local snapshot of stores and products.
+ * Lets the backend run searches, comparisons and route optimization without network or API keys.
+ */
+export class FixtureProvider implements BaseProvider {
+    public readonly name = 'Fixture Dataset';
+    private stores: Store[] = [];
+    private products: FixtureProductRecord[] = [];
+
+    constructor(private readonly dataDir: string = config.fixtureDataDir) {
+        this.loadDataset();
+    }
+
+    private loadDataset() {
+        try {
+            this.stores = this.readRecords<Store>('stores');
+            this.products = this.readRecords<FixtureProductRecord>('products');
+            console.log(`[Fixture Provider] Loaded ${this.stores.length} stores and ${this.products.length} products from ${this.dataDir}`);
+        } catch (error) {
+            console.error(`[Fixture Provider] Failed to load dataset from ${this.dataDir}:`, error);
+            this.stores = [];
+            this.products = [];
+        }
+    }
+
+    /**
+     * Reads `<name>.ndjson` if present, otherwise `<name>.json` (a JSON array).
+     */
+    private readRecords<T>(baseName: string): T[] {
+        const ndjsonPath = path.join(this.dataDir, `${baseName}.ndjson`);
+        if (fs.existsSync(ndjsonPath)) {
+            return fs.readFileSync(ndjsonPath, 'utf-8')
+                .split('\n')
+                .map(line => line.trim())
+                .filter(line => line.length > 0)
+                .map(line => JSON.parse(line) as T);
+        }
+
+        const jsonPath = path.join(this.dataDir, `${baseName}.json`);
+        const parsed = JSON.parse(fs.readFileSync(jsonPath, 'utf-8'));
+        if (!Array.isArray(parsed)) {
+            throw new Error(`${jsonPath} must contain a JSON array`);
+        }
+        return parsed as T[];
+    }
+
+    public async searchProducts(query: string, options?: ProviderSearchOptions): Promise<Product[]> {
+        let cleanedQuery = query.toLowerCase().trim();
+
+        // DataAggregator prefixes targeted variety searches with the chain name (e.g. "KIWI melk")
+        let chainFilter: string | null = null;
+        const knownChains = Array.from(new Set(this.products.map(p => p.chain.toLowerCase())))
+            .sort((a, b) => b.length - a.length);
+        for (const chain of knownChains) {
+            if (cleanedQuery.startsWith(chain + ' ')) {
+                chainFilter = chain;
+                cleanedQuery = cleanedQuery.slice(chain.length).trim();
+                break;
+            }
+        }
+
+        const mappedQuery = taxonomyService.translate(cleanedQuery);
+
+        const storeChain = options?.storeId !== undefined
+            ? this.stores.find(s => String(s.id) === String(options.storeId))?.chain.toLowerCase()
+            : undefined;
+
+        return this.products
+            .filter(p => !chainFilter || p.chain.toLowerCase() === chainFilter)
+            .filter(p => !storeChain || p.chain.toLowerCase() === storeChain)
+            .map(p => ({ record: p, score: calculateRelevanceScore(p.name, mappedQuery) }))
+            .filter(({ score }) => score > MIN_RELEVANCE)
+            .map(({ record, score }) => ({
+                ...this.normalizeProduct(record),
+                relevanceScore: -score // Lower is better, matching KassalProvider's convention
+            }))
+            .sort((a, b) => (a.relevanceScore || 0) - (b.relevanceScore || 0));
+    }
+
+    public async getStoresNearby(location: Location, radiusKm = 5): Promise<Store[]> {
+        return sortStoresByDistance(this.stores, location)
+            .filter(store => store.distance <= radiusKm * 1000);
+    }
+
+    public async getProductById(id: string): Promise<Product> {
+        const record = this.products.find(p => String(p.id) === String(id));
+        if (!record) {
+            throw new ApiError(404, `Product ${id} not found in fixture dataset`);
+        }
+        return this.normalizeProduct(record);
+    }
+
+    public async getProductsByEan(ean: string): Promise<Product[]> {
+        return this.products
+            .filter(p => p.ean === ean)
+            .map(p => this.normalizeProduct(p))
+            .sort((a, b) => a.price - b.price);
+    }
+
+    public async isAvailable(): Promise<boolean> {
+        return this.stores.length > 0 && this.products.length > 0;
+    }
+
+    private normalizeProduct(p: FixtureProductRecord): Product {
+        const deposit = getDeposit(p.name);
+        const attributes = parseProductAttributes(p.name);
+        return {
+            id: p.id,
+            name: p.name,
+            ean: p.ean,
+            price: p.price,
+            store: p.store,
+            chain: p.chain,
+            image_url: p.image_url || '',
+            unit: p.unit || 'stk',
+            ...(deposit > 0 && { deposit }),
+            attributes,
+            ...getUnitPrice(p.price, attributes, deposit),
+            address: p.address,
+            priceHistory: p.price_history,
+            ingredients: p.ingredients
+        };
+    }
+}
@@ -1,6 +1,6 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import config from '../../config/index.js';
-import cache from '../../utils/cache.js';
+import cache, { buildRequestKey } from '../../utils/cache.js';
 import { sortStoresByDistance } from '../../utils/distance.js';
 import {
     Product,
@@ -10,14 +10,50 @@ import {
 } from '../../types/index.js';
 import { ApiError } from '../../middleware/errorHandler.js';
 import { isStrictWordMatch } from '../../utils/matching.js';
-import { BaseProvider, ProviderSearchOptions } from './BaseProvider.js';
+import { BaseProvider, ProviderSearchOptions, ProviderCircuitStatus } from './BaseProvider.js';
 import { aiService } from '../aiService.js';
+import taxonomyService from '../taxonomyService.js';
+import relevanceRuleService from '../relevanceRuleService.js';
+import { TokenBucket } from '../../utils/tokenBucket.js';
+import { CircuitBreaker } from '../../utils/circuitBreaker.js';
+import { Cassette } from '../../utils/cassette.js';
+import { containerFromWeight, getDeposit } from '../../utils/deposit.js';
+import { parseProductAttributes } from '../../utils/productAttributes.js';
+import { getUnitPrice } from '../../utils/unitPrice.js';
+
+// Relevance rule scores are written on the matcher's scale; Kassal ranking points are ten times larger
+const RULE_SCORE_SCALE = 10;
+
+/**
+ * Record/replay store for Kassal HTTP traffic (HTTP_CASSETTE_MODE).
+ */
+export const kassalCassette = new Cassette('kassal');
+
+/**
+ * Outbound budget shared by every KassalProvider instance (server, sync job, scripts).
+ */
+export const kassalLimiter = new TokenBucket(
+    'Kassal API',
+    config.kassalBurst,
+    config.kassalRateLimitPerMinute / 60
+);
+
+/**
+ * Opens after repeated network errors, timeouts or 5xx responses.
+ * 4xx answers (404, 429) mean Kassal is up and do not count against it.
+ */
+export const kassalBreaker = new CircuitBreaker('Kassal API', {
+    failureThreshold: config.circuitBreakerThreshold,
+    resetTimeoutMs: config.circuitBreakerResetMs,
+    isFailure: error => axios.isAxiosError(error) && (!error.response || error.response.status >= 500)
+});
 
 /**
  * Provider implementation for Kassal.app API
  */
 export class KassalProvider implements BaseProvider {
     public readonly name = 'Kassal API';
+    public readonly supportsStorePricing = true;
     private api: AxiosInstance;
     private readonly BASE_URL = 'https://kassal.app/api/v1';
 
@@ -31,6 +67,22 @@ export class KassalProvider implements BaseProvider {
             timeout: 10000,
         });
 
+        kassalCassette.attachToAxios(this.api);
+
+        // Feed Kassal's rate-limit headers (X-RateLimit-Remaining, Retry-After) back into the shared limiter
+        this.api.interceptors.response.use(
+            response => {
+                kassalLimiter.updateFromHeaders(response.headers as Record<string, unknown>);
+                return response;
+            },
+            error => {
+                if (axios.isAxiosError(error) && error.response) {
+                    kassalLimiter.updateFromHeaders(error.response.headers as Record<string, unknown>);
+                }
+                return Promise.reject(error);
+            }
+        );
+
         if (config.nodeEnv === 'development') {
             this.api.interceptors.request.use(req => {
                 console.log(`[Kassal Provider] ${req.method?.toUpperCase()} ${req.url}`);
@@ -39,38 +91,22 @@ export class KassalProvider implements BaseProvider {
         }
     }
 
-    private activeRequests = 0;
-    private readonly MAX_CONCURRENT = 5;
-
-    private async withRetry<T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> {
-        const timeoutMs = 8000; // 8s per individual API attempt
+    /**
+     * Sends one request through the shared breaker and limiter.
+     * Fails fast while the circuit is open; a 429 is retried once after the limiter has waited out Retry-After.
+     */
+    private async request<T>(call: () => Promise<T>): Promise<T> {
+        kassalBreaker.assertCallable();
 
-        let retries = maxRetries;
-
-        while (true) {
-            // Simple Concurrency Throttling
-            while (this.activeRequests >= this.MAX_CONCURRENT) {
-                console.log(`[Kassal Provider] Throttling active requests (${this.activeRequests}/${this.MAX_CONCURRENT}), waiting...`);
-                await new Promise(res => setTimeout(res, 500 + Math.random() * 500));
-            }
-
-            this.activeRequests++;
+        for (let attempt = 0; ; attempt++) {
+            // Replayed responses cost no upstream quota
+            if (!kassalCassette.isReplaying) await kassalLimiter.take();
             try {
-                const result = await fn();
-                this.activeRequests--; // Release slot after success
-                return result;
-            } catch (error: any) {
-                this.activeRequests--; // Release slot before retry/sleep
+                return await kassalBreaker.execute(call);
+            } catch (error) {
                 const isRateLimit = axios.isAxiosError(error) && error.response?.status === 429;
-
-                if (retries > 0) {
-                    const delayMs = isRateLimit
-                        ? (maxRetries - retries + 1) * 2000 + Math.random() * 1000 // Heavy backoff for 429
-                        : (maxRetries - retries + 1) * 500 + Math.random() * 200;  // Standard backoff
-
-                    console.warn(`[Kassal Provider] Request failed (${isRateLimit ? '429 Rate Limit' : 'Error'}), retrying in ${Math.round(delayMs)}ms... (${retries} left)`);
-                    await new Promise(res => setTimeout(res, delayMs));
-                    retries--;
+                if (isRateLimit && attempt === 0) {
+                    console.warn('[Kassal Provider] Rate limited (429). Retrying once the limiter allows it...');
                     continue;
                 }
                 throw error;
@@ -78,6 +114,31 @@ export class KassalProvider implements BaseProvider {
         }
     }
 
+    /**
+     * Runs a cached lookup and keeps a long-lived copy of the result.
+     * When Kassal is unreachable (circuit open, 5xx, 429) the last known good copy is served instead.
+     */
+    private async withStaleFallback<T>(cacheKey: string, fn: () => Promise<T>): Promise<T> {
+        const staleKey = `stale:${cacheKey}`;
+        try {
+            const result = await fn();
+            cache.set(staleKey, result, config.staleCacheTTL);
+            return result;
+        } catch (error) {
+            const isUpstreamDown = error instanceof ApiError && (error.statusCode >= 500 || error.statusCode === 429);
+            const stale = isUpstreamDown ? cache.get<T>(staleKey) : undefined;
+            if (stale !== undefined) {
+                console.warn(`[Kassal Provider] Serving stale data for ${cacheKey}: ${(error as Error).message}`);
+                return stale;
+            }
+            throw error;
+        }
+    }
+
+    public getCircuitStatus(): ProviderCircuitStatus {
+        return { ...kassalBreaker.getStatus(), limiter: kassalLimiter.getStatus() };
+    }
+
     private getMappedQuery(query: string): string {
         let cleanedQuery = query.toLowerCase().trim();
 
@@ -93,61 +154,14 @@ export class KassalProvider implements BaseProvider {
             }
         }
 
-        const QUERY_MAPPINGS: Record<string, string> = {
-            // Fruits
-            'apple': 'epler', 'apples': 'epler', 'eple': 'epler',
-            'banana': 'bananer', 'bananas': 'bananer', 'banan': 'bananer',
-            'pear': 'pærer', 'pears': 'pærer', 'pære': 'pærer',
-            'orange': 'appelsiner', 'oranges': 'appelsiner', 'appelsin': 'appelsiner',
-            'grapes': 'druer', 'drue': 'druer',
-            'lemon': 'sitron', 'lemons': 'sitroner',
-            'lime': 'lime', 'limes': 'lime',
-
-            // Vegetables
-            'carrot': 'gulrøtter', 'carrots': 'gulrøtter', 'gulrot': 'gulrøtter',
-            'potato': 'poteter', 'potatoes': 'poteter', 'potet': 'poteter',
-            'tomato': 'tomater', 'tomatoes': 'tomater', 'tomat': 'tomater',
-            'cucumber': 'agurk', 'cucumbers': 'agurk',
-            'broccoli': 'brokkoli',
-            'onion': 'løk', 'onions': 'løk',
-            'garlic': 'hvitløk',
-            'paprika': 'paprika', 'peppers': 'paprika',
-
-            // Bakery / Staples
-            'bread': 'brød',
-            'pasta': 'pasta',
-            'rice': 'ris',
-            'milk': 'melk',
-            'cheese': 'hvitost',
-            'butter': 'smør',
-            'eggs': 'egg', 'egg': 'egg',
-            'kneipp': 'kneippbrød',
-
-            // Meat / Fish
-            'chicken': 'kylling',
-            'minced meat': 'kjøttdeig', 'ground meat': 'kjøttdeig',
-            'minced beef': 'karbonadedeig',
-            'salmon': 'laks',
-            'sausages': 'pølser', 'sausage': 'pølser', 'pølse': 'pølser',
-            'bacon': 'bacon',
-
-            // Misc
-            'coffee': 'kaffe',
-            'pizza': 'pizza',
-            'taco': 'taco',
-            'soda': 'brus',
-            'orange juice': 'appelsinjuice',
-            'sugar': 'sukker'
-        };
-
-        const result = QUERY_MAPPINGS[cleanedQuery] || cleanedQuery;
+        const term = taxonomyService.lookup(cleanedQuery);
 
         // If we stripped a prefix, return the original query IF no mapping was found
-        if (cleanedQuery !== query.toLowerCase().trim() && !QUERY_MAPPINGS[cleanedQuery]) {
+        if (cleanedQuery !== query.toLowerCase().trim() && !term) {
             return query;
         }
 
-        return result;
+        return term ? term.no : cleanedQuery;
     }
 
     public async searchProducts(query: string, options?: ProviderSearchOptions): Promise<Product[]> {
@@ -156,10 +170,11 @@ export class KassalProvider implements BaseProvider {
         const cached = config.nodeEnv === 'production' ? cache.get<Product[]>(cacheKey) : null;
         if (cached) return cached;
 
-        return this.withRetry(async () => {
+        // Identical concurrent searches share one Kassal call and one Gemini re-rank
+        return cache.singleFlight(buildRequestKey('kassal:search', mappedQuery, options), () => this.withStaleFallback(cacheKey, async () => {
             try {
                 // Use mappedQuery for the API call to ensure we get Norwegian results
-                const response = await this.api.get('/products', {
+                const response = await this.request(() => this.api.get('/products', {
                     params: {
                         size: 100,
                         search: mappedQuery,
@@ -168,7 +183,7 @@ export class KassalProvider implements BaseProvider {
                         km: options?.radius,
                         store_id: options?.storeId
                     }
-                });
+                }));
 
                 const rawProducts: KassalProduct[] = response.data.data || [];
                 const normalized = rawProducts
@@ -184,7 +199,7 @@ export class KassalProvider implements BaseProvider {
                 const isStapleSearch = stapleKeywords.includes(mappedQuery.toLowerCase());
                 const hasPreferences = options?.lockedStore || options?.lockedProduct;
 
-                if (processed.length > 0 && (isStapleSearch || hasPreferences)) {
+                if (processed.length > 0 && !options?.skipAiRerank && (isStapleSearch || hasPreferences)) {
                     const topCandidates = processed.slice(0, 15); // Send top 15 results to Gemini for re-verification
                     const reRanked = await aiService.rankProductRelevance(mappedQuery, topCandidates, {
                         lockedStore: options?.lockedStore,
@@ -204,7 +219,7 @@ export class KassalProvider implements BaseProvider {
             } catch (error) {
                 return this.handleError(error, 'Searching products');
             }
-        });
+        }));
     }
 
     public async getStoresNearby(location: Location, radiusKm = 5): Promise<Store[]> {
@@ -212,16 +227,16 @@ export class KassalProvider implements BaseProvider {
         const cached = config.nodeEnv === 'production' ? cache.get<Store[]>(cacheKey) : null;
         if (cached) return cached;
 
-        return this.withRetry(async () => {
+        return this.withStaleFallback(cacheKey, async () => {
             try {
-                const response = await this.api.get('/physical-stores', {
+                const response = await this.request(() => this.api.get('/physical-stores', {
                     params: {
                         lat: location.lat,
                         lng: location.lng,
                         km: radiusKm,
                         size: 100
                     }
-                });
+                }));
 
                 const rawStores: any[] = response.data.data || [];
                 const mappedStores: Store[] = rawStores.map((s: any) => ({
@@ -251,9 +266,9 @@ export class KassalProvider implements BaseProvider {
         const cached = cache.get<Product>(cacheKey);
         if (cached) return cached;
 
-        return this.withRetry(async () => {
+        return this.withStaleFallback(cacheKey, async () => {
             try {
-                const response = await this.api.get(`/products/${id}`);
+                const response = await this.request(() => this.api.get(`/products/${id}`));
                 const normalized = this.normalizeProduct(response.data.data);
                 cache.set(cacheKey, normalized, 3600);
                 return normalized;
@@ -263,10 +278,35 @@ export class KassalProvider implements BaseProvider {
         });
     }
 
+    public async getProductsByEan(ean: string): Promise<Product[]> {
+        const cacheKey = `kassal:ean:${ean}`;
+        const cached = cache.get<Product[]>(cacheKey);
+        if (cached) return cached;
+
+        return this.withStaleFallback(cacheKey, async () => {
+            try {
+                // The EAN endpoint returns one product entry per chain that stocks the barcode
+                const response = await this.request(() => this.api.get(`/products/ean/${ean}`));
+                const rawProducts: KassalProduct[] = response.data.data?.products || [];
+                const normalized = rawProducts
+                    .map(p => this.normalizeProduct({ ...p, ean: p.ean || ean }))
+                    .filter(p => p.price > 0);
+
+                cache.set(cacheKey, normalized, 3600);
+                return normalized;
+            } catch (error) {
+                if (axios.isAxiosError(error) && error.response?.status === 404) {
+                    return [];
+                }
+                return this.handleError(error, `Looking up EAN ${ean}`);
+            }
+        });
+    }
+
     public async isAvailable(): Promise<boolean> {
         try {
-            if (!config.kassalApiKey) return false;
-            await this.api.get('/products', { params: { search: 'ping', size: 1 } });
+            if ((!config.kassalApiKey && !kassalCassette.isReplaying) || kassalBreaker.getState() === 'open') return false;
+            await this.request(() => this.api.get('/products', { params: { search: 'ping', size: 1 } }));
             return true;
         } catch (error) {
             return false;
@@ -283,15 +323,21 @@ export class KassalProvider implements BaseProvider {
 
         const name = p.name || 'Unknown Product';
         const capitalizedName = name.charAt(0).toUpperCase() + name.slice(1);
+        const deposit = getDeposit(name, containerFromWeight(p.weight, p.weight_unit));
+        const attributes = parseProductAttributes(name, { weight: p.weight, unit: p.weight_unit });
 
         return {
             id: p.id,
             name: capitalizedName,
+            ean: p.ean,
             price: price,
             store: p.store?.name || 'Unknown Store',
             chain: this.normalizeStoreName(p.store?.group || p.store?.code || p.store?.name || 'Unknown Chain'),
             image_url: p.image || '',
             unit: p.nutrition?.[0]?.unit || 'stk',
+            ...(deposit > 0 && { deposit }),
+            attributes,
+            ...getUnitPrice(price, attributes, deposit),
             address: p.store?.address,
             priceHistory: p.price_history,
             ingredients: (p as any).ingredients,
@@ -303,19 +349,23 @@ export class KassalProvider implements BaseProvider {
     }
 
 
+    /**
+     * Runs the search ranking on products that are already fetched, without calling Kassal.
+     * `categories` holds each product's Kassal category name, in the same order.
+     * Used by the matching evaluation harness.
+     */
+    public rankProducts(products: Product[], query: string, options: ProviderSearchOptions = {}, categories: string[] = []): Product[] {
+        const rawProducts = products.map((_, i) => ({ category: { name: categories[i] || '' } }));
+        return this.applyRelevanceScoring(products, this.getMappedQuery(query), options, rawProducts);
+    }
+
     private applyRelevanceScoring(products: Product[], query: string, options: any, rawProducts: any[]): Product[] {
         const lowerQuery = query.toLowerCase().trim();
-        const wordRegex = new RegExp(`\\b${lowerQuery}(\\b|\\d|\\s)`, 'i');
+        const escapedQuery = lowerQuery.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const wordRegex = new RegExp(`\\b${escapedQuery}(\\b|\\d|\\s)`, 'i');
+        const prefixRegex = new RegExp(`^${escapedQuery}(\\b|\\d|\\s)`, 'i');
         const suggestedCategory = options?.suggestedCategory?.toLowerCase();
-
-        // --- KEYWORD DEFINITIONS ---
-        // Hoisted to avoid reference errors and ensure consistency
-        const stapleKeywords = ['melk', 'egg', 'smør', 'butter', 'milk', 'brød', 'ost', 'hvitost', 'kaffe', 'ris', 'pasta', 'kjøttdeig', 'kylling', 'laks', 'pølser', 'pizza', 'taco', 'bacon', 'sukker', 'sugar'];
-        const dessertKeywords = ['sjok', 'choco', 'muffins', 'is', 'kake', 'dessert', 'godteri', 'vanilje', 'jordbær', 'kaffe', 'litago', 'confecta', 'juice', 'nektar', 'saft', 'brus', 'farris', 'frus', 'friskis', 'kjeks', 'yoghurt', 'skyr', 'kesam', 'pudding', 'crumble', 'pai', 'pie', 'kompott', 'syltetøy', 'kanel', 'mad fish', 'snacks', 'chips', 'dip', 'gele', 'jelly', 'smudi', 'smoothie', 'pålegg', 'eyes', 'faces', 'perler', 'pynt', 'dekor', 'dekorasjon', 'strøssel', 'glimmer', 'glaze'];
-        const produceKeywords = ['brokkoli', 'gulrot', 'potet', 'blomkål', 'broccoli', 'carrot', 'potato', 'cauliflower', 'banan', 'eple', 'banana', 'apple', 'pære', 'druer', 'appelsin', 'agurk', 'tomat', 'løk', 'bananer', 'epler', 'pærer', 'appelsiner', 'gulrøtter', 'poteter', 'tomater', 'hvitløk', 'paprika', 'sitron', 'lime'];
-        const processedKeywords = ['suppe', 'rett i koppen', 'gryte', 'pose', 'mix', 'toro', 'pulver', 'marinert', 'krydret', 'soltørket', 'lår', 'vinger', 'vinge', 'vingeklubb', 'burger', 'pølse', 'salat', 'slider', 'ferdigrett', 'grateng', 'saus', 'buljong', 'fyll', 'bunn', 'majones', 'reker', 'pepper', 'ringe', 'beger'];
-        const babyFoodKeywords = ['ellas', 'semper', 'hipp', 'nestle', 'småfolk', 'grøt', 'mos', 'barnemat', 'klemmepose', 'smoothie', 'bubs', 'skids'];
-        const nonFoodKeywords = ['shampoo', 'balsam', 'maske', 'såpe', 'krem', 'lotion', 'serviett', 'bleie', 'vask', 'rengjøring'];
+        const excluded = new Set<Product>();
 
         products.forEach((p, idx) => {
             const raw = rawProducts[idx];
@@ -323,48 +373,14 @@ export class KassalProvider implements BaseProvider {
             const category = (raw.category?.name || '').toLowerCase();
             let score = 0;
 
-            // --- BOOLEAN FLAGS ---
-            const isStapleSearch = stapleKeywords.includes(lowerQuery) ||
-                (suggestedCategory === 'meieri' || suggestedCategory === 'egg');
-            const isProduceSearch = produceKeywords.includes(lowerQuery) || (suggestedCategory === 'frukt & grønt');
-            const isChickenSearch = lowerQuery === 'kylling' || lowerQuery === 'chicken' || lowerQuery === 'kyllingfilet';
-            const isPizzaSearch = lowerQuery === 'pizza';
-
-            const hasFlavorAdditives = dessertKeywords.some(word => word !== lowerQuery && name.includes(word));
-            const isProcessedFood = processedKeywords.some(word => name.includes(word));
-            const isBabyFood = babyFoodKeywords.some(w => name.includes(w));
-            const isNonFood = nonFoodKeywords.some(w => name.includes(w));
-
-            // 3. Category & Quality Penalties
-            // Strictly penalize juice/smoothie for produce searches (The "Raw Fruit" rule)
-            if (isProduceSearch && (name.includes('juice') || name.includes('nektar') || name.includes('saft') || name.includes('smoothie') || name.includes('smudi') || name.includes('puré'))) {
-                score += 15000;
-            }
-
-            if (hasFlavorAdditives && (isStapleSearch || isProduceSearch || isChickenSearch)) {
-                score += 4000;
-            }
-            if (isProcessedFood && (isStapleSearch || isProduceSearch)) {
-                score += 3000;
-            }
-            if (isBabyFood && !lowerQuery.includes('grøt') && !lowerQuery.includes('baby')) {
-                score += 5000;
-            }
-            if (isNonFood && !lowerQuery.includes('såpe') && !lowerQuery.includes('rengjøring')) {
-                score += 8000;
-            }
-
             // 1. Basic Exact/Prefix Matching
             if (name === lowerQuery) score -= 5000;
 
             // Refined Prefix: Only reward if it's a standalone word at the start
-            const prefixRegex = new RegExp(`^${lowerQuery}(\\b|\\d|\\s)`, 'i');
             if (prefixRegex.test(name)) {
                 score -= 4000;
             }
 
-            // 2. Head Noun Priority (The "Melk" vs "Havregrøt m/melk" fix)
-            // If the query is found at the start, it's likely the primary product
             // 2. Head Noun Priority (The "Melk" vs "Havregrøt m/melk" fix)
             // If the query is found at the start exactly or as a word, it's likely the primary product
             if (name === lowerQuery) {
@@ -392,65 +408,12 @@ export class KassalProvider implements BaseProvider {
                 score += 8000; // Heavy penalty to push "Oatmeal WITH milk" down
             }
 
-            // 4a. Baby Food & Non-Food Penalty
-            if ((isBabyFood || isNonFood) && !babyFoodKeywords.includes(lowerQuery) && !nonFoodKeywords.includes(lowerQuery)) {
-                score += 15000;
-            }
-
-            // 4b. Produce Plural/Compound Bonus
-            // CRITICAL: Only apply if NOT juice/nectar
-            if (isProduceSearch && name.includes(lowerQuery) && !hasFlavorAdditives) {
-                score -= 1500; // Bonus for containing the fruit name even as part of a word
-
-                // Extra bonus if it starts with the fruit name (e.g. "Bananklase")
-                if (name.startsWith(lowerQuery)) {
-                    score -= 2000;
-                }
-            } else if (isProduceSearch && hasFlavorAdditives) {
-                // If it's a produce search and it's juice, hit it even harder
-                score += 25000;
-            }
-
-            // 5. Compound Word, Flavor & Category Penalty
-            if (isStapleSearch && hasFlavorAdditives) {
-                score += 15000; // Massive penalty for chocolate/coffee milk or egg-juice when pure products are wanted
-            }
-
-            // Check produce search too for flavor additives (e.g. "Banana Split", "Apple Cake")
-            if (isProduceSearch && hasFlavorAdditives) {
-                score += 15000;
-            }
-
-            if ((isStapleSearch || isProduceSearch || isChickenSearch || isPizzaSearch) && isProcessedFood) {
-                score += 12000; // Penalize soups/mixes or seasoned chicken parts when fresh items are wanted
-            }
-
-            // Naturell Bonus for meat/poultry
-            if (isChickenSearch && (name.includes('naturell') || name.includes('filet'))) {
-                score -= 3000;
-            }
-
-            // 6. Category Matching (AI hint)
+            // 4. Category Matching (AI hint)
             if (suggestedCategory && (category.includes(suggestedCategory))) {
                 score -= 4000;
             }
 
-            // 7. Strict Word Filtering (The "Coconut Oil vs Milk" Fix)
-            const antiMatches = ['olje', 'kokos', 'oil', 'coconut', 'smør', 'butter'];
-            const unintendedMatch = antiMatches.some(word =>
-                name.includes(word) && !lowerQuery.includes(word)
-            );
-
-            // Special handling for cheese vs liver paste ("postei" contains "ost")
-            if (lowerQuery === 'ost' && (name.includes('postei') || name.includes('leverpostei'))) {
-                score += 20000; // Nuclear penalty
-            }
-
-            if (unintendedMatch && (lowerQuery === 'melk' || suggestedCategory === 'melk' || suggestedCategory === 'meieri')) {
-                score += 20000; // Increased from 10000 to be sure it's above 15000 threshold
-            }
-
-            // 7b. Mandatory Keyword Match (Ensure we don't return random items just because API did)
+            // 5. Mandatory Keyword Match (Ensure we don't return random items just because API did)
             // If the name doesn't contain the standalone word query, hit it hard.
             // Using a stricter word boundary match to avoid "Parmareggio" matching "egg"
             if (!isStrictWordMatch(p.name, query)) {
@@ -459,88 +422,19 @@ export class KassalProvider implements BaseProvider {
                 score -= 500; // Bonus for actually containing the word
             }
 
-            // 8. Specific penalties for highly deceptive items
-            if (name.includes('farris') || name.includes('frus') || name.includes('friskis')) {
-                score += 30000;
-            }
-            if (name.includes('smudi') || name.includes('smoothie')) {
-                score += 30000;
-            }
-
-            // Special fix for "Brødrene" / "Brødr" matching "brød"
-            if (lowerQuery === 'brød' && (name.includes('brødrene') || name.includes('brødr'))) {
-                score += 5000;
-            }
-
-            // User Request: Ban specific deceptive chicken items (Den Stolte Hane, Soltørket Tomat)
-            // User says "this isnt chicken" for generic search context.
-            if (isChickenSearch && (name.includes('soltørket') || name.includes('hane'))) {
-                score += 50000; // Total ban threshold for practical purposes
-            }
-
-            // User Request: Ban baby food from matching generic "laks" (salmon)
-            const isSalmonSearch = lowerQuery === 'laks' || lowerQuery.includes('laks');
-            if (isSalmonSearch && (name.includes('naturnes') || name.includes('nestle') || name.includes('8md') || name.includes('12md'))) {
-                score += 30000; // High penalty to demote below real fish
-            }
-
-            // 8. Beverage vs Dairy Priority
-            if (isStapleSearch && category.includes('drikke') && !name.includes('melk')) {
-                score += 5000; // Push soft drinks/coffees down even if they match partially
-            }
-
-            // --- SPECIFIC STAPLE REFINEMENTS (User Feedback) ---
-
-            // 1. Sugar Correction
-            const isSugarSearch = lowerQuery === 'sukker' || lowerQuery === 'sugar';
-            if (isSugarSearch) {
-                const deceptiveSugar = [
-                    'sukkerfri', 'sugarfree', 'no sugar', 'uten sukker', 'u/sukker', 'null sukker',
-                    'sukkererter', 'sukkerkulør', 'melis', 'brunt', 'bruntsukker',
-                    'dekor', 'eyes', 'perler', 'pasta', 'brød', 'hjerter', 'pynt'
-                ];
-                if (deceptiveSugar.some(word => name.includes(word))) {
-                    score += 30000;
-                }
-                if (name.includes('sukker') || name.includes('sugar') || name.includes('dansukker')) {
-                    score -= 5000; // Broad boost for anything actually containing sugar/brand
-                }
-                if (name === 'sukker' || name.startsWith('sukker 1kg') || name.startsWith('hvitt sukker') || name.startsWith('strøsukker')) {
-                    score -= 15000; // Massive boost for pure items
-                }
-            }
-
-            // 2. Banana Correction
-            const isBananaSearch = lowerQuery === 'banan' || lowerQuery === 'banana' || lowerQuery === 'bananer';
-            if (isBananaSearch) {
-                const bananaByproducts = ['juice', 'nektar', 'drikk', 'smoothie', 'yoghurt', 'skum', 'godt', 'chips', 'kake'];
-                if (bananaByproducts.some(word => name.includes(word))) {
-                    score += 30000;
-                }
-                if (name.includes('klase') || name.includes('bama') || name.includes('vekt') || name.includes('first price')) {
-                    score -= 3000;
-                }
-            }
-
-            // 3. Potato Correction
-            const isPotatoSearch = lowerQuery === 'potet' || lowerQuery === 'potato' || lowerQuery === 'poteter';
-            if (isPotatoSearch) {
-                const potatoByproducts = ['med potet', 'fløte', 'gratinerte', 'mos ', 'stappe', 'chips', 'gull', 'frites', 'salat', 'blanding', 'suppe', 'gryte'];
-                if (potatoByproducts.some(word => name.includes(word))) {
-                    score += 30000;
-                }
-                if (name.includes('kg') || name.includes('pose') || name.includes('nett') || name.includes('løsvekt') || name.includes('norsk') || name.includes('vasket')) {
-                    score -= 3000;
-                }
-            }
-
             if (wordRegex.test(name)) score -= 1000;
 
+            // 6. Relevance rules (flavored staples, byproducts, baby food, non-food) from the rules file.
+            // Rule scores are "higher is better"; this scale is "lower is better" and ten times coarser.
+            const evaluation = relevanceRuleService.evaluate(p.name, query, { productCategory: category, chain: p.chain });
+            if (evaluation.excluded) excluded.add(p);
+            score -= evaluation.score * RULE_SCORE_SCALE;
+
             p.relevanceScore = score + (name.length * 5);
         });
 
         return products
-            .filter(p => (p.relevanceScore || 0) <= 15000) // Looser threshold (up from 5000) to ensure availability
+            .filter(p => !excluded.has(p) && (p.relevanceScore || 0) <= 15000) // Looser threshold (up from 5000) to ensure availability
             .sort((a, b) => (a.relevanceScore || 0) - (b.relevanceScore || 0));
     }
 
@@ -554,6 +448,8 @@ export class KassalProvider implements BaseProvider {
     }
 
     private handleError(error: any, context: string): never {
+        // Breaker and limiter rejections are already ApiErrors
+        if (error instanceof ApiError) throw error;
         if (axios.isAxiosError(error)) {
             const status = error.response?.status || 502;
             const message = error.response?.data?.message || error.message;
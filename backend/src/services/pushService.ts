@@ -0,0 +1,64 @@
+import webpush from 'web-push';
+import config from '../config/index.js';
+
+/**
+ * A browser push subscription as returned by `PushManager.subscribe()` (serialized with toJSON()).
+ */
+export interface PushSubscriptionRecord {
+    endpoint: string;
+    keys: {
+        p256dh: string;
+        auth: string;
+    };
+}
+
+export interface PushPayload {
+    title: string;
+    body: string;
+    /** Path the app opens when the notification is clicked */
+    url?: string;
+    tag?: string;
+}
+
+/**
+ * 'gone' means the browser revoked the subscription (404/410) and it should be dropped.
+ */
+export type PushResult = 'sent' | 'gone' | 'failed';
+
+/**
+ * Service to deliver Web Push notifications. Disabled unless a VAPID key pair is configured.
+ */
+class PushService {
+    private readonly enabled: boolean;
+
+    constructor() {
+        this.enabled = Boolean(config.vapidPublicKey && config.vapidPrivateKey);
+        if (this.enabled) {
+            webpush.setVapidDetails(config.vapidSubject, config.vapidPublicKey, config.vapidPrivateKey);
+        }
+    }
+
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    public getPublicKey(): string | null {
+        return this.enabled ? config.vapidPublicKey : null;
+    }
+
+    public async send(subscription: PushSubscriptionRecord, payload: PushPayload): Promise<PushResult> {
+        if (!this.enabled) return 'failed';
+        try {
+            await webpush.sendNotification(subscription, JSON.stringify(payload), { TTL: 24 * 60 * 60 });
+            return 'sent';
+        } catch (error) {
+            const statusCode = (error as { statusCode?: number }).statusCode;
+            if (statusCode === 404 || statusCode === 410) return 'gone';
+            console.error('[PushService] Failed to send notification:', (error as Error).message);
+            return 'failed';
+        }
+    }
+}
+
+export const pushService = new PushService();
+export default pushService;
@@ -0,0 +1,287 @@
+import fs from 'fs';
+import config from '../config/index.js';
+import { normalizeCatalogKey } from './catalogService.js';
+import taxonomyService, { TAXONOMY_CATEGORIES, TaxonomyCategory } from './taxonomyService.js';
+import { containsKeyword } from '../utils/keywords.js';
+import matchCorrectionService, { DEMOTION_SCORE } from './matchCorrectionService.js';
+
+/**
+ * One ranking rule as written in the rules file. A rule fires for a product when the query
+ * matches its conditions and the product matches every one of `contains`, `pattern` and `productCategories` it sets.
+ * Keyword arrays may reference a shared list with "@name".
+ */
+export interface RelevanceRule {
+    /** Stable ID shown in traces ("milk-not-oil") */
+    id: string;
+    description?: string;
+    /** Queries the rule applies to, in any language ("milk" and "melk" are the same query) */
+    queries?: string[];
+    /** Query categories the rule applies to; with `queries` either one is enough. Neither means every query */
+    categories?: TaxonomyCategory[];
+    /** Queries containing any of these skip the rule */
+    exceptQueries?: string[];
+    exceptCategories?: TaxonomyCategory[];
+    /** Product name contains any of these keywords */
+    contains?: string[];
+    /** Product name matches this regular expression; {query} stands for the Norwegian query */
+    pattern?: string;
+    /** Provider category of the product ("Drikke") contains any of these */
+    productCategories?: string[];
+    /** The rule doesn't fire when the product name contains any of these */
+    unless?: string[];
+    /** Added to the relevance score: positive boosts, negative demotes */
+    score?: number;
+    /** Drop the product from the results altogether */
+    exclude?: boolean;
+}
+
+interface RelevanceRulesFile {
+    version: number;
+    lists?: Record<string, string[]>;
+    rules: RelevanceRule[];
+}
+
+/**
+ * A rule that fired for a product, with what it did.
+ */
+export interface FiredRule {
+    id: string;
+    score: number;
+    exclude: boolean;
+    /** The keyword, pattern or category that matched */
+    matched: string;
+}
+
+export interface RuleEvaluation {
+    /** Sum of the fired rules' scores (higher is more relevant) */
+    score: number;
+    excluded: boolean;
+    fired: FiredRule[];
+}
+
+export interface RuleContext {
+    /** Category the provider filed the product under ("Meieri", "Drikke") */
+    productCategory?: string;
+    /** Chain whose shelf the product is on; chain-specific corrections only apply there */
+    chain?: string;
+}
+
+/**
+ * Thrown when the rules file is missing or invalid.
+ */
+export class RelevanceRuleError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`Invalid relevance rules: ${errors.join('; ')}`);
+        this.name = 'RelevanceRuleError';
+    }
+}
+
+interface CompiledRule {
+    rule: RelevanceRule;
+    queries: Set<string>;
+    exceptQueries: string[];
+    contains: string[];
+    unless: string[];
+    productCategories: string[];
+}
+
+/** A rule narrowed down to one query: keywords found in the query itself are dropped */
+interface ApplicableRule extends CompiledRule {
+    pattern?: RegExp;
+}
+
+// Queries seen since the last reload keep their applicable rules; the cache is dropped past this size
+const MAX_CACHED_QUERIES = 1000;
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(v => typeof v === 'string' && v.trim() !== '');
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const KEYWORD_FIELDS = ['queries', 'exceptQueries', 'contains', 'unless', 'productCategories'] as const;
+
+const validate = (data: unknown): RelevanceRulesFile => {
+    const file = data as RelevanceRulesFile | null;
+    if (!Array.isArray(file?.rules)) throw new RelevanceRuleError(['expected an object with a "rules" array']);
+
+    const errors: string[] = [];
+    const lists = file.lists ?? {};
+    for (const [name, list] of Object.entries(lists)) {
+        if (!isStringArray(list)) errors.push(`list ${name}: must be an array of strings`);
+    }
+
+    const ids = new Set<string>();
+    file.rules.forEach((rule, i) => {
+        const at = `rule ${i + 1}${typeof rule?.id === 'string' ? ` (${rule.id})` : ''}`;
+        if (typeof rule?.id !== 'string' || !/^[a-z0-9-]+$/.test(rule.id)) errors.push(`${at}: id must be lowercase letters, digits and dashes`);
+        else if (ids.has(rule.id)) errors.push(`${at}: duplicate id`);
+        else ids.add(rule.id);
+
+        for (const field of KEYWORD_FIELDS) {
+            const value = rule?.[field];
+            if (value === undefined) continue;
+            if (!isStringArray(value)) {
+                errors.push(`${at}: ${field} must be an array of strings`);
+                continue;
+            }
+            for (const ref of value.filter(v => v.startsWith('@'))) {
+                if (!isStringArray(lists[ref.slice(1)])) errors.push(`${at}: ${field} references unknown list ${ref}`);
+            }
+        }
+        for (const field of ['categories', 'exceptCategories'] as const) {
+            const value = rule?.[field];
+            if (value !== undefined && (!Array.isArray(value) || !value.every(c => TAXONOMY_CATEGORIES.includes(c)))) {
+                errors.push(`${at}: ${field} must only contain ${TAXONOMY_CATEGORIES.join(', ')}`);
+            }
+        }
+        if (rule?.pattern !== undefined) {
+            try {
+                new RegExp(String(rule.pattern).replace(/\{query\}/g, 'x'));
+            } catch (error) {
+                errors.push(`${at}: pattern is not a valid regular expression (${(error as Error).message})`);
+            }
+        }
+        if (!rule?.contains && rule?.pattern === undefined && !rule?.productCategories) {
+            errors.push(`${at}: needs contains, pattern or productCategories`);
+        }
+        if (rule?.exclude !== true && (typeof rule?.score !== 'number' || !Number.isFinite(rule.score))) {
+            errors.push(`${at}: needs a numeric score or exclude: true`);
+        }
+    });
+
+    if (errors.length > 0) throw new RelevanceRuleError(errors);
+    return { version: Number(file.version) || 1, lists, rules: file.rules };
+};
+
+/**
+ * Data-driven boosts, demotions and exclusions for search ranking, read from the rules file.
+ * Both the Kassal provider and `calculateRelevanceScore` evaluate these rules, so fixing a mismatch
+ * ("chocolate milk for milk") is an edit to the file followed by `POST /api/admin/relevance/reload`.
+ */
+export class RelevanceRuleService {
+    private rules: CompiledRule[] = [];
+    private version = 1;
+    private byQuery = new Map<string, ApplicableRule[]>();
+
+    constructor(private readonly filePath: string = config.relevanceRulesFile) {
+        this.load();
+    }
+
+    /**
+     * Reads, validates and compiles the rules file. The current rules stay active when it fails.
+     * @throws RelevanceRuleError when the file is missing or invalid.
+     */
+    public load(): { version: number; count: number } {
+        let data: unknown;
+        try {
+            data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        } catch (error) {
+            throw new RelevanceRuleError([`could not read ${this.filePath}: ${(error as Error).message}`]);
+        }
+        const file = validate(data);
+
+        const expand = (values: string[] = []): string[] => values
+            .flatMap(value => value.startsWith('@') ? file.lists![value.slice(1)] : [value])
+            .map(value => value.toLowerCase());
+
+        this.rules = file.rules.map(rule => ({
+            rule,
+            queries: new Set(expand(rule.queries).map(q => taxonomyService.translate(q))),
+            exceptQueries: expand(rule.exceptQueries),
+            contains: expand(rule.contains),
+            unless: expand(rule.unless),
+            productCategories: expand(rule.productCategories)
+        }));
+        this.version = file.version;
+        this.byQuery.clear();
+        console.log(`[RelevanceRules] Loaded ${this.rules.length} rules (version ${this.version}).`);
+        return { version: this.version, count: this.rules.length };
+    }
+
+    public getVersion(): number {
+        return this.version;
+    }
+
+    public getRules(): RelevanceRule[] {
+        return this.rules.map(compiled => compiled.rule);
+    }
+
+    /**
+     * Runs every rule that applies to the query against a product name.
+     * Keywords that appear in the query itself are ignored, so searching "sjokolademelk"
+     * doesn't trip the "sjok" exclusion meant for "melk". Corrections learned from mismatch
+     * reports fire as `correction:<id>`.
+     */
+    public evaluate(productName: string, query: string, context: RuleContext = {}): RuleEvaluation {
+        const name = productName.toLowerCase();
+        const productCategory = context.productCategory?.toLowerCase() || '';
+        const result: RuleEvaluation = { score: 0, excluded: false, fired: [] };
+
+        for (const compiled of this.getApplicableRules(query)) {
+            const { rule } = compiled;
+            // Every condition the rule sets has to match
+            const keyword = compiled.contains.length > 0
+                ? compiled.contains.find(kw => containsKeyword(name, kw))
+                : '';
+            if (keyword === undefined) continue;
+            const patternMatch = compiled.pattern ? compiled.pattern.exec(name)?.[0] : '';
+            if (patternMatch === undefined) continue;
+            const categoryMatch = compiled.productCategories.length > 0
+                ? compiled.productCategories.find(category => productCategory.includes(category))
+                : '';
+            if (categoryMatch === undefined) continue;
+            if (compiled.unless.some(kw => containsKeyword(name, kw))) continue;
+
+            const matched = (keyword || patternMatch || categoryMatch).trim();
+            const fired: FiredRule = { id: rule.id, score: rule.score ?? 0, exclude: rule.exclude === true, matched };
+            result.fired.push(fired);
+            result.score += fired.score;
+            if (fired.exclude) result.excluded = true;
+        }
+
+        const correction = matchCorrectionService.find(query, productName, context.chain);
+        if (correction) {
+            const blocked = correction.status === 'blocked';
+            result.fired.push({ id: `correction:${correction.id}`, score: blocked ? 0 : DEMOTION_SCORE, exclude: blocked, matched: correction.productName });
+            result.score += blocked ? 0 : DEMOTION_SCORE;
+            if (blocked) result.excluded = true;
+        }
+
+        return result;
+    }
+
+    private getApplicableRules(query: string): ApplicableRule[] {
+        const normalized = normalizeCatalogKey(query);
+        const cached = this.byQuery.get(normalized);
+        if (cached) return cached;
+
+        const term = taxonomyService.translate(normalized);
+        const category = taxonomyService.getCategory(term);
+        const queryText = `${normalized} ${term}`;
+        const inQuery = (keyword: string) => containsKeyword(queryText, keyword);
+
+        const applicable = this.rules
+            .filter(({ rule, queries, exceptQueries }) => {
+                if (exceptQueries.some(inQuery)) return false;
+                if (category && rule.exceptCategories?.includes(category)) return false;
+                if (queries.size === 0 && !rule.categories) return true;
+                return queries.has(term) || (category !== undefined && rule.categories?.includes(category) === true);
+            })
+            .map(compiled => ({
+                ...compiled,
+                contains: compiled.contains.filter(keyword => !inQuery(keyword)),
+                pattern: compiled.rule.pattern !== undefined
+                    ? new RegExp(compiled.rule.pattern.replace(/\{query\}/g, escapeRegExp(term)), 'i')
+                    : undefined
+            }))
+            // A rule whose keywords were all in the query has nothing left to match
+            .filter(compiled => compiled.contains.length > 0 || compiled.rule.contains === undefined);
+
+        if (this.byQuery.size >= MAX_CACHED_QUERIES) this.byQuery.clear();
+        this.byQuery.set(normalized, applicable);
+        return applicable;
+    }
+}
+
+export const relevanceRuleService = new RelevanceRuleService();
+export default relevanceRuleService;
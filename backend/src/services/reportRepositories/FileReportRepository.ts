@@ -0,0 +1,120 @@
+import fsp from 'fs/promises';
+import path from 'path';
+import type { ReportBackendName } from '../../config/index.js';
+import { filterEnd, MismatchReport, ReportCounter, ReportFilters, ReportRepository, StatusChange } from './ReportRepository.js';
+
+interface StoredCounter extends ReportCounter {
+    sessionId: string;
+    createdAt: string;
+}
+
+const matches = (report: MismatchReport, filters: ReportFilters): boolean => {
+    if (filters.store) {
+        const store = filters.store.toLowerCase();
+        if (report.store_id !== filters.store && !report.store_name.toLowerCase().includes(store)) return false;
+    }
+    if (filters.reason && report.report_reason !== filters.reason) return false;
+    if (filters.status && (report.status || 'open') !== filters.status) return false;
+    if (filters.from && report.created_at < filters.from) return false;
+    if (filters.to && report.created_at > filterEnd(filters.to)) return false;
+    return true;
+};
+
+/**
+ * Reports in a JSON array file (the original format) and counters in a second file next to it.
+ * Both are loaded once; writes are chained and saved atomically (tmp file + rename), so concurrent
+ * requests in this process never lose each other's changes. Meant for a single instance on a
+ * persistent volume; use the sqlite or postgres backend otherwise.
+ */
+export class FileReportRepository implements ReportRepository {
+    public readonly backend: ReportBackendName = 'file';
+    private reports: MismatchReport[] = [];
+    private counters: StoredCounter[] = [];
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly filePath: string,
+        private readonly countersPath: string = path.join(path.dirname(filePath), 'report_counters.json')
+    ) { }
+
+    public async init(): Promise<void> {
+        this.reports = await this.read<MismatchReport>(this.filePath);
+        this.counters = await this.read<StoredCounter>(this.countersPath);
+    }
+
+    public async insert(report: MismatchReport): Promise<void> {
+        this.reports.push(report);
+        await this.save(this.filePath, this.reports);
+    }
+
+    public async list(filters: ReportFilters): Promise<MismatchReport[]> {
+        return this.reports
+            .filter(report => matches(report, filters))
+            .map(report => ({ ...report, status: report.status || 'open' }))
+            .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    }
+
+    public async updateStatus(id: string, change: StatusChange): Promise<MismatchReport | null> {
+        const report = this.reports.find(r => r.id === id);
+        if (!report) return null;
+
+        report.status = change.status;
+        if (change.note !== undefined) report.resolution_note = change.note;
+        if (change.resolvedAt) report.resolved_at = change.resolvedAt;
+        else delete report.resolved_at;
+
+        await this.save(this.filePath, this.reports);
+        return { ...report };
+    }
+
+    public async incrementCounter(sessionId: string, storeId: string, reportKey: string, at: string): Promise<void> {
+        const counter = this.counters.find(c => c.sessionId === sessionId && c.reportKey === reportKey);
+        if (counter) counter.count++;
+        else this.counters.push({ sessionId, storeId, reportKey, count: 1, createdAt: at });
+        await this.save(this.countersPath, this.counters);
+    }
+
+    public async getCounters(sessionId: string, since: string): Promise<ReportCounter[]> {
+        return this.counters
+            .filter(c => c.sessionId === sessionId && c.createdAt >= since)
+            .map(({ storeId, reportKey, count }) => ({ storeId, reportKey, count }));
+    }
+
+    public async pruneCounters(before: string): Promise<number> {
+        const kept = this.counters.filter(c => c.createdAt >= before);
+        const removed = this.counters.length - kept.length;
+        if (removed > 0) {
+            this.counters = kept;
+            await this.save(this.countersPath, this.counters);
+        }
+        return removed;
+    }
+
+    public async close(): Promise<void> {
+        await this.writing;
+    }
+
+    private async read<T>(filePath: string): Promise<T[]> {
+        try {
+            const parsed = JSON.parse(await fsp.readFile(filePath, 'utf-8'));
+            return Array.isArray(parsed) ? parsed : [];
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.warn(`[FileReportRepository] Could not read ${filePath}, starting empty:`, (error as Error).message);
+            }
+            return [];
+        }
+    }
+
+    private save(filePath: string, data: unknown[]): Promise<void> {
+        const run = this.writing.then(async () => {
+            // Ensure the data/ directory exists (important in fresh production containers)
+            await fsp.mkdir(path.dirname(filePath), { recursive: true });
+            const tmp = `${filePath}.tmp`;
+            await fsp.writeFile(tmp, JSON.stringify(data, null, 2));
+            await fsp.rename(tmp, filePath);
+        });
+        this.writing = run.catch(() => undefined);
+        return run;
+    }
+}
@@ -0,0 +1,67 @@
+import pg from 'pg';
+import type { ReportBackendName } from '../../config/index.js';
+import type { Migration } from './migrations.js';
+import { SqlExecutor, SqlReportRepository } from './SqlReportRepository.js';
+
+// Arbitrary key for the advisory lock held while migrating
+const MIGRATION_LOCK_KEY = 7305214;
+
+/**
+ * The shared SQL uses `?` placeholders; Postgres numbers them ($1, $2, ...).
+ */
+export const toPositionalParams = (sql: string): string => {
+    let index = 0;
+    return sql.replace(/\?/g, () => `$${++index}`);
+};
+
+const executorFor = (client: pg.Pool | pg.PoolClient): SqlExecutor => ({
+    query: async <T>(sql: string, params: unknown[] = []) => (await client.query(toPositionalParams(sql), params)).rows as T[],
+    run: async (sql: string, params: unknown[] = []) => (await client.query(toPositionalParams(sql), params)).rowCount ?? 0,
+    exec: async (script: string) => { await client.query(script); }
+});
+
+/**
+ * Reports in Postgres (or a Postgres-compatible server) at DATABASE_URL. Instances can share
+ * the database; migrations take an advisory lock so only one applies them.
+ */
+export class PostgresReportRepository extends SqlReportRepository {
+    public readonly backend: ReportBackendName = 'postgres';
+    private readonly pool: pg.Pool;
+    private readonly executor: SqlExecutor;
+
+    constructor(connectionString: string, legacyFile?: string, migrations?: Migration[]) {
+        super(legacyFile, migrations);
+        this.pool = new pg.Pool({ connectionString, max: 5 });
+        this.pool.on('error', (error: Error) => {
+            console.error('[PostgresReportRepository] Idle client error:', error.message);
+        });
+        this.executor = executorFor(this.pool);
+    }
+
+    protected get db(): SqlExecutor {
+        return this.executor;
+    }
+
+    protected async transaction<T>(fn: (tx: SqlExecutor) => Promise<T>): Promise<T> {
+        const client = await this.pool.connect();
+        try {
+            await client.query('BEGIN');
+            const result = await fn(executorFor(client));
+            await client.query('COMMIT');
+            return result;
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    protected async lockMigrations(tx: SqlExecutor): Promise<void> {
+        await tx.query('SELECT pg_advisory_xact_lock(?)', [MIGRATION_LOCK_KEY]);
+    }
+
+    public async close(): Promise<void> {
+        await this.pool.end();
+    }
+}
@@ -0,0 +1,106 @@
+import type { ReportBackendName } from '../../config/index.js';
+
+/**
+ * Moderation state; reports saved before moderation existed have no status and count as `open`.
+ */
+export const REPORT_STATUSES = ['open', 'resolved', 'rejected'] as const;
+
+export type ReportStatus = typeof REPORT_STATUSES[number];
+
+export interface MismatchReport {
+    id: string;
+    store_id: string;
+    store_name: string;
+    store_chain?: string;
+    requested_item_name: string;
+    matched_item_name: string;
+    requested_item_id?: string;
+    matched_item_id?: string;
+    report_reason: string;
+    optional_note?: string;
+    basket_size?: number;
+    available_items_count?: number;
+    coverage_percentage?: number;
+    total_store_price?: number;
+    session_id: string;
+    created_at: string;
+    status?: ReportStatus;
+    resolution_note?: string;
+    resolved_at?: string;
+}
+
+export interface ReportFilters {
+    /** Store id, or part of the store name */
+    store?: string;
+    reason?: string;
+    status?: ReportStatus;
+    /** Inclusive bounds on `created_at` (ISO date or date-time) */
+    from?: string;
+    to?: string;
+}
+
+export interface StatusChange {
+    status: ReportStatus;
+    /** Left unchanged when undefined */
+    note?: string;
+    /** Cleared when undefined */
+    resolvedAt?: string;
+}
+
+/**
+ * How often a session reported one item at one store, for the anti-abuse limits.
+ */
+export interface ReportCounter {
+    storeId: string;
+    /** `<store id>_<matched item id or name>` */
+    reportKey: string;
+    count: number;
+}
+
+/**
+ * Storage behind ReportService: the reports themselves and the per-session counters
+ * used to limit duplicate and excessive reporting.
+ */
+export interface ReportRepository {
+    readonly backend: ReportBackendName;
+
+    /**
+     * Creates or migrates the storage. Called once before the first read or write.
+     */
+    init(): Promise<void>;
+
+    insert(report: MismatchReport): Promise<void>;
+
+    /**
+     * Reports matching the filters, newest first. A bare `to` date includes the whole day.
+     */
+    list(filters: ReportFilters): Promise<MismatchReport[]>;
+
+    /**
+     * @returns The updated report, or null when the id is unknown.
+     */
+    updateStatus(id: string, change: StatusChange): Promise<MismatchReport | null>;
+
+    incrementCounter(sessionId: string, storeId: string, reportKey: string, at: string): Promise<void>;
+
+    /**
+     * The session's counters first created at or after `since`.
+     */
+    getCounters(sessionId: string, since: string): Promise<ReportCounter[]>;
+
+    /**
+     * Deletes counters created before `before`.
+     * @returns How many were removed.
+     */
+    pruneCounters(before: string): Promise<number>;
+
+    /**
+     * Flushes pending writes and releases connections.
+     */
+    close(): Promise<void>;
+}
+
+/**
+ * End of the `to` filter: a bare YYYY-MM-DD date includes that whole day.
+ */
+export const filterEnd = (to: string): string => to.length === 10 ? `${to}T23:59:59.999Z` : to;
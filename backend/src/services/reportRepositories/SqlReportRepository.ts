@@ -0,0 +1,185 @@
+import fs from 'fs';
+import type { ReportBackendName } from '../../config/index.js';
+import { REPORT_MIGRATIONS, Migration } from './migrations.js';
+import { filterEnd, MismatchReport, ReportCounter, ReportFilters, ReportRepository, StatusChange } from './ReportRepository.js';
+
+/**
+ * Runs SQL written with `?` placeholders against one connection or transaction.
+ */
+export interface SqlExecutor {
+    query<T>(sql: string, params?: unknown[]): Promise<T[]>;
+    /**
+     * @returns The number of affected rows.
+     */
+    run(sql: string, params?: unknown[]): Promise<number>;
+    /** Runs a script of several statements without parameters */
+    exec(script: string): Promise<void>;
+}
+
+type ReportRow = Record<keyof MismatchReport, string | number | null>;
+
+const COLUMNS: (keyof MismatchReport)[] = [
+    'id', 'store_id', 'store_name', 'store_chain', 'requested_item_name', 'matched_item_name', 'requested_item_id',
+    'matched_item_id', 'report_reason', 'optional_note', 'basket_size', 'available_items_count', 'coverage_percentage',
+    'total_store_price', 'session_id', 'created_at', 'status', 'resolution_note', 'resolved_at'
+];
+
+const INSERT_SQL = `INSERT INTO mismatch_reports (${COLUMNS.join(', ')}) VALUES (${COLUMNS.map(() => '?').join(', ')}) ON CONFLICT (id) DO NOTHING`;
+
+// NULL columns are left out, so a report reads back the way it was submitted
+const toReport = (row: ReportRow): MismatchReport => {
+    const report: Record<string, unknown> = {};
+    for (const column of COLUMNS) {
+        const value = row[column];
+        if (value !== null && value !== undefined) report[column] = value;
+    }
+    return report as unknown as MismatchReport;
+};
+
+const toParams = (report: MismatchReport): unknown[] =>
+    COLUMNS.map(column => column === 'status' ? (report.status || 'open') : (report[column] ?? null));
+
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+/**
+ * Report storage in SQL shared by the SQLite and Postgres backends. Queries stick to syntax
+ * both understand; subclasses only provide the connection. The schema is created and upgraded
+ * by the numbered migrations in `migrations.ts`.
+ */
+export abstract class SqlReportRepository implements ReportRepository {
+    public abstract readonly backend: ReportBackendName;
+
+    /**
+     * @param legacyFile JSON reports file imported once into an empty database
+     */
+    constructor(
+        private readonly legacyFile?: string,
+        private readonly migrations: Migration[] = REPORT_MIGRATIONS
+    ) { }
+
+    protected abstract get db(): SqlExecutor;
+
+    /**
+     * Runs `fn` in a transaction that is committed when it resolves and rolled back when it throws.
+     */
+    protected abstract transaction<T>(fn: (tx: SqlExecutor) => Promise<T>): Promise<T>;
+
+    /**
+     * Keeps other instances from migrating at the same time; called first inside the migration transaction.
+     */
+    protected async lockMigrations(_tx: SqlExecutor): Promise<void> { }
+
+    public abstract close(): Promise<void>;
+
+    public async init(): Promise<void> {
+        await this.migrate();
+        await this.importLegacyFile();
+    }
+
+    /**
+     * Applies the migrations that `schema_migrations` doesn't list yet, all in one transaction.
+     * @returns The versions applied.
+     */
+    public async migrate(): Promise<number[]> {
+        return this.transaction(async tx => {
+            await this.lockMigrations(tx);
+            await tx.exec('CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)');
+            const applied = new Set((await tx.query<{ version: number }>('SELECT version FROM schema_migrations')).map(row => Number(row.version)));
+
+            const pending = [...this.migrations].sort((a, b) => a.version - b.version).filter(m => !applied.has(m.version));
+            for (const migration of pending) {
+                await tx.exec(migration.up);
+                await tx.run('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)', [migration.version, migration.name, new Date().toISOString()]);
+                console.log(`[ReportRepository] Applied migration ${migration.version} (${migration.name}) on ${this.backend}.`);
+            }
+            return pending.map(m => m.version);
+        });
+    }
+
+    /**
+     * One-time import: copy the reports of the JSON file backend into an empty database.
+     */
+    private async importLegacyFile() {
+        if (!this.legacyFile || !fs.existsSync(this.legacyFile)) return;
+        if ((await this.db.query('SELECT id FROM mismatch_reports LIMIT 1')).length > 0) return;
+
+        let reports: MismatchReport[];
+        try {
+            reports = JSON.parse(fs.readFileSync(this.legacyFile, 'utf-8'));
+        } catch (error) {
+            console.error(`[ReportRepository] Could not read ${this.legacyFile} for import:`, (error as Error).message);
+            return;
+        }
+        if (!Array.isArray(reports) || reports.length === 0) return;
+
+        await this.transaction(async tx => {
+            for (const report of reports) await tx.run(INSERT_SQL, toParams(report));
+        });
+        console.log(`[ReportRepository] Imported ${reports.length} reports from ${this.legacyFile}.`);
+    }
+
+    public async insert(report: MismatchReport): Promise<void> {
+        await this.db.run(INSERT_SQL, toParams(report));
+    }
+
+    public async list(filters: ReportFilters): Promise<MismatchReport[]> {
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+        if (filters.store) {
+            conditions.push("(store_id = ? OR lower(store_name) LIKE lower(?) ESCAPE '\\')");
+            params.push(filters.store, `%${escapeLike(filters.store)}%`);
+        }
+        if (filters.reason) {
+            conditions.push('report_reason = ?');
+            params.push(filters.reason);
+        }
+        if (filters.status) {
+            conditions.push('status = ?');
+            params.push(filters.status);
+        }
+        if (filters.from) {
+            conditions.push('created_at >= ?');
+            params.push(filters.from);
+        }
+        if (filters.to) {
+            conditions.push('created_at <= ?');
+            params.push(filterEnd(filters.to));
+        }
+
+        const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+        const rows = await this.db.query<ReportRow>(`SELECT * FROM mismatch_reports${where} ORDER BY created_at DESC`, params);
+        return rows.map(toReport);
+    }
+
+    public async updateStatus(id: string, change: StatusChange): Promise<MismatchReport | null> {
+        const updated = await this.db.run(
+            'UPDATE mismatch_reports SET status = ?, resolution_note = COALESCE(?, resolution_note), resolved_at = ? WHERE id = ?',
+            [change.status, change.note ?? null, change.resolvedAt ?? null, id]
+        );
+        if (updated === 0) return null;
+
+        const [row] = await this.db.query<ReportRow>('SELECT * FROM mismatch_reports WHERE id = ?', [id]);
+        return row ? toReport(row) : null;
+    }
+
+    public async incrementCounter(sessionId: string, storeId: string, reportKey: string, at: string): Promise<void> {
+        // One statement, so concurrent reports from the same session can't lose a count
+        await this.db.run(
+            `INSERT INTO report_counters (session_id, report_key, store_id, count, created_at) VALUES (?, ?, ?, 1, ?)
+             ON CONFLICT (session_id, report_key) DO UPDATE SET count = report_counters.count + 1`,
+            [sessionId, reportKey, storeId, at]
+        );
+    }
+
+    public async getCounters(sessionId: string, since: string): Promise<ReportCounter[]> {
+        const rows = await this.db.query<{ store_id: string; report_key: string; count: number }>(
+            'SELECT store_id, report_key, count FROM report_counters WHERE session_id = ? AND created_at >= ?',
+            [sessionId, since]
+        );
+        return rows.map(row => ({ storeId: row.store_id, reportKey: row.report_key, count: Number(row.count) }));
+    }
+
+    public async pruneCounters(before: string): Promise<number> {
+        return this.db.run('DELETE FROM report_counters WHERE created_at < ?', [before]);
+    }
+}
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { ReportBackendName } from '../../config/index.js';
+import type { Migration } from './migrations.js';
+import { SqlExecutor, SqlReportRepository } from './SqlReportRepository.js';
+
+/**
+ * Reports in an embedded SQLite database file. WAL mode and a busy timeout let several
+ * processes on the same volume share it.
+ */
+export class SqliteReportRepository extends SqlReportRepository {
+    public readonly backend: ReportBackendName = 'sqlite';
+    private connection: Database.Database | null = null;
+    private executor: SqlExecutor | null = null;
+    // better-sqlite3 runs on one connection, so transactions take turns
+    private transactions: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly dbPath: string, legacyFile?: string, migrations?: Migration[]) {
+        super(legacyFile, migrations);
+    }
+
+    protected get db(): SqlExecutor {
+        if (this.executor) return this.executor;
+
+        if (this.dbPath !== ':memory:') {
+            fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+        }
+        const connection = new Database(this.dbPath);
+        connection.pragma('journal_mode = WAL');
+        connection.pragma('busy_timeout = 5000');
+        this.connection = connection;
+        this.executor = {
+            query: async <T>(sql: string, params: unknown[] = []) => connection.prepare(sql).all(...params) as T[],
+            run: async (sql: string, params: unknown[] = []) => connection.prepare(sql).run(...params).changes,
+            exec: async (script: string) => { connection.exec(script); }
+        };
+        return this.executor;
+    }
+
+    protected transaction<T>(fn: (tx: SqlExecutor) => Promise<T>): Promise<T> {
+        const run = this.transactions.then(async () => {
+            const db = this.db;
+            await db.exec('BEGIN IMMEDIATE');
+            try {
+                const result = await fn(db);
+                await db.exec('COMMIT');
+                return result;
+            } catch (error) {
+                await db.exec('ROLLBACK');
+                throw error;
+            }
+        });
+        this.transactions = run.catch(() => undefined);
+        return run;
+    }
+
+    public async close(): Promise<void> {
+        await this.transactions;
+        this.connection?.close();
+        this.connection = null;
+        this.executor = null;
+    }
+}
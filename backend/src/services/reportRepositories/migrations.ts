@@ -0,0 +1,60 @@
+/**
+ * One schema change for the SQL report backends. `up` must run on both SQLite and Postgres,
+ * so stick to portable types (TEXT, INTEGER, DOUBLE PRECISION) and keep timestamps as ISO strings.
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    up: string;
+}
+
+/**
+ * Applied in order and recorded in `schema_migrations`. Never edit a released migration; add a new one.
+ */
+export const REPORT_MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        name: 'create_mismatch_reports',
+        up: `
+            CREATE TABLE mismatch_reports (
+                id TEXT PRIMARY KEY,
+                store_id TEXT NOT NULL,
+                store_name TEXT NOT NULL,
+                store_chain TEXT,
+                requested_item_name TEXT NOT NULL,
+                matched_item_name TEXT NOT NULL,
+                requested_item_id TEXT,
+                matched_item_id TEXT,
+                report_reason TEXT NOT NULL,
+                optional_note TEXT,
+                basket_size INTEGER,
+                available_items_count INTEGER,
+                coverage_percentage DOUBLE PRECISION,
+                total_store_price DOUBLE PRECISION,
+                session_id TEXT NOT NULL,
+                created_at TEXT NOT NULL,
+                status TEXT NOT NULL DEFAULT 'open',
+                resolution_note TEXT,
+                resolved_at TEXT
+            );
+            CREATE INDEX idx_mismatch_reports_created ON mismatch_reports (created_at);
+            CREATE INDEX idx_mismatch_reports_store ON mismatch_reports (store_id, created_at);
+            CREATE INDEX idx_mismatch_reports_status ON mismatch_reports (status, created_at);
+        `
+    },
+    {
+        version: 2,
+        name: 'create_report_counters',
+        up: `
+            CREATE TABLE report_counters (
+                session_id TEXT NOT NULL,
+                report_key TEXT NOT NULL,
+                store_id TEXT NOT NULL,
+                count INTEGER NOT NULL,
+                created_at TEXT NOT NULL,
+                PRIMARY KEY (session_id, report_key)
+            );
+            CREATE INDEX idx_report_counters_created ON report_counters (created_at);
+        `
+    }
+];
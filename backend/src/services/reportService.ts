@@ -1,76 +1,111 @@
-import fs from 'fs/promises';
-import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import config from '../config/index.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import matchCorrectionService from './matchCorrectionService.js';
+import type { MismatchReport, ReportFilters, ReportRepository, ReportStatus } from './reportRepositories/ReportRepository.js';
+import { FileReportRepository } from './reportRepositories/FileReportRepository.js';
+import { SqliteReportRepository } from './reportRepositories/SqliteReportRepository.js';
+import { PostgresReportRepository } from './reportRepositories/PostgresReportRepository.js';
 
-export interface MismatchReport {
-    id: string;
-    store_id: string;
-    store_name: string;
-    requested_item_name: string;
-    matched_item_name: string;
-    requested_item_id?: string;
-    matched_item_id?: string;
-    report_reason: string;
-    optional_note?: string;
-    basket_size?: number;
-    available_items_count?: number;
-    coverage_percentage?: number;
-    total_store_price?: number;
-    session_id: string;
-    created_at: string;
-}
+export { REPORT_STATUSES } from './reportRepositories/ReportRepository.js';
+export type { MismatchReport, ReportFilters, ReportStatus } from './reportRepositories/ReportRepository.js';
 
-const REPORTS_FILE = path.join(process.cwd(), 'data/item_mismatch_reports.json');
+export const REPORT_REASONS = ['Wrong product matched', 'Wrong size or variant', 'Wrong price', 'Marked available but unavailable', 'Other'] as const;
 
-// H3: In-memory session cache with TTL to prevent unbounded memory growth
-interface SessionEntry {
-    map: Map<string, number>;
-    createdAt: number;
+export interface ReportStats {
+    total: number;
+    byStatus: Record<ReportStatus, number>;
+    byReason: Array<{ reason: string; count: number }>;
+    byStore: Array<{ store_id: string; store_name: string; count: number; open: number }>;
 }
-const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-const sessionReportCounts = new Map<string, SessionEntry>();
 
-// Sweep stale sessions every hour to free memory
-setInterval(() => {
-    const now = Date.now();
-    for (const [sessionId, entry] of sessionReportCounts.entries()) {
-        if (now - entry.createdAt > SESSION_TTL_MS) {
-            sessionReportCounts.delete(sessionId);
-        }
+const CSV_COLUMNS: (keyof MismatchReport)[] = [
+    'id', 'created_at', 'status', 'store_id', 'store_name', 'store_chain', 'requested_item_name', 'matched_item_name',
+    'requested_item_id', 'matched_item_id', 'report_reason', 'optional_note', 'resolution_note', 'resolved_at', 'session_id'
+];
+
+// Anti-abuse counters are kept per session for 24 hours
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_REPORTS_PER_STORE = 3;
+
+const createRepository = (): ReportRepository => {
+    switch (config.reportsBackend) {
+        case 'sqlite':
+            return new SqliteReportRepository(config.reportsDbPath, config.reportsFile);
+        case 'postgres':
+            return new PostgresReportRepository(config.databaseUrl, config.reportsFile);
+        default:
+            return new FileReportRepository(config.reportsFile);
     }
+};
+
+const repository = createRepository();
+let ready: Promise<void> | null = null;
+
+// Sweep expired counters every hour
+setInterval(() => {
+    if (!ready) return;
+    ready
+        .then(() => repository.pruneCounters(new Date(Date.now() - SESSION_TTL_MS).toISOString()))
+        .catch(error => console.error('[ReportService] Failed to prune report counters:', error));
 }, 60 * 60 * 1000).unref(); // unref() so this doesn't prevent process exit
 
 export class ReportService {
     /**
-     * Saves a mismatch report to the JSON file
+     * Opens the configured storage (REPORTS_BACKEND) and applies pending migrations.
+     * Called at startup; every other method waits for it too.
      */
-    static async saveReport(reportData: Omit<MismatchReport, 'id' | 'created_at'>): Promise<MismatchReport> {
-        // Anti-abuse check
-        const compositeKey = `${reportData.store_id}_${reportData.matched_item_id || reportData.matched_item_name}`;
-        this.incrementSessionReport(reportData.session_id, compositeKey);
+    static init(): Promise<void> {
+        if (!ready) {
+            ready = repository.init();
+            // Let the next call retry a failed start
+            ready.catch(() => { ready = null; });
+        }
+        return ready;
+    }
+
+    static async close(): Promise<void> {
+        if (!ready) return;
+        ready = null;
+        await repository.close();
+    }
 
+    /**
+     * Saves a mismatch report and counts it against the session's limits. `reporter` is the client
+     * address, which match corrections count instead of the client-chosen session ID.
+     */
+    static async saveReport(reportData: Omit<MismatchReport, 'id' | 'created_at'>, reporter: string): Promise<MismatchReport> {
         const newReport: MismatchReport = {
             ...reportData,
             id: uuidv4(),
-            created_at: new Date().toISOString()
+            created_at: new Date().toISOString(),
+            // Moderation fields are only set through the admin API
+            status: 'open',
+            resolution_note: undefined,
+            resolved_at: undefined
         };
 
         try {
-            let reports: MismatchReport[] = [];
-            try {
-                const content = await fs.readFile(REPORTS_FILE, 'utf-8');
-                reports = JSON.parse(content);
-            } catch (error) {
-                // File might not exist yet — start fresh
-                reports = [];
-            }
+            await this.init();
 
-            reports.push(newReport);
-            // Ensure the data/ directory exists (important in fresh production containers)
-            await fs.mkdir(path.dirname(REPORTS_FILE), { recursive: true });
-            await fs.writeFile(REPORTS_FILE, JSON.stringify(reports, null, 2));
+            // Anti-abuse check
+            const compositeKey = `${reportData.store_id}_${reportData.matched_item_id || reportData.matched_item_name}`;
+            await repository.incrementCounter(reportData.session_id, reportData.store_id, compositeKey, newReport.created_at);
+            await repository.insert(newReport);
 
             console.log(`[ReportService] New mismatch report saved: ${newReport.id}`);
+
+            // Enough of these for the same query and product demote or block it for the next user
+            if (newReport.report_reason === 'Wrong product matched') {
+                await matchCorrectionService.recordReport({
+                    requestedName: newReport.requested_item_name,
+                    productName: newReport.matched_item_name,
+                    productId: newReport.matched_item_id,
+                    chain: newReport.store_chain || '',
+                    reporter
+                });
+            }
+
             return newReport;
         } catch (error) {
             console.error('[ReportService] Error saving mismatch report:', error);
@@ -79,34 +114,85 @@ export class ReportService {
     }
 
     /**
-     * Checks if a report for this item in this session already exists or exceeds limit
+     * Reports matching the filters, newest first
      */
-    static canReport(sessionId: string, storeId: string, itemId: string): boolean {
-        const entry = sessionReportCounts.get(sessionId);
-        if (!entry) return true;
+    static async listReports(filters: ReportFilters = {}): Promise<MismatchReport[]> {
+        await this.init();
+        return repository.list(filters);
+    }
 
-        const { map: sessionMap } = entry;
+    /**
+     * Marks a report resolved or rejected (or reopens it), with an optional moderator note
+     */
+    static async setStatus(id: string, status: ReportStatus, note?: string): Promise<MismatchReport> {
+        await this.init();
+        const updated = await repository.updateStatus(id, {
+            status,
+            note,
+            resolvedAt: status === 'open' ? undefined : new Date().toISOString()
+        });
+        if (!updated) throw new ApiError(404, 'Report not found');
+        return updated;
+    }
 
-        // Check if this specific item has already been reported in this session
-        const compositeKey = `${storeId}_${itemId}`;
-        if (sessionMap.has(compositeKey)) return false;
+    /**
+     * Report counts by status, reason and store, most reported first
+     */
+    static async getStats(filters: ReportFilters = {}): Promise<ReportStats> {
+        const reports = await this.listReports(filters);
+        const byStatus: ReportStats['byStatus'] = { open: 0, resolved: 0, rejected: 0 };
+        const byReason = new Map<string, number>();
+        const byStore = new Map<string, ReportStats['byStore'][number]>();
 
-        // Check if total reports for this store in this session exceeds 3
-        let storeReportCount = 0;
-        for (const [key, count] of sessionMap.entries()) {
-            if (key.startsWith(`${storeId}_`)) {
-                storeReportCount += count;
-            }
+        for (const report of reports) {
+            const status = report.status || 'open';
+            byStatus[status]++;
+            byReason.set(report.report_reason, (byReason.get(report.report_reason) || 0) + 1);
+            const store = byStore.get(report.store_id) || { store_id: report.store_id, store_name: report.store_name, count: 0, open: 0 };
+            store.count++;
+            if (status === 'open') store.open++;
+            byStore.set(report.store_id, store);
         }
 
-        return storeReportCount < 3;
+        return {
+            total: reports.length,
+            byStatus,
+            byReason: [...byReason].map(([reason, count]) => ({ reason, count })).sort((a, b) => b.count - a.count),
+            byStore: [...byStore.values()].sort((a, b) => b.count - a.count)
+        };
     }
 
-    private static incrementSessionReport(sessionId: string, compositeKey: string) {
-        if (!sessionReportCounts.has(sessionId)) {
-            sessionReportCounts.set(sessionId, { map: new Map(), createdAt: Date.now() });
-        }
-        const entry = sessionReportCounts.get(sessionId)!;
-        entry.map.set(compositeKey, (entry.map.get(compositeKey) || 0) + 1);
+    /**
+     * Reports as CSV, one row per report with a header row
+     */
+    static toCsv(reports: MismatchReport[]): string {
+        const escape = (value: unknown): string => {
+            if (value === undefined || value === null) return '';
+            const text = String(value);
+            // Leading =, +, - or @ would run as a formula when the export is opened in a spreadsheet
+            const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+            return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+        };
+        const rows = reports.map(report => CSV_COLUMNS.map(column => escape(report[column])).join(','));
+        return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+    }
+
+    /**
+     * Checks if a report for this item in this session already exists or exceeds limit
+     */
+    static async canReport(sessionId: string, storeId: string, itemId: string): Promise<boolean> {
+        await this.init();
+        const counters = await repository.getCounters(sessionId, new Date(Date.now() - SESSION_TTL_MS).toISOString());
+
+        // Check if this specific item has already been reported in this session
+        const compositeKey = `${storeId}_${itemId}`;
+        if (counters.some(counter => counter.reportKey === compositeKey)) return false;
+
+        // Check if total reports for this store in this session exceeds 3
+        const storeReportCount = counters
+            .filter(counter => counter.storeId === storeId)
+            .reduce((sum, counter) => sum + counter.count, 0);
+
+        return storeReportCount < MAX_REPORTS_PER_STORE;
     }
 }
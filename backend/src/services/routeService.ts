@@ -3,20 +3,35 @@ import priceIndexService from './PriceIndexService.js';
 import { calculateDistance } from '../utils/distance.js';
 import { Product, Store, ShoppingItem, Location } from '../types/index.js';
 import { ApiError } from '../middleware/errorHandler.js';
-import { selectBestProductForStore, selectBestProductForStoreWithQuery, getProductMatchLevel, MatchLevel } from '../utils/matching.js';
-import { findMatchingOffers, getDiscountLabel } from '../data/allOffersData.js';
+import { selectBestProductForStore, selectBestProductForStoreWithQuery, getProductMatchLevel, MatchLevel, PriceLevel, toPriceLevel } from '../utils/matching.js';
+import offerService, { getDiscountLabel } from './OfferService.js';
+import { AppliedPromotion, applyBestPromotion } from './promotionPricing.js';
+import { getUnitPrice } from '../utils/unitPrice.js';
+import { getPackageCount, RequestedAmount, toRequestedAmount } from '../utils/packageCount.js';
+import config from '../config/index.js';
 
 
 interface ProductWithPrice extends Product {
     totalPrice: number;
     quantity: number;
     originalQueryName?: string; // Standardized field name for user input
+    priceLevel: PriceLevel; // How specific the price is: the exact branch, or a chain/parent-wide estimate
+    regularTotalPrice?: number; // Line total before promotions (only set when an offer lowered it)
+    discount?: number; // Kroner saved on this line by the applied promotion
+    appliedPromotion?: AppliedPromotion;
+    depositTotal?: number; // Bottle deposit (pant) included in totalPrice
+    extraCostTotal?: number; // Other charges from the applied offer included in totalPrice
+    unitPrice?: number; // Price per kg/l/stk this line actually costs, after promotions and without deposit
+    requested?: RequestedAmount; // What the user asked for ("2 liter"), when `quantity` packages were worked out from it
 }
 
 interface SingleStoreOption {
     store: Store;
     items: ProductWithPrice[];
     totalCost: number;
+    totalDiscount: number; // Promotion savings already deducted from totalCost
+    totalDeposit: number; // Deposit included in totalCost
+    totalExtraCost: number; // Offer surcharges included in totalCost
     distance: number;
     availabilityScore: number; // 0 to 1 (e.g., 0.8 = 80% of items found)
     missingItems: string[];
@@ -31,6 +46,9 @@ interface MultiStoreOption {
         distance: number;
     }>;
     totalCost: number;
+    totalDiscount: number;
+    totalDeposit: number;
+    totalExtraCost: number;
     totalDistance: number;
     savings: number;
     savingsPercent: number;
@@ -49,6 +67,27 @@ export interface RouteOptimizationResult {
     missedPreferences?: Array<{ itemName: string; expected: string; found: string }>;
 }
 
+/**
+ * Sums a per-line amount over every store in a route.
+ */
+const sumItems = (stores: Array<{ items: ProductWithPrice[] }>, amount: (item: ProductWithPrice) => number | undefined): number =>
+    stores.reduce((sum, s) => sum + s.items.reduce((itemSum, i) => itemSum + (amount(i) || 0), 0), 0);
+
+/**
+ * How much more store `a`'s basket costs than `b`'s by unit price, line by line, weighted by the requested quantity.
+ * Null unless every line has a counterpart priced in the same unit: kr/kg, kr/l, kr/stk and package prices don't add up.
+ */
+const unitCostDifference = (a: SingleStoreOption, b: SingleStoreOption, quantities: Map<string, number>): number | null => {
+    if (a.items.length !== b.items.length) return null;
+    let difference = 0;
+    for (const line of a.items) {
+        const other = b.items.find(i => i.originalQueryName === line.originalQueryName);
+        if (line.unitPrice === undefined || other?.unitPrice === undefined || line.unitPriceUnit !== other.unitPriceUnit) return null;
+        difference += (line.unitPrice - other.unitPrice) * (quantities.get(line.originalQueryName || '') ?? 1);
+    }
+    return difference;
+};
+
 /**
  * Service to calculate optimal shopping routes using Availability-First Logic.
  */
@@ -64,7 +103,8 @@ class RouteService {
             maxStores: number;
             maxDistance: number;
             excludedChains?: string[];
-            sortBy?: 'cheapest' | 'closest' | 'stops';
+            /** 'unitPrice' picks products and ranks stores by kr/kg, kr/l or kr/stk instead of package price */
+            sortBy?: 'cheapest' | 'closest' | 'stops' | 'unitPrice';
         } = { maxStores: 3, maxDistance: 10000, sortBy: 'cheapest' }
     ): Promise<RouteOptimizationResult> {
         try {
@@ -147,14 +187,36 @@ class RouteService {
 
             // 2. Score Stores (Availability > Cost)
             // No longer using GeminiCanonicalMapper - using direct search-to-query mapping
-            const rankedStores = this.scoreAndRankStores(
+            const byUnitPrice = options.sortBy === 'unitPrice';
+            let rankedStores = this.scoreAndRankStores(
                 validStores,
                 allProducts,
                 queryMapping,
                 items,
-                userLocation
+                userLocation,
+                byUnitPrice
             );
 
+            // 2b. Branch Price Resolution
+            // The first pass mostly runs on chain-wide prices. Re-price the shortlist with per-store
+            // queries and rank again, so the best store is chosen on what its branch actually charges.
+            if (config.branchPricing && dataAggregator.supportsStorePricing() && rankedStores.length > 0) {
+                const shortlist = rankedStores.slice(0, config.branchPricingMaxStores).map(r => r.store);
+                const branchProducts = await this.resolveBranchPrices(shortlist, items, queryMapping, userLocation);
+
+                if (branchProducts.size > 0) {
+                    rankedStores = this.scoreAndRankStores(
+                        validStores,
+                        allProducts,
+                        queryMapping,
+                        items,
+                        userLocation,
+                        byUnitPrice,
+                        branchProducts
+                    );
+                }
+            }
+
             console.log(`[RouteService] Ranked stores: ${rankedStores.length}`);
             if (rankedStores.length > 0) {
                 console.log(`  - Top store: ${rankedStores[0].store.name} (${rankedStores[0].availabilityScore * 100}% coverage)`);
@@ -222,12 +284,68 @@ class RouteService {
         });
     }
 
+    /**
+     * Fetches branch-specific prices for each shortlisted store and item, at most
+     * `branchPricingMaxLookups` lookups per request.
+     * Returned products are keyed by store id and only compete for that store; their ids are
+     * added to the query mapping so the matcher treats them as candidates for the item.
+     */
+    private async resolveBranchPrices(
+        stores: Store[],
+        items: ShoppingItem[],
+        queryMapping: Map<string, string[]>,
+        userLocation: Location
+    ): Promise<Map<string, Product[]>> {
+        const branchProducts = new Map<string, Product[]>();
+
+        // One budget for the whole request, spent on the best-ranked stores first
+        let budget = config.branchPricingMaxLookups;
+        const lookups = stores.map(store => {
+            const storeItems = items.slice(0, Math.max(0, budget));
+            budget -= storeItems.length;
+            return { store, storeItems };
+        }).filter(({ storeItems }) => storeItems.length > 0);
+
+        await Promise.all(lookups.map(async ({ store, storeItems }) => {
+            const perItem = await Promise.all(storeItems.map(async item => {
+                try {
+                    const products = await dataAggregator.searchProductsAtStore(item.name, store, { location: userLocation });
+                    return { item, products };
+                } catch (error) {
+                    console.warn(`[RouteService] Branch lookup failed for "${item.name}" at ${store.name}:`, error);
+                    return { item, products: [] as Product[] };
+                }
+            }));
+
+            const storeProducts: Product[] = [];
+            for (const { item, products } of perItem) {
+                if (products.length === 0) continue;
+                storeProducts.push(...products);
+
+                const ids = queryMapping.get(item.name) || [];
+                for (const p of products) {
+                    if (!ids.includes(String(p.id))) ids.push(String(p.id));
+                }
+                queryMapping.set(item.name, ids);
+            }
+
+            if (storeProducts.length > 0) {
+                branchProducts.set(String(store.id), storeProducts);
+            }
+        }));
+
+        console.log(`[RouteService] Branch prices resolved for ${branchProducts.size}/${stores.length} shortlisted stores (${lookups.length} within the lookup budget).`);
+        return branchProducts;
+    }
+
     private scoreAndRankStores(
         stores: Store[],
-        allProducts: Product[],
+        chainProducts: Product[],
         queryMapping: Map<string, string[]>,
         items: ShoppingItem[],
-        userLocation: Location
+        userLocation: Location,
+        byUnitPrice = false,
+        branchProducts: Map<string, Product[]> = new Map()
     ): SingleStoreOption[] {
         const results: SingleStoreOption[] = [];
 
@@ -239,7 +357,7 @@ class RouteService {
             const productIdsForThisQuery = queryMapping.get(searchLabel) || [];
 
             // Find all products matching this query
-            const candidates = allProducts.filter(p => productIdsForThisQuery.includes(String(p.id)));
+            const candidates = chainProducts.filter(p => productIdsForThisQuery.includes(String(p.id)));
 
             // Sort by content quality: Image + Ingredient > Image > Ingredient > Nothing
             const bestContent = candidates.sort((a, b) => {
@@ -254,9 +372,16 @@ class RouteService {
         }
 
         for (const store of stores) {
+            // Branch prices fetched for this store compete with the chain-wide candidates
+            const storeBranchProducts = branchProducts.get(String(store.id)) || [];
+            const allProducts = storeBranchProducts.length > 0 ? [...storeBranchProducts, ...chainProducts] : chainProducts;
+
             // Use shared matching utility to find the best candidate per store/query
             const foundItems: ProductWithPrice[] = [];
             let storeTotalCost = 0;
+            let storeTotalDiscount = 0;
+            let storeTotalDeposit = 0;
+            let storeTotalExtraCost = 0;
             let storeSortingPenalty = 0;
             const foundCanonicalIds = new Set<string>();
 
@@ -284,18 +409,19 @@ class RouteService {
                     } else {
                         // Store misses the specific item -> Fallback
                         // Use new method with query context for better relevance
-                        matchResult = selectBestProductForStoreWithQuery(allProducts, store, productIdsForThisQuery, searchLabel);
+                        matchResult = selectBestProductForStoreWithQuery(allProducts, store, productIdsForThisQuery, searchLabel, { byUnitPrice, request: item });
                         isMissedPreference = true;
                     }
                 } else {
                     // Use new method with query context for better relevance
-                    matchResult = selectBestProductForStoreWithQuery(allProducts, store, productIdsForThisQuery, searchLabel);
+                    matchResult = selectBestProductForStoreWithQuery(allProducts, store, productIdsForThisQuery, searchLabel, { byUnitPrice, request: item });
                 }
 
                 if (matchResult) {
                     const { product: best, level: matchLevel } = matchResult;
-                    const quantity = item.quantity;
-                    const totalPrice = best.price * quantity;
+                    // "2 liter" of 1.75 l milk is two packages; without a unit the quantity already counts packages
+                    const quantity = getPackageCount(item, best.attributes);
+                    const requested = toRequestedAmount(item.quantity, item.unit);
 
                     // ENRICHMENT: Only enrich the image if the current product lacks one
                     const enrichedProduct = { ...best };
@@ -308,11 +434,12 @@ class RouteService {
                     }
 
                     // PROMOTION ENRICHMENT: Check for regional offers
-                    const matchedPromos = findMatchingOffers(enrichedProduct.name);
+                    const matchedPromos = offerService.findMatchingOffers(enrichedProduct.name);
                     const storeChain = store.chain.toLowerCase();
 
-                    const activePromotions = matchedPromos
-                        .filter(o => o.chain.toLowerCase().includes(storeChain) || storeChain.includes(o.chain.toLowerCase()))
+                    const storePromos = matchedPromos
+                        .filter(o => o.chain.toLowerCase().includes(storeChain) || storeChain.includes(o.chain.toLowerCase()));
+                    const activePromotions = storePromos
                         .map(o => ({
                             chain: o.chain,
                             label: getDiscountLabel(o),
@@ -324,6 +451,12 @@ class RouteService {
                         (enrichedProduct as any).promotions = activePromotions;
                     }
 
+                    // PROMOTION PRICING: the cheapest applicable offer sets the line total for this quantity
+                    const quote = applyBestPromotion(best.price, quantity, storePromos, best.deposit);
+                    const totalPrice = quote.totalPrice;
+                    // Unit price actually paid on this line, so a deal shows up in kr/kg too
+                    const lineUnitPrice = getUnitPrice(totalPrice, best.attributes, quote.deposit, quantity);
+
                     // Check if we missed a preference (double check logic)
                     if (isMissedPreference && item.lockedProductId) {
                         missedPrefsForStore.push({
@@ -346,9 +479,22 @@ class RouteService {
                         ...enrichedProduct,
                         totalPrice,
                         quantity,
-                        originalQueryName: searchLabel
+                        originalQueryName: searchLabel,
+                        priceLevel: toPriceLevel(matchLevel),
+                        ...(requested && { requested }),
+                        ...(quote.promotion && {
+                            regularTotalPrice: quote.regularTotalPrice,
+                            discount: quote.discount,
+                            appliedPromotion: quote.promotion
+                        }),
+                        ...(quote.depositTotal > 0 && { deposit: quote.deposit, depositTotal: quote.depositTotal }),
+                        ...(quote.extraCostTotal > 0 && { extraCostTotal: quote.extraCostTotal }),
+                        ...lineUnitPrice
                     });
                     storeTotalCost += totalPrice;
+                    storeTotalDiscount += quote.discount;
+                    storeTotalDeposit += quote.depositTotal;
+                    storeTotalExtraCost += quote.extraCostTotal;
                     foundCanonicalIds.add(searchLabel);
                 }
             }
@@ -387,6 +533,9 @@ class RouteService {
                     store,
                     items: foundItems,
                     totalCost: storeTotalCost,
+                    totalDiscount: storeTotalDiscount,
+                    totalDeposit: storeTotalDeposit,
+                    totalExtraCost: storeTotalExtraCost,
                     distance,
                     availabilityScore,
                     missingItems: items.filter(i => !foundCanonicalIds.has(i.name)).map(i => i.name),
@@ -402,8 +551,9 @@ class RouteService {
         // Output Ranking Logic (Updated for Strict Prioritization):
         // 1. Locked Items Found (Did we get what you specifically asked for?) -> High to Low
         // 2. Availability Score (Did we get everything else?) -> High to Low
-        // 3. Total Cost (Is it cheap?) -> Low to High
+        // 3. Total Cost (Is it cheap?) -> Low to High; line by line unit prices when sorting by unit price and they compare
         // 4. Distance -> Low to High (Tie-breaker only)
+        const quantities = new Map(items.map(item => [item.name, item.quantity]));
         return results.sort((a: any, b: any) => {
             // Priority 1: Specific Locked Items Coverage
             const lockedDiff = (b._lockedItemsCount || 0) - (a._lockedItemsCount || 0);
@@ -415,10 +565,10 @@ class RouteService {
             }
 
             // Priority 3: Cost with Penalties Applied
-            const costA = a.totalCost + (a._sortingPenalty || 0);
-            const costB = b.totalCost + (b._sortingPenalty || 0);
-            if (Math.abs(costA - costB) > 0.1) { // Reduced tolerance to 0.1 NOK
-                return costA - costB;
+            const costDiff = ((byUnitPrice ? unitCostDifference(a, b, quantities) : null) ?? a.totalCost - b.totalCost)
+                + (a._sortingPenalty || 0) - (b._sortingPenalty || 0);
+            if (Math.abs(costDiff) > 0.1) { // Reduced tolerance to 0.1 NOK
+                return costDiff;
             }
 
             // Priority 4: Distance
@@ -478,6 +628,9 @@ class RouteService {
                 bestCombo = {
                     stores,
                     totalCost,
+                    totalDiscount: sumItems(stores, i => i.discount),
+                    totalDeposit: sumItems(stores, i => i.depositTotal),
+                    totalExtraCost: sumItems(stores, i => i.extraCostTotal),
                     totalDistance: stores.reduce((sum, s) => sum + s.distance, 0),
                     savings: 0,
                     savingsPercent: 0,
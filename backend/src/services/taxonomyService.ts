@@ -0,0 +1,168 @@
+import fs from 'fs';
+import config from '../config/index.js';
+import { CATALOG_CATEGORIES, normalizeCatalogKey } from './catalogService.js';
+
+export const TAXONOMY_CATEGORIES = [...CATALOG_CATEGORIES, 'household', 'personal_care'] as const;
+
+export type TaxonomyCategory = typeof TAXONOMY_CATEGORIES[number];
+
+/**
+ * One grocery term in both languages, as defined in the taxonomy file.
+ */
+export interface TaxonomyTerm {
+    /** Norwegian search term every form translates to ("epler") */
+    no: string;
+    /** Other Norwegian forms, singular or plural ("eple") */
+    forms?: string[];
+    /** English forms ("apple", "apples"); the first one is used for reverse lookups */
+    en: string[];
+    category: TaxonomyCategory;
+    /** False when the Norwegian forms aren't compound-word heads ("egg" must not claim "mellomlegg") */
+    compound?: boolean;
+}
+
+interface TaxonomyFile {
+    version: number;
+    terms: TaxonomyTerm[];
+}
+
+/**
+ * Thrown when the taxonomy file is missing or invalid.
+ */
+export class TaxonomyError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`Invalid taxonomy: ${errors.join('; ')}`);
+        this.name = 'TaxonomyError';
+    }
+}
+
+// A compound needs at least this many letters before its head ("gul|ost", but not "fr|ost")
+const MIN_COMPOUND_PREFIX = 3;
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(v => typeof v === 'string' && v.trim() !== '');
+
+const validate = (data: unknown): TaxonomyFile => {
+    const terms = (data as TaxonomyFile | null)?.terms;
+    if (!Array.isArray(terms)) throw new TaxonomyError(['expected an object with a "terms" array']);
+
+    const errors: string[] = [];
+    terms.forEach((term, i) => {
+        const at = `term ${i + 1}${typeof term?.no === 'string' ? ` (${term.no})` : ''}`;
+        if (typeof term?.no !== 'string' || !term.no.trim()) errors.push(`${at}: no is required`);
+        if (term?.forms !== undefined && !isStringArray(term.forms)) errors.push(`${at}: forms must be an array of strings`);
+        if (!Array.isArray(term?.en) || (term.en.length > 0 && !isStringArray(term.en))) errors.push(`${at}: en must be an array of strings`);
+        if (!TAXONOMY_CATEGORIES.includes(term?.category)) errors.push(`${at}: category must be one of ${TAXONOMY_CATEGORIES.join(', ')}`);
+    });
+
+    if (errors.length > 0) throw new TaxonomyError(errors);
+    return { version: Number((data as TaxonomyFile).version) || 1, terms };
+};
+
+/**
+ * English <-> Norwegian grocery terms with their singular/plural forms and categories.
+ * Query translation (providers, offers, the price index lookup) and strict word matching all go
+ * through this module, so a term is translated the same way everywhere.
+ */
+export class TaxonomyService {
+    private terms: TaxonomyTerm[] = [];
+    private byForm = new Map<string, TaxonomyTerm>();
+    /** Norwegian forms usable as compound heads, longest first */
+    private heads: { form: string; term: TaxonomyTerm }[] = [];
+
+    constructor(private readonly filePath: string = config.taxonomyFile) {
+        this.load();
+    }
+
+    /**
+     * Reads and validates the taxonomy file.
+     * @throws TaxonomyError when the file is missing, invalid, or one form belongs to two terms.
+     */
+    public load() {
+        let data: unknown;
+        try {
+            data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        } catch (error) {
+            throw new TaxonomyError([`could not read ${this.filePath}: ${(error as Error).message}`]);
+        }
+        const { terms } = validate(data);
+
+        const byForm = new Map<string, TaxonomyTerm>();
+        const conflicts: string[] = [];
+        for (const term of terms) {
+            for (const form of new Set([term.no, ...(term.forms || []), ...term.en].map(normalizeCatalogKey))) {
+                const owner = byForm.get(form);
+                if (owner && owner !== term) conflicts.push(`"${form}" is used by both ${owner.no} and ${term.no}`);
+                else byForm.set(form, term);
+            }
+        }
+        if (conflicts.length > 0) throw new TaxonomyError(conflicts);
+
+        this.terms = terms;
+        this.byForm = byForm;
+        this.heads = terms
+            .filter(term => term.compound !== false)
+            .flatMap(term => this.getNorwegianForms(term).map(form => ({ form, term })))
+            .sort((a, b) => b.form.length - a.form.length);
+    }
+
+    public getTerms(): TaxonomyTerm[] {
+        return this.terms;
+    }
+
+    /**
+     * The term an English or Norwegian form belongs to ("apples", "eple" and "epler" are all the same term).
+     */
+    public lookup(word: string): TaxonomyTerm | undefined {
+        return this.byForm.get(normalizeCatalogKey(word));
+    }
+
+    /**
+     * Norwegian search term for a query: "apples" -> "epler", "gulrot" -> "gulrøtter".
+     * Unknown queries come back lowercased and trimmed.
+     */
+    public translate(query: string): string {
+        return this.lookup(query)?.no ?? normalizeCatalogKey(query);
+    }
+
+    /**
+     * Reverse lookup: the English name of a term ("epler" -> "apple"), or undefined for unknown terms.
+     */
+    public toEnglish(word: string): string | undefined {
+        return this.lookup(word)?.en[0];
+    }
+
+    /**
+     * Every Norwegian form of a query's term, or just the query when it's unknown ("epler" -> ["epler", "eple"]).
+     */
+    public getForms(query: string): string[] {
+        const term = this.lookup(query);
+        return term ? this.getNorwegianForms(term) : [normalizeCatalogKey(query)];
+    }
+
+    /**
+     * The term for a word, falling back to its compound-word head: "grovbrød" -> brød, "rødløk" -> løk.
+     */
+    public resolveCompound(word: string): TaxonomyTerm | undefined {
+        const exact = this.lookup(word);
+        if (exact) return exact;
+
+        const normalized = normalizeCatalogKey(word);
+        return this.heads.find(({ form }) =>
+            normalized.length - form.length >= MIN_COMPOUND_PREFIX && normalized.endsWith(form))?.term;
+    }
+
+    /**
+     * Category of a word or compound ("kyllingfilet" -> meat), or undefined when unknown.
+     */
+    public getCategory(word: string): TaxonomyCategory | undefined {
+        return this.resolveCompound(word)?.category;
+    }
+
+    private getNorwegianForms(term: TaxonomyTerm): string[] {
+        return [term.no, ...(term.forms || [])].map(normalizeCatalogKey);
+    }
+}
+
+export const taxonomyService = new TaxonomyService();
+export default taxonomyService;
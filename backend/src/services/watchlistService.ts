@@ -0,0 +1,343 @@
+import fsp from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config/index.js';
+import dataAggregator from './providers/DataAggregator.js';
+import priceIndexService from './PriceIndexService.js';
+import pushService, { PushSubscriptionRecord } from './pushService.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { calculateRelevanceScore, isStrictWordMatch } from '../utils/matching.js';
+
+/**
+ * A watched product or canonical item ("milk") with the price the user is waiting for.
+ */
+export interface WatchSubscription {
+    id: string;
+    deviceId: string;
+    productId?: string;
+    canonicalItem?: string;
+    /** Display name: the product name, or the canonical item */
+    name: string;
+    targetPrice: number;
+    /** Only prices at this chain count */
+    chain?: string;
+    created_at: string;
+    /** Cheapest matching price at the last check */
+    lastPrice?: number;
+    lastCheckedAt?: string;
+    /** Price of the last alert; cleared once the price goes back above the target so the next drop alerts again */
+    alertedPrice?: number;
+}
+
+export interface WatchAlert {
+    id: string;
+    deviceId: string;
+    subscriptionId: string;
+    name: string;
+    price: number;
+    targetPrice: number;
+    store: string;
+    chain: string;
+    productId?: string;
+    created_at: string;
+    read: boolean;
+}
+
+export type NewWatchSubscription = Pick<WatchSubscription, 'productId' | 'canonicalItem' | 'targetPrice' | 'chain'> & { name?: string };
+
+interface WatchlistState {
+    subscriptions: WatchSubscription[];
+    alerts: WatchAlert[];
+    push: Record<string, PushSubscriptionRecord[]>;
+}
+
+interface PriceQuote {
+    price: number;
+    store: string;
+    chain: string;
+    name: string;
+    productId?: string;
+}
+
+const MAX_SUBSCRIPTIONS_PER_DEVICE = 50;
+const MAX_ALERTS_PER_DEVICE = 100;
+// Live search results need a clear name match: "Melk 1l" counts for "melk", "Melkesjokolade" doesn't
+const MIN_SEARCH_RELEVANCE = 50;
+
+const matchesChain = (chain: string, wanted?: string): boolean =>
+    !wanted || chain.toLowerCase().includes(wanted.toLowerCase());
+
+const cheapest = <T extends { price: number }>(quotes: T[]): T | null =>
+    quotes.reduce<T | null>((best, q) => (!best || q.price < best.price ? q : best), null);
+
+/**
+ * Service to keep per-device watchlists and raise alerts when a watched price drops to its target.
+ * State lives in one JSON file so subscriptions survive restarts; devices are anonymous IDs generated by the app.
+ */
+export class WatchlistService {
+    private state: WatchlistState | null = null;
+    private loading: Promise<WatchlistState> | null = null;
+    private writing: Promise<void> = Promise.resolve();
+    private checking = false;
+
+    constructor(private readonly filePath: string = config.watchlistFile) { }
+
+    private async load(): Promise<WatchlistState> {
+        if (this.state) return this.state;
+        if (!this.loading) {
+            this.loading = (async () => {
+                try {
+                    const parsed = JSON.parse(await fsp.readFile(this.filePath, 'utf-8'));
+                    this.state = { subscriptions: parsed.subscriptions || [], alerts: parsed.alerts || [], push: parsed.push || {} };
+                } catch (error) {
+                    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                        console.warn(`[WatchlistService] Could not read ${this.filePath}, starting empty:`, (error as Error).message);
+                    }
+                    this.state = { subscriptions: [], alerts: [], push: {} };
+                }
+                return this.state;
+            })();
+        }
+        return this.loading;
+    }
+
+    /**
+     * Writes are chained so concurrent requests never interleave, and go through a tmp file + rename.
+     */
+    private save(): Promise<void> {
+        this.writing = this.writing.then(async () => {
+            if (!this.state) return;
+            try {
+                await fsp.mkdir(path.dirname(this.filePath), { recursive: true });
+                const tmp = `${this.filePath}.tmp`;
+                await fsp.writeFile(tmp, JSON.stringify(this.state, null, 2));
+                await fsp.rename(tmp, this.filePath);
+            } catch (error) {
+                console.error('[WatchlistService] Failed to save watchlist:', error);
+            }
+        });
+        return this.writing;
+    }
+
+    public async getSubscriptions(deviceId: string): Promise<WatchSubscription[]> {
+        const state = await this.load();
+        return state.subscriptions.filter(s => s.deviceId === deviceId);
+    }
+
+    public async addSubscription(deviceId: string, input: NewWatchSubscription): Promise<WatchSubscription> {
+        const state = await this.load();
+        const own = state.subscriptions.filter(s => s.deviceId === deviceId);
+        const canonicalItem = input.canonicalItem?.toLowerCase().trim() || undefined;
+
+        // Watching the same thing again just moves the target
+        const existing = own.find(s =>
+            s.productId === input.productId &&
+            s.canonicalItem === canonicalItem &&
+            (s.chain || '') === (input.chain || ''));
+        if (existing) {
+            existing.targetPrice = input.targetPrice;
+            delete existing.alertedPrice;
+            await this.save();
+            return existing;
+        }
+
+        if (own.length >= MAX_SUBSCRIPTIONS_PER_DEVICE) {
+            throw new ApiError(429, `Watchlist limit of ${MAX_SUBSCRIPTIONS_PER_DEVICE} items reached.`);
+        }
+
+        const subscription: WatchSubscription = {
+            id: uuidv4(),
+            deviceId,
+            ...(input.productId && { productId: input.productId }),
+            ...(canonicalItem && { canonicalItem }),
+            name: input.name || canonicalItem || String(input.productId),
+            targetPrice: input.targetPrice,
+            ...(input.chain && { chain: input.chain }),
+            created_at: new Date().toISOString()
+        };
+        state.subscriptions.push(subscription);
+        await this.save();
+        console.log(`[WatchlistService] New subscription ${subscription.id} for ${subscription.name}`);
+        return subscription;
+    }
+
+    public async removeSubscription(deviceId: string, id: string): Promise<void> {
+        const state = await this.load();
+        const index = state.subscriptions.findIndex(s => s.id === id && s.deviceId === deviceId);
+        if (index === -1) {
+            throw new ApiError(404, 'Watchlist item not found');
+        }
+        state.subscriptions.splice(index, 1);
+        await this.save();
+    }
+
+    /**
+     * Alerts for a device, newest first.
+     */
+    public async getAlerts(deviceId: string): Promise<WatchAlert[]> {
+        const state = await this.load();
+        return state.alerts
+            .filter(a => a.deviceId === deviceId)
+            .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    }
+
+    /**
+     * Marks the given alerts as read, or all of the device's alerts when no IDs are given.
+     */
+    public async markAlertsRead(deviceId: string, ids?: string[]): Promise<number> {
+        const state = await this.load();
+        let marked = 0;
+        for (const alert of state.alerts) {
+            if (alert.deviceId !== deviceId || alert.read || (ids && !ids.includes(alert.id))) continue;
+            alert.read = true;
+            marked++;
+        }
+        if (marked > 0) await this.save();
+        return marked;
+    }
+
+    public async addPushSubscription(deviceId: string, subscription: PushSubscriptionRecord): Promise<void> {
+        const state = await this.load();
+        const existing = (state.push[deviceId] || []).filter(s => s.endpoint !== subscription.endpoint);
+        state.push[deviceId] = [...existing, subscription];
+        await this.save();
+    }
+
+    public async removePushSubscription(deviceId: string, endpoint: string): Promise<void> {
+        const state = await this.load();
+        state.push[deviceId] = (state.push[deviceId] || []).filter(s => s.endpoint !== endpoint);
+        if (state.push[deviceId].length === 0) delete state.push[deviceId];
+        await this.save();
+    }
+
+    /**
+     * Cheapest current price for a subscription. Products are priced at every store selling their EAN;
+     * canonical items come from the price index, falling back to a live search when it has no entries.
+     */
+    private async getQuote(subscription: WatchSubscription): Promise<PriceQuote | null> {
+        if (subscription.productId) {
+            const product = await dataAggregator.getProductById(subscription.productId);
+            const listings = product.ean ? await dataAggregator.getProductsByEan(product.ean) : [];
+            const candidates = (listings.length > 0 ? listings : [product]).filter(p => p.price > 0 && matchesChain(p.chain, subscription.chain));
+            const best = cheapest(candidates);
+            return best && { price: best.price, store: best.store, chain: best.chain, name: best.name, productId: String(best.id) };
+        }
+
+        const item = subscription.canonicalItem!;
+        const indexed = priceIndexService
+            .getPricesForCanonicalItem(item, subscription.chain ? { chain: subscription.chain } : undefined)
+            .filter(e => e.availability && e.price > 0);
+        const bestEntry = cheapest(indexed);
+        if (bestEntry) {
+            return { price: bestEntry.price, store: bestEntry.chain, chain: bestEntry.chain, name: bestEntry.product_name };
+        }
+
+        const products = await dataAggregator.searchProducts(item);
+        const best = cheapest(products.filter(p => p.price > 0 && matchesChain(p.chain, subscription.chain) &&
+            isStrictWordMatch(p.name, item) && calculateRelevanceScore(p.name, item) >= MIN_SEARCH_RELEVANCE));
+        return best && { price: best.price, store: best.store, chain: best.chain, name: best.name, productId: String(best.id) };
+    }
+
+    /**
+     * Prices every subscription once and records an alert for each that dropped to its target.
+     * Subscriptions watching the same thing share one lookup. Returns the new alerts.
+     */
+    public async runChecks(now: Date = new Date()): Promise<WatchAlert[]> {
+        if (this.checking) return [];
+        this.checking = true;
+        try {
+            const state = await this.load();
+            const quotes = new Map<string, Promise<PriceQuote | null>>();
+            const created: WatchAlert[] = [];
+
+            for (const subscription of state.subscriptions) {
+                const key = `${subscription.productId || ''}|${subscription.canonicalItem || ''}|${subscription.chain || ''}`;
+                if (!quotes.has(key)) quotes.set(key, this.getQuote(subscription).catch(error => {
+                    console.warn(`[WatchlistService] Price check failed for ${subscription.name}:`, (error as Error).message);
+                    return null;
+                }));
+                const quote = await quotes.get(key)!;
+                if (!quote) continue;
+
+                subscription.lastPrice = quote.price;
+                subscription.lastCheckedAt = now.toISOString();
+
+                if (quote.price > subscription.targetPrice) {
+                    delete subscription.alertedPrice;
+                    continue;
+                }
+                if (subscription.alertedPrice !== undefined && quote.price >= subscription.alertedPrice) continue;
+
+                subscription.alertedPrice = quote.price;
+                created.push({
+                    id: uuidv4(),
+                    deviceId: subscription.deviceId,
+                    subscriptionId: subscription.id,
+                    name: subscription.name,
+                    price: quote.price,
+                    targetPrice: subscription.targetPrice,
+                    store: quote.store,
+                    chain: quote.chain,
+                    ...(quote.productId && { productId: quote.productId }),
+                    created_at: now.toISOString(),
+                    read: false
+                });
+            }
+
+            state.alerts.push(...created);
+            this.trimAlerts(state, created);
+            await this.save();
+            if (created.length > 0) {
+                console.log(`[WatchlistService] ${created.length} price alert(s) raised.`);
+                await this.deliverPush(state, created);
+            }
+            return created;
+        } finally {
+            this.checking = false;
+        }
+    }
+
+    private trimAlerts(state: WatchlistState, created: WatchAlert[]) {
+        for (const deviceId of new Set(created.map(a => a.deviceId))) {
+            const own = state.alerts.filter(a => a.deviceId === deviceId);
+            if (own.length <= MAX_ALERTS_PER_DEVICE) continue;
+            const drop = new Set(own.sort((a, b) => a.created_at.localeCompare(b.created_at)).slice(0, own.length - MAX_ALERTS_PER_DEVICE));
+            state.alerts = state.alerts.filter(a => !drop.has(a));
+        }
+    }
+
+    private async deliverPush(state: WatchlistState, alerts: WatchAlert[]) {
+        if (!pushService.isEnabled()) return;
+        let changed = false;
+        for (const alert of alerts) {
+            for (const subscription of state.push[alert.deviceId] || []) {
+                const result = await pushService.send(subscription, {
+                    title: alert.name,
+                    body: `${alert.price.toFixed(2)} kr at ${alert.store} (target ${alert.targetPrice.toFixed(2)} kr)`,
+                    url: '/',
+                    tag: alert.subscriptionId
+                });
+                if (result === 'gone') {
+                    state.push[alert.deviceId] = state.push[alert.deviceId].filter(s => s.endpoint !== subscription.endpoint);
+                    changed = true;
+                }
+            }
+        }
+        if (changed) await this.save();
+    }
+
+    /**
+     * Run price checks on an interval for as long as the server is up.
+     */
+    public scheduleChecks() {
+        const intervalMs = Math.max(1, config.watchlistCheckIntervalMinutes) * 60 * 1000;
+        const run = () => {
+            this.runChecks().catch(err => console.error('[WatchlistService] Scheduled check failed:', err));
+        };
+        setInterval(run, intervalMs).unref();
+        console.log(`[WatchlistService] Price checks scheduled every ${config.watchlistCheckIntervalMinutes} min.`);
+    }
+}
+
+export const watchlistService = new WatchlistService();
+export default watchlistService;
@@ -3,15 +3,48 @@ export interface Location {
     lng: number;
 }
 
+/**
+ * Structured data read from a product name (see utils/productAttributes).
+ * Quantities are normalized to kg, l or stk so packages of different sizes can be compared.
+ */
+export interface ProductAttributes {
+    /** Total net quantity of the package in `netUnit` (3.3 for "0.33L 10-pk", 12 for "12pk egg") */
+    netQuantity?: number;
+    netUnit?: 'kg' | 'l' | 'stk';
+    /** Items in a multipack ("6x0,33l", "4-pk", "12 stk") */
+    packCount?: number;
+    /** Size of one item in `netUnit`, for multipacks */
+    itemQuantity?: number;
+    fatPercent?: number;
+    organic: boolean;
+    /** Country of origin in Norwegian ("Norge", "Spania") */
+    origin?: string;
+    /** Canonical variant markers, e.g. "lett", "laktosefri", "frittgående", "zero" */
+    variants: string[];
+}
+
+/** Unit of `Product.unitPrice` */
+export type UnitPriceUnit = 'kr/kg' | 'kr/l' | 'kr/stk';
+
 export interface Product {
     id: string | number;
     name: string;
     englishName?: string;
+    ean?: string;
     price: number;
     store: string;
     chain: string;
+    /** Name of the data provider this price came from */
+    source?: string;
     image_url: string;
     unit: string;
+    /** Bottle/can deposit (pant) per package in kr. Already included in `price` */
+    deposit?: number;
+    /** Size, pack count, fat %, origin etc. parsed from the name */
+    attributes?: ProductAttributes;
+    /** Price per kg, liter or piece from the parsed net quantity, excluding deposit */
+    unitPrice?: number;
+    unitPriceUnit?: UnitPriceUnit;
     address?: string;
     relevanceScore?: number;
     originalQueryName?: string;
@@ -97,6 +130,8 @@ export interface KassalProduct {
         };
     };
     price?: number;
+    weight?: number;
+    weight_unit?: string;
     price_history?: Array<{
         price: number;
         date: string;
@@ -119,6 +154,41 @@ export interface KassalProduct {
     }>;
 }
 
+/**
+ * A weekly flyer deal for one chain, as imported by OfferService.
+ */
+export interface PromotionalOffer {
+    product_name: string;
+    product_name_en: string;
+    discount_type: 'percentage' | 'fixed_price' | 'multi_buy';
+    discount_percent?: number;
+    discount_value?: string;
+    final_price?: number;
+    /** Regular shelf price, when known (used to show the saving) */
+    original_price?: number;
+    currency?: string;
+    unit_info?: string;
+    unit?: string;
+    notes?: string;
+    brand?: string;
+    chain: string;
+    category: string;
+    /** Extra charges on top of the offer price as printed in the flyer (e.g. "pant") */
+    additional_cost?: string;
+    /** Deposit per package in kr, charged on top of the offer price. Derived from the name when additional_cost mentions pant */
+    deposit?: number;
+    /** Other per-package charges on top of the offer price in kr (e.g. "+ 5 kr" in additional_cost) */
+    extra_cost?: number;
+    /** Free-text note on which days the deal applies (e.g. "Friday") */
+    validity?: string;
+    /** First day the offer applies (YYYY-MM-DD, inclusive). Defaults to the Monday of its week */
+    valid_from?: string;
+    /** Last day the offer applies (YYYY-MM-DD, inclusive). Defaults to the Sunday of its week */
+    valid_to?: string;
+    /** ISO week the offer was imported for (e.g. "2026-W43") */
+    week?: string;
+}
+
 export interface APIResponse<T> {
     success: boolean;
     data?: T;
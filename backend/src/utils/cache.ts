@@ -1,18 +1,75 @@
-import NodeCache from 'node-cache';
 import config from '../config/index.js';
+import { CacheStore } from './cacheStores/CacheStore.js';
+import { MemoryCacheStore } from './cacheStores/MemoryCacheStore.js';
+import { FileCacheStore } from './cacheStores/FileCacheStore.js';
+import { RedisCacheStore } from './cacheStores/RedisCacheStore.js';
+
+interface NamespaceStats {
+    hits: number;
+    misses: number;
+    sets: number;
+}
 
 /**
- * A type-safe wrapper around node-cache for application-wide caching.
+ * Namespace of a key: everything before the first colon ("kassal:search:melk" -> "kassal").
  */
-class Cache {
-    private cache: NodeCache;
-
-    constructor(ttlSeconds: number) {
-        this.cache = new NodeCache({
-            stdTTL: ttlSeconds,
-            checkperiod: ttlSeconds * 0.2,
-            useClones: false, // For performance, avoid cloning objects
-        });
+const getNamespace = (key: string): string => {
+    const separator = key.indexOf(':');
+    return separator === -1 ? key : key.slice(0, separator);
+};
+
+/**
+ * Builds a stable key for an upstream lookup: the query is lowercased and whitespace-collapsed,
+ * options are serialized with sorted keys so `{ a, b }` and `{ b, a }` coalesce together.
+ */
+export const buildRequestKey = (namespace: string, query: string, options?: object): string => {
+    const normalizedQuery = query.toLowerCase().replace(/\s+/g, ' ').trim();
+    const stable = (value: unknown): unknown => {
+        if (Array.isArray(value)) return value.map(stable);
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(
+                Object.entries(value)
+                    .filter(([, v]) => v !== undefined)
+                    .sort(([a], [b]) => a.localeCompare(b))
+                    .map(([k, v]) => [k, stable(v)])
+            );
+        }
+        return value;
+    };
+    return `${namespace}:${normalizedQuery}:${JSON.stringify(stable(options || {}))}`;
+};
+
+/**
+ * A type-safe wrapper around a pluggable CacheStore for application-wide caching.
+ * Keys are namespaced by their first segment (`kassal:`, `ai:`, `route:`), and hits/misses are tracked per namespace.
+ */
+export class Cache {
+    private inFlight = new Map<string, Promise<unknown>>();
+    private singleFlightStats = { started: 0, coalesced: 0 };
+    private namespaceStats = new Map<string, NamespaceStats>();
+
+    constructor(private readonly store: CacheStore) { }
+
+    /**
+     * Restore persisted entries (file/Redis backends). Call once before serving requests.
+     */
+    public async init(): Promise<void> {
+        try {
+            await this.store.init();
+        } catch (error) {
+            console.error(`Cache Init Error [${this.store.backend}]:`, error);
+        }
+    }
+
+    /**
+     * Persist pending writes and close backend connections.
+     */
+    public async close(): Promise<void> {
+        try {
+            await this.store.close();
+        } catch (error) {
+            console.error(`Cache Close Error [${this.store.backend}]:`, error);
+        }
     }
 
     /**
@@ -23,7 +80,11 @@ class Cache {
      */
     public get<T>(key: string): T | undefined {
         try {
-            return this.cache.get<T>(key);
+            const value = this.store.get<T>(key);
+            const stats = this.getNamespaceStats(key);
+            if (value === undefined) stats.misses++;
+            else stats.hits++;
+            return value;
         } catch (error) {
             console.error(`Cache Get Error [${key}]:`, error);
             return undefined;
@@ -40,7 +101,8 @@ class Cache {
      */
     public set<T>(key: string, value: T, ttl?: number): boolean {
         try {
-            return this.cache.set(key, value, ttl || config.cacheTTL);
+            this.getNamespaceStats(key).sets++;
+            return this.store.set(key, value, ttl || config.cacheTTL);
         } catch (error) {
             console.error(`Cache Set Error [${key}]:`, error);
             return false;
@@ -54,19 +116,58 @@ class Cache {
      */
     public del(key: string | string[]): number {
         try {
-            return this.cache.del(key);
+            return this.store.del(Array.isArray(key) ? key : [key]);
         } catch (error) {
             console.error(`Cache Delete Error [${key}]:`, error);
             return 0;
         }
     }
 
+    /**
+     * Delete every key starting with a prefix (e.g. `kassal:search:` after a price sync).
+     * @param prefix The key prefix.
+     * @returns The number of deleted entries.
+     */
+    public invalidatePrefix(prefix: string): number {
+        try {
+            const keys = this.store.keys().filter(key => key.startsWith(prefix));
+            const deleted = keys.length > 0 ? this.store.del(keys) : 0;
+            if (deleted > 0) console.log(`[Cache] Invalidated ${deleted} keys with prefix "${prefix}"`);
+            return deleted;
+        } catch (error) {
+            console.error(`Cache Invalidate Error [${prefix}]:`, error);
+            return 0;
+        }
+    }
+
+    /**
+     * Single-flight: concurrent callers with the same key share one in-flight promise
+     * instead of each starting an identical upstream request. The entry is dropped as soon
+     * as the promise settles, so errors are not cached and later calls start fresh.
+     * @param key The request key (see buildRequestKey).
+     * @param fn Starts the underlying work; only called when nothing is in flight for the key.
+     */
+    public singleFlight<T>(key: string, fn: () => Promise<T>): Promise<T> {
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            this.singleFlightStats.coalesced++;
+            return pending as Promise<T>;
+        }
+
+        this.singleFlightStats.started++;
+        const promise = fn().finally(() => {
+            this.inFlight.delete(key);
+        });
+        this.inFlight.set(key, promise);
+        return promise;
+    }
+
     /**
      * Clear all cached data.
      */
     public flush(): void {
         try {
-            this.cache.flushAll();
+            this.store.flush();
         } catch (error) {
             console.error('Cache Flush Error:', error);
         }
@@ -74,19 +175,64 @@ class Cache {
 
     /**
      * Get cache statistics.
-     * @returns Statistics including hits, misses, and key count.
+     * @returns Backend, overall and per-namespace hits/misses, key counts, and single-flight coalescing counts.
      */
     public getStats() {
+        const keys = this.store.keys();
+        const namespaces: Record<string, NamespaceStats & { keys: number }> = {};
+        for (const [namespace, stats] of this.namespaceStats) {
+            namespaces[namespace] = { ...stats, keys: 0 };
+        }
+        for (const key of keys) {
+            const namespace = getNamespace(key);
+            namespaces[namespace] ??= { hits: 0, misses: 0, sets: 0, keys: 0 };
+            namespaces[namespace].keys++;
+        }
+
+        const totals = Object.values(namespaces);
         return {
-            stats: this.cache.getStats(),
-            keys: this.cache.keys().length,
+            backend: this.store.backend,
+            stats: {
+                hits: totals.reduce((sum, ns) => sum + ns.hits, 0),
+                misses: totals.reduce((sum, ns) => sum + ns.misses, 0),
+            },
+            keys: keys.length,
+            namespaces,
+            singleFlight: {
+                ...this.singleFlightStats,
+                inFlight: this.inFlight.size,
+            },
         };
     }
+
+    private getNamespaceStats(key: string): NamespaceStats {
+        const namespace = getNamespace(key);
+        let stats = this.namespaceStats.get(namespace);
+        if (!stats) {
+            stats = { hits: 0, misses: 0, sets: 0 };
+            this.namespaceStats.set(namespace, stats);
+        }
+        return stats;
+    }
 }
 
+/**
+ * Builds the configured backend (CACHE_BACKEND).
+ */
+const createStore = (): CacheStore => {
+    switch (config.cacheBackend) {
+        case 'file':
+            return new FileCacheStore(config.cacheFilePath, config.cacheTTL);
+        case 'redis':
+            return new RedisCacheStore(config.redisUrl, config.cacheTTL);
+        default:
+            return new MemoryCacheStore(config.cacheTTL);
+    }
+};
+
 /**
  * Singleton instance of the cache utility.
  */
-export const cacheInstance = new Cache(config.cacheTTL);
+export const cacheInstance = new Cache(createStore());
 
 export default cacheInstance;
@@ -0,0 +1,33 @@
+import type { CacheBackendName } from '../../config/index.js';
+
+/**
+ * Storage behind the Cache class.
+ * Reads are synchronous so call sites stay unchanged; persistent backends keep a local
+ * copy for reads and persist writes in the background.
+ */
+export interface CacheStore {
+    readonly backend: CacheBackendName;
+
+    /**
+     * Restores persisted entries. Called once at startup before the server accepts requests.
+     */
+    init(): Promise<void>;
+
+    get<T>(key: string): T | undefined;
+
+    /**
+     * @param ttlSeconds Lifetime in seconds (0 = no expiry)
+     */
+    set<T>(key: string, value: T, ttlSeconds: number): boolean;
+
+    del(keys: string[]): number;
+
+    keys(): string[];
+
+    flush(): void;
+
+    /**
+     * Persists pending writes and releases connections.
+     */
+    close(): Promise<void>;
+}
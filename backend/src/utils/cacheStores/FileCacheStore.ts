@@ -0,0 +1,122 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import type { CacheBackendName } from '../../config/index.js';
+import { MemoryCacheStore } from './MemoryCacheStore.js';
+
+interface PersistedEntry {
+    key: string;
+    value: unknown;
+    /** Absolute expiry in ms since epoch (0 = never) */
+    expiresAt: number;
+}
+
+interface CacheSnapshot {
+    version: 1;
+    savedAt: string;
+    entries: PersistedEntry[];
+}
+
+const SAVE_DEBOUNCE_MS = 2000;
+
+/**
+ * In-memory store that snapshots to a JSON file, so caches survive restarts and redeploys
+ * on a persistent volume. Writes are debounced and saved atomically (tmp file + rename).
+ */
+export class FileCacheStore extends MemoryCacheStore {
+    public readonly backend: CacheBackendName = 'file';
+    private dirty = false;
+    private saveTimer: NodeJS.Timeout | undefined;
+    private saving: Promise<void> | undefined;
+
+    constructor(private readonly filePath: string, ttlSeconds: number) {
+        super(ttlSeconds);
+    }
+
+    public async init(): Promise<void> {
+        let snapshot: CacheSnapshot;
+        try {
+            snapshot = JSON.parse(await fsp.readFile(this.filePath, 'utf-8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.warn(`[FileCacheStore] Could not read ${this.filePath}, starting empty:`, (error as Error).message);
+            }
+            return;
+        }
+
+        const now = Date.now();
+        let restored = 0;
+        for (const entry of snapshot.entries || []) {
+            if (entry.expiresAt === 0) {
+                this.cache.set(entry.key, entry.value, 0);
+            } else if (entry.expiresAt > now) {
+                this.cache.set(entry.key, entry.value, Math.ceil((entry.expiresAt - now) / 1000));
+            } else {
+                continue;
+            }
+            restored++;
+        }
+        console.log(`[FileCacheStore] Restored ${restored} entries from ${this.filePath}`);
+    }
+
+    public set<T>(key: string, value: T, ttlSeconds: number): boolean {
+        const ok = super.set(key, value, ttlSeconds);
+        this.markDirty();
+        return ok;
+    }
+
+    public del(keys: string[]): number {
+        const deleted = super.del(keys);
+        if (deleted > 0) this.markDirty();
+        return deleted;
+    }
+
+    public flush(): void {
+        super.flush();
+        this.markDirty();
+    }
+
+    public async close(): Promise<void> {
+        clearTimeout(this.saveTimer);
+        this.saveTimer = undefined;
+        await this.saving;
+        if (this.dirty) await this.save();
+        await super.close();
+    }
+
+    private markDirty() {
+        this.dirty = true;
+        if (this.saveTimer) return;
+
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.saving = this.save().finally(() => {
+                this.saving = undefined;
+            });
+        }, SAVE_DEBOUNCE_MS);
+        // Pending saves must not keep scripts alive; close() writes whatever is left
+        this.saveTimer.unref();
+    }
+
+    private async save(): Promise<void> {
+        this.dirty = false;
+        const entries: PersistedEntry[] = [];
+        for (const key of this.keys()) {
+            const value = this.cache.get(key);
+            const expiresAt = this.getExpiresAt(key);
+            if (value === undefined || expiresAt === undefined) continue;
+            entries.push({ key, value, expiresAt });
+        }
+
+        const snapshot: CacheSnapshot = { version: 1, savedAt: new Date().toISOString(), entries };
+        const tmpPath = `${this.filePath}.tmp`;
+        try {
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            await fsp.writeFile(tmpPath, JSON.stringify(snapshot));
+            await fsp.rename(tmpPath, this.filePath);
+        } catch (error) {
+            this.dirty = true;
+            console.error(`[FileCacheStore] Failed to write ${this.filePath}:`, (error as Error).message);
+        }
+    }
+}
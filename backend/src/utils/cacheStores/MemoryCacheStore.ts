@@ -0,0 +1,52 @@
+import NodeCache from 'node-cache';
+import type { CacheBackendName } from '../../config/index.js';
+import { CacheStore } from './CacheStore.js';
+
+/**
+ * Process-local store backed by node-cache. Also the read layer of the persistent stores.
+ */
+export class MemoryCacheStore implements CacheStore {
+    public readonly backend: CacheBackendName = 'memory';
+    protected cache: NodeCache;
+
+    constructor(ttlSeconds: number) {
+        this.cache = new NodeCache({
+            stdTTL: ttlSeconds,
+            checkperiod: ttlSeconds * 0.2,
+            useClones: false, // For performance, avoid cloning objects
+        });
+    }
+
+    public async init(): Promise<void> { }
+
+    public get<T>(key: string): T | undefined {
+        return this.cache.get<T>(key);
+    }
+
+    public set<T>(key: string, value: T, ttlSeconds: number): boolean {
+        return this.cache.set(key, value, ttlSeconds);
+    }
+
+    public del(keys: string[]): number {
+        return this.cache.del(keys);
+    }
+
+    public keys(): string[] {
+        return this.cache.keys();
+    }
+
+    public flush(): void {
+        this.cache.flushAll();
+    }
+
+    public async close(): Promise<void> {
+        this.cache.close();
+    }
+
+    /**
+     * Absolute expiry timestamp in ms (0 = never), or undefined for unknown keys.
+     */
+    protected getExpiresAt(key: string): number | undefined {
+        return this.cache.getTtl(key);
+    }
+}
@@ -0,0 +1,103 @@
+import { Redis } from 'ioredis';
+import type { CacheBackendName } from '../../config/index.js';
+import { MemoryCacheStore } from './MemoryCacheStore.js';
+
+const SCAN_BATCH = 500;
+
+/**
+ * In-memory store written through to Redis (or any Redis-protocol server such as Valkey or Dragonfly).
+ * Reads are served locally; every write is mirrored to Redis with the same TTL, and the local
+ * copy is rebuilt from Redis on startup. If Redis is unreachable the store keeps working in memory.
+ */
+export class RedisCacheStore extends MemoryCacheStore {
+    public readonly backend: CacheBackendName = 'redis';
+    private client: Redis;
+
+    constructor(url: string, ttlSeconds: number, private readonly keyPrefix = 'smarthandel:cache:') {
+        super(ttlSeconds);
+        this.client = new Redis(url, {
+            lazyConnect: true,
+            enableOfflineQueue: false,
+            maxRetriesPerRequest: 1
+        });
+        this.client.on('error', (error: Error) => {
+            console.error('[RedisCacheStore] Connection error:', error.message);
+        });
+    }
+
+    public async init(): Promise<void> {
+        try {
+            await this.client.connect();
+        } catch (error) {
+            console.warn('[RedisCacheStore] Redis unavailable, caching in memory only:', (error as Error).message);
+            return;
+        }
+
+        let cursor = '0';
+        let restored = 0;
+        do {
+            const [next, keys] = await this.client.scan(cursor, 'MATCH', `${this.keyPrefix}*`, 'COUNT', SCAN_BATCH);
+            cursor = next;
+            if (keys.length === 0) continue;
+
+            const pipeline = this.client.pipeline();
+            keys.forEach(key => pipeline.get(key).pttl(key));
+            const results = (await pipeline.exec()) || [];
+
+            keys.forEach((key, i) => {
+                const raw = results[i * 2]?.[1] as string | null;
+                const pttl = results[i * 2 + 1]?.[1] as number;
+                // pttl: -1 = no expiry, -2 = expired since SCAN
+                if (raw === null || pttl === -2) return;
+                try {
+                    super.set(key.slice(this.keyPrefix.length), JSON.parse(raw), pttl === -1 ? 0 : Math.ceil(pttl / 1000));
+                    restored++;
+                } catch {
+                    // Skip values that were not written by this store
+                }
+            });
+        } while (cursor !== '0');
+
+        console.log(`[RedisCacheStore] Restored ${restored} entries from Redis`);
+    }
+
+    public set<T>(key: string, value: T, ttlSeconds: number): boolean {
+        const ok = super.set(key, value, ttlSeconds);
+        if (this.isReady()) {
+            const payload = JSON.stringify(value);
+            const write = ttlSeconds > 0
+                ? this.client.set(this.keyPrefix + key, payload, 'EX', ttlSeconds)
+                : this.client.set(this.keyPrefix + key, payload);
+            write.catch(error => console.error(`[RedisCacheStore] SET ${key} failed:`, error.message));
+        }
+        return ok;
+    }
+
+    public del(keys: string[]): number {
+        const deleted = super.del(keys);
+        if (this.isReady() && keys.length > 0) {
+            this.client.del(...keys.map(key => this.keyPrefix + key))
+                .catch(error => console.error('[RedisCacheStore] DEL failed:', error.message));
+        }
+        return deleted;
+    }
+
+    public flush(): void {
+        // Local keys mirror Redis, so deleting them clears this app's namespace without touching other data
+        this.del(this.keys());
+        super.flush();
+    }
+
+    public async close(): Promise<void> {
+        if (this.isReady()) {
+            await this.client.quit().catch(() => this.client.disconnect());
+        } else {
+            this.client.disconnect();
+        }
+        await super.close();
+    }
+
+    private isReady(): boolean {
+        return this.client.status === 'ready';
+    }
+}
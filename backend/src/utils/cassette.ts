@@ -0,0 +1,220 @@
+import fs from 'fs';
+import path from 'path';
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import config, { CassetteMode } from '../config/index.js';
+
+/**
+ * What identifies a recorded call. Secrets (Authorization headers, API keys) are never part of it.
+ */
+export interface CassetteRequest {
+    method: string;
+    url: string;
+    params?: Record<string, unknown>;
+    body?: unknown;
+}
+
+export interface CassetteResponse {
+    status: number;
+    headers?: Record<string, string>;
+    data: unknown;
+}
+
+interface CassetteEntry {
+    request: CassetteRequest;
+    response: CassetteResponse;
+}
+
+interface CassetteFile {
+    name: string;
+    recordedAt: string;
+    entries: CassetteEntry[];
+}
+
+// Only headers the app reacts to are kept; everything else is noise in the cassette
+const RECORDED_HEADERS = ['content-type', 'retry-after', 'x-ratelimit-limit', 'x-ratelimit-remaining'];
+
+/**
+ * Serializes a request into a lookup key: method, url and params/body with sorted keys,
+ * so the same call always maps to the same recording regardless of property order.
+ */
+const toKey = (request: CassetteRequest): string => {
+    const stable = (value: unknown): unknown => {
+        if (Array.isArray(value)) return value.map(stable);
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(
+                Object.entries(value)
+                    .filter(([, v]) => v !== undefined && v !== null)
+                    .sort(([a], [b]) => a.localeCompare(b))
+                    .map(([k, v]) => [k, stable(v)])
+            );
+        }
+        return value;
+    };
+    const params = request.params ? JSON.stringify(stable(request.params)) : '';
+    const body = request.body !== undefined ? JSON.stringify(stable(request.body)) : '';
+    return `${request.method.toUpperCase()} ${request.url} ${params} ${body}`.trim();
+};
+
+/**
+ * Record/replay store for outbound HTTP traffic (one JSON file per upstream).
+ * - record: calls go to the network and every request/response pair is written to the cassette.
+ * - replay: calls never leave the process; responses come from the cassette, and an unrecorded
+ *   request fails loudly instead of silently hitting the network.
+ * - off: calls pass straight through.
+ */
+export class Cassette {
+    private entries = new Map<string, CassetteEntry>();
+    private loaded = false;
+    private readonly filePath: string;
+
+    constructor(
+        private readonly name: string,
+        public readonly mode: CassetteMode = config.cassetteMode,
+        dir: string = config.cassetteDir
+    ) {
+        this.filePath = path.join(dir, `${name}.json`);
+    }
+
+    public get isReplaying(): boolean {
+        return this.mode === 'replay';
+    }
+
+    /**
+     * Runs `perform` according to the mode: passes through, records its result, or replays a recording.
+     * `perform` must resolve to plain JSON data.
+     */
+    public async intercept<T>(request: CassetteRequest, perform: () => Promise<T>): Promise<T> {
+        if (this.mode === 'off') return perform();
+
+        if (this.mode === 'replay') {
+            return this.find(request).data as T;
+        }
+
+        const data = await perform();
+        this.record(request, { status: 200, data });
+        return data;
+    }
+
+    /**
+     * Routes an axios instance through the cassette by wrapping its adapter.
+     * Recorded error responses (404, 429, 5xx) are replayed as the same AxiosError.
+     */
+    public attachToAxios(instance: AxiosInstance): void {
+        if (this.mode === 'off') return;
+
+        const networkAdapter = axios.getAdapter(instance.defaults.adapter);
+
+        instance.defaults.adapter = async (requestConfig: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+            const request = this.describeAxiosRequest(requestConfig);
+
+            if (this.mode === 'replay') {
+                const recorded = this.find(request);
+                const response: AxiosResponse = {
+                    data: recorded.data,
+                    status: recorded.status,
+                    statusText: '',
+                    headers: recorded.headers || {},
+                    config: requestConfig,
+                    request: {}
+                };
+                const validateStatus = requestConfig.validateStatus;
+                if (!validateStatus || validateStatus(recorded.status)) return response;
+
+                throw new AxiosError(
+                    `Request failed with status code ${recorded.status}`,
+                    recorded.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+                    requestConfig,
+                    {},
+                    response
+                );
+            }
+
+            try {
+                const response = await networkAdapter(requestConfig);
+                this.record(request, this.toCassetteResponse(response));
+                return response;
+            } catch (error) {
+                if (axios.isAxiosError(error) && error.response) {
+                    this.record(request, this.toCassetteResponse(error.response));
+                }
+                throw error;
+            }
+        };
+    }
+
+    private describeAxiosRequest(requestConfig: InternalAxiosRequestConfig): CassetteRequest {
+        const base = requestConfig.baseURL || '';
+        const url = requestConfig.url || '';
+        const body = typeof requestConfig.data === 'string' ? JSON.parse(requestConfig.data) : requestConfig.data;
+        return {
+            method: requestConfig.method || 'get',
+            url: /^https?:\/\//.test(url) ? url : `${base.replace(/\/$/, '')}/${url.replace(/^\//, '')}`,
+            params: requestConfig.params,
+            body
+        };
+    }
+
+    private toCassetteResponse(response: AxiosResponse): CassetteResponse {
+        const headers: Record<string, string> = {};
+        for (const name of RECORDED_HEADERS) {
+            const value = response.headers?.[name];
+            if (value !== undefined && value !== null) headers[name] = String(value);
+        }
+
+        // Adapters hand back the raw body; store JSON as JSON so cassettes stay readable
+        let data = response.data;
+        if (typeof data === 'string') {
+            try {
+                data = JSON.parse(data);
+            } catch {
+                // Not JSON; keep the raw text
+            }
+        }
+        return { status: response.status, headers, data };
+    }
+
+    private find(request: CassetteRequest): CassetteResponse {
+        this.load();
+        const entry = this.entries.get(toKey(request));
+        if (!entry) {
+            throw new Error(`[Cassette] No recording in ${this.name} for ${toKey(request)}. Re-record with HTTP_CASSETTE_MODE=record.`);
+        }
+        return entry.response;
+    }
+
+    private record(request: CassetteRequest, response: CassetteResponse): void {
+        this.load();
+        this.entries.set(toKey(request), { request, response });
+
+        const file: CassetteFile = {
+            name: this.name,
+            recordedAt: new Date().toISOString(),
+            entries: Array.from(this.entries.entries())
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([, entry]) => entry)
+        };
+        try {
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2) + '\n');
+        } catch (error) {
+            console.error(`[Cassette] Failed to write ${this.filePath}:`, (error as Error).message);
+        }
+    }
+
+    private load(): void {
+        if (this.loaded) return;
+        this.loaded = true;
+
+        if (!fs.existsSync(this.filePath)) {
+            if (this.mode === 'replay') {
+                console.warn(`[Cassette] ${this.filePath} does not exist; every ${this.name} request will fail in replay mode.`);
+            }
+            return;
+        }
+
+        const file: CassetteFile = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        for (const entry of file.entries || []) {
+            this.entries.set(toKey(entry.request), entry);
+        }
+    }
+}
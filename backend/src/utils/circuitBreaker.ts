@@ -0,0 +1,134 @@
+import { ApiError } from '../middleware/errorHandler.js';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+    /** Consecutive failures that trip the breaker open */
+    failureThreshold: number;
+    /** How long the breaker stays open before letting a trial request through */
+    resetTimeoutMs: number;
+    /** Decides whether an error means the upstream is unhealthy (default: every error counts) */
+    isFailure?: (error: unknown) => boolean;
+}
+
+export interface CircuitBreakerStatus {
+    name: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    openedAt: string | null;
+    nextAttemptAt: string | null;
+}
+
+/**
+ * Thrown instead of calling the upstream while the breaker is open.
+ */
+export class CircuitOpenError extends ApiError {
+    constructor(name: string, public readonly retryAt: Date) {
+        super(503, `${name} is temporarily unavailable. Retrying after ${retryAt.toISOString()}.`);
+    }
+}
+
+/**
+ * Circuit breaker for an unreliable upstream.
+ * - closed: calls pass through; consecutive failures are counted.
+ * - open: calls fail fast with CircuitOpenError until the reset timeout elapses.
+ * - half_open: a single trial call is let through; success closes the breaker, failure re-opens it.
+ */
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt = 0;
+    private trialInFlight = false;
+
+    constructor(
+        private readonly name: string,
+        private readonly options: CircuitBreakerOptions
+    ) { }
+
+    public async execute<T>(fn: () => Promise<T>): Promise<T> {
+        this.beforeCall();
+
+        try {
+            const result = await fn();
+            this.onSuccess();
+            return result;
+        } catch (error) {
+            const countsAsFailure = this.options.isFailure ? this.options.isFailure(error) : true;
+            if (countsAsFailure) {
+                this.onFailure();
+            } else {
+                // The upstream answered (e.g. a 404), so it is healthy
+                this.onSuccess();
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Throws CircuitOpenError while the breaker is open, without claiming the half-open trial slot.
+     * Lets callers bail out before doing any queueing work.
+     */
+    public assertCallable(): void {
+        if (this.getState() === 'open') {
+            throw new CircuitOpenError(this.name, new Date(this.openedAt + this.options.resetTimeoutMs));
+        }
+    }
+
+    public getState(): CircuitState {
+        if (this.state === 'open' && Date.now() >= this.openedAt + this.options.resetTimeoutMs) {
+            return 'half_open';
+        }
+        return this.state;
+    }
+
+    public getStatus(): CircuitBreakerStatus {
+        const state = this.getState();
+        return {
+            name: this.name,
+            state,
+            consecutiveFailures: this.consecutiveFailures,
+            openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+            nextAttemptAt: state === 'open' ? new Date(this.openedAt + this.options.resetTimeoutMs).toISOString() : null
+        };
+    }
+
+    private beforeCall() {
+        const state = this.getState();
+
+        if (state === 'open') {
+            throw new CircuitOpenError(this.name, new Date(this.openedAt + this.options.resetTimeoutMs));
+        }
+
+        if (state === 'half_open') {
+            // Only one trial request at a time; everyone else keeps failing fast
+            if (this.trialInFlight) {
+                throw new CircuitOpenError(this.name, new Date(Date.now() + this.options.resetTimeoutMs));
+            }
+            this.state = 'half_open';
+            this.trialInFlight = true;
+        }
+    }
+
+    private onSuccess() {
+        if (this.state !== 'closed') {
+            console.log(`[CircuitBreaker] ${this.name} recovered. Closing circuit.`);
+        }
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+        this.openedAt = 0;
+        this.trialInFlight = false;
+    }
+
+    private onFailure() {
+        this.consecutiveFailures++;
+
+        if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+            if (this.state !== 'open') {
+                console.warn(`[CircuitBreaker] ${this.name} opened after ${this.consecutiveFailures} consecutive failures.`);
+            }
+            this.state = 'open';
+            this.openedAt = Date.now();
+        }
+        this.trialInFlight = false;
+    }
+}
@@ -0,0 +1,54 @@
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, escaped quotes ("") and newlines inside quotes.
+ * The delimiter is detected from the header row (comma or semicolon, as Norwegian Excel exports use).
+ *
+ * @returns One object per data row, keyed by the trimmed header names. Empty lines are skipped.
+ */
+export const parseCsv = (content: string): Record<string, string>[] => {
+    const text = content.replace(/^\uFEFF/, ''); // Strip BOM from Excel exports
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    const [header, ...data] = rows.filter(r => r.some(cell => cell.trim() !== ''));
+    if (!header) return [];
+
+    const columns = header.map(h => h.trim());
+    return data.map(cells => Object.fromEntries(columns.map((column, i) => [column, (cells[i] ?? '').trim()])));
+};
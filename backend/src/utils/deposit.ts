@@ -0,0 +1,86 @@
+/**
+ * Bottle and can deposit (pant) in Norway: 2 kr per container up to and including 0.5 l, 3 kr above.
+ * Shelf prices include it; flyer prices are quoted "+ pant", so it has to be added back when an offer is applied.
+ */
+export const DEPOSIT_SMALL = 2;
+export const DEPOSIT_LARGE = 3;
+const SMALL_CONTAINER_MAX_LITERS = 0.5;
+
+// Drinks sold in deposit bottles and cans (juice cartons, milk and syrup have no deposit)
+const DEPOSIT_KEYWORDS = [
+    'brus', 'cola', 'coca-cola', 'pepsi', 'fanta', 'sprite', 'solo', 'urge', 'faxe', 'mozell', 'sitronbrus',
+    'monster', 'red bull', 'battery', 'burn', 'celsius', 'nocco', 'energidrikk',
+    'øl', 'pils', 'lager', 'ipa', 'radler', 'cider', 'rusbrus',
+    'farris', 'imsdal', 'olden', 'bonaqua', 'kildevann', 'mineralvann', 'iste', 'ice tea'
+];
+const NO_DEPOSIT_KEYWORDS = ['kartong', 'sirup', 'saft', 'pulver', 'smakstilsetning', 'drops', 'godteri', 'tyggegummi', 'chips'];
+
+export interface Container {
+    /** Volume of one container in liters */
+    liters: number;
+    /** Containers per package (6 for a "6-pk") */
+    count: number;
+}
+
+const toLiters = (amount: string, unit: string): number => {
+    const value = Number(amount.replace(',', '.'));
+    switch (unit.toLowerCase()) {
+        case 'ml': return value / 1000;
+        case 'cl': return value / 100;
+        case 'dl': return value / 10;
+        default: return value;
+    }
+};
+
+/**
+ * Reads container size and pack count from a product name:
+ * "Coca-Cola 1,5l", "Pepsi Max 0.33L 10-pk", "Red Bull 250 ml 4-pk", "Solo 6x0,33l".
+ */
+export const parseContainer = (name: string): Container | null => {
+    const text = name.toLowerCase();
+
+    const multiPack = /(\d+)\s*[x×]\s*(\d+(?:[.,]\d+)?)\s*(ml|cl|dl|l|liter)\b/.exec(text);
+    if (multiPack) {
+        return { liters: toLiters(multiPack[2], multiPack[3]), count: Number(multiPack[1]) };
+    }
+
+    const size = /(\d+(?:[.,]\d+)?)\s*(ml|cl|dl|l|liter)\b/.exec(text);
+    if (!size) return null;
+
+    const pack = /(\d+)\s*-?\s*(?:pk|pack|stk|boks(?:er)?)\b/.exec(text);
+    return { liters: toLiters(size[1], size[2]), count: pack ? Number(pack[1]) : 1 };
+};
+
+/**
+ * Container from structured volume data (Kassal's weight/weight_unit), when it is a volume.
+ */
+export const containerFromWeight = (weight?: number, unit?: string): Container | undefined => {
+    if (!weight || !unit || !/^(ml|cl|dl|l)$/i.test(unit)) return undefined;
+    return { liters: toLiters(String(weight), unit), count: 1 };
+};
+
+/**
+ * Whether a product is a drink sold in a deposit container.
+ */
+export const hasDeposit = (name: string): boolean => {
+    const text = ` ${name.toLowerCase()} `;
+    if (NO_DEPOSIT_KEYWORDS.some(k => text.includes(k))) return false;
+    return DEPOSIT_KEYWORDS.some(k => new RegExp(`[\\s(/-]${k}`).test(text));
+};
+
+/**
+ * Deposit per container for a volume in liters.
+ */
+export const depositForContainer = (liters: number): number =>
+    liters > SMALL_CONTAINER_MAX_LITERS ? DEPOSIT_LARGE : DEPOSIT_SMALL;
+
+/**
+ * Deposit for one package of a product (all containers in a multipack), or 0 when none applies.
+ * @param fallback Container size from structured data when the name doesn't state it.
+ */
+export const getDeposit = (name: string, fallback?: Container): number => {
+    if (!hasDeposit(name)) return 0;
+    const container = parseContainer(name) || fallback;
+    if (!container || container.liters <= 0 || container.liters > 5) return 0;
+    return depositForContainer(container.liters) * container.count;
+};
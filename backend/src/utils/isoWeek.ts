@@ -0,0 +1,61 @@
+/**
+ * ISO-8601 week helpers. Weekly flyers are versioned by ISO week ("2026-W43"),
+ * which in Norway runs Monday to Sunday like the chains' offer periods.
+ */
+
+const ISO_WEEK_PATTERN = /^(\d{4})-W(\d{2})$/;
+
+export const isIsoWeek = (value: string): boolean => {
+    const match = ISO_WEEK_PATTERN.exec(value);
+    if (!match) return false;
+    const week = Number(match[2]);
+    return week >= 1 && week <= 53;
+};
+
+/**
+ * Returns the ISO week for a date, e.g. 2026-10-19 -> "2026-W43".
+ */
+export const getIsoWeek = (date: Date = new Date()): string => {
+    // Thursday of the current week decides the ISO year
+    const day = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+    const weekday = day.getUTCDay() || 7;
+    day.setUTCDate(day.getUTCDate() + 4 - weekday);
+
+    const yearStart = new Date(Date.UTC(day.getUTCFullYear(), 0, 1));
+    const week = Math.ceil(((day.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+    return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+};
+
+/**
+ * Monday 00:00 (local time) of an ISO week.
+ */
+export const getIsoWeekStart = (isoWeek: string): Date => {
+    const match = ISO_WEEK_PATTERN.exec(isoWeek);
+    if (!match) throw new Error(`Invalid ISO week "${isoWeek}"`);
+    const year = Number(match[1]);
+    const week = Number(match[2]);
+
+    // January 4th is always in week 1
+    const jan4 = new Date(year, 0, 4);
+    const jan4Weekday = jan4.getDay() || 7;
+    return new Date(year, 0, 4 - jan4Weekday + 1 + (week - 1) * 7);
+};
+
+/**
+ * Calendar date in local time as YYYY-MM-DD. Offer validity is compared on these keys.
+ */
+export const toDateKey = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Parses a YYYY-MM-DD date key as local midnight. Returns null for anything else, including impossible dates.
+ */
+export const parseDateKey = (value: string): Date | null => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) return null;
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return toDateKey(date) === value ? date : null;
+};
+
+export const addDays = (date: Date, days: number): Date =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
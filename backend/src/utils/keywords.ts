@@ -0,0 +1,11 @@
+/**
+ * True when a product name contains a keyword.
+ * Keywords shorter than three characters ("is", "m/") only count at the start of a word,
+ * so "is" matches "Is Sjokolade" but not "Økologisk Lettmelk" or "Ris".
+ */
+export function containsKeyword(productName: string, keyword: string): boolean {
+    const name = productName.toLowerCase();
+    const kw = keyword.toLowerCase();
+    if (kw.trim().length >= 3) return name.includes(kw);
+    return name.split(/[^\p{L}\d/]+/u).some(word => word.startsWith(kw.trim()));
+}
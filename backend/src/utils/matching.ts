@@ -1,4 +1,10 @@
 import { Product, Store } from '../types/index.js';
+import catalogService from '../services/catalogService.js';
+import taxonomyService from '../services/taxonomyService.js';
+import relevanceRuleService, { RuleContext } from '../services/relevanceRuleService.js';
+import matchCorrectionService from '../services/matchCorrectionService.js';
+import { comparablePrices } from './unitPrice.js';
+import { getPackageCount } from './packageCount.js';
 
 /**
  * Centeralized logic to determine if a product belongs to a specific store instance or its chain.
@@ -11,6 +17,18 @@ export enum MatchLevel {
     BRANCH = 3
 }
 
+/**
+ * Serializable form of MatchLevel, attached to priced items so clients can tell
+ * a real branch price from a chain-wide estimate.
+ */
+export type PriceLevel = 'branch' | 'chain' | 'parent';
+
+export function toPriceLevel(level: MatchLevel): PriceLevel {
+    if (level === MatchLevel.BRANCH) return 'branch';
+    if (level === MatchLevel.CHAIN) return 'chain';
+    return 'parent';
+}
+
 /**
  * Centeralized logic to determine the match quality between a product and a store.
  */
@@ -75,107 +93,31 @@ export function matchProductToStore(product: Product, store: Store): boolean {
  * Selects the best product from a list for a specific store.
  * Prioritizes MatchLevel, then Relevance, then Price.
  */
-// Shared mappings for normalization
-export const QUERY_MAPPINGS: Record<string, string> = {
-    'apple': 'epler', 'apples': 'epler', 'eple': 'epler',
-    'banana': 'bananer', 'bananas': 'bananer', 'banan': 'bananer',
-    'pear': 'pærer', 'pears': 'pærer', 'pære': 'pærer',
-    'orange': 'appelsiner', 'oranges': 'appelsiner', 'appelsin': 'appelsiner',
-    'grapes': 'druer', 'drue': 'druer',
-    'lemon': 'sitron', 'lemons': 'sitroner',
-    'lime': 'lime', 'limes': 'lime',
-    'carrot': 'gulrøtter', 'carrots': 'gulrøtter', 'gulrot': 'gulrøtter',
-    'potato': 'poteter', 'potatoes': 'poteter', 'potet': 'poteter',
-    'tomato': 'tomater', 'tomatoes': 'tomater', 'tomat': 'tomater',
-    'cucumber': 'agurk', 'cucumbers': 'agurk',
-    'broccoli': 'brokkoli',
-    'onion': 'løk', 'onions': 'løk',
-    'garlic': 'hvitløk',
-    'paprika': 'paprika', 'peppers': 'paprika',
-    'bread': 'brød',
-    'pasta': 'pasta',
-    'rice': 'ris',
-    'milk': 'melk',
-    'cheese': 'hvitost',
-    'butter': 'smør',
-    'eggs': 'egg', 'egg': 'egg',
-    'kneipp': 'kneippbrød',
-    'chicken': 'kylling',
-    'chicken fillet': 'kyllingfilet',
-    'chicken breast': 'kyllingbryst',
-    'chicken thigh': 'kyllinglår',
-    'minced meat': 'kjøttdeig', 'ground meat': 'kjøttdeig',
-    'minced beef': 'karbonadedeig',
-    'salmon': 'laks',
-    'sausages': 'pølser', 'sausage': 'pølser', 'pølse': 'pølser',
-    'bacon': 'bacon',
-    'coffee': 'kaffe',
-    'pizza': 'pizza',
-    'taco': 'taco',
-    'soda': 'brus',
-    'orange juice': 'appelsinjuice',
-    'flour': 'hvetemel', 'wheat flour': 'hvetemel',
-    'sugar': 'sukker',
-    'salt': 'salt',
-    'pepper': 'pepper',
-    'oil': 'olje', 'cooking oil': 'matolje',
-    'cream': 'fløte',
-    'sour cream': 'rømme',
-    'yogurt': 'yoghurt',
-    'yeast': 'gjær',
-    'baking powder': 'bakepulver',
-    'vanilla sugar': 'vaniljesukker',
-    'cinnamon': 'kanel',
-    'cardamom': 'kardemomme',
-    'oats': 'havregryn', 'oatmeal': 'havregryn',
-    'corn': 'mais',
-    'noodles': 'nudler',
-    'tuna': 'tunfisk',
-    'ham': 'skinke',
-    'salami': 'salami',
-    'jam': 'syltetøy',
-    'honey': 'honning',
-    'ketchup': 'ketchup',
-    'mustard': 'sennep',
-    'mayonnaise': 'majones',
-    'soap': 'såpe', 'hand soap': 'håndsåpe',
-    'shampoo': 'sjampo',
-    'conditioner': 'balsam',
-    'toilet paper': 'toalettpapir',
-    'diapers': 'bleier',
-    'toothpaste': 'tannkrem',
-    'toothbrush': 'tannbørste',
-    'shave': 'barber', 'shaving': 'barber',
-    'deodorant': 'deodorant',
-    'laundry detergent': 'vaskemiddel',
-    'dishwasher tablets': 'oppvaskmaskin',
-    'cleaning spray': 'rengjøringsspray',
-};
-
 /**
  * Ensures that a query word exists as a standalone word in the product name.
  * Prevents "Mellomleggspapir" from matching "egg".
  */
 export function isStrictWordMatch(productName: string, query: string): boolean {
     const normalizedName = productName.toLowerCase();
-    const normalizedQuery = query.toLowerCase();
-    const mappedQuery = QUERY_MAPPINGS[normalizedQuery] || normalizedQuery;
 
     // Word boundary regex: \bquery\b
     // In Norwegian, compound words are extremely common (e.g., "Grovbrød", "Kyllingfilet")
     // We allow the match if it's at a word boundary on EITHER side.
     // This allows "Kylling" to match "Kyllingfilet" (starts with) and "brød" to match "Grovbrød" (ends with),
     // while still preventing "egg" from matching "Mellomleggspapir" (middle).
-    const strictRegex = new RegExp(`(\\b${mappedQuery})|(${mappedQuery}\\b)`, 'i');
-    return strictRegex.test(normalizedName);
+    // Any Norwegian form of the term counts, so "apples" (-> "epler") also matches "Eple Pink Lady".
+    return taxonomyService.getForms(query).some(form => {
+        const escaped = form.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(`(\\b${escaped})|(${escaped}\\b)`, 'i').test(normalizedName);
+    });
 }
 
-export function calculateRelevanceScore(productName: string, query: string): number {
+export function calculateRelevanceScore(productName: string, query: string, context: RuleContext = {}): number {
     const normalizedName = productName.toLowerCase();
     const normalizedQuery = query.toLowerCase();
 
     // Unmap the query if possible (e.g. "milk" -> "melk")
-    const mappedQuery = QUERY_MAPPINGS[normalizedQuery] || normalizedQuery;
+    const mappedQuery = taxonomyService.translate(normalizedQuery);
 
     let score = 0;
 
@@ -212,193 +154,45 @@ export function calculateRelevanceScore(productName: string, query: string): num
     // 6. Length penalty (shorter names preferred) to avoid specific variations when generic requested
     score -= (normalizedName.length - mappedQuery.length) * 0.5;
 
-    // 7. Contextual Boosts/Penalties (STAPLE PROTECTION)
-
-    // RICE PROTECTION
-    if (mappedQuery === 'ris' || mappedQuery === 'rice') {
-        const RICE_BYPRODUCTS = ['kake', 'kjeks', 'grøt', 'mel', 'melk', 'drikk', 'nudler', 'chips', 'snacks', 'pudding', 'risotto', 'ferdig', 'miks'];
-        if (RICE_BYPRODUCTS.some(b => normalizedName.includes(b))) {
-            score -= 2000;
-        }
-
-        const RAW_RICE = ['basmati', 'jasmin', 'middag', 'middagsris', 'boil', 'tørr', 'langkornet', 'fullkorn'];
-        if (RAW_RICE.some(r => normalizedName.includes(r))) {
-            score += 500;
-        }
-
-        // Literal exact matches for 'ris' 
-        if (normalizedName === 'ris' || normalizedName.startsWith('ris 1kg') || normalizedName.startsWith('ris 2kg')) {
-            score += 800;
-        }
-    }
-
-    // GENERIC FRUIT PROTECTION
-    const FRUITS = ['epler', 'appelsiner', 'pærer', 'druer', 'sitron', 'sitroner', 'lime', 'mandariner', 'klementiner', 'mango', 'kiwi'];
-    if (FRUITS.includes(mappedQuery) || FRUITS.includes(mappedQuery + 'er')) {
-        const FRUIT_BYPRODUCTS = [
-            'juice', 'saft', 'nektar', 'syltetøy', 'mos', 'smoothie',
-            'yoghurt', 'is ', 'kake', 'pai', 'snacks', 'gull', 'chips',
-            'vann', 'drikke', 'limonade', 'terte', 'godteri', 'pastill'
-        ];
-
-        if (FRUIT_BYPRODUCTS.some(b => normalizedName.includes(b))) {
-            score -= 2000;
-        }
-
-        const RAW_FRUIT_SIGNALS = ['løsvekt', 'kurv', 'bama', 'norske', 'nett', 'stk', 'kg', 'importert', 'bunt'];
-        if (RAW_FRUIT_SIGNALS.some(s => normalizedName.includes(s))) {
-            score += 300;
-        }
-    }
-
-    // Baby Food / Non-Staple Penalty
-    // If query is a staple, avoid baby food or ready meals
-    if (['kylling', 'laks', 'kjøttdeig', 'fisk', 'torsk'].includes(mappedQuery)) {
-        const BABY_FOOD_SIGNALS = ['6mnd', '8mnd', '12mnd', 'nestle', 'småfolk', 'hipp', 'klemmepose', 'grøt', 'smoothie'];
-        const MEAL_SIGNALS = ['søtpotetkylling', 'søtpotet&kylling', 'kylling&', 'kyllingsuppe', 'kyllinggryte', 'tikka', 'tandoori', 'panne', 'ferdig', 'salat', 'pålegg', 'skivet', 'mama', 'nudler', 'ramen', 'saus', 'bulljong', 'krydder', 'marinade', 'kraft', 'toro', 'satay', 'wok']; // Processed meals/sides
-
-        if (BABY_FOOD_SIGNALS.some(s => normalizedName.includes(s))) {
-            score -= 2000; // MASSIVE PENALTY - Block it
-        }
-
-        if (MEAL_SIGNALS.some(s => normalizedName.includes(s))) {
-            score -= 1000; // Major penalty
-        }
-        // Prioritize raw ingredients (Huge boost to override price differences)
-        if (normalizedName.includes('filet') || normalizedName.includes('bryst') || normalizedName.includes('lår') || normalizedName.includes('hel') || normalizedName.includes('kjøttdeig')) {
-            score += 2000;
-        }
-    }
-
-    if (mappedQuery === 'egg') {
-        const BAD_EGG_SIGNALS = ['innlegg', 'salat', 'nudler', 'hvite', 'plomme', 'likør', 'sjokolade', 'bacon', 'gele', 'krem', 'røre', 'vaffel', 'pannekake', 'kaviar', 'majones'];
-
-        // "Truseinnlegg" check
-        if (BAD_EGG_SIGNALS.some(s => normalizedName.includes(s))) {
-            score -= 2000;
-        }
-
-        // BOOST Actual Eggs
-        if (normalizedName.includes('6pk') || normalizedName.includes('12pk') || normalizedName.includes('18pk') || normalizedName.includes(' 6 ') || normalizedName.includes(' 12 ') || normalizedName.includes(' 18 ') || normalizedName.includes('frittgående') || normalizedName.includes('solegg') || normalizedName.includes('økologisk')) {
-            score += 500;
-        }
-
-        // Extra boost if name starts with "Egg" or "Prior Egg"
-        if (normalizedName.startsWith('egg ') || normalizedName.startsWith('prior egg') || normalizedName.startsWith('first price egg') || normalizedName.startsWith('x-tra egg')) {
-            score += 200;
-        }
-    }
-
-    if (mappedQuery === 'melk') {
-        if (normalizedName.includes('helmelk') || normalizedName.includes('lettmelk') || normalizedName.includes('skummet') || normalizedName.includes('ekstra lett')) {
-            score += 50;
-        }
-        if (normalizedName.includes('sjokolade') || normalizedName.includes('jordbær') || normalizedName.includes('rull')) {
-            score -= 50;
-        }
-    }
-
-    if (mappedQuery === 'kaffe') {
-        if (normalizedName.includes('filterkaffe') || normalizedName.includes('kokekaffe')) {
-            score += 30;
-        }
-        if (normalizedName.includes('iskaffe')) {
-            score -= 20;
-        }
-    }
-
-    // SUGAR PROTECTION
-    if (mappedQuery === 'sukker' || mappedQuery === 'sugar') {
-        if (normalizedName.includes('sukkerfri') || normalizedName.includes('sugarfree') || normalizedName.includes('no sugar') || normalizedName.includes('uten sukker') || normalizedName.includes('null sukker')) {
-            score -= 2000;
-        }
-        if (normalizedName.includes('sukkererter') || normalizedName.includes('sukkerkulør')) {
-            score -= 2000;
-        }
-        if (normalizedName === 'sukker' || normalizedName === 'sukker 1kg' || normalizedName.includes('hvitt sukker') || normalizedName.includes('strøsukker')) {
-            score += 500;
-        }
-    }
-
-    // BANANA PROTECTION
-    if (mappedQuery === 'banan' || mappedQuery === 'banana') {
-        const NOT_BANANA = ['skum', 'godt', 'sjokolade', 'kake', 'shake', 'smoothie', 'yoghurt', 'juice', 'nektar', 'drikk', 'chips'];
-        if (NOT_BANANA.some(s => normalizedName.includes(s))) {
-            score -= 2000;
-        }
-        if (normalizedName.includes('klase') || normalizedName.includes('bama') || normalizedName.includes('first price') || normalizedName.includes('løsvekt')) {
-            score += 500;
-        }
-    }
-
-    // VEGETABLE PROTECTION
-    const VEGGIES = ['løk', 'potet', 'agurk', 'gulrot', 'gulrøtter', 'tomat', 'paprika', 'salat', 'hvitløk', 'ingefær', 'chili'];
-    if (VEGGIES.includes(mappedQuery) || VEGGIES.includes(mappedQuery.replace(/er$/, ''))) {
-        const BYPRODUCT_SIGNALS = [
-            'potetgull', 'chips', 'godt', 'snacks', 'frites', 'stappe', 'mos',
-            'sprøstekt', 'krydder', 'miks', 'mix', 'blanding', 'suppe', 'gryte',
-            'fryst', 'frossen', 'skivet', 'terning',
-            'sylte', 'lake', 'salat',
-            'juice', 'saft', 'drikk',
-            'purre'
-        ];
-
-        if (BYPRODUCT_SIGNALS.some(s => normalizedName.includes(s))) {
-            score -= 1000;
-        }
-
-        const RAW_SIGNALS = ['løsvekt', 'kg', 'pk', 'bunt', 'nett', 'stk', 'norsk', 'importert', 'vasket', 'knask'];
-        if (RAW_SIGNALS.some(s => normalizedName.includes(s))) {
-            score += 200;
-        }
-
-        if (normalizedName === mappedQuery || normalizedName === mappedQuery + 'er' || normalizedName.startsWith(mappedQuery + ' ')) {
-            score += 300;
-        }
+    // 6b. Catalog negative keywords: "Melkesjokolade" is never the catalog's milk
+    const catalogItem = catalogService.resolve(normalizedQuery) || catalogService.resolve(mappedQuery);
+    if (catalogItem && catalogService.isExcluded(productName, catalogItem)) {
+        score -= 1000;
     }
 
-    // DROPDOWN CATEGORY PROTECTION
-    if (mappedQuery === 'nøtter' || mappedQuery === 'nuts' || mappedQuery === 'peanøtter') {
-        if (normalizedName.includes('donuts') || normalizedName.includes('sjokolade') || normalizedName.includes('kake')) {
-            score -= 1000;
-        }
-    }
-
-    if (mappedQuery === 'pizza') {
-        if (normalizedName.includes('saus') || normalizedName.includes('krydder') || normalizedName.includes('fyll') || normalizedName.includes('bunn') || normalizedName.includes('deig')) {
-            score -= 2000;
-        }
+    // 7. Relevance rules (staple protection, byproduct penalties) from the rules file,
+    // plus the demotions and blocks learned from mismatch reports
+    const evaluation = relevanceRuleService.evaluate(productName, query, context);
+    score += evaluation.score;
+    if (evaluation.excluded) {
+        score -= 10000;
     }
 
-    if (mappedQuery === 'pasta') {
-        if (normalizedName.includes('salat') || normalizedName.includes('saus') || normalizedName.includes('ferdig') || normalizedName.includes('carbonara') || normalizedName.includes('bolognese')) {
-            score -= 1000;
-        }
-    }
+    return score;
+}
 
-    if (mappedQuery === 'sjokolade' || mappedQuery === 'chocolate') {
-        const CHOCO_BYPRODUCTS = ['kake', 'cake', 'cookie', 'kjeks', 'mousse', 'pudding', 'is ', 'bolle', 'donut', 'pålegg', 'drikk', 'melk', 'propud', 'protein', 'shake', 'musli', 'granola', 'muffin', 'brownie'];
-        if (CHOCO_BYPRODUCTS.some(b => normalizedName.includes(b))) {
-            score -= 1000;
-        }
-    }
+/**
+ * How candidates at the same match level are priced against each other.
+ */
+export interface ProductSelectionOptions {
+    /** Compare kr/kg, kr/l or kr/stk instead of package prices, when both sizes are known */
+    byUnitPrice?: boolean;
+    /** The requested amount ("2 liter"); candidates are compared on what covering it costs */
+    request?: { quantity: number; unit?: string };
+}
 
-    if (mappedQuery === 'ost' || mappedQuery === 'cheese') {
-        if (normalizedName.includes('doodles') || normalizedName.includes('popcorn') || normalizedName.includes('snacks') || normalizedName.includes('burger') || normalizedName.includes('pølse')) {
-            score -= 2000;
-        }
+function isCheaper(curr: Product, best: Product, options: ProductSelectionOptions): boolean {
+    if (options.byUnitPrice) {
+        const [currPrice, bestPrice] = comparablePrices(curr, best);
+        return currPrice < bestPrice;
     }
-
-    if (mappedQuery === 'brød' || mappedQuery === 'bread') {
-        if (normalizedName.includes('flatbrød') || normalizedName.includes('knekkebrød') || normalizedName.includes('pita') || normalizedName.includes('hamburger')) {
-            score -= 100;
-        }
+    if (options.request) {
+        return curr.price * getPackageCount(options.request, curr.attributes) < best.price * getPackageCount(options.request, best.attributes);
     }
-
-    return score;
+    return curr.price < best.price;
 }
 
-export function selectBestProductForStore(products: Product[], store: Store, queryIds: string[]): { product: Product, level: MatchLevel } | null {
+export function selectBestProductForStore(products: Product[], store: Store, queryIds: string[], options: ProductSelectionOptions = {}): { product: Product, level: MatchLevel } | null {
     const scoredCandidates = products
         .map(p => ({ product: p, level: getProductMatchLevel(p, store) }))
         .filter(c => c.level !== MatchLevel.NONE && queryIds.includes(String(c.product.id)));
@@ -423,7 +217,7 @@ export function selectBestProductForStore(products: Product[], store: Store, que
         if (scoreDiff > 500) return curr;
         if (scoreDiff < -500) return best;
 
-        return curr.product.price < best.product.price ? curr : best;
+        return isCheaper(curr.product, best.product, options) ? curr : best;
     });
 
     return { product: best.product, level: best.level };
@@ -433,11 +227,14 @@ export function selectBestProductForStoreWithQuery(
     products: Product[],
     store: Store,
     queryIds: string[],
-    originalQuery: string
+    originalQuery: string,
+    options: ProductSelectionOptions = {}
 ): { product: Product, level: MatchLevel } | null {
     const scoredCandidates = products
+        // Reported often enough as the wrong product for this query to never be picked
+        .filter(p => !matchCorrectionService.isBlocked(originalQuery, p.name, p.chain))
         .map(p => {
-            const dynamicRelevance = calculateRelevanceScore(p.name, originalQuery);
+            const dynamicRelevance = calculateRelevanceScore(p.name, originalQuery, { chain: p.chain });
             return {
                 product: { ...p, relevanceScore: dynamicRelevance },
                 level: getProductMatchLevel(p, store)
@@ -458,7 +255,7 @@ export function selectBestProductForStoreWithQuery(
         if (curr.level > best.level) return curr;
         if (curr.level < best.level) return best;
 
-        return curr.product.price < best.product.price ? curr : best;
+        return isCheaper(curr.product, best.product, options) ? curr : best;
     });
 
     return { product: best.product, level: best.level };
@@ -0,0 +1,65 @@
+import { ProductAttributes } from '../types/index.js';
+
+export interface RequestedAmount {
+    amount: number;
+    unit: 'kg' | 'l' | 'stk';
+}
+
+// Units the AI parser and users write for an amount ("2 liter", "500 g", "12 stk"), with their factor to kg, l or stk
+const REQUEST_UNITS: Record<string, { unit: RequestedAmount['unit']; factor: number }> = {
+    kg: { unit: 'kg', factor: 1 },
+    kilo: { unit: 'kg', factor: 1 },
+    hg: { unit: 'kg', factor: 0.1 },
+    g: { unit: 'kg', factor: 0.001 },
+    gr: { unit: 'kg', factor: 0.001 },
+    gram: { unit: 'kg', factor: 0.001 },
+    l: { unit: 'l', factor: 1 },
+    ltr: { unit: 'l', factor: 1 },
+    liter: { unit: 'l', factor: 1 },
+    litre: { unit: 'l', factor: 1 },
+    dl: { unit: 'l', factor: 0.1 },
+    cl: { unit: 'l', factor: 0.01 },
+    ml: { unit: 'l', factor: 0.001 },
+    stk: { unit: 'stk', factor: 1 },
+    styk: { unit: 'stk', factor: 1 },
+    pcs: { unit: 'stk', factor: 1 }
+};
+
+// A package this much short of the requested amount still counts (1.5 l asked, 1.5 l sold as "150 cl" rounding)
+const SHORTFALL_TOLERANCE = 0.02;
+
+/**
+ * Normalizes a requested quantity and unit ("2", "liter") to kg, l or stk.
+ * Returns null when there is no unit or it means packages ("pk", "pakke"): the quantity is then a package count.
+ */
+export const toRequestedAmount = (quantity: number, unit?: string): RequestedAmount | null => {
+    const normalized = unit?.trim().toLowerCase().replace(/\.$/, '');
+    const match = normalized ? REQUEST_UNITS[normalized] : undefined;
+    if (!match || !(quantity > 0)) return null;
+    return { amount: Math.round(quantity * match.factor * 1000) / 1000, unit: match.unit };
+};
+
+/**
+ * Amount of the requested unit in one package, or null when the package size can't be compared.
+ * Pieces count multipack contents too: "12 stk egg" is one 12-pack, "6 stk brus" one 6x0,33l pack.
+ */
+const amountPerPackage = (requested: RequestedAmount, attributes?: ProductAttributes): number | null => {
+    if (!attributes?.netQuantity) return null;
+    if (requested.unit === attributes.netUnit) return attributes.netQuantity;
+    if (requested.unit === 'stk') return attributes.packCount || 1;
+    return null;
+};
+
+/**
+ * Number of packages of a product needed to cover a requested quantity and unit.
+ * "2 liter" of 1 l milk is 2 packages, of 1.75 l milk also 2; "3 kg" of 2 kg potato bags is 2.
+ * Without a unit the quantity is already a package count. With a unit but a package size that is unknown or
+ * in another dimension ("500 g" of "Smør Tine", "3 kg" of "Brokkoli 1 stk"), one package is bought.
+ */
+export const getPackageCount = (item: { quantity: number; unit?: string }, attributes?: ProductAttributes): number => {
+    const requested = toRequestedAmount(item.quantity, item.unit);
+    if (!requested) return item.quantity;
+    const perPackage = amountPerPackage(requested, attributes);
+    if (!perPackage) return 1;
+    return Math.max(1, Math.ceil(requested.amount / perPackage - SHORTFALL_TOLERANCE));
+};
@@ -0,0 +1,174 @@
+import { ProductAttributes } from '../types/index.js';
+
+type NetUnit = 'kg' | 'l';
+
+// Units as written in Norwegian product names, with their factor to kg or l
+const UNITS: Record<string, { unit: NetUnit; factor: number }> = {
+    kg: { unit: 'kg', factor: 1 },
+    g: { unit: 'kg', factor: 0.001 },
+    gr: { unit: 'kg', factor: 0.001 },
+    gram: { unit: 'kg', factor: 0.001 },
+    mg: { unit: 'kg', factor: 0.000001 },
+    l: { unit: 'l', factor: 1 },
+    ltr: { unit: 'l', factor: 1 },
+    liter: { unit: 'l', factor: 1 },
+    dl: { unit: 'l', factor: 0.1 },
+    cl: { unit: 'l', factor: 0.01 },
+    ml: { unit: 'l', factor: 0.001 }
+};
+
+// Letters are matched with \p{L} so "ø", "æ" and "å" count as part of a word
+const NUMBER = '(\\d+(?:[.,]\\d+)?)';
+const UNIT = '(kg|mg|gram|gr|g|liter|ltr|dl|cl|ml|l)';
+const SIZE = new RegExp(`(?<![\\p{L}\\d.,])${NUMBER}\\s*${UNIT}(?!\\p{L})`, 'iu');
+const MULTIPACK = new RegExp(`(?<![\\p{L}\\d])(\\d+)\\s*[x×]\\s*${NUMBER}\\s*${UNIT}(?!\\p{L})`, 'iu');
+const MULTIPACK_REVERSED = new RegExp(`(?<![\\p{L}\\d.,])${NUMBER}\\s*${UNIT}\\s*[x×]\\s*(\\d+)(?![\\p{L}\\d])`, 'iu');
+const PACK = /(?<![\p{L}\d.,])(\d+)\s*-?\s*(pk|pkn|pakn|pakning|pack|stk|boks|bokser)(?!\p{L})/iu;
+const FAT = /(?<![\d.,])(\d+(?:[.,]\d+)?)\s*%(?!\s*(?:kakao|alk|vol|frukt|juice|bær|kjøtt|sukker))/iu;
+const ALCOHOL_BEFORE = /(?:alk|vol)\.?\s*$/i;
+const ORGANIC = /(?<!\p{L})(?:økologisk|økologiske|øko|organic|debio)(?!\p{L})/iu;
+
+// Nationality adjectives and country names, mapped to the Norwegian country name
+const ORIGINS: Record<string, string> = {
+    norsk: 'Norge', norge: 'Norge',
+    svensk: 'Sverige', sverige: 'Sverige',
+    dansk: 'Danmark', danmark: 'Danmark',
+    finsk: 'Finland', finland: 'Finland',
+    islandsk: 'Island', island: 'Island',
+    spansk: 'Spania', spania: 'Spania',
+    italiensk: 'Italia', italia: 'Italia',
+    fransk: 'Frankrike', frankrike: 'Frankrike',
+    tysk: 'Tyskland', tyskland: 'Tyskland',
+    gresk: 'Hellas', hellas: 'Hellas',
+    nederlandsk: 'Nederland', nederland: 'Nederland',
+    polsk: 'Polen', polen: 'Polen',
+    irsk: 'Irland', irland: 'Irland',
+    britisk: 'Storbritannia',
+    chilensk: 'Chile', chile: 'Chile',
+    argentinsk: 'Argentina', argentina: 'Argentina',
+    brasiliansk: 'Brasil', brasil: 'Brasil',
+    marokkansk: 'Marokko', marokko: 'Marokko',
+    thailandsk: 'Thailand', thailand: 'Thailand',
+    colombiansk: 'Colombia', colombia: 'Colombia',
+    ecuador: 'Ecuador',
+    peruansk: 'Peru', peru: 'Peru',
+    sørafrikansk: 'Sør-Afrika', 'sør-afrika': 'Sør-Afrika'
+};
+const ORIGIN = new RegExp(`(?<!\\p{L})(${Object.keys(ORIGINS).join('|')})(?:e|produsert)?(?!\\p{L})`, 'iu');
+
+/**
+ * Variant markers in priority order. A match is cut out of the name before the next pattern runs,
+ * so "ekstra lett" and "lettsaltet" don't also count as "lett".
+ */
+const VARIANTS: Array<[string, RegExp]> = [
+    ['ekstra lett', /ekstra\s*lett/iu],
+    ['lettsaltet', /lettsaltet/iu],
+    ['usaltet', /usaltet/iu],
+    ['lett', /(?<!\p{L})(?:lett|light(?!\p{L}))/iu],
+    ['mager', /(?<!\p{L})mager/iu],
+    ['skummet', /skummet/iu],
+    ['hel', /(?<!\p{L})hel(?:melk)?(?!\p{L})/iu],
+    ['laktosefri', /laktosefri/iu],
+    ['glutenfri', /glutenfri/iu],
+    ['sukkerfri', /sukkerfri|(?<!\p{L})zero(?!\p{L})|uten sukker|u\/sukker/iu],
+    ['usøtet', /usøtet/iu],
+    ['frittgående', /frittg[åa]ende/iu],
+    ['frilands', /frilands/iu],
+    ['vegansk', /vegansk|(?<!\p{L})vegan(?!\p{L})/iu],
+    ['røkt', /røkt/iu],
+    ['fryst', /fryst|frossen|frosne/iu],
+    ['fersk', /(?<!\p{L})fersk/iu],
+    ['skivet', /skivet|i skiver/iu],
+    ['revet', /(?<!\p{L})revet/iu],
+    ['naturell', /naturell/iu],
+    ['original', /(?<!\p{L})original(?!\p{L})/iu]
+];
+
+const toNumber = (value: string): number => Number(value.replace(',', '.'));
+
+const round = (value: number): number => Math.round(value * 1e6) / 1e6;
+
+const toBase = (amount: string, unit: string): { quantity: number; unit: NetUnit } => {
+    const { unit: base, factor } = UNITS[unit.toLowerCase()];
+    return { quantity: round(toNumber(amount) * factor), unit: base };
+};
+
+/**
+ * Net quantity and pack count. "6x0,33l" and "0.33L 10-pk" are multipacks of drinks;
+ * a weight next to "stk" ("Kyllingfilet 2 stk 400g") is taken as the total weight.
+ */
+const parseQuantity = (name: string): Pick<ProductAttributes, 'netQuantity' | 'netUnit' | 'packCount' | 'itemQuantity'> => {
+    const multiPack = MULTIPACK.exec(name);
+    const reversed = multiPack ? null : MULTIPACK_REVERSED.exec(name);
+    if (multiPack || reversed) {
+        const [count, amount, unit] = multiPack
+            ? [multiPack[1], multiPack[2], multiPack[3]]
+            : [reversed![3], reversed![1], reversed![2]];
+        const item = toBase(amount, unit);
+        const packCount = Number(count);
+        return { netQuantity: round(item.quantity * packCount), netUnit: item.unit, packCount, itemQuantity: item.quantity };
+    }
+
+    const size = SIZE.exec(name);
+    const pack = PACK.exec(name);
+    const packCount = pack ? Number(pack[1]) : undefined;
+
+    if (size) {
+        const item = toBase(size[1], size[2]);
+        const isDrinkPack = packCount && packCount > 1 && item.unit === 'l' && !/stk/i.test(pack![2]);
+        if (isDrinkPack) {
+            return { netQuantity: round(item.quantity * packCount), netUnit: 'l', packCount, itemQuantity: item.quantity };
+        }
+        return { netQuantity: item.quantity, netUnit: item.unit, ...(packCount && packCount > 1 && { packCount }) };
+    }
+
+    if (packCount) {
+        return { netQuantity: packCount, netUnit: 'stk', packCount };
+    }
+    return {};
+};
+
+const parseFatPercent = (name: string): number | undefined => {
+    const match = FAT.exec(name);
+    if (!match || ALCOHOL_BEFORE.test(name.slice(0, match.index))) return undefined;
+    const value = toNumber(match[1]);
+    return value <= 100 ? value : undefined;
+};
+
+const parseVariants = (name: string): string[] => {
+    let remaining = name;
+    const variants: string[] = [];
+    for (const [variant, pattern] of VARIANTS) {
+        if (pattern.test(remaining)) {
+            variants.push(variant);
+            remaining = remaining.replace(pattern, ' ');
+        }
+    }
+    return variants;
+};
+
+/**
+ * Pulls structured attributes out of a Norwegian product name:
+ * "Tine Lettmelk 1% 1,75l" → 1.75 l, 1 % fat, variant "lett";
+ * "Egg 12pk frittgående" → 12 stk, variant "frittgående"; "Kjøttdeig 400g 14%" → 0.4 kg, 14 % fat.
+ * @param fallback Structured size (e.g. Kassal's weight/weight_unit) used when the name has none.
+ */
+export const parseProductAttributes = (name: string, fallback?: { weight?: number; unit?: string }): ProductAttributes => {
+    let quantity = parseQuantity(name);
+    const fallbackUnit = fallback?.unit?.toLowerCase();
+    if (quantity.netQuantity === undefined && fallback?.weight && fallbackUnit && UNITS[fallbackUnit]) {
+        const base = toBase(String(fallback.weight), fallbackUnit);
+        quantity = { netQuantity: base.quantity, netUnit: base.unit };
+    }
+
+    const fatPercent = parseFatPercent(name);
+    const origin = ORIGIN.exec(name);
+
+    return {
+        ...quantity,
+        ...(fatPercent !== undefined && { fatPercent }),
+        organic: ORGANIC.test(name),
+        ...(origin && { origin: ORIGINS[origin[1].toLowerCase()] }),
+        variants: parseVariants(name)
+    };
+};
@@ -0,0 +1,147 @@
+import { ApiError } from '../middleware/errorHandler.js';
+
+export interface TokenBucketStatus {
+    tokens: number;
+    capacity: number;
+    queued: number;
+    pausedUntil: string | null;
+}
+
+/**
+ * Token-bucket limiter for outbound API calls.
+ * Callers await `take()` and are released in FIFO order as tokens refill, so bursts
+ * queue up on a single timer instead of polling. Upstream rate-limit headers can
+ * shrink the bucket or pause it entirely (429 Retry-After).
+ */
+export class TokenBucket {
+    private tokens: number;
+    private lastRefill = Date.now();
+    private pausedUntil = 0;
+    private waiters: Array<{ resolve: () => void }> = [];
+    private timer: NodeJS.Timeout | undefined;
+
+    /**
+     * @param name Label used in logs and errors.
+     * @param capacity Maximum burst size.
+     * @param refillPerSecond Steady-state request rate.
+     * @param maxQueue Callers beyond this many waiting are rejected immediately with a 503.
+     */
+    constructor(
+        private readonly name: string,
+        private readonly capacity: number,
+        private readonly refillPerSecond: number,
+        private readonly maxQueue = 100
+    ) {
+        this.tokens = capacity;
+    }
+
+    /**
+     * Resolves once a token has been reserved for the caller.
+     */
+    public take(): Promise<void> {
+        if (this.waiters.length >= this.maxQueue) {
+            return Promise.reject(new ApiError(503, `${this.name} outbound queue is full. Please try again shortly.`));
+        }
+
+        return new Promise(resolve => {
+            this.waiters.push({ resolve });
+            this.drain();
+        });
+    }
+
+    /**
+     * Stops handing out tokens for `ms` milliseconds (e.g. after a 429 with Retry-After).
+     */
+    public pauseFor(ms: number): void {
+        const until = Date.now() + ms;
+        if (until <= this.pausedUntil) return;
+
+        this.pausedUntil = until;
+        this.tokens = 0;
+        console.warn(`[TokenBucket] ${this.name} paused for ${Math.round(ms / 1000)}s`);
+        this.reschedule();
+    }
+
+    /**
+     * Aligns the local budget with what the upstream reports as remaining.
+     */
+    public syncRemaining(remaining: number): void {
+        if (Number.isFinite(remaining) && remaining >= 0) {
+            this.tokens = Math.min(this.tokens, remaining);
+        }
+    }
+
+    /**
+     * Reads the standard rate-limit headers from an upstream response.
+     * `Retry-After` pauses the bucket; `X-RateLimit-Remaining` caps the local token count.
+     */
+    public updateFromHeaders(headers: Record<string, unknown> | undefined): void {
+        if (!headers) return;
+
+        const retryAfter = headers['retry-after'];
+        if (retryAfter !== undefined) {
+            const seconds = Number(retryAfter);
+            const ms = Number.isFinite(seconds)
+                ? seconds * 1000
+                : new Date(String(retryAfter)).getTime() - Date.now(); // HTTP-date form
+            if (ms > 0) this.pauseFor(ms);
+        }
+
+        const remaining = headers['x-ratelimit-remaining'];
+        if (remaining !== undefined) {
+            this.syncRemaining(Number(remaining));
+        }
+    }
+
+    public getStatus(): TokenBucketStatus {
+        this.refill();
+        return {
+            tokens: Math.floor(this.tokens),
+            capacity: this.capacity,
+            queued: this.waiters.length,
+            pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null
+        };
+    }
+
+    private refill() {
+        const now = Date.now();
+        const from = Math.max(this.lastRefill, this.pausedUntil);
+        if (now > from) {
+            this.tokens = Math.min(this.capacity, this.tokens + ((now - from) / 1000) * this.refillPerSecond);
+        }
+        this.lastRefill = now;
+    }
+
+    private drain() {
+        this.refill();
+
+        while (this.waiters.length > 0 && Date.now() >= this.pausedUntil && this.tokens >= 1) {
+            this.tokens -= 1;
+            this.waiters.shift()!.resolve();
+        }
+
+        if (this.waiters.length > 0) {
+            this.schedule();
+        }
+    }
+
+    private schedule() {
+        if (this.timer) return;
+
+        const now = Date.now();
+        const waitMs = now < this.pausedUntil
+            ? this.pausedUntil - now
+            : Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.drain();
+        }, Math.max(waitMs, 1));
+    }
+
+    private reschedule() {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+        if (this.waiters.length > 0) this.schedule();
+    }
+}
@@ -0,0 +1,36 @@
+import { ProductAttributes, UnitPriceUnit } from '../types/index.js';
+
+const UNIT_PRICE_UNITS: Record<NonNullable<ProductAttributes['netUnit']>, UnitPriceUnit> = {
+    kg: 'kr/kg',
+    l: 'kr/l',
+    stk: 'kr/stk'
+};
+
+/**
+ * Comparison price per kg, liter or piece. The deposit is left out, as on Norwegian shelf labels.
+ * Returns null when the package size is unknown.
+ * @param price Price for `packages` packages (deposit included)
+ * @param deposit Deposit per package
+ */
+export const getUnitPrice = (
+    price: number,
+    attributes?: ProductAttributes,
+    deposit = 0,
+    packages = 1
+): { unitPrice: number; unitPriceUnit: UnitPriceUnit } | null => {
+    if (!attributes?.netQuantity || !attributes.netUnit || price <= 0 || packages <= 0) return null;
+    const unitPrice = (price - deposit * packages) / (attributes.netQuantity * packages);
+    return {
+        unitPrice: Math.round(unitPrice * 100) / 100,
+        unitPriceUnit: UNIT_PRICE_UNITS[attributes.netUnit]
+    };
+};
+
+/**
+ * Price to compare two candidates by: their unit prices when both are known in the same unit,
+ * otherwise the package prices.
+ */
+export const comparablePrices = (a: { price: number; unitPrice?: number; unitPriceUnit?: UnitPriceUnit }, b: typeof a): [number, number] =>
+    a.unitPrice !== undefined && b.unitPrice !== undefined && a.unitPriceUnit === b.unitPriceUnit
+        ? [a.unitPrice, b.unitPrice]
+        : [a.price, b.price];
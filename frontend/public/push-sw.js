@@ -0,0 +1,36 @@
+/* Price alert pushes, imported into the generated service worker (see vite.config.ts) */
+
+self.addEventListener('push', (event) => {
+    let data = {};
+    try {
+        data = event.data ? event.data.json() : {};
+    } catch {
+        data = { title: 'SmartHandel', body: event.data ? event.data.text() : '' };
+    }
+
+    event.waitUntil(
+        self.registration.showNotification(data.title || 'SmartHandel', {
+            body: data.body,
+            icon: '/icons/icon-192x192.png',
+            badge: '/icons/icon-192x192.png',
+            tag: data.tag,
+            data: { url: data.url || '/' },
+        })
+    );
+});
+
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    const url = (event.notification.data && event.notification.data.url) || '/';
+
+    event.waitUntil(
+        self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+            const open = clients.find((client) => 'focus' in client);
+            if (open) {
+                open.navigate(url);
+                return open.focus();
+            }
+            return self.clients.openWindow(url);
+        })
+    );
+});
@@ -16,6 +16,7 @@ const Selection = lazy(() => import('./pages/Selection').then(m => ({ default: m
 const Results = lazy(() => import('./pages/Results'));
 const About = lazy(() => import('./pages/About').then(m => ({ default: m.About })));
 const Offers = lazy(() => import('./pages/Offers').then(m => ({ default: m.Offers })));
+const Admin = lazy(() => import('./pages/Admin').then(m => ({ default: m.Admin })));
 const NotFound = lazy(() => import('./pages/NotFound').then(m => ({ default: m.NotFound })));
 
 function AnalyticsTracker() {
@@ -49,6 +50,7 @@ function App() {
                     <Route path="results" element={<Results />} />
                     <Route path="offers" element={<Offers />} />
                     <Route path="about" element={<About />} />
+                    <Route path="admin" element={<Admin />} />
                     <Route path="*" element={<NotFound />} />
                   </Route>
                 </Routes>
@@ -5,12 +5,7 @@ import { SearchInput } from '../components/SearchInput';
 // Mock i18n
 vi.mock('react-i18next', () => ({
     useTranslation: () => ({
-        t: (key: string) => {
-            if (key === 'products.milk') return 'Melk';
-            if (key === 'products.bread') return 'Brød';
-            if (key === 'products.eggs') return 'Egg';
-            return key;
-        },
+        t: (key: string) => key,
         i18n: {
             language: 'no',
             changeLanguage: vi.fn(),
@@ -23,6 +18,17 @@ vi.mock('react-i18next', () => ({
     },
 }));
 
+// Autocomplete items come from GET /api/catalog
+vi.mock('../lib/queryClient', () => ({
+    useCatalog: () => ({
+        data: [
+            { id: 'milk', name: { no: 'Melk', en: 'Milk' }, emoji: '🥛', category: 'dairy', trending: true, synonyms: ['lettmelk'], indexed: true },
+            { id: 'bread', name: { no: 'Brød', en: 'Bread' }, emoji: '🍞', category: 'groceries', synonyms: ['grovbrød'], indexed: true },
+            { id: 'eggs', name: { no: 'Egg', en: 'Eggs' }, emoji: '🥚', category: 'groceries', synonyms: [], indexed: true },
+        ],
+    }),
+}));
+
 describe('SearchInput Hybrid Logic', () => {
     afterEach(cleanup);
 
@@ -85,4 +91,14 @@ describe('SearchInput Hybrid Logic', () => {
         // Should include both 'Melk' and 'Egg' (translated 'eggs')
         expect(onSearch).toHaveBeenCalledWith('Melk, eggs');
     });
+
+    it('matches catalog synonyms and lists trending items first', () => {
+        render(<SearchInput onSearch={vi.fn()} initialOpen={true} />);
+        expect(screen.queryByText('Brød')).not.toBeInTheDocument();
+
+        fireEvent.change(screen.getByRole('textbox'), { target: { value: 'grov' } });
+
+        expect(screen.getByText('Brød')).toBeInTheDocument();
+        expect(screen.queryByText('Melk')).not.toBeInTheDocument();
+    });
 });
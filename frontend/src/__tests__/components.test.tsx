@@ -22,6 +22,10 @@ vi.mock('react-i18next', () => ({
     },
 }));
 
+vi.mock('../lib/queryClient', () => ({
+    useCatalog: () => ({ data: [] }),
+}));
+
 // ─── MSW Setup ──────────────────────────────────────────────────────
 const handlers = [
     http.post('*/api/products/search', () => {
@@ -0,0 +1,304 @@
+import { createPortal } from 'react-dom';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { X, ScanBarcode, ImageUp, AlertCircle, Plus, RotateCcw } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useTranslation } from 'react-i18next';
+import { api } from '../services/api';
+import { useShoppingList } from '../context/ShoppingListContext';
+import type { EanLookupResponse, ShoppingItem } from '../types';
+
+// The Barcode Detection API is not in TypeScript's DOM lib yet (Chromium/Android only)
+interface DetectedBarcode {
+    rawValue: string;
+    format: string;
+}
+
+interface BarcodeDetectorInstance {
+    detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+const EAN_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+const SCAN_INTERVAL_MS = 400;
+
+function createBarcodeDetector(): BarcodeDetectorInstance | null {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    return Detector ? new Detector({ formats: EAN_FORMATS }) : null;
+}
+
+type ScanPhase = 'scanning' | 'loading' | 'result' | 'not_found';
+
+interface BarcodeScannerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onAdd: (item: ShoppingItem) => void;
+}
+
+export function BarcodeScanner({ isOpen, onClose, onAdd }: BarcodeScannerProps) {
+    const { t } = useTranslation();
+    const { location } = useShoppingList();
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [detector] = useState(() => (typeof window !== 'undefined' ? createBarcodeDetector() : null));
+    const [phase, setPhase] = useState<ScanPhase>('scanning');
+    const [scannedEan, setScannedEan] = useState('');
+    const [manualEan, setManualEan] = useState('');
+    const [result, setResult] = useState<EanLookupResponse | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const lookup = useCallback(async (ean: string) => {
+        setScannedEan(ean);
+        setPhase('loading');
+        setError(null);
+        try {
+            const data = await api.lookupEan(ean, location?.lat, location?.lng);
+            setResult(data);
+            setPhase(data ? 'result' : 'not_found');
+        } catch (err) {
+            setError(t(err instanceof Error ? err.message : 'errors.failedEanLookup'));
+            setPhase('scanning');
+        }
+    }, [location, t]);
+
+    // Live camera scanning while the modal is open and waiting for a barcode
+    useEffect(() => {
+        if (!isOpen || phase !== 'scanning' || !detector) return;
+
+        let stream: MediaStream | null = null;
+        let interval: ReturnType<typeof setInterval> | undefined;
+        let cancelled = false;
+
+        navigator.mediaDevices?.getUserMedia({ video: { facingMode: 'environment' } })
+            .then(mediaStream => {
+                if (cancelled) {
+                    mediaStream.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                stream = mediaStream;
+                if (videoRef.current) {
+                    videoRef.current.srcObject = mediaStream;
+                    void videoRef.current.play();
+                }
+
+                interval = setInterval(async () => {
+                    const video = videoRef.current;
+                    if (!video || video.readyState < 2) return;
+                    try {
+                        const [barcode] = await detector.detect(video);
+                        if (barcode?.rawValue && !cancelled) {
+                            cancelled = true;
+                            void lookup(barcode.rawValue);
+                        }
+                    } catch {
+                        // A single failed frame is not an error; keep scanning
+                    }
+                }, SCAN_INTERVAL_MS);
+            })
+            .catch(() => setError(t('scanner.camera_error')));
+
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, [isOpen, phase, detector, lookup, t]);
+
+    if (!isOpen) return null;
+
+    const reset = () => {
+        setPhase('scanning');
+        setScannedEan('');
+        setManualEan('');
+        setResult(null);
+        setError(null);
+    };
+
+    const handleClose = () => {
+        reset();
+        onClose();
+    };
+
+    const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !detector) return;
+
+        try {
+            const bitmap = await createImageBitmap(file);
+            const [barcode] = await detector.detect(bitmap);
+            if (barcode?.rawValue) {
+                void lookup(barcode.rawValue);
+            } else {
+                setError(t('scanner.no_barcode'));
+            }
+        } catch {
+            setError(t('scanner.no_barcode'));
+        }
+    };
+
+    const handleManualSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const ean = manualEan.replace(/\D/g, '');
+        if (ean.length >= 8) void lookup(ean);
+    };
+
+    const handleAdd = () => {
+        if (!result) return;
+        const { product, cheapest } = result;
+
+        // Scanned items are locked to the exact product so optimization doesn't swap in a substitute
+        onAdd({
+            name: product.name,
+            quantity: 1,
+            lockedBrand: product.name,
+            lockedProductId: String(product.id),
+            lockedProductDetails: {
+                ...product,
+                price: cheapest?.price ?? 0,
+                store: cheapest?.chain ?? ''
+            },
+            scannedEan: product.ean || scannedEan
+        });
+        handleClose();
+    };
+
+    return createPortal(
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4 bg-dark/20 animate-in fade-in duration-300">
+            <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-300">
+                {/* Header */}
+                <div className="p-5 border-b border-gray-100 flex items-center justify-between bg-gray-50/50">
+                    <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-xl flex items-center justify-center bg-indigo-100">
+                            <ScanBarcode className="w-6 h-6 text-indigo-600" />
+                        </div>
+                        <div>
+                            <h3 className="text-lg font-black text-dark tracking-tight leading-tight">
+                                {t('scanner.title')}
+                            </h3>
+                            <p className="text-[11px] font-bold text-gray-400 uppercase tracking-widest mt-0.5">
+                                {scannedEan || t('scanner.subtitle')}
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={handleClose} className="p-2 hover:bg-white rounded-lg transition-colors text-gray-400 hover:text-dark">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-5">
+                    {phase === 'scanning' && (
+                        <>
+                            {detector ? (
+                                <div className="relative aspect-[4/3] bg-slate-900 rounded-xl overflow-hidden">
+                                    <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+                                    <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.8)]" />
+                                </div>
+                            ) : (
+                                <p className="text-sm font-medium text-slate-500 leading-relaxed">
+                                    {t('scanner.unsupported')}
+                                </p>
+                            )}
+
+                            {detector && (
+                                <label className="flex items-center justify-center gap-2 w-full py-3 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl font-bold text-sm cursor-pointer transition-colors">
+                                    <ImageUp className="w-4 h-4" />
+                                    {t('scanner.upload')}
+                                    <input type="file" accept="image/*" capture="environment" onChange={handlePhoto} className="hidden" />
+                                </label>
+                            )}
+
+                            <form onSubmit={handleManualSubmit}>
+                                <label className="block text-xs font-black text-gray-400 uppercase tracking-widest mb-2">
+                                    {t('scanner.manual_label')}
+                                </label>
+                                <div className="flex gap-2">
+                                    <input
+                                        type="text"
+                                        inputMode="numeric"
+                                        value={manualEan}
+                                        onChange={(e) => setManualEan(e.target.value)}
+                                        placeholder="7038010000737"
+                                        maxLength={14}
+                                        className="flex-1 p-3 rounded-xl border-2 border-gray-50 focus:border-primary focus:outline-none text-sm font-medium transition-all"
+                                    />
+                                    <button
+                                        type="submit"
+                                        disabled={manualEan.replace(/\D/g, '').length < 8}
+                                        className="px-5 py-3 bg-primary text-white font-black rounded-xl transition-all active:scale-95 disabled:opacity-50 disabled:pointer-events-none"
+                                    >
+                                        {t('scanner.lookup')}
+                                    </button>
+                                </div>
+                            </form>
+                        </>
+                    )}
+
+                    {phase === 'loading' && (
+                        <p className="py-10 text-center text-sm font-bold text-slate-500 animate-pulse">
+                            {t('scanner.looking_up')}
+                        </p>
+                    )}
+
+                    {phase === 'not_found' && (
+                        <p className="py-6 text-center text-sm font-medium text-slate-500">
+                            {t('scanner.not_found', { ean: scannedEan })}
+                        </p>
+                    )}
+
+                    {phase === 'result' && result && (
+                        <div className="flex items-center gap-4">
+                            {result.product.image_url && (
+                                <img src={result.product.image_url} alt={result.product.name} className="w-20 h-20 object-contain rounded-xl bg-slate-50 p-2" />
+                            )}
+                            <div className="min-w-0">
+                                <p className="font-bold text-slate-900 leading-tight">{result.product.name}</p>
+                                {result.cheapest && (
+                                    <p className="text-sm font-bold text-emerald-600 mt-1">
+                                        {t('scanner.cheapest_at', { chain: result.cheapest.chain })} · {result.cheapest.price.toFixed(2)} kr
+                                    </p>
+                                )}
+                                <p className="text-xs font-medium text-slate-400 mt-0.5">
+                                    {t('scanner.chains_count', { count: result.prices.length })}
+                                </p>
+                            </div>
+                        </div>
+                    )}
+
+                    {error && (
+                        <div className="p-3 bg-red-50 text-red-600 text-xs font-bold rounded-lg flex items-center gap-2">
+                            <AlertCircle className="w-4 h-4" />
+                            {error}
+                        </div>
+                    )}
+
+                    {(phase === 'result' || phase === 'not_found') && (
+                        <div className="flex gap-3">
+                            <button
+                                type="button"
+                                onClick={reset}
+                                className={clsx(
+                                    "px-6 py-3 bg-gray-100 text-gray-600 font-bold rounded-xl hover:bg-gray-200 transition-colors flex items-center justify-center gap-2",
+                                    phase === 'not_found' ? "flex-1" : "flex-none"
+                                )}
+                            >
+                                <RotateCcw className="w-4 h-4" />
+                                {t('scanner.scan_again')}
+                            </button>
+                            {phase === 'result' && (
+                                <button
+                                    type="button"
+                                    onClick={handleAdd}
+                                    className="flex-1 px-6 py-3 bg-primary text-white font-black rounded-xl transition-all shadow-lg hover:shadow-xl active:scale-95 flex items-center justify-center gap-2"
+                                >
+                                    <Plus className="w-4 h-4" />
+                                    {t('scanner.add_to_list')}
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+}
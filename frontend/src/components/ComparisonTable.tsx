@@ -3,7 +3,7 @@ import { useTranslation } from 'react-i18next';
 import { useMemo } from 'react';
 import { MapPin, List } from 'lucide-react';
 import { clsx } from 'clsx';
-import { formatDistance } from '../utils/format';
+import { formatDistance, formatUnitPrice } from '../utils/format';
 import type { ShoppingItem, SingleStoreOption, ProductWithPrice } from '../types';
 import { getProductFallback } from '../utils/productIcons';
 
@@ -201,6 +201,17 @@ export function ComparisonTable({ candidates, requestedItems, isMapVisible, onTo
                                         return item?.totalPrice || Infinity;
                                     }));
 
+                                    // Lowest price per kg/l/stk in this row; only comparable when every store reports the same unit
+                                    const rowUnitItems = displayCandidates
+                                        .map(c => c.items.find(i =>
+                                            (i.originalQueryName || i.name).toLowerCase().trim() === (rowItem.originalQueryName || rowItem.name).toLowerCase().trim()
+                                        ))
+                                        .filter((i): i is ProductWithPrice => i?.unitPrice !== undefined);
+                                    const unitPrices = new Set(rowUnitItems.map(i => i.unitPriceUnit)).size === 1
+                                        ? rowUnitItems.map(i => i.unitPrice as number)
+                                        : [];
+                                    const rowMinUnitPrice = unitPrices.length > 0 ? Math.min(...unitPrices) : undefined;
+
                                     return (
                                         <tr key={rowItem.originalQueryName || rowItem.name} className="group hover:bg-blue-50/30 transition-colors border-b border-gray-50/50 last:border-0 text-sm">
                                             <td className="py-3 px-4 md:px-6 sticky left-0 bg-white group-hover:bg-blue-50 transition-colors z-30 shadow-[2px_0_5px_-2px_rgba(0,0,0,0.05)] border-r border-gray-100/30">
@@ -239,13 +250,23 @@ export function ComparisonTable({ candidates, requestedItems, isMapVisible, onTo
                                                             (isBestValue ? "bg-green-50/5 group-hover:bg-green-50/20 font-bold text-green-900" : "")
                                                     )}>
                                                         {item ? (
-                                                            <div className={clsx(
-                                                                "text-xs md:text-sm font-bold tabular-nums tracking-tight",
-                                                                isCheaperThanBest ? "text-green-700 bg-green-100/70 px-1.5 py-0.5 rounded-lg border border-green-200" : // Highlight if better
-                                                                    (isBestValue ? "" : "text-gray-600") // Normal otherwise
-                                                            )}>
-                                                                {formatPrice(item.totalPrice)}
-                                                            </div>
+                                                            <>
+                                                                <div className={clsx(
+                                                                    "text-xs md:text-sm font-bold tabular-nums tracking-tight",
+                                                                    isCheaperThanBest ? "text-green-700 bg-green-100/70 px-1.5 py-0.5 rounded-lg border border-green-200" : // Highlight if better
+                                                                        (isBestValue ? "" : "text-gray-600") // Normal otherwise
+                                                                )}>
+                                                                    {formatPrice(item.totalPrice)}
+                                                                </div>
+                                                                {item.unitPrice !== undefined && item.unitPriceUnit && (
+                                                                    <div className={clsx(
+                                                                        "text-[9px] md:text-[10px] tabular-nums mt-0.5",
+                                                                        item.unitPrice === rowMinUnitPrice && unitPrices.length > 1 ? "text-green-600 font-black" : "text-gray-400 font-bold"
+                                                                    )}>
+                                                                        {formatUnitPrice(item.unitPrice, item.unitPriceUnit)}
+                                                                    </div>
+                                                                )}
+                                                            </>
                                                         ) : (
                                                             <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[8px] font-black bg-gray-50 text-gray-300 uppercase tracking-widest border border-gray-100">
                                                                 -
@@ -10,19 +10,25 @@ import {
     Check,
     Store,
     Info,
-    Tag
+    Tag,
+    TrendingUp
 } from 'lucide-react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { clsx } from 'clsx';
 import { useTranslation } from 'react-i18next';
 import { useShoppingList } from '../context/ShoppingListContext';
 import { api } from '../services/api';
+import { formatUnitPrice } from '../utils/format';
+import { PriceHistoryChart } from './PriceHistoryChart';
+import { WatchPriceForm } from './WatchPriceForm';
 
 interface RegionalProduct {
     id: string | number; // Unique ID for the product offer
     name: string;
     store: string; // Name of the store where it's found
     price: number;
+    unitPrice?: number; // Per kg/l/stk at the cheapest store
+    unitPriceUnit?: string;
     imageUrl?: string;
     ingredients?: string;
     allergens?: { display_name: string; contains: boolean }[];
@@ -65,6 +71,7 @@ export function ItemCard({ item, onUpdateQuantity, onRemove, onLockBrand }: Item
     const [hasAttemptedFetch, setHasAttemptedFetch] = useState(false);
     const [expandedIngredients, setExpandedIngredients] = useState<Set<string>>(new Set());
     const [expandedOffers, setExpandedOffers] = useState<Set<string>>(new Set());
+    const [expandedHistory, setExpandedHistory] = useState<Set<string>>(new Set());
     const [selectedOffer, setSelectedOffer] = useState<any>(item.lockedOffer || null);
 
     const toggleOffers = (productId: string, e: React.MouseEvent) => {
@@ -77,6 +84,16 @@ export function ItemCard({ item, onUpdateQuantity, onRemove, onLockBrand }: Item
         });
     };
 
+    const toggleHistory = (productId: string, e: React.MouseEvent) => {
+        e.stopPropagation();
+        setExpandedHistory(prev => {
+            const next = new Set(prev);
+            if (next.has(productId)) next.delete(productId);
+            else next.add(productId);
+            return next;
+        });
+    };
+
     const toggleIngredients = (productId: string, e: React.MouseEvent) => {
         e.stopPropagation();
         setExpandedIngredients(prev => {
@@ -96,6 +113,7 @@ export function ItemCard({ item, onUpdateQuantity, onRemove, onLockBrand }: Item
         setHasAttemptedFetch(false);
         setExpandedIngredients(new Set());
         setExpandedOffers(new Set());
+        setExpandedHistory(new Set());
         setSelectedOffer(item.lockedOffer || null);
     }, [item.name, item.englishName]);
 
@@ -124,6 +142,8 @@ export function ItemCard({ item, onUpdateQuantity, onRemove, onLockBrand }: Item
                 name: p.name,
                 store: p.chains && p.chains.length > 0 ? p.chains.join(', ') : 'Unknown',
                 price: p.minPrice,
+                unitPrice: p.unitPrice,
+                unitPriceUnit: p.unitPriceUnit,
                 imageUrl: p.imageUrl,
                 ingredients: p.ingredients,
                 allergens: p.allergens,
@@ -355,10 +375,23 @@ export function ItemCard({ item, onUpdateQuantity, onRemove, onLockBrand }: Item
                                                                             <>{product.price.toFixed(2)} kr</>
                                                                         )}
                                                                     </span>
+                                                                    {product.unitPrice !== undefined && product.unitPriceUnit && (
+                                                                        <span className="text-[10px] font-medium text-slate-400 whitespace-nowrap tabular-nums">
+                                                                            {formatUnitPrice(product.unitPrice, product.unitPriceUnit)}
+                                                                        </span>
+                                                                    )}
                                                                 </div>
                                                             </div>
 
                                                             <div className="flex items-center gap-1.5 sm:gap-2 tracking-tight shrink-0">
+                                                                <button
+                                                                    onClick={(e) => toggleHistory(String(product.id), e)}
+                                                                    aria-label={t('priceHistory.title')}
+                                                                    className="flex items-center gap-1 text-[10px] sm:text-[11px] font-bold text-indigo-600 hover:text-indigo-700 transition-colors bg-indigo-50 hover:bg-indigo-100 px-1.5 sm:px-2 py-1 rounded-lg z-10 relative whitespace-nowrap shrink-0"
+                                                                >
+                                                                    <TrendingUp className="w-3.5 h-3.5 shrink-0" />
+                                                                    <span className="hidden sm:inline">{t('priceHistory.title')}</span>
+                                                                </button>
                                                                 {product.ingredients && (
                                                                     <button
                                                                         onClick={(e) => toggleIngredients(String(product.id), e)}
@@ -407,6 +440,28 @@ export function ItemCard({ item, onUpdateQuantity, onRemove, onLockBrand }: Item
                                                             )}
                                                         </AnimatePresence>
 
+                                                        {/* Price History Expansion */}
+                                                        <AnimatePresence>
+                                                            {expandedHistory.has(String(product.id)) && (
+                                                                <motion.div
+                                                                    initial={{ height: 0, opacity: 0 }}
+                                                                    animate={{ height: 'auto', opacity: 1 }}
+                                                                    exit={{ height: 0, opacity: 0 }}
+                                                                    className="overflow-hidden bg-slate-50/50 border-t border-slate-100"
+                                                                >
+                                                                    <div className="px-4 pb-4 pt-3 space-y-3">
+                                                                        <PriceHistoryChart productId={String(product.id)} />
+                                                                        <WatchPriceForm
+                                                                            productId={String(product.id)}
+                                                                            name={product.name}
+                                                                            price={product.price}
+                                                                            chains={product.store.split(', ').filter(c => c !== 'Unknown')}
+                                                                        />
+                                                                    </div>
+                                                                </motion.div>
+                                                            )}
+                                                        </AnimatePresence>
+
                                                         {/* Offers Expansion */}
                                                         <AnimatePresence>
                                                             {expandedOffers.has(String(product.id)) && product.promotions && (
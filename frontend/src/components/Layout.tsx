@@ -2,6 +2,7 @@ import { Link, Outlet, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { InstallButton } from './InstallButton';
 import { BottomNav } from './BottomNav';
+import { NotificationsBell } from './NotificationsBell';
 
 export function Layout() {
     const { t, i18n } = useTranslation();
@@ -45,6 +46,7 @@ export function Layout() {
                                 {t('common.about')}
                             </Link>
                             <div className="h-4 w-px bg-gray-200"></div>
+                            <NotificationsBell />
                             <InstallButton variant="desktop" />
                             <div className="h-4 w-px bg-gray-200"></div>
                             <div className="flex items-center gap-2">
@@ -81,6 +83,8 @@ export function Layout() {
                                 </button>
                             </div>
 
+                            <NotificationsBell />
+
                             {/* Download PWA App Button */}
                             <InstallButton />
                         </div>
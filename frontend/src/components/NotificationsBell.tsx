@@ -0,0 +1,146 @@
+import { useState, useEffect, useRef } from 'react';
+import { Bell, BellRing, Star, X, TrendingDown } from 'lucide-react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { clsx } from 'clsx';
+import { useTranslation } from 'react-i18next';
+import { useNotifications, useWatchlist, useRemoveFromWatchlist, queryClient } from '../lib/queryClient';
+import api from '../services/api';
+import { enablePushAlerts, isPushSupported } from '../utils/push';
+import { formatCurrency, formatDate } from '../utils/format';
+
+/**
+ * Header bell with the price drop alerts feed and the device's watchlist
+ */
+export function NotificationsBell() {
+    const { t } = useTranslation();
+    const { data } = useNotifications();
+    const { data: watchlist = [] } = useWatchlist();
+    const removeFromWatchlist = useRemoveFromWatchlist();
+    const [isOpen, setIsOpen] = useState(false);
+    const [pushState, setPushState] = useState<'idle' | 'enabled' | 'unavailable'>(() =>
+        isPushSupported() && Notification.permission === 'granted' ? 'enabled' : 'idle'
+    );
+    const panelRef = useRef<HTMLDivElement>(null);
+
+    const notifications = data?.notifications || [];
+    const unread = data?.unread || 0;
+
+    // Opening the panel reads the alerts
+    useEffect(() => {
+        if (!isOpen || unread === 0) return;
+        api.markNotificationsRead()
+            .then(() => queryClient.invalidateQueries({ queryKey: ['notifications'] }))
+            .catch(() => { /* Stays unread until the next open */ });
+    }, [isOpen, unread]);
+
+    // Close on outside click
+    useEffect(() => {
+        if (!isOpen) return;
+        const close = (e: MouseEvent) => {
+            if (panelRef.current && !panelRef.current.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', close);
+        return () => document.removeEventListener('mousedown', close);
+    }, [isOpen]);
+
+    const handleEnablePush = async () => {
+        try {
+            setPushState(await enablePushAlerts() ? 'enabled' : 'unavailable');
+        } catch (error) {
+            console.error('[Push] Failed to enable alerts:', error);
+            setPushState('unavailable');
+        }
+    };
+
+    return (
+        <div className="relative" ref={panelRef}>
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                aria-label={t('watchlist.notifications')}
+                className="relative p-2 rounded-lg text-gray-500 hover:text-dark hover:bg-gray-50 transition-colors"
+            >
+                {unread > 0 ? <BellRing className="w-5 h-5" /> : <Bell className="w-5 h-5" />}
+                {unread > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-primary text-white text-[9px] font-black flex items-center justify-center">
+                        {unread > 9 ? '9+' : unread}
+                    </span>
+                )}
+            </button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: -8 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -8 }}
+                        className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white border border-gray-100 rounded-2xl shadow-xl overflow-hidden z-50"
+                    >
+                        <div className="px-4 py-3 border-b border-gray-50">
+                            <p className="text-sm font-bold text-dark">{t('watchlist.notifications')}</p>
+                        </div>
+
+                        <div className="max-h-72 overflow-y-auto">
+                            {notifications.length === 0 ? (
+                                <p className="px-4 py-6 text-xs text-center text-slate-400">{t('watchlist.noAlerts')}</p>
+                            ) : notifications.map(alert => (
+                                <div key={alert.id} className={clsx("px-4 py-3 border-b border-gray-50 flex gap-3", !alert.read && "bg-emerald-50/40")}>
+                                    <TrendingDown className="w-4 h-4 text-emerald-600 shrink-0 mt-0.5" />
+                                    <div className="min-w-0">
+                                        <p className="text-xs font-bold text-dark truncate">{alert.name}</p>
+                                        <p className="text-[11px] text-slate-600">
+                                            {t('watchlist.alertText', { price: formatCurrency(alert.price), store: alert.store, target: formatCurrency(alert.targetPrice) })}
+                                        </p>
+                                        <p className="text-[10px] text-slate-400 mt-0.5">{formatDate(alert.created_at)}</p>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {watchlist.length > 0 && (
+                            <div className="border-t border-gray-100">
+                                <p className="px-4 pt-3 pb-1 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                                    {t('watchlist.title')} ({watchlist.length})
+                                </p>
+                                <div className="max-h-40 overflow-y-auto pb-2">
+                                    {watchlist.map(item => (
+                                        <div key={item.id} className="px-4 py-1.5 flex items-center gap-2">
+                                            <Star className="w-3 h-3 fill-amber-400 text-amber-500 shrink-0" />
+                                            <span className="flex-1 min-w-0 text-[11px] text-slate-700 truncate">{item.name}</span>
+                                            <span className="text-[10px] font-bold text-slate-500 tabular-nums whitespace-nowrap">
+                                                ≤ {formatCurrency(item.targetPrice)}
+                                            </span>
+                                            <button
+                                                onClick={() => removeFromWatchlist.mutate(item.id)}
+                                                aria-label={t('watchlist.stop')}
+                                                className="p-0.5 text-slate-300 hover:text-red-500 transition-colors"
+                                            >
+                                                <X className="w-3 h-3" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {isPushSupported() && pushState !== 'enabled' && (
+                            <div className="px-4 py-3 border-t border-gray-100 bg-gray-50/50">
+                                {pushState === 'unavailable' ? (
+                                    <p className="text-[10px] text-slate-400">{t('watchlist.pushUnavailable')}</p>
+                                ) : (
+                                    <button
+                                        onClick={handleEnablePush}
+                                        className="text-[11px] font-bold text-indigo-600 hover:text-indigo-800 transition-colors"
+                                    >
+                                        {t('watchlist.enablePush')}
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
+
+export default NotificationsBell;
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { Loader2, TrendingDown, TrendingUp, Minus } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useTranslation } from 'react-i18next';
+import { usePriceHistory } from '../lib/queryClient';
+import { formatCurrency, formatDate } from '../utils/format';
+import type { PricePoint, PriceHistoryStats, StorePriceHistory } from '../types';
+
+interface PriceHistoryChartProps {
+    productId: string;
+}
+
+const WINDOW_DAYS = 90;
+const WIDTH = 300;
+const HEIGHT = 110;
+const PADDING = { top: 8, right: 4, bottom: 16, left: 4 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One color per store; the selected store's line is drawn on top, the others faded
+const COLORS = ['#4f46e5', '#10b981', '#f59e0b', '#ef4444', '#0ea5e9', '#a855f7'];
+
+const toDay = (dateKey: string): number => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return Date.UTC(year, month - 1, day) / DAY_MS;
+};
+
+const todayDay = (): number => {
+    const now = new Date();
+    return Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()) / DAY_MS;
+};
+
+/**
+ * Step segments of a series inside the chart window: the price in effect at the window start,
+ * each change inside it, and the last price carried on to today.
+ */
+const toSteps = (points: PricePoint[], start: number, end: number): Array<{ day: number; price: number }> => {
+    const steps: Array<{ day: number; price: number }> = [];
+    for (const point of points) {
+        const day = toDay(point.date);
+        if (day <= start) {
+            steps[0] = { day: start, price: point.price };
+        } else if (day <= end) {
+            steps.push({ day, price: point.price });
+        }
+    }
+    return steps;
+};
+
+/**
+ * Verdict on today's price from where it sits in the last 90 days
+ */
+const getVerdict = (stats: PriceHistoryStats): { key: string; tone: 'good' | 'neutral' | 'bad' } => {
+    if (stats.current <= stats.last90.min && stats.last90.min < stats.last90.max) return { key: 'lowest', tone: 'good' };
+    if (stats.currentPercentile <= 25) return { key: 'good', tone: 'good' };
+    if (stats.currentPercentile >= 75) return { key: 'high', tone: 'bad' };
+    return { key: 'usual', tone: 'neutral' };
+};
+
+export function PriceHistoryChart({ productId }: PriceHistoryChartProps) {
+    const { t } = useTranslation();
+    const { data, isLoading, isError } = usePriceHistory(productId);
+    const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center gap-2 text-xs text-slate-400 py-2">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                {t('priceHistory.loading')}
+            </div>
+        );
+    }
+
+    const stores: StorePriceHistory[] = data?.stores.filter(s => s.points.length > 0) || [];
+    if (isError || stores.length === 0) {
+        return <p className="text-xs text-slate-400 py-2">{t('priceHistory.unavailable')}</p>;
+    }
+
+    // Start on the opened listing's store, falling back to the cheapest
+    const openedIdx = Math.max(0, stores.findIndex(s => String(s.productId) === productId));
+    const selectedIdx = Math.min(selectedIndex ?? openedIdx, stores.length - 1);
+    const selected = stores[selectedIdx];
+    const end = todayDay();
+    const start = end - (WINDOW_DAYS - 1);
+    const series = stores.map(store => ({ steps: toSteps(store.points, start, end) }));
+
+    const prices = series.flatMap(s => s.steps.map(step => step.price));
+    const low = Math.min(...prices);
+    const high = Math.max(...prices);
+    const range = high - low || 1;
+
+    const x = (day: number) => PADDING.left + ((day - start) / (WINDOW_DAYS - 1)) * (WIDTH - PADDING.left - PADDING.right);
+    const y = (price: number) => PADDING.top + (1 - (price - low) / range) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+    const toPath = (steps: Array<{ day: number; price: number }>): string => {
+        if (steps.length === 0) return '';
+        let path = `M ${x(steps[0].day).toFixed(1)} ${y(steps[0].price).toFixed(1)}`;
+        for (let i = 1; i < steps.length; i++) {
+            path += ` H ${x(steps[i].day).toFixed(1)} V ${y(steps[i].price).toFixed(1)}`;
+        }
+        return `${path} H ${x(end).toFixed(1)}`;
+    };
+
+    const { stats } = selected;
+    const verdict = getVerdict(stats);
+    const VerdictIcon = verdict.tone === 'good' ? TrendingDown : verdict.tone === 'bad' ? TrendingUp : Minus;
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+                <span className={clsx(
+                    "flex items-center gap-1.5 px-2 py-1 rounded-lg text-[10px] font-black uppercase tracking-wide border",
+                    verdict.tone === 'good' && "bg-emerald-50 text-emerald-700 border-emerald-100",
+                    verdict.tone === 'neutral' && "bg-slate-50 text-slate-600 border-slate-100",
+                    verdict.tone === 'bad' && "bg-orange-50 text-orange-700 border-orange-100"
+                )}>
+                    <VerdictIcon className="w-3 h-3" />
+                    {t(`priceHistory.verdict.${verdict.key}`)}
+                </span>
+                {stats.lastChange && (
+                    <span className="text-[10px] text-slate-400">
+                        {t('priceHistory.lastChange', { date: formatDate(stats.lastChange) })}
+                    </span>
+                )}
+            </div>
+
+            <svg
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full h-auto"
+                role="img"
+                aria-label={t('priceHistory.chartLabel', { days: WINDOW_DAYS })}
+            >
+                <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(stats.last90.median)} y2={y(stats.last90.median)} stroke="#cbd5e1" strokeDasharray="3 3" />
+                {series.map(({ steps }, idx) => idx !== selectedIdx && (
+                    <path key={idx} d={toPath(steps)} fill="none" stroke={COLORS[idx % COLORS.length]} strokeOpacity={0.35} strokeWidth={1.5} />
+                ))}
+                <path d={toPath(series[selectedIdx].steps)} fill="none" stroke={COLORS[selectedIdx % COLORS.length]} strokeWidth={2.5} />
+                <text x={PADDING.left} y={HEIGHT - 3} className="fill-slate-400" fontSize="8">{formatDate(new Date(start * DAY_MS))}</text>
+                <text x={WIDTH - PADDING.right} y={HEIGHT - 3} textAnchor="end" className="fill-slate-400" fontSize="8">{t('priceHistory.today')}</text>
+            </svg>
+
+            <div className="grid grid-cols-3 gap-2 text-center">
+                {[
+                    { label: t('priceHistory.low30'), value: stats.last30.min },
+                    { label: t('priceHistory.low90'), value: stats.last90.min },
+                    { label: t('priceHistory.median90'), value: stats.last90.median },
+                ].map(stat => (
+                    <div key={stat.label} className="bg-white border border-slate-100 rounded-lg px-2 py-1.5">
+                        <p className="text-[9px] font-bold uppercase tracking-wider text-slate-400">{stat.label}</p>
+                        <p className="text-xs font-bold text-slate-700 tabular-nums">{formatCurrency(stat.value)}</p>
+                    </div>
+                ))}
+            </div>
+
+            {stores.length > 1 && (
+                <div className="flex flex-wrap gap-1.5">
+                    {stores.map((store, idx) => (
+                        <button
+                            key={idx}
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                setSelectedIndex(idx);
+                            }}
+                            className={clsx(
+                                "flex items-center gap-1.5 px-2 py-1 rounded-md text-[10px] font-bold border transition-colors",
+                                idx === selectedIdx ? "bg-indigo-50 border-indigo-200 text-indigo-700" : "bg-white border-slate-100 text-slate-500 hover:border-slate-200"
+                            )}
+                        >
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[idx % COLORS.length] }} />
+                            {store.chain} · {formatCurrency(store.stats.current)}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default PriceHistoryChart;
@@ -3,6 +3,8 @@ import { Search, X, Loader2, Plus, Check } from 'lucide-react';
 import { useTranslation, Trans } from 'react-i18next';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { useCatalog } from '../lib/queryClient';
+import type { CatalogItem } from '../types';
 
 interface SearchInputProps {
     onSearch: (query: string) => void;
@@ -14,99 +16,6 @@ interface SearchInputProps {
     isStatic?: boolean;
 }
 
-interface Product {
-    id: string;
-    nameKey: string;
-    emoji: string;
-    keywords: string[];
-    category: 'trending' | 'groceries' | 'fruit' | 'vegetable' | 'meat' | 'dairy' | 'bakery' | 'pantry' | 'snack' | 'beverage';
-}
-
-// Predefined products with translation keys and keywords for strict matching
-const PRODUCTS: Product[] = [
-    // TRENDING (Popular items moved here)
-    { id: 'frozen_pizza', nameKey: 'products.frozen_pizza', emoji: '🍕', keywords: ['pizza', 'grandiosa', 'frossen pizza'], category: 'trending' },
-    { id: 'milk', nameKey: 'products.milk', emoji: '🥛', keywords: ['melk', 'milk', 'tine', 'lettmelk'], category: 'trending' },
-    { id: 'minced_meat', nameKey: 'products.minced_meat', emoji: '🥩', keywords: ['kjøttdeig', 'minced meat', 'karbonadedeig'], category: 'trending' },
-    { id: 'taco', nameKey: 'products.taco', emoji: '🌮', keywords: ['taco', 'lefser', 'skjell'], category: 'trending' },
-    { id: 'chips', nameKey: 'products.chips', emoji: '🍟', keywords: ['chips', 'potetgull', 'snacks'], category: 'trending' },
-    { id: 'soda', nameKey: 'products.soda', emoji: '🥤', keywords: ['brus', 'soda', 'cola', 'pepsi'], category: 'trending' },
-
-    // GROCERIES (Essentials)
-    { id: 'bread', nameKey: 'products.bread', emoji: '🍞', keywords: ['brød', 'bread', 'grovbrød', 'kneipp'], category: 'groceries' },
-    { id: 'eggs', nameKey: 'products.eggs', emoji: '🥚', keywords: ['egg', 'eggs', 'prior'], category: 'groceries' },
-    { id: 'cheese', nameKey: 'products.cheese', emoji: '🧀', keywords: ['ost', 'cheese', 'norvegia', 'hvitost'], category: 'groceries' },
-    { id: 'butter', nameKey: 'products.butter', emoji: '🧈', keywords: ['smør', 'butter', 'bremykt'], category: 'groceries' },
-    { id: 'coffee', nameKey: 'products.coffee', emoji: '☕', keywords: ['kaffe', 'coffee', 'friele', 'evergood'], category: 'groceries' },
-    { id: 'pasta', nameKey: 'products.pasta', emoji: '🍝', keywords: ['pasta', 'spaghetti', 'fusilli'], category: 'groceries' },
-    { id: 'rice', nameKey: 'products.rice', emoji: '🍚', keywords: ['ris', 'rice', 'jasminris'], category: 'groceries' },
-    { id: 'sugar', nameKey: 'products.sugar', emoji: '🥡', keywords: ['sukker', 'sugar'], category: 'groceries' },
-    { id: 'salt', nameKey: 'products.salt', emoji: '🧂', keywords: ['salt'], category: 'groceries' },
-    { id: 'oil', nameKey: 'products.oil', emoji: '🌻', keywords: ['olje', 'oil', 'rapsolje'], category: 'groceries' },
-    { id: 'flour', nameKey: 'products.flour', emoji: '🌾', keywords: ['mel', 'flour', 'hvetemel'], category: 'groceries' },
-
-    // FRUIT
-    { id: 'apple', nameKey: 'products.apple', emoji: '🍎', keywords: ['eple', 'apple', 'pink lady', 'granny smith'], category: 'fruit' },
-    { id: 'banana', nameKey: 'products.banana', emoji: '🍌', keywords: ['banan', 'banana'], category: 'fruit' },
-    { id: 'grapes', nameKey: 'products.grapes', emoji: '🍇', keywords: ['druer', 'grapes', 'grønne druer'], category: 'fruit' },
-    { id: 'orange', nameKey: 'products.orange', emoji: '🍊', keywords: ['appelsin', 'orange', 'sitrus'], category: 'fruit' },
-    { id: 'pear', nameKey: 'products.pear', emoji: '🍐', keywords: ['pære', 'pear'], category: 'fruit' },
-    { id: 'kiwi', nameKey: 'products.kiwi', emoji: '🥝', keywords: ['kiwi'], category: 'fruit' },
-    { id: 'mango', nameKey: 'products.mango', emoji: '🥭', keywords: ['mango'], category: 'fruit' },
-    { id: 'lemon', nameKey: 'products.lemon', emoji: '🍋', keywords: ['sitron', 'lemon'], category: 'fruit' },
-    { id: 'lime', nameKey: 'products.lime', emoji: '🍋‍🟩', keywords: ['lime'], category: 'fruit' },
-    { id: 'avocado', nameKey: 'products.avocado', emoji: '🥑', keywords: ['avokado', 'avocado'], category: 'fruit' },
-
-    // VEGETABLES
-    { id: 'potato', nameKey: 'products.potato', emoji: '🥔', keywords: ['potet', 'potato', 'mandelpotet', 'beate'], category: 'vegetable' },
-    { id: 'carrot', nameKey: 'products.carrot', emoji: '🥕', keywords: ['gulrot', 'carrot', 'gulrøtter'], category: 'vegetable' },
-    { id: 'cucumber', nameKey: 'products.cucumber', emoji: '🥒', keywords: ['agurk', 'cucumber'], category: 'vegetable' },
-    { id: 'tomato', nameKey: 'products.tomato', emoji: '🍅', keywords: ['tomat', 'tomato', 'cherrytomat'], category: 'vegetable' },
-    { id: 'onion', nameKey: 'products.onion', emoji: '🧅', keywords: ['løk', 'onion', 'rødløk', 'gul løk'], category: 'vegetable' },
-    { id: 'garlic', nameKey: 'products.garlic', emoji: '🧄', keywords: ['hvitløk', 'garlic'], category: 'vegetable' },
-    { id: 'pepper', nameKey: 'products.pepper', emoji: '🫑', keywords: ['paprika', 'pepper', 'rød paprika'], category: 'vegetable' },
-    { id: 'broccoli', nameKey: 'products.broccoli', emoji: '🥦', keywords: ['brokkoli', 'broccoli'], category: 'vegetable' },
-    { id: 'lettuce', nameKey: 'products.lettuce', emoji: '🥬', keywords: ['salat', 'lettuce', 'isberg'], category: 'vegetable' },
-    { id: 'corn', nameKey: 'products.corn', emoji: '🌽', keywords: ['mais', 'corn'], category: 'vegetable' },
-
-    // MEAT
-    { id: 'chicken', nameKey: 'products.chicken', emoji: '🍗', keywords: ['kylling', 'chicken', 'filet'], category: 'meat' },
-    { id: 'salmon', nameKey: 'products.salmon', emoji: '🐟', keywords: ['laks', 'salmon', 'filet'], category: 'meat' },
-    { id: 'pork', nameKey: 'products.pork', emoji: '🐖', keywords: ['svinekjøtt', 'pork', 'koteletter'], category: 'meat' },
-    { id: 'beef', nameKey: 'products.beef', emoji: '🍖', keywords: ['storfekjøtt', 'beef', 'biff'], category: 'meat' },
-    { id: 'sausage', nameKey: 'products.sausage', emoji: '🌭', keywords: ['pølse', 'sausage', 'grillpølse'], category: 'meat' },
-    { id: 'bacon', nameKey: 'products.bacon', emoji: '🥓', keywords: ['bacon', 'spekeskinke'], category: 'meat' },
-
-    // DAIRY
-    { id: 'yogurt', nameKey: 'products.yogurt', emoji: '🥣', keywords: ['yoghurt', 'yogurt', 'skogsbær'], category: 'dairy' },
-    { id: 'cream', nameKey: 'products.cream', emoji: '🥛', keywords: ['fløte', 'cream', 'kremfløte', 'matfløte'], category: 'dairy' },
-    { id: 'sour_cream', nameKey: 'products.sour_cream', emoji: '🥣', keywords: ['rømme', 'sour cream', 'lettrømme'], category: 'dairy' },
-    { id: 'cheese_spread', nameKey: 'products.cheese_spread', emoji: '🧀', keywords: ['smøreost', 'kavli'], category: 'dairy' },
-
-    // BAKERY
-    { id: 'baguette', nameKey: 'products.baguette', emoji: '🥖', keywords: ['baguette', 'franskbrød'], category: 'bakery' },
-    { id: 'croissant', nameKey: 'products.croissant', emoji: '🥐', keywords: ['croissant'], category: 'bakery' },
-    { id: 'buns', nameKey: 'products.buns', emoji: '🥯', keywords: ['boller', 'buns', 'sjokoladebolle'], category: 'bakery' },
-    { id: 'cinnamon_roll', nameKey: 'products.cinnamon_roll', emoji: '🌀', keywords: ['kanelbolle', 'skillingsbolle'], category: 'bakery' },
-
-    // PANTRY
-    { id: 'jam', nameKey: 'products.jam', emoji: '🍓', keywords: ['syltetøy', 'nora'], category: 'pantry' },
-    { id: 'pasta', nameKey: 'products.pasta', emoji: '🍝', keywords: ['pasta', 'spaghetti', 'makaroni'], category: 'pantry' },
-    { id: 'pizza', nameKey: 'products.pizza', emoji: '🍕', keywords: ['pizza', 'grandiosa'], category: 'pantry' },
-
-    // SNACKS
-    { id: 'chocolate', nameKey: 'products.chocolate', emoji: '🍫', keywords: ['sjokolade', 'chocolate', 'kvikk lunsj'], category: 'snack' },
-    { id: 'nuts', nameKey: 'products.nuts', emoji: '🥜', keywords: ['nøtter', 'nuts', 'peanøtter'], category: 'snack' },
-    { id: 'cookies', nameKey: 'products.cookies', emoji: '🍪', keywords: ['kjeks', 'cookies', 'safari'], category: 'snack' },
-
-    // BEVERAGE
-    { id: 'orange_juice', nameKey: 'products.orange_juice', emoji: '🧃', keywords: ['appelsinjuice', 'juice'], category: 'beverage' },
-    { id: 'water', nameKey: 'products.water', emoji: '💧', keywords: ['vann', 'water', 'farris'], category: 'beverage' },
-    { id: 'energy_drink', nameKey: 'products.energy_drink', emoji: '⚡', keywords: ['energidrikk', 'energy drink', 'red bull'], category: 'beverage' },
-
-    { id: 'energy_drink', nameKey: 'products.energy_drink', emoji: '⚡', keywords: ['energidrikk', 'energy drink', 'red bull'], category: 'beverage' }
-];
-
 export const SearchInput = memo(function SearchInput({
     onSearch,
     loading = false,
@@ -116,7 +25,11 @@ export const SearchInput = memo(function SearchInput({
     initialOpen = false,
     isStatic = false
 }: SearchInputProps) {
-    const { t } = useTranslation();
+    const { t, i18n } = useTranslation();
+    // Autocomplete items come from the backend's product catalog
+    const { data: catalog = [] } = useCatalog();
+    const lang = i18n.language.startsWith('no') ? 'no' : 'en';
+    const nameOf = (product: CatalogItem) => product.name[lang];
     const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
     const [selectedCategory, setSelectedCategory] = useState<string>('trending');
     const [isDropdownOpen, setIsDropdownOpen] = useState(initialOpen);
@@ -128,13 +41,13 @@ export const SearchInput = memo(function SearchInput({
     const filteredProducts = useMemo(() => {
         const query = inputValue.toLowerCase().trim();
 
-        let filtered = PRODUCTS;
+        let filtered = catalog;
 
         // If searching, ignore category filter (show global search)
         // If NOT searching, filter by category
         if (!query) {
             if (selectedCategory !== 'all') {
-                filtered = filtered.filter(p => p.category === selectedCategory);
+                filtered = filtered.filter(p => selectedCategory === 'trending' ? p.trending : p.category === selectedCategory);
 
                 // If category is "groceries", we also include items that are effectively groceries from other cats? 
                 // Or just keep the strict manual assignment? Manual is safer for now.
@@ -142,13 +55,13 @@ export const SearchInput = memo(function SearchInput({
         } else {
             // Search mode
             filtered = filtered.filter(product => {
-                const name = t(product.nameKey).toLowerCase();
-                return name.includes(query) || product.keywords.some(kw => kw.toLowerCase().includes(query));
+                const names = [product.name.no, product.name.en, ...product.synonyms];
+                return names.some(name => name.toLowerCase().includes(query));
             });
         }
 
         return filtered;
-    }, [inputValue, selectedCategory, t]);
+    }, [inputValue, selectedCategory, catalog]);
 
     // Toggle item selection
     const toggleItem = (productId: string) => {
@@ -186,8 +99,8 @@ export const SearchInput = memo(function SearchInput({
         // 1. Add explicitly selected items from dropdown
         if (selectedItems.size > 0) {
             const selectedNames = Array.from(selectedItems).map(id => {
-                const product = PRODUCTS.find(p => p.id === id);
-                return product ? t(product.nameKey) : '';
+                const product = catalog.find(p => p.id === id);
+                return product ? nameOf(product) : '';
             }).filter(Boolean);
             queryParts.push(...selectedNames);
         }
@@ -246,7 +159,7 @@ export const SearchInput = memo(function SearchInput({
                         <div className="flex-grow min-w-0">
                             <div className="flex flex-wrap gap-2 max-h-[120px] overflow-y-auto pr-2 custom-scrollbar">
                                 {Array.from(selectedItems).map(id => {
-                                    const product = PRODUCTS.find(p => p.id === id);
+                                    const product = catalog.find(p => p.id === id);
                                     if (!product) return null;
                                     return (
                                         <span
@@ -261,7 +174,7 @@ export const SearchInput = memo(function SearchInput({
                                             }}
                                         >
                                             <span>{product.emoji}</span>
-                                            <span>{t(product.nameKey)}</span>
+                                            <span>{nameOf(product)}</span>
                                             <X className="w-3 h-3 hover:text-red-500 transition-colors" />
                                         </span>
                                     );
@@ -450,7 +363,7 @@ export const SearchInput = memo(function SearchInput({
                                     >
                                         <span className="text-2xl">{product.emoji}</span>
                                         <span className="font-medium text-sm sm:text-base truncate">
-                                            {t(product.nameKey)}
+                                            {nameOf(product)}
                                         </span>
                                         {isSelected && (
                                             <Check className="w-4 h-4 ml-auto" />
@@ -3,12 +3,13 @@ import { clsx } from 'clsx';
 import { ShoppingCart, Info, TrendingUp, ShoppingBag, Navigation, ChevronRight, CheckCircle2, AlertCircle, ExternalLink, Plus, Minus, Flag, MapPin } from 'lucide-react';
 import { api } from '../services/api';
 import { ReportModal } from './ReportModal';
-import { formatDistance } from '../utils/format';
+import { formatAmount, formatDistance, formatPackagePlan } from '../utils/format';
 import { useTranslation } from 'react-i18next';
 import type { Store as StoreType, ProductWithPrice, MissingItem } from '../types';
 import { getProductFallback, isImageFallback } from '../utils/productIcons';
+import { getLineDeposit, getLineDiscount, getLineExtraCost, getLineTotal } from '../utils/promotionPricing';
 import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
+import autoTable, { type Table } from 'jspdf-autotable';
 import { Download } from 'lucide-react';
 
 
@@ -58,6 +59,7 @@ export const StoreCard = memo(function StoreCard({
     const [reportingItem, setReportingItem] = useState<{
         storeId: string;
         storeName: string;
+        storeChain: string;
         itemId: string | number;
         itemName: string;
         requestedName?: string;
@@ -94,9 +96,11 @@ export const StoreCard = memo(function StoreCard({
         // 2. Table Section
         const tableData = items.map(item => {
             const qty = localQuantities[item.id] || item.quantity;
-            const lineTotal = item.price * qty;
+            const lineTotal = getLineTotal(item, qty);
+            const deposit = getLineDeposit(item, qty);
+            const name = item.appliedPromotion ? `${item.name} (${item.appliedPromotion.label})` : item.name;
             return [
-                item.name,
+                deposit > 0 ? `${name}\n${pdfT('storeCard.depositIncluded', { amount: `${deposit.toFixed(2)} NOK` })}` : name,
                 `${qty}x`,
                 `${item.price.toFixed(2)} NOK`,
                 `${lineTotal.toFixed(2)} NOK`
@@ -133,7 +137,18 @@ export const StoreCard = memo(function StoreCard({
         });
 
         // 3. Summary Section
-        const finalY = (doc as any).lastAutoTable.finalY + 10;
+        // autoTable records the table it drew on the document
+        let finalY = ((doc as jsPDF & { lastAutoTable?: Table }).lastAutoTable?.finalY ?? 50) + 10;
+        doc.setFontSize(10);
+        doc.setTextColor(100, 116, 139);
+        if (currentDeposit > 0) {
+            doc.text(`${pdfT('storeCard.deposit')}: ${currentDeposit.toFixed(2)} NOK`, 196, finalY, { align: 'right' });
+            finalY += 6;
+        }
+        if (currentExtraCost > 0) {
+            doc.text(`${pdfT('storeCard.extraCosts')}: ${currentExtraCost.toFixed(2)} NOK`, 196, finalY, { align: 'right' });
+            finalY += 6;
+        }
         doc.setFontSize(12);
         doc.setTextColor(30, 41, 59);
         doc.setFont('helvetica', 'bold');
@@ -175,10 +190,14 @@ export const StoreCard = memo(function StoreCard({
     const currentTotalCost = useMemo(() => {
         return items.reduce((acc, item) => {
             const qty = localQuantities[item.id] || item.quantity;
-            return acc + (item.price * qty);
+            return acc + getLineTotal(item, qty);
         }, 0);
     }, [items, localQuantities]);
 
+    // Deposit and offer surcharges are part of currentTotalCost; shown separately so shelf and flyer prices compare fairly
+    const currentDeposit = items.reduce((acc, item) => acc + getLineDeposit(item, localQuantities[item.id] || item.quantity), 0);
+    const currentExtraCost = items.reduce((acc, item) => acc + getLineExtraCost(item, localQuantities[item.id] || item.quantity), 0);
+
     const handleReportSubmit = async (reason: string, note: string) => {
         if (!reportingItem) return;
 
@@ -186,6 +205,7 @@ export const StoreCard = memo(function StoreCard({
             await api.submitReport({
                 store_id: reportingItem.storeId,
                 store_name: reportingItem.storeName,
+                store_chain: reportingItem.storeChain,
                 requested_item_name: reportingItem.requestedName || reportingItem.itemName,
                 matched_item_name: reportingItem.itemName,
                 matched_item_id: String(reportingItem.itemId),
@@ -308,6 +328,13 @@ export const StoreCard = memo(function StoreCard({
                                 </span>
                                 <span className="text-[10px] font-bold text-gray-400 uppercase">NOK</span>
                             </div>
+                            {(currentDeposit > 0 || currentExtraCost > 0) && (
+                                <div className="text-[10px] font-bold text-gray-400 mt-0.5">
+                                    {currentDeposit > 0 && t('storeCard.depositIncluded', { amount: `${formatPriceParts(currentDeposit).amount} NOK` })}
+                                    {currentDeposit > 0 && currentExtraCost > 0 && ' · '}
+                                    {currentExtraCost > 0 && `${t('storeCard.extraCosts', 'Extra charges')}: ${formatPriceParts(currentExtraCost).amount} NOK`}
+                                </div>
+                            )}
                             {reasoningTag && (
                                 <div className="text-[10px] bg-red-50 text-red-600 px-1.5 py-0.5 rounded-md inline-block mt-1 font-medium border border-red-100">
                                     {reasoningTag}
@@ -457,6 +484,7 @@ export const StoreCard = memo(function StoreCard({
                                                             setReportingItem({
                                                                 storeId: String(store.id),
                                                                 storeName: store.name,
+                                                                storeChain: store.chain,
                                                                 itemId: item.id,
                                                                 itemName: item.name,
                                                                 requestedName: item.originalQueryName
@@ -495,11 +523,27 @@ export const StoreCard = memo(function StoreCard({
                                     </div>
                                     <div className="text-right shrink-0">
                                         <div className="text-sm font-bold text-gray-900">
-                                            {formatPriceParts(item.price * (localQuantities[item.id] || item.quantity)).amount}
+                                            {formatPriceParts(getLineTotal(item, localQuantities[item.id] || item.quantity)).amount}
                                             <span className="text-[10px] font-bold text-gray-400 ml-1 uppercase">
                                                 {formatPriceParts(item.price).currency}
                                             </span>
                                         </div>
+                                        {item.appliedPromotion && getLineDiscount(item, localQuantities[item.id] || item.quantity) > 0 && (
+                                            <span className="text-[10px] font-bold text-green-600 block">
+                                                {item.appliedPromotion.label} · -{formatPriceParts(getLineDiscount(item, localQuantities[item.id] || item.quantity)).amount}
+                                            </span>
+                                        )}
+                                        {getLineDeposit(item, localQuantities[item.id] || item.quantity) > 0 && (
+                                            <span className="text-[10px] font-bold text-gray-400 block">
+                                                {t('storeCard.depositIncluded', { amount: `${formatPriceParts(getLineDeposit(item, localQuantities[item.id] || item.quantity)).amount} NOK` })}
+                                            </span>
+                                        )}
+                                        {formatPackagePlan(localQuantities[item.id] || item.quantity, item.attributes) && (
+                                            <span className="text-[10px] font-bold text-gray-400 block">
+                                                {formatPackagePlan(localQuantities[item.id] || item.quantity, item.attributes)}
+                                                {item.requested && ` · ${t('storeCard.requested', { amount: formatAmount(item.requested.amount, item.requested.unit) })}`}
+                                            </span>
+                                        )}
                                     </div>
                                 </div>
                             ))}
@@ -630,6 +674,13 @@ export const StoreCard = memo(function StoreCard({
                             {formatPriceParts(currentTotalCost).currency}
                         </span>
                     </div>
+                    {(currentDeposit > 0 || currentExtraCost > 0) && (
+                        <div className="text-[10px] md:text-xs font-bold text-gray-400">
+                            {currentDeposit > 0 && t('storeCard.depositIncluded', { amount: `${formatPriceParts(currentDeposit).amount} NOK` })}
+                            {currentDeposit > 0 && currentExtraCost > 0 && ' · '}
+                            {currentExtraCost > 0 && `${t('storeCard.extraCosts', 'Extra charges')}: ${formatPriceParts(currentExtraCost).amount} NOK`}
+                        </div>
+                    )}
                 </div>
                 <div className="text-right">
                     <div className="flex items-center gap-1 text-[11px] md:text-sm font-bold text-gray-500 bg-gray-50 px-2 py-1 rounded-lg border border-gray-100">
@@ -723,6 +774,7 @@ export const StoreCard = memo(function StoreCard({
                                                                 setReportingItem({
                                                                     storeId: String(store.id),
                                                                     storeName: store.name,
+                                                                    storeChain: store.chain,
                                                                     itemId: item.id,
                                                                     itemName: item.name,
                                                                     requestedName: item.originalQueryName || item.englishName
@@ -759,10 +811,10 @@ export const StoreCard = memo(function StoreCard({
                                     <div className="text-right shrink-0">
                                         <div className="flex items-baseline gap-0.5 md:gap-1">
                                             <span className="font-bold text-dark text-xs md:text-sm leading-none">
-                                                {formatPriceParts(item.price * (localQuantities[item.id] || item.quantity)).amount}
+                                                {formatPriceParts(getLineTotal(item, localQuantities[item.id] || item.quantity)).amount}
                                             </span>
                                             <span className="text-[8px] md:text-[10px] font-bold text-gray-400 uppercase">
-                                                {formatPriceParts(item.price * (localQuantities[item.id] || item.quantity)).currency}
+                                                {formatPriceParts(getLineTotal(item, localQuantities[item.id] || item.quantity)).currency}
                                             </span>
                                         </div>
                                         {(localQuantities[item.id] || item.quantity) > 1 && (
@@ -770,6 +822,22 @@ export const StoreCard = memo(function StoreCard({
                                                 {formatPriceParts(item.price).amount} / stk
                                             </span>
                                         )}
+                                        {item.appliedPromotion && getLineDiscount(item, localQuantities[item.id] || item.quantity) > 0 && (
+                                            <span className="text-[9px] md:text-[10px] text-green-600 block mt-0.5 font-bold">
+                                                {item.appliedPromotion.label} · -{formatPriceParts(getLineDiscount(item, localQuantities[item.id] || item.quantity)).amount}
+                                            </span>
+                                        )}
+                                        {getLineDeposit(item, localQuantities[item.id] || item.quantity) > 0 && (
+                                            <span className="text-[9px] md:text-[10px] text-gray-400 block mt-0.5 font-bold">
+                                                {t('storeCard.depositIncluded', { amount: `${formatPriceParts(getLineDeposit(item, localQuantities[item.id] || item.quantity)).amount} NOK` })}
+                                            </span>
+                                        )}
+                                        {formatPackagePlan(localQuantities[item.id] || item.quantity, item.attributes) && (
+                                            <span className="text-[9px] md:text-[10px] text-gray-400 block mt-0.5 font-bold">
+                                                {formatPackagePlan(localQuantities[item.id] || item.quantity, item.attributes)}
+                                                {item.requested && ` · ${t('storeCard.requested', { amount: formatAmount(item.requested.amount, item.requested.unit) })}`}
+                                            </span>
+                                        )}
                                     </div>
                                 </div>
                             ))}
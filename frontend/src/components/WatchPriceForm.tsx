@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Star, X, Loader2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useWatchlist, useAddToWatchlist, useRemoveFromWatchlist } from '../lib/queryClient';
+import { formatCurrency } from '../utils/format';
+
+interface WatchPriceFormProps {
+    productId: string;
+    name: string;
+    price: number;
+    chains: string[];
+}
+
+// Suggested target: 10 % below today's price, rounded down to 10 øre
+const suggestTarget = (price: number): number => Math.floor(price * 0.9 * 10) / 10;
+
+export function WatchPriceForm({ productId, name, price, chains }: WatchPriceFormProps) {
+    const { t } = useTranslation();
+    const { data: watchlist = [] } = useWatchlist();
+    const addToWatchlist = useAddToWatchlist();
+    const removeFromWatchlist = useRemoveFromWatchlist();
+    const [target, setTarget] = useState(() => suggestTarget(price).toFixed(2));
+    const [chain, setChain] = useState('');
+
+    const existing = watchlist.find(s => s.productId === productId);
+
+    if (existing) {
+        return (
+            <div className="flex items-center justify-between gap-2 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2">
+                <span className="flex items-center gap-1.5 text-[11px] font-bold text-amber-800">
+                    <Star className="w-3.5 h-3.5 fill-amber-400 text-amber-500" />
+                    {t('watchlist.watching', { price: formatCurrency(existing.targetPrice) })}
+                    {existing.chain && <span className="font-medium text-amber-700">· {existing.chain}</span>}
+                </span>
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        removeFromWatchlist.mutate(existing.id);
+                    }}
+                    disabled={removeFromWatchlist.isPending}
+                    className="flex items-center gap-1 text-[10px] font-bold text-amber-700 hover:text-amber-900 transition-colors"
+                >
+                    <X className="w-3 h-3" />
+                    {t('watchlist.stop')}
+                </button>
+            </div>
+        );
+    }
+
+    const targetValue = parseFloat(target.replace(',', '.'));
+    const isValid = targetValue > 0;
+
+    return (
+        <form
+            onClick={(e) => e.stopPropagation()}
+            onSubmit={(e) => {
+                e.preventDefault();
+                if (!isValid) return;
+                addToWatchlist.mutate({ productId, name, targetPrice: targetValue, chain: chain || undefined });
+            }}
+            className="flex flex-wrap items-center gap-2"
+        >
+            <label className="flex items-center gap-1.5 text-[11px] font-bold text-slate-600">
+                {t('watchlist.alertBelow')}
+                <input
+                    type="text"
+                    inputMode="decimal"
+                    value={target}
+                    onChange={(e) => setTarget(e.target.value)}
+                    aria-label={t('watchlist.targetPrice')}
+                    className="w-16 px-2 py-1 rounded-md border border-slate-200 text-xs font-bold text-slate-800 tabular-nums focus:outline-none focus:border-indigo-300"
+                />
+                kr
+            </label>
+            {chains.length > 1 && (
+                <select
+                    value={chain}
+                    onChange={(e) => setChain(e.target.value)}
+                    aria-label={t('watchlist.chain')}
+                    className="px-2 py-1 rounded-md border border-slate-200 text-[11px] font-medium text-slate-700 bg-white focus:outline-none focus:border-indigo-300"
+                >
+                    <option value="">{t('watchlist.anyChain')}</option>
+                    {chains.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+            )}
+            <button
+                type="submit"
+                disabled={!isValid || addToWatchlist.isPending}
+                className="flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-amber-400 hover:bg-amber-500 disabled:opacity-50 text-[11px] font-black text-amber-950 transition-colors"
+            >
+                {addToWatchlist.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Star className="w-3 h-3" />}
+                {t('watchlist.watch')}
+            </button>
+            {addToWatchlist.isError && (
+                <span className="w-full text-[10px] text-red-600">{t(addToWatchlist.error.message, t('errors.failedWatchlist'))}</span>
+            )}
+        </form>
+    );
+}
+
+export default WatchPriceForm;
@@ -6,7 +6,13 @@ import type {
     ShoppingItem,
     SearchResponse,
     Store,
-    RouteResponse
+    RouteResponse,
+    PriceHistoryResponse,
+    WatchSubscription,
+    NewWatchSubscription,
+    WatchAlert,
+    CatalogItem,
+    ReportFilters
 } from '../types';
 
 // 1. Configure QueryClient
@@ -60,6 +66,112 @@ export function useStoresNearby(
     });
 }
 
+/**
+ * Hook to fetch the canonical item catalog for the search autocomplete
+ */
+export function useCatalog() {
+    return useQuery<CatalogItem[], Error>({
+        queryKey: ['catalog'],
+        queryFn: api.getCatalog,
+        staleTime: 1000 * 60 * 60, // The catalog only changes with a deploy
+    });
+}
+
+/**
+ * Hook to fetch a product's price history
+ */
+export function usePriceHistory(
+    productId: string | undefined,
+    options?: Omit<UseQueryOptions<PriceHistoryResponse, Error>, 'queryKey' | 'queryFn'>
+) {
+    return useQuery({
+        queryKey: ['products', 'history', productId],
+        queryFn: () => api.getPriceHistory(productId!),
+        enabled: !!productId,
+        staleTime: 1000 * 60 * 60, // History changes at most daily
+        retry: 1,
+        ...options,
+    });
+}
+
+/**
+ * Hook to fetch this device's watchlist
+ */
+export function useWatchlist() {
+    return useQuery<WatchSubscription[], Error>({
+        queryKey: ['watchlist'],
+        queryFn: api.getWatchlist,
+        retry: 1,
+    });
+}
+
+/**
+ * Hook to watch a product or item; refreshes the watchlist on success
+ */
+export function useAddToWatchlist() {
+    return useMutation<WatchSubscription, Error, NewWatchSubscription>({
+        mutationFn: api.addToWatchlist,
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['watchlist'] }),
+    });
+}
+
+/**
+ * Hook to stop watching an item
+ */
+export function useRemoveFromWatchlist() {
+    return useMutation<void, Error, string>({
+        mutationFn: api.removeFromWatchlist,
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['watchlist'] }),
+    });
+}
+
+/**
+ * Hook to poll price drop alerts
+ */
+export function useNotifications() {
+    return useQuery<{ notifications: WatchAlert[]; unread: number }, Error>({
+        queryKey: ['notifications'],
+        queryFn: api.getNotifications,
+        refetchInterval: 5 * 60 * 1000, // Alerts are raised by an hourly job
+        retry: 1,
+    });
+}
+
+/**
+ * Hook to list mismatch reports for the admin page
+ */
+export function useAdminReports(token: string, filters: ReportFilters, page: { limit: number; offset: number }) {
+    return useQuery({
+        queryKey: ['admin', 'reports', token, filters, page],
+        queryFn: () => api.getAdminReports(token, filters, page),
+        enabled: !!token,
+        retry: false, // A wrong token should show up at once
+    });
+}
+
+/**
+ * Hook to fetch report counts by status, reason and store
+ */
+export function useAdminReportStats(token: string, filters: ReportFilters) {
+    return useQuery({
+        queryKey: ['admin', 'stats', token, filters],
+        queryFn: () => api.getAdminReportStats(token, filters),
+        enabled: !!token,
+        retry: false,
+    });
+}
+
+/**
+ * Hook to resolve, reject or reopen a report; refreshes the list and stats on success
+ */
+export function useModerateReport(token: string) {
+    return useMutation({
+        mutationFn: ({ id, action, note }: { id: string; action: 'resolve' | 'reject' | 'reopen'; note?: string }) =>
+            api.moderateReport(token, id, action, note),
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['admin'] }),
+    });
+}
+
 /**
  * Hook to optimize shopping route
  */
@@ -71,7 +183,7 @@ export function useOptimizeRoute(
             maxStores?: number;
             maxDistance?: number;
             excludedChains?: string[];
-            sortBy?: 'cheapest' | 'closest' | 'stops';
+            sortBy?: 'cheapest' | 'closest' | 'stops' | 'unitPrice';
         }
     }>
 ) {
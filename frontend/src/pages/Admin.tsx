@@ -0,0 +1,353 @@
+import { useState } from 'react';
+import axios from 'axios';
+import { clsx } from 'clsx';
+import { Download, LogOut, ShieldCheck, Check, X, RotateCcw, Loader2, AlertCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import SEO from '../components/SEO';
+import { api } from '../services/api';
+import { useAdminReports, useAdminReportStats, useModerateReport } from '../lib/queryClient';
+import { formatDate } from '../utils/format';
+import type { MismatchReport, ReportFilters, ReportStatus } from '../types';
+
+// The token only lives for this browser tab
+const TOKEN_KEY = 'smarthandel_admin_token';
+const PAGE_SIZE = 50;
+
+const REASONS = [
+    'Wrong product matched',
+    'Wrong size or variant',
+    'Wrong price',
+    'Marked available but unavailable',
+    'Other'
+];
+
+const STATUSES: ReportStatus[] = ['open', 'resolved', 'rejected'];
+
+const STATUS_STYLES: Record<ReportStatus, string> = {
+    open: 'bg-amber-50 text-amber-700 border-amber-100',
+    resolved: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+    rejected: 'bg-gray-100 text-gray-500 border-gray-200'
+};
+
+type ModerationAction = 'resolve' | 'reject' | 'reopen';
+
+const readToken = (): string => {
+    try {
+        return sessionStorage.getItem(TOKEN_KEY) || '';
+    } catch {
+        return '';
+    }
+};
+
+const saveToken = (token: string) => {
+    try {
+        if (token) sessionStorage.setItem(TOKEN_KEY, token);
+        else sessionStorage.removeItem(TOKEN_KEY);
+    } catch {
+        // Storage blocked: the token lasts until the page is reloaded
+    }
+};
+
+const errorStatus = (error: unknown): number | undefined =>
+    axios.isAxiosError(error) ? error.response?.status : undefined;
+
+const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const inputClass = 'w-full px-3 py-2 text-sm bg-white border border-gray-200 rounded-lg focus:outline-none focus:border-primary';
+
+export function Admin() {
+    const { t } = useTranslation();
+    const [token, setToken] = useState(readToken);
+    const [tokenInput, setTokenInput] = useState('');
+    const [filters, setFilters] = useState<ReportFilters>({ status: 'open' });
+    const [offset, setOffset] = useState(0);
+    const [moderating, setModerating] = useState<{ id: string; action: ModerationAction } | null>(null);
+    const [note, setNote] = useState('');
+    const [exporting, setExporting] = useState(false);
+
+    const reports = useAdminReports(token, filters, { limit: PAGE_SIZE, offset });
+    const stats = useAdminReportStats(token, filters);
+    const moderate = useModerateReport(token);
+
+    const signOut = () => {
+        saveToken('');
+        setToken('');
+    };
+
+    const updateFilter = (key: keyof ReportFilters, value: string) => {
+        setFilters(prev => ({ ...prev, [key]: value || undefined }));
+        setOffset(0);
+    };
+
+    const handleExport = async (format: 'csv' | 'json') => {
+        setExporting(true);
+        try {
+            const blob = await api.exportAdminReports(token, filters, format);
+            downloadBlob(blob, `mismatch-reports-${new Date().toISOString().slice(0, 10)}.${format}`);
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const submitModeration = (report: MismatchReport, action: ModerationAction) => {
+        moderate.mutate(
+            { id: report.id, action, note: note.trim() || undefined },
+            { onSuccess: () => { setModerating(null); setNote(''); } }
+        );
+    };
+
+    if (!token) {
+        return (
+            <div className="min-h-[70vh] flex items-center justify-center px-4">
+                <SEO title={t('seo.adminTitle')} />
+                <form
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        const value = tokenInput.trim();
+                        if (!value) return;
+                        saveToken(value);
+                        setToken(value);
+                        setTokenInput('');
+                    }}
+                    className="w-full max-w-sm bg-white border border-gray-100 rounded-2xl shadow-sm p-6 space-y-4"
+                >
+                    <div className="flex items-center gap-2 text-dark font-bold">
+                        <ShieldCheck className="w-5 h-5 text-primary" />
+                        {t('admin.title')}
+                    </div>
+                    <label className="block space-y-1">
+                        <span className="text-xs font-bold text-gray-500 uppercase tracking-wider">{t('admin.tokenLabel')}</span>
+                        <input
+                            type="password"
+                            autoComplete="off"
+                            value={tokenInput}
+                            onChange={(e) => setTokenInput(e.target.value)}
+                            placeholder={t('admin.tokenPlaceholder')}
+                            className={inputClass}
+                        />
+                    </label>
+                    <button type="submit" className="w-full py-2.5 bg-primary text-white text-sm font-bold rounded-lg hover:bg-primary/90 transition-colors">
+                        {t('admin.signIn')}
+                    </button>
+                </form>
+            </div>
+        );
+    }
+
+    const status = errorStatus(reports.error);
+    const total = reports.data?.total ?? 0;
+
+    return (
+        <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+            <SEO title={t('seo.adminTitle')} />
+
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h1 className="text-2xl font-bold text-dark">{t('admin.title')}</h1>
+                <div className="flex items-center gap-2">
+                    {(['csv', 'json'] as const).map(format => (
+                        <button
+                            key={format}
+                            onClick={() => handleExport(format)}
+                            disabled={exporting || !!reports.error}
+                            className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold bg-white border border-gray-200 rounded-lg hover:border-primary hover:text-primary transition-colors disabled:opacity-50"
+                        >
+                            <Download className="w-3.5 h-3.5" />
+                            {t('admin.export', { format: format.toUpperCase() })}
+                        </button>
+                    ))}
+                    <button
+                        onClick={signOut}
+                        className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-gray-500 hover:text-dark transition-colors"
+                    >
+                        <LogOut className="w-3.5 h-3.5" />
+                        {t('admin.signOut')}
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 bg-gray-50 border border-gray-100 rounded-2xl p-4">
+                <label className="space-y-1">
+                    <span className="text-[11px] font-bold text-gray-500 uppercase">{t('admin.store')}</span>
+                    <input value={filters.store || ''} onChange={(e) => updateFilter('store', e.target.value)} placeholder={t('admin.storePlaceholder')} className={inputClass} />
+                </label>
+                <label className="space-y-1">
+                    <span className="text-[11px] font-bold text-gray-500 uppercase">{t('admin.reason')}</span>
+                    <select value={filters.reason || ''} onChange={(e) => updateFilter('reason', e.target.value)} className={inputClass}>
+                        <option value="">{t('admin.all')}</option>
+                        {REASONS.map(reason => <option key={reason} value={reason}>{reason}</option>)}
+                    </select>
+                </label>
+                <label className="space-y-1">
+                    <span className="text-[11px] font-bold text-gray-500 uppercase">{t('admin.status')}</span>
+                    <select value={filters.status || ''} onChange={(e) => updateFilter('status', e.target.value)} className={inputClass}>
+                        <option value="">{t('admin.all')}</option>
+                        {STATUSES.map(s => <option key={s} value={s}>{t(`admin.${s}`)}</option>)}
+                    </select>
+                </label>
+                <label className="space-y-1">
+                    <span className="text-[11px] font-bold text-gray-500 uppercase">{t('admin.from')}</span>
+                    <input type="date" value={filters.from || ''} onChange={(e) => updateFilter('from', e.target.value)} className={inputClass} />
+                </label>
+                <label className="space-y-1">
+                    <span className="text-[11px] font-bold text-gray-500 uppercase">{t('admin.to')}</span>
+                    <input type="date" value={filters.to || ''} onChange={(e) => updateFilter('to', e.target.value)} className={inputClass} />
+                </label>
+            </div>
+
+            {reports.error && (
+                <div className="flex items-center justify-between gap-3 bg-red-50 border border-red-100 text-red-700 rounded-xl px-4 py-3 text-sm">
+                    <span className="flex items-center gap-2">
+                        <AlertCircle className="w-4 h-4" />
+                        {status === 401 ? t('admin.invalidToken') : status === 503 ? t('admin.disabled') : t('admin.loadFailed')}
+                    </span>
+                    {status === 401 && (
+                        <button onClick={signOut} className="font-bold underline">{t('admin.signOut')}</button>
+                    )}
+                </div>
+            )}
+
+            {stats.data && (
+                <div className="grid md:grid-cols-3 gap-3">
+                    <div className="bg-white border border-gray-100 rounded-2xl p-4 space-y-2">
+                        <p className="text-3xl font-bold text-dark">{stats.data.total}</p>
+                        <p className="text-xs font-bold text-gray-400 uppercase">{t('admin.total')}</p>
+                        <div className="flex flex-wrap gap-1.5">
+                            {STATUSES.map(s => (
+                                <span key={s} className={clsx('px-2 py-0.5 text-[11px] font-bold border rounded-full', STATUS_STYLES[s])}>
+                                    {t(`admin.${s}`)} {stats.data.byStatus[s]}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="bg-white border border-gray-100 rounded-2xl p-4">
+                        <p className="text-xs font-bold text-gray-400 uppercase mb-2">{t('admin.topReasons')}</p>
+                        <ul className="space-y-1 text-sm">
+                            {stats.data.byReason.slice(0, 5).map(r => (
+                                <li key={r.reason} className="flex justify-between gap-2">
+                                    <span className="text-gray-600 truncate">{r.reason}</span>
+                                    <span className="font-bold text-dark">{r.count}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                    <div className="bg-white border border-gray-100 rounded-2xl p-4">
+                        <p className="text-xs font-bold text-gray-400 uppercase mb-2">{t('admin.topStores')}</p>
+                        <ul className="space-y-1 text-sm">
+                            {stats.data.byStore.slice(0, 5).map(s => (
+                                <li key={s.store_id} className="flex justify-between gap-2">
+                                    <button onClick={() => updateFilter('store', s.store_id)} className="text-gray-600 truncate hover:text-primary text-left">
+                                        {s.store_name}
+                                    </button>
+                                    <span className="font-bold text-dark">{s.count}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                </div>
+            )}
+
+            {reports.isLoading ? (
+                <div className="flex justify-center py-12">
+                    <Loader2 className="w-6 h-6 text-primary animate-spin" />
+                </div>
+            ) : reports.data && reports.data.reports.length === 0 ? (
+                <p className="text-center text-gray-400 py-12">{t('admin.empty')}</p>
+            ) : (
+                <ul className="space-y-2">
+                    {reports.data?.reports.map(report => (
+                        <li key={report.id} className="bg-white border border-gray-100 rounded-xl p-4 space-y-2">
+                            <div className="flex flex-wrap items-start justify-between gap-2">
+                                <div className="space-y-0.5 min-w-0">
+                                    <p className="text-sm text-dark">
+                                        <span className="text-gray-400">{t('admin.requested')}</span> <strong>{report.requested_item_name}</strong>
+                                        {' · '}
+                                        <span className="text-gray-400">{t('admin.matched')}</span> <strong>{report.matched_item_name}</strong>
+                                    </p>
+                                    <p className="text-xs text-gray-500">
+                                        {report.store_name} · {report.report_reason} · {formatDate(report.created_at)}
+                                    </p>
+                                    {report.optional_note && <p className="text-xs text-gray-600 italic">"{report.optional_note}"</p>}
+                                    {report.resolution_note && (
+                                        <p className="text-xs text-gray-600">
+                                            <span className="font-bold">{t('admin.note')}:</span> {report.resolution_note}
+                                        </p>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-1.5 shrink-0">
+                                    <span className={clsx('px-2 py-0.5 text-[11px] font-bold border rounded-full', STATUS_STYLES[report.status])}>
+                                        {t(`admin.${report.status}`)}
+                                    </span>
+                                    {report.status === 'open' ? (
+                                        <>
+                                            <button onClick={() => setModerating({ id: report.id, action: 'resolve' })} title={t('admin.resolve')} className="p-1.5 rounded-lg text-emerald-600 hover:bg-emerald-50">
+                                                <Check className="w-4 h-4" />
+                                            </button>
+                                            <button onClick={() => setModerating({ id: report.id, action: 'reject' })} title={t('admin.reject')} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100">
+                                                <X className="w-4 h-4" />
+                                            </button>
+                                        </>
+                                    ) : (
+                                        <button
+                                            onClick={() => moderate.mutate({ id: report.id, action: 'reopen' })}
+                                            disabled={moderate.isPending}
+                                            title={t('admin.reopen')}
+                                            className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100"
+                                        >
+                                            <RotateCcw className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+
+                            {moderating?.id === report.id && (
+                                <form
+                                    onSubmit={(e) => {
+                                        e.preventDefault();
+                                        submitModeration(report, moderating.action);
+                                    }}
+                                    className="flex flex-wrap gap-2"
+                                >
+                                    <input
+                                        autoFocus
+                                        value={note}
+                                        onChange={(e) => setNote(e.target.value)}
+                                        maxLength={1000}
+                                        placeholder={t('admin.notePlaceholder')}
+                                        className={clsx(inputClass, 'flex-1 min-w-[12rem]')}
+                                    />
+                                    <button type="submit" disabled={moderate.isPending} className="px-3 py-2 text-xs font-bold bg-primary text-white rounded-lg disabled:opacity-50">
+                                        {t(`admin.${moderating.action}`)}
+                                    </button>
+                                    <button type="button" onClick={() => { setModerating(null); setNote(''); }} className="px-3 py-2 text-xs font-bold text-gray-500">
+                                        {t('admin.cancel')}
+                                    </button>
+                                </form>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {total > PAGE_SIZE && (
+                <div className="flex items-center justify-center gap-4 text-sm">
+                    <button onClick={() => setOffset(offset - PAGE_SIZE)} disabled={offset === 0} className="font-bold text-primary disabled:text-gray-300">
+                        {t('admin.previous')}
+                    </button>
+                    <span className="text-gray-500">
+                        {t('admin.page', { from: offset + 1, to: Math.min(offset + PAGE_SIZE, total), total })}
+                    </span>
+                    <button onClick={() => setOffset(offset + PAGE_SIZE)} disabled={offset + PAGE_SIZE >= total} className="font-bold text-primary disabled:text-gray-300">
+                        {t('admin.next')}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
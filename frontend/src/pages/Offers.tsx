@@ -59,6 +59,8 @@ interface OfferProduct {
     currency?: string;
     brand?: string;
     label: string;
+    valid_to?: string;
+    ending_soon?: boolean;
 }
 
 const CATEGORIES = [
@@ -554,10 +556,15 @@ export function Offers() {
                                             <Tag className={`w-10 h-10 sm:w-16 sm:h-16 ${colors.accent} opacity-5 group-hover:opacity-10 transition-opacity`} />
 
                                             {/* Promo Badge */}
-                                            <div className="absolute top-2 left-2 sm:top-4 sm:left-4">
+                                            <div className="absolute top-2 left-2 sm:top-4 sm:left-4 flex flex-col items-start gap-1">
                                                 <span className={`inline-flex items-center justify-center px-2 py-0.5 sm:px-3 sm:py-1.5 ${colors.fill} text-white font-black text-[8px] sm:text-xs uppercase tracking-wider rounded-md sm:rounded-lg shadow-sm`}>
                                                     {offer.label}
                                                 </span>
+                                                {offer.ending_soon && (
+                                                    <span className="inline-flex items-center justify-center px-2 py-0.5 sm:px-2.5 sm:py-1 bg-red-600 text-white font-bold text-[8px] sm:text-[10px] uppercase tracking-wider rounded-md shadow-sm">
+                                                        {t('offers.endingSoon', 'Ends soon')}
+                                                    </span>
+                                                )}
                                             </div>
                                         </div>
 
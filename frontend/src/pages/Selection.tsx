@@ -4,13 +4,16 @@ import { useTranslation } from 'react-i18next';
 import {
     ArrowRight,
     ShoppingBag,
-    AlertCircle
+    AlertCircle,
+    ScanBarcode
 } from 'lucide-react';
 import { useParseQuery, queryClient } from '../lib/queryClient';
 import SEO from '../components/SEO';
 import { trackEvent } from '../utils/analytics';
 import { SearchInput } from '../components/SearchInput';
 import { ItemCard } from '../components/ItemCard';
+import { BarcodeScanner } from '../components/BarcodeScanner';
+import type { ShoppingItem } from '../types';
 // No local interfaces needed, using types from ../types via context
 
 import { useShoppingList } from '../context/ShoppingListContext';
@@ -26,6 +29,7 @@ export function Selection() {
         items,
         location: savedLocation,
         setItems,
+        addItems,
         updateQuantity,
         removeItem,
         lockBrand,
@@ -33,6 +37,7 @@ export function Selection() {
     } = useShoppingList();
 
     const [isThinking, setIsThinking] = useState(false);
+    const [isScannerOpen, setIsScannerOpen] = useState(false);
     const userLocation = (locationState.state as { location?: { lat: number; lng: number } })?.location || savedLocation;
 
     // 1. Parsing Query via AI
@@ -73,6 +78,13 @@ export function Selection() {
                 return { ...newItem, quantity: newItem.quantity || 1 };
             });
 
+            // Scanned items are not part of the text query, so carry them over untouched
+            items
+                .filter(item => item.scannedEan && !merged.some(m =>
+                    (m.englishName || m.name).toLowerCase() === (item.englishName || item.name).toLowerCase()
+                ))
+                .forEach(item => merged.push(item));
+
             // Update items if they changed (prevent infinite loops)
             if (JSON.stringify(merged) !== JSON.stringify(items)) {
                 setItems(merged);
@@ -96,6 +108,11 @@ export function Selection() {
         });
     };
 
+    const handleScannedItem = (item: ShoppingItem) => {
+        trackEvent('barcode_scanned', { ean: item.scannedEan });
+        addItems([item]);
+    };
+
     const handleRemoveItem = (index: number) => {
         // 1. Calculate the hypothetical remaining items
         const remainingItems = items.filter((_, i) => i !== index);
@@ -219,8 +236,21 @@ export function Selection() {
                             className="max-w-none shadow-none border-none"
                         />
                     </div>
+                    <button
+                        onClick={() => setIsScannerOpen(true)}
+                        className="mt-3 flex items-center gap-2 text-sm font-bold text-slate-500 hover:text-indigo-600 transition-colors"
+                    >
+                        <ScanBarcode className="w-4 h-4" />
+                        {t('scanner.open')}
+                    </button>
                 </div>
 
+                <BarcodeScanner
+                    isOpen={isScannerOpen}
+                    onClose={() => setIsScannerOpen(false)}
+                    onAdd={handleScannedItem}
+                />
+
                 {items.length === 0 ? (
                     <div className="mt-10 flex flex-col items-center justify-center text-center p-8 md:p-12">
                         <div className="bg-gradient-to-br from-indigo-50 to-white w-20 h-20 rounded-2xl flex items-center justify-center mb-6 border border-indigo-100 shadow-sm">
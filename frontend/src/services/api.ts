@@ -5,8 +5,20 @@ import type {
     SearchResponse,
     Store,
     RouteResponse,
-    ComparisonResult
+    ComparisonResult,
+    EanLookupResponse,
+    PriceHistoryResponse,
+    WatchSubscription,
+    NewWatchSubscription,
+    WatchAlert,
+    CatalogItem,
+    MismatchReport,
+    ReportFilters,
+    ReportStats,
+    Offer,
+    OffersResponse
 } from '../types';
+import { getDeviceId } from '../utils/deviceId';
 
 // Extend the import to include an ad-hoc interface if necessary, or let typescript infer it
 // since the ts error earlier indicated that the implicit return type of `typeof api` was heavily restricted in another place. 
@@ -22,6 +34,16 @@ const apiClient: AxiosInstance = axios.create({
 
 const isDev = import.meta.env.DEV;
 
+// Watchlist calls are tied to this device's anonymous ID
+const deviceHeaders = () => ({ 'X-Device-Id': getDeviceId() });
+
+// Admin calls carry the token typed into the admin page
+const adminHeaders = (token: string) => ({ 'X-Admin-Token': token });
+
+// Empty filter fields are left out of the query string
+const reportParams = (filters: ReportFilters) =>
+    Object.fromEntries(Object.entries(filters).filter(([, value]) => value));
+
 
 // Request Interceptor (Logging)
 apiClient.interceptors.request.use(
@@ -95,7 +117,7 @@ export const api = {
             maxStores?: number;
             maxDistance?: number;
             excludedChains?: string[];
-            sortBy?: 'cheapest' | 'closest' | 'stops';
+            sortBy?: 'cheapest' | 'closest' | 'stops' | 'unitPrice';
         }
     ): Promise<RouteResponse> => {
         try {
@@ -189,12 +211,162 @@ export const api = {
         }
     },
 
+    /**
+     * Look up a scanned barcode. Resolves to null when the EAN is unknown.
+     */
+    lookupEan: async (ean: string, lat?: number, lng?: number, radius: number = 10): Promise<EanLookupResponse | null> => {
+        try {
+            const response = await apiClient.get<{ success: boolean } & EanLookupResponse>(`/api/products/ean/${encodeURIComponent(ean)}`, {
+                params: { lat, lng, radius },
+            });
+            return {
+                product: response.data.product,
+                prices: response.data.prices || [],
+                cheapest: response.data.cheapest,
+            };
+        } catch (error) {
+            if (axios.isAxiosError(error)) {
+                if (error.response?.status === 404) return null;
+                throw new Error(error.response?.data?.message || 'errors.failedEanLookup');
+            }
+            throw new Error('errors.failedEanLookup');
+        }
+    },
+
+    /**
+     * Canonical items for the search autocomplete
+     */
+    getCatalog: async (): Promise<CatalogItem[]> => {
+        const response = await apiClient.get<{ success: boolean; items: CatalogItem[] }>('/api/catalog');
+        return response.data.items || [];
+    },
+
+    /**
+     * Price history per store with 30/90-day stats for a product
+     */
+    getPriceHistory: async (productId: string): Promise<PriceHistoryResponse> => {
+        try {
+            const response = await apiClient.get<{ success: boolean } & PriceHistoryResponse>(`/api/products/${encodeURIComponent(productId)}/history`);
+            return {
+                product: response.data.product,
+                stores: response.data.stores || [],
+            };
+        } catch (error) {
+            if (axios.isAxiosError(error)) {
+                throw new Error(error.response?.data?.message || 'errors.failedPriceHistory');
+            }
+            throw new Error('errors.failedPriceHistory');
+        }
+    },
+
+    /**
+     * Watched products and items for this device
+     */
+    getWatchlist: async (): Promise<WatchSubscription[]> => {
+        const response = await apiClient.get<{ success: boolean; subscriptions: WatchSubscription[] }>('/api/watchlist', { headers: deviceHeaders() });
+        return response.data.subscriptions || [];
+    },
+
+    /**
+     * Watch a product or canonical item for a drop to the target price
+     */
+    addToWatchlist: async (subscription: NewWatchSubscription): Promise<WatchSubscription> => {
+        try {
+            const response = await apiClient.post<{ success: boolean; subscription: WatchSubscription }>('/api/watchlist', subscription, { headers: deviceHeaders() });
+            return response.data.subscription;
+        } catch (error) {
+            if (axios.isAxiosError(error)) {
+                throw new Error(error.response?.data?.message || 'errors.failedWatchlist');
+            }
+            throw new Error('errors.failedWatchlist');
+        }
+    },
+
+    removeFromWatchlist: async (id: string): Promise<void> => {
+        await apiClient.delete(`/api/watchlist/${encodeURIComponent(id)}`, { headers: deviceHeaders() });
+    },
+
+    /**
+     * Price drop alerts for this device, newest first
+     */
+    getNotifications: async (): Promise<{ notifications: WatchAlert[]; unread: number }> => {
+        const response = await apiClient.get<{ success: boolean; notifications: WatchAlert[]; unread: number }>('/api/watchlist/notifications', { headers: deviceHeaders() });
+        return { notifications: response.data.notifications || [], unread: response.data.unread || 0 };
+    },
+
+    /**
+     * Mark alerts as read (all of them when no ids are given)
+     */
+    markNotificationsRead: async (ids?: string[]): Promise<void> => {
+        await apiClient.post('/api/watchlist/notifications/read', ids ? { ids } : {}, { headers: deviceHeaders() });
+    },
+
+    /**
+     * Public VAPID key, or null when the server has no Web Push configured
+     */
+    getPushKey: async (): Promise<string | null> => {
+        try {
+            const response = await apiClient.get<{ success: boolean; enabled: boolean; publicKey: string | null }>('/api/watchlist/push/key');
+            return response.data.enabled ? response.data.publicKey : null;
+        } catch {
+            return null;
+        }
+    },
+
+    registerPush: async (subscription: PushSubscriptionJSON): Promise<void> => {
+        await apiClient.post('/api/watchlist/push/subscribe', { subscription }, { headers: deviceHeaders() });
+    },
+
+    /**
+     * Mismatch reports for the admin page, newest first
+     */
+    getAdminReports: async (token: string, filters: ReportFilters, page: { limit: number; offset: number }): Promise<{ reports: MismatchReport[]; total: number }> => {
+        const response = await apiClient.get<{ success: boolean; reports: MismatchReport[]; total: number }>('/api/admin/reports', {
+            params: { ...reportParams(filters), ...page },
+            headers: adminHeaders(token),
+        });
+        return { reports: response.data.reports || [], total: response.data.total || 0 };
+    },
+
+    getAdminReportStats: async (token: string, filters: ReportFilters): Promise<ReportStats> => {
+        const { data } = await apiClient.get<{ success: boolean } & ReportStats>('/api/admin/reports/stats', {
+            params: reportParams(filters),
+            headers: adminHeaders(token),
+        });
+        return { total: data.total, byStatus: data.byStatus, byReason: data.byReason, byStore: data.byStore };
+    },
+
+    /**
+     * Resolve, reject or reopen a report
+     */
+    moderateReport: async (token: string, id: string, action: 'resolve' | 'reject' | 'reopen', note?: string): Promise<MismatchReport> => {
+        const response = await apiClient.post<{ success: boolean; report: MismatchReport }>(
+            `/api/admin/reports/${encodeURIComponent(id)}/${action}`,
+            note ? { note } : {},
+            { headers: adminHeaders(token) }
+        );
+        return response.data.report;
+    },
+
+    /**
+     * The filtered reports as a CSV or JSON file
+     */
+    exportAdminReports: async (token: string, filters: ReportFilters, format: 'csv' | 'json'): Promise<Blob> => {
+        const response = await apiClient.get<Blob>('/api/admin/reports/export', {
+            params: { ...reportParams(filters), format },
+            headers: adminHeaders(token),
+            responseType: 'blob',
+        });
+        return response.data;
+    },
+
     /**
      * Get current promotional offers
+     * @param date Optional YYYY-MM-DD to preview the offers valid on another day
      */
-    getOffers: async (): Promise<any[]> => {
+    getOffers: async (date?: string): Promise<Offer[]> => {
         try {
-            const response = await apiClient.get<any>('/api/products/offers');
+            const response = await apiClient.get<OffersResponse>('/api/products/offers', { params: date ? { date } : undefined });
             return response.data.offers || [];
         } catch (error: any) {
             console.error('[API Offers Error]', error.response?.data || error.message);
@@ -3,10 +3,24 @@ export interface Location {
     lng: number;
 }
 
+export type UnitPriceUnit = 'kr/kg' | 'kr/l' | 'kr/stk';
+
+export interface ProductAttributes {
+    netQuantity?: number; // Total package size in netUnit
+    netUnit?: 'kg' | 'l' | 'stk';
+    packCount?: number;
+    itemQuantity?: number;
+    fatPercent?: number;
+    organic: boolean;
+    origin?: string;
+    variants: string[];
+}
+
 export interface Product {
     id: string | number;
     name: string;
     englishName?: string;
+    ean?: string;
     price: number;
     store: string;
     image_url: string;
@@ -15,6 +29,10 @@ export interface Product {
     priceHistory?: Array<{ price: number; date: string }>;
     ingredients?: string;
     allergens?: Array<{ display_name: string; contains: boolean }>;
+    deposit?: number; // Bottle deposit (pant) per package, included in price
+    unitPrice?: number; // Price per kg, liter or piece, excluding deposit
+    unitPriceUnit?: UnitPriceUnit;
+    attributes?: ProductAttributes; // Size, fat %, origin etc. parsed from the name
     promotions?: Array<{
         chain: string;
         label: string;
@@ -49,6 +67,7 @@ export interface ShoppingItem {
     lockedProductId?: string; // Specific product ID (or name) the user wants
     lockedProductDetails?: Product; // Snapshot of the locked product
     lockedStore?: string; // The store where this specific product was found
+    scannedEan?: string; // Barcode the item was added from (scan-to-list)
     lockedOffer?: {
         chain: string;
         label: string;
@@ -58,14 +77,123 @@ export interface ShoppingItem {
     };
 }
 
+export interface EanPrice {
+    productId: string | number;
+    chain: string;
+    store: string;
+    price: number;
+    source?: string;
+}
+
+export interface EanLookupResponse {
+    product: Pick<Product, 'id' | 'ean' | 'name' | 'image_url' | 'unit' | 'ingredients' | 'allergens'>;
+    prices: EanPrice[];
+    cheapest: EanPrice | null;
+}
+
+// --- Price History Types ---
+
+export interface PricePoint {
+    date: string; // YYYY-MM-DD, the price applies until the next point
+    price: number;
+}
+
+export interface PriceWindowStats {
+    days: number;
+    min: number;
+    max: number;
+    median: number;
+}
+
+export interface PriceHistoryStats {
+    current: number;
+    last30: PriceWindowStats;
+    last90: PriceWindowStats;
+    currentPercentile: number; // Share of the last 90 days with a lower price, 0-100
+    lastChange: string | null;
+}
+
+export interface StorePriceHistory {
+    productId: string | number;
+    store: string;
+    chain: string;
+    source?: string;
+    points: PricePoint[];
+    stats: PriceHistoryStats;
+}
+
+export interface PriceHistoryResponse {
+    product: Pick<Product, 'id' | 'name' | 'ean' | 'image_url'>;
+    stores: StorePriceHistory[]; // Cheapest current price first
+}
+
+// --- Watchlist Types ---
+
+export interface WatchSubscription {
+    id: string;
+    productId?: string;
+    canonicalItem?: string;
+    name: string;
+    targetPrice: number;
+    chain?: string;
+    created_at: string;
+    lastPrice?: number; // Cheapest matching price at the last check
+    lastCheckedAt?: string;
+}
+
+export interface NewWatchSubscription {
+    productId?: string;
+    canonicalItem?: string;
+    targetPrice: number;
+    chain?: string;
+    name?: string;
+}
+
+export interface WatchAlert {
+    id: string;
+    subscriptionId: string;
+    name: string;
+    price: number;
+    targetPrice: number;
+    store: string;
+    chain: string;
+    productId?: string;
+    created_at: string;
+    read: boolean;
+}
+
+// --- Catalog Types ---
+
+export type CatalogCategory = 'groceries' | 'fruit' | 'vegetable' | 'meat' | 'dairy' | 'bakery' | 'pantry' | 'snack' | 'beverage';
+
+/**
+ * A canonical item from GET /api/catalog
+ */
+export interface CatalogItem {
+    id: string;
+    name: { no: string; en: string };
+    emoji: string;
+    category: CatalogCategory;
+    trending?: boolean;
+    synonyms: string[];
+    syncQueries?: string[];
+    negativeKeywords?: string[];
+    /** Priced daily in the backend's price index */
+    indexed: boolean;
+}
+
 // --- Comparison Service Types ---
 
 export interface StoreComparison {
     total: number;
+    deposit?: number; // Bottle deposit (pant) included in total
     items: Array<{
         name: string;
         found: boolean;
         price?: number;
+        deposit?: number;
+        unitPrice?: number;
+        unitPriceUnit?: UnitPriceUnit;
         productId?: string | number;
         quantity: number;
         englishName?: string;
@@ -75,16 +203,17 @@ export interface StoreComparison {
     }>;
 }
 
+export interface ItemPrice {
+    storeName: string;
+    price: number;
+    unitPrice?: number;
+    unitPriceUnit?: UnitPriceUnit;
+}
+
 export interface ItemComparison {
     itemName: string;
-    cheapest: {
-        storeName: string;
-        price: number;
-    } | null;
-    prices: Array<{
-        storeName: string;
-        price: number;
-    }>;
+    cheapest: ItemPrice | null; // Lowest unit price when sizes are known, otherwise lowest price
+    prices: ItemPrice[];
 }
 
 export interface ComparisonResult {
@@ -97,9 +226,29 @@ export interface ComparisonResult {
 
 // --- Route Service Types ---
 
+export type PromotionRule =
+    | { type: 'percentage'; percent: number }
+    | { type: 'fixed_price'; unitPrice: number }
+    | { type: 'multi_buy'; buy: number; pay?: number; groupPrice?: number };
+
 export interface ProductWithPrice extends Product {
     totalPrice: number;
     quantity: number;
+    priceLevel?: 'branch' | 'chain' | 'parent'; // 'branch' = priced at this exact store
+    regularTotalPrice?: number; // Line total before the applied promotion
+    discount?: number; // Kroner saved on this line
+    appliedPromotion?: {
+        chain: string;
+        product_name: string;
+        label: string;
+        discount_type: string;
+        rule: PromotionRule;
+        extraCost: number; // Per-package surcharge from the offer besides deposit
+        discount: number;
+    };
+    depositTotal?: number; // Deposit included in totalPrice
+    extraCostTotal?: number;
+    requested?: { amount: number; unit: 'kg' | 'l' | 'stk' }; // Amount asked for; quantity is the packages covering it
 }
 
 export interface OptimizeRouteRequest {
@@ -108,13 +257,16 @@ export interface OptimizeRouteRequest {
     maxStores: number;
     maxDistance: number;
     excludedChains?: string[];
-    sortBy?: 'cheapest' | 'closest' | 'stops';
+    sortBy?: 'cheapest' | 'closest' | 'stops' | 'unitPrice';
 }
 
 export interface SingleStoreOption {
     store: Store;
     items: ProductWithPrice[];
     totalCost: number;
+    totalDiscount?: number; // Promotion savings included in totalCost
+    totalDeposit?: number; // Deposit included in totalCost
+    totalExtraCost?: number;
     distance: number;
     availabilityScore?: number;
     missingItems?: string[];
@@ -130,6 +282,9 @@ export interface MultiStoreOption {
         missingItems?: string[];
     }>;
     totalCost: number;
+    totalDiscount?: number;
+    totalDeposit?: number;
+    totalExtraCost?: number;
     totalDistance: number;
     savings: number;
     savingsPercent: number;
@@ -166,10 +321,13 @@ export interface ApiErrorResponse {
 export interface Offer {
     product_name: string;
     product_name_en: string;
+    category: string;
     discount_type: 'percentage' | 'fixed_price' | 'multi_buy';
     discount_percent?: number;
     discount_value?: string;
     final_price?: number;
+    /** Regular shelf price, or null when neither the flyer nor the discount gives it */
+    original_price?: number | null;
     currency?: string;
     label: string;
     unit_info?: string;
@@ -177,6 +335,60 @@ export interface Offer {
     brand?: string;
     chain: string;
     additional_cost?: string;
+    /** First and last day the deal applies (YYYY-MM-DD) */
+    valid_from?: string;
+    valid_to?: string;
+    /** The deal ends within two days */
+    ending_soon?: boolean;
+    /** ISO week the offer was imported for (e.g. "2026-W43") */
+    week?: string;
+}
+
+export interface OffersResponse {
+    success: boolean;
+    offers: Offer[];
+}
+
+// --- Admin ---
+
+export type ReportStatus = 'open' | 'resolved' | 'rejected';
+
+/**
+ * A submitted mismatch report, as listed by the admin API
+ */
+export interface MismatchReport {
+    id: string;
+    store_id: string;
+    store_name: string;
+    store_chain?: string;
+    requested_item_name: string;
+    matched_item_name: string;
+    requested_item_id?: string;
+    matched_item_id?: string;
+    report_reason: string;
+    optional_note?: string;
+    session_id: string;
+    created_at: string;
+    status: ReportStatus;
+    resolution_note?: string;
+    resolved_at?: string;
+}
+
+export interface ReportFilters {
+    /** Store id, or part of the store name */
+    store?: string;
+    reason?: string;
+    status?: ReportStatus;
+    /** YYYY-MM-DD, inclusive */
+    from?: string;
+    to?: string;
+}
+
+export interface ReportStats {
+    total: number;
+    byStatus: Record<ReportStatus, number>;
+    byReason: Array<{ reason: string; count: number }>;
+    byStore: Array<{ store_id: string; store_name: string; count: number; open: number }>;
 }
 
 // --- End of Types ---
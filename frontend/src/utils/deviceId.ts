@@ -0,0 +1,35 @@
+/**
+ * Anonymous device ID for the watchlist. There are no accounts, so a random UUID
+ * is generated on first use and kept in localStorage.
+ */
+
+const STORAGE_KEY = 'smarthandel_device_id';
+let fallbackId: string | null = null;
+
+const generateId = (): string => {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    // Fallback for older browsers: RFC 4122 version 4 layout from Math.random
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+        const r = Math.random() * 16 | 0;
+        return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+    });
+};
+
+/**
+ * Returns this device's ID, creating it on first call
+ */
+export function getDeviceId(): string {
+    try {
+        const existing = localStorage.getItem(STORAGE_KEY);
+        if (existing) return existing;
+        const id = generateId();
+        localStorage.setItem(STORAGE_KEY, id);
+        return id;
+    } catch {
+        // Storage blocked (private mode): the watchlist only lasts for this page load
+        fallbackId ??= generateId();
+        return fallbackId;
+    }
+}
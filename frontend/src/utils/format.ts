@@ -21,6 +21,35 @@ export function formatCurrency(amount: number, currency = 'NOK'): string {
         .trim() + ' kr'; // Append kr suffix preferred in Norway
 }
 
+/**
+ * Formats a comparison price per kg, liter or piece
+ * @param unitPrice Price per unit
+ * @param unit Unit label from the API ('kr/kg', 'kr/l' or 'kr/stk')
+ * @returns Formatted string (e.g., "24,90 kr/kg")
+ */
+export function formatUnitPrice(unitPrice: number, unit: string): string {
+    return formatCurrency(unitPrice).replace(/ kr$/, ` ${unit}`);
+}
+
+/**
+ * Formats a package size or amount in kg, l or stk the way it's printed on Norwegian packaging
+ * @returns Formatted string (e.g., "400 g", "1,75 l", "12 stk")
+ */
+export function formatAmount(amount: number, unit: 'kg' | 'l' | 'stk'): string {
+    const format = (value: number) => new Intl.NumberFormat('nb-NO', { maximumFractionDigits: 2 }).format(value);
+    if (unit === 'kg' && amount < 1) return `${format(amount * 1000)} g`;
+    return `${format(amount)} ${unit}`;
+}
+
+/**
+ * Formats how many packages of which size a line buys
+ * @returns Formatted string (e.g., "2 × 1 l"), or null when the package size is unknown
+ */
+export function formatPackagePlan(packages: number, attributes?: { netQuantity?: number; netUnit?: 'kg' | 'l' | 'stk' }): string | null {
+    if (!attributes?.netQuantity || !attributes.netUnit) return null;
+    return `${packages} × ${formatAmount(attributes.netQuantity, attributes.netUnit)}`;
+}
+
 /**
  * Formats distance in meters to kilometers or meters
  * @param meters Distance in meters
@@ -0,0 +1,60 @@
+/**
+ * Client-side mirror of the backend promotion pricing (backend/src/services/promotionPricing.ts),
+ * so line totals stay correct when the quantity is changed on a store card.
+ */
+import type { ProductWithPrice, PromotionRule } from '../types';
+
+/**
+ * Line total for `quantity` units at `unitPrice` under a rule; never more than the regular price.
+ */
+export function priceWithRule(unitPrice: number, quantity: number, rule: PromotionRule): number {
+    const regular = unitPrice * quantity;
+    let total = regular;
+
+    if (rule.type === 'percentage') {
+        total = regular * (1 - rule.percent / 100);
+    } else if (rule.type === 'fixed_price') {
+        total = Math.min(unitPrice, rule.unitPrice) * quantity;
+    } else {
+        const groups = Math.floor(quantity / rule.buy);
+        const rest = quantity - groups * rule.buy;
+        const groupRegular = unitPrice * rule.buy;
+        const groupPrice = rule.pay !== undefined ? unitPrice * rule.pay : (rule.groupPrice ?? groupRegular);
+        total = groups * Math.min(groupPrice, groupRegular) + rest * unitPrice;
+    }
+
+    return Math.round(Math.min(total, regular) * 100) / 100;
+}
+
+/**
+ * Line total for an item at the given quantity, with its applied promotion (if any).
+ * Offer prices exclude the deposit, so it is added back undiscounted along with any offer surcharge.
+ */
+export function getLineTotal(item: ProductWithPrice, quantity: number): number {
+    if (!item.appliedPromotion) return item.price * quantity;
+
+    const deposit = item.deposit || 0;
+    const goods = priceWithRule(Math.max(0, item.price - deposit), quantity, item.appliedPromotion.rule);
+    return Math.round((goods + (deposit + item.appliedPromotion.extraCost) * quantity) * 100) / 100;
+}
+
+/**
+ * Deposit (pant) included in the line total at the given quantity.
+ */
+export function getLineDeposit(item: ProductWithPrice, quantity: number): number {
+    return Math.round((item.deposit || 0) * quantity * 100) / 100;
+}
+
+/**
+ * Offer surcharges (other than deposit) included in the line total at the given quantity.
+ */
+export function getLineExtraCost(item: ProductWithPrice, quantity: number): number {
+    return item.appliedPromotion ? Math.round(item.appliedPromotion.extraCost * quantity * 100) / 100 : 0;
+}
+
+/**
+ * Kroner the applied promotion saves on the line at the given quantity (0 when none applies).
+ */
+export function getLineDiscount(item: ProductWithPrice, quantity: number): number {
+    return Math.round((item.price * quantity - getLineTotal(item, quantity)) * 100) / 100;
+}
@@ -0,0 +1,41 @@
+import api from '../services/api';
+
+/**
+ * Whether this browser can receive Web Push notifications
+ */
+export function isPushSupported(): boolean {
+    return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+// VAPID keys are URL-safe base64; PushManager wants the raw bytes
+const urlBase64ToUint8Array = (base64: string): Uint8Array<ArrayBuffer> => {
+    const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+    const raw = atob(padded);
+    const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+    for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+    return bytes;
+};
+
+/**
+ * Asks for notification permission and registers this device for price alert pushes.
+ * @returns false when push isn't supported, not configured on the server, or permission was refused
+ */
+export async function enablePushAlerts(): Promise<boolean> {
+    if (!isPushSupported()) return false;
+
+    const publicKey = await api.getPushKey();
+    if (!publicKey) return false;
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') return false;
+
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription()
+        || await registration.pushManager.subscribe({
+            userVisibleOnly: true,
+            applicationServerKey: urlBase64ToUint8Array(publicKey),
+        });
+
+    await api.registerPush(subscription.toJSON());
+    return true;
+}
@@ -66,6 +66,8 @@ export default defineConfig(({ mode }) => {
           skipWaiting: true,
           // Precache the app shell
           globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
+          // Push and notification click handlers for watchlist price alerts
+          importScripts: ['push-sw.js'],
           // Increase cache limit to 10MB to support high-res offer screenshots
           maximumFileSizeToCacheInBytes: 10 * 1024 * 1024,
           // Runtime caching for external resources